@@ -1,16 +1,46 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import DocumentView from "@/pages/DocumentView";
+import Login from "@/pages/Login";
+import Verify from "@/pages/Verify";
 import Header from "@/components/layout/Header";
 import AuditLogModal from "@/components/modals/AuditLogModal";
 import ImportDocumentModal from "@/components/modals/ImportDocumentModal";
 import ShareDocumentModal from "@/components/modals/ShareDocumentModal";
+import StampProfilesModal from "@/components/modals/StampProfilesModal";
+import CompanyModal from "@/components/modals/CompanyModal";
+import VersionDiffModal from "@/components/modals/VersionDiffModal";
+import SignatureRequestModal from "@/components/modals/SignatureRequestModal";
+import SignaturePadModal from "@/components/modals/SignaturePadModal";
+import QuarantineModal from "@/components/modals/QuarantineModal";
+import { useAuth } from "@/hooks/use-auth";
 
 function Router() {
+  const { user, isLoading } = useAuth();
+  const [location] = useLocation();
+
+  // Public verification page, reachable without a session
+  if (location === "/verify") {
+    return <Verify />;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-[calc(100vh-80px)]">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  // Every page requires a session; the requested URL is kept for after login
+  if (!user) {
+    return <Login />;
+  }
+
   return (
     <Switch>
       <Route path="/" component={Home} />
@@ -36,6 +66,12 @@ function App() {
       <AuditLogModal />
       <ImportDocumentModal />
       <ShareDocumentModal />
+      <StampProfilesModal />
+      <CompanyModal />
+      <VersionDiffModal />
+      <SignatureRequestModal />
+      <SignaturePadModal />
+      <QuarantineModal />
     </QueryClientProvider>
   );
 }
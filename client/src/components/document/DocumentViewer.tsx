@@ -1,21 +1,86 @@
 import { useState, useEffect, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { 
   ZoomIn, 
   ZoomOut, 
-  Maximize 
+  Maximize,
+  ChevronLeft,
+  ChevronRight,
+  Signature
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Document } from '@shared/schema';
+import PdfPage from '@/components/document/PdfPage';
+import SignatureFieldsLayer from '@/components/document/SignatureFieldsLayer';
+import { DocumentMetadata, DocumentVersionEntry, SignatureFieldEntry } from '@shared/schema';
 import { fr } from '@/lib/i18n/french';
+import { useAuth } from '@/hooks/use-auth';
+import { usePdfDocument } from '@/hooks/use-pdf-document';
+import { zoomToScale } from '@/lib/pdf';
+import { isContentWithheld } from '@/lib/utils/document';
+
+// Scale of the page thumbnails, independent of the zoom
+const THUMBNAIL_SCALE = 0.2;
 
 type DocumentViewerProps = {
-  document: Document;
+  document: DocumentMetadata;
+  // Prior version to display as stored, instead of the current copy
+  version?: DocumentVersionEntry | null;
+  onBackToCurrent?: () => void;
 };
 
-export default function DocumentViewer({ document }: DocumentViewerProps) {
+export default function DocumentViewer({ document, version, onBackToCurrent }: DocumentViewerProps) {
   const [zoom, setZoom] = useState('100');
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [isPlacingField, setIsPlacingField] = useState(false);
   const viewerRef = useRef<HTMLDivElement>(null);
+  const { user } = useAuth();
+
+  const isPdf = (version?.contentType ?? document.contentType) === 'application/pdf';
+  // The server withholds every version while the malware scan is pending, or after it failed or found a threat
+  const scanStatus = document.scanStatus;
+  const isWithheld = isContentWithheld(scanStatus);
+  // Bytes are streamed by the content endpoint (and re-fetched when the document changes, e.g. after signing);
+  // versions are immutable and streamed as stored
+  const contentUrl = !isPdf || isWithheld
+    ? null
+    : version
+      ? `/api/documents/${document.id}/versions/${version.id}/content`
+      : `/api/documents/${document.id}/content?v=${new Date(document.updatedAt).getTime()}`;
+  const { pdf, error, isLoading } = usePdfDocument(contentUrl);
+  const pageCount = pdf?.numPages ?? 0;
+
+  // Signature fields are placed on the current copy, until the document is signed or a request is sent
+  const { data: signatureFields = [] } = useQuery<SignatureFieldEntry[]>({
+    queryKey: [`/api/documents/${document.id}/signature-fields`],
+    enabled: isPdf && !version,
+  });
+  const canEditFields = isPdf && !version && document.creatorId === user?.id
+    && !document.isSigned && document.signatureStatus !== 'awaiting_signatures';
+
+  useEffect(() => {
+    if (!canEditFields) {
+      setIsPlacingField(false);
+    }
+  }, [canEditFields]);
+
+  useEffect(() => {
+    setPageNumber(1);
+  }, [pdf]);
+
+  useEffect(() => {
+    setPageInput(String(pageNumber));
+  }, [pageNumber]);
+
+  const goToPage = (page: number) => {
+    if (page >= 1 && page <= pageCount) {
+      setPageNumber(page);
+    } else {
+      setPageInput(String(pageNumber));
+    }
+  };
 
   const handleZoomIn = () => {
     const zoomValues = ['50', '75', '100', '125', '150'];
@@ -35,30 +100,77 @@ export default function DocumentViewer({ document }: DocumentViewerProps) {
 
   const handleFullscreen = () => {
     if (viewerRef.current) {
-      if (document.fullscreenElement) {
-        document.exitFullscreen();
+      // The document prop shadows the global DOM document
+      if (window.document.fullscreenElement) {
+        window.document.exitFullscreen();
       } else {
         viewerRef.current.requestFullscreen();
       }
     }
   };
 
-  // This would use PDF.js in a real implementation
-  useEffect(() => {
-    // Load PDF document
-    if (document && document.contentType === 'application/pdf') {
-      // In a real app, this would use PDF.js to render the PDF
-    }
-  }, [document]);
-
   return (
     <div className="flex-grow">
       <div className="bg-secondary rounded-lg shadow-lg p-4 h-full">
         {/* Document Toolbar */}
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-lg font-medium text-primary">{document.name}</h2>
+          <div>
+            <h2 className="text-lg font-medium text-primary">{document.name}</h2>
+            {version && (
+              <p className="text-text-secondary text-sm">
+                {fr.document.viewingVersion} {fr.sidebar.version} {version.version}
+                {onBackToCurrent && (
+                  <Button variant="link" className="text-primary h-auto p-0 ml-2" onClick={onBackToCurrent}>
+                    {fr.document.backToCurrent}
+                  </Button>
+                )}
+              </p>
+            )}
+          </div>
           
           <div className="flex space-x-2">
+            {canEditFields && pageCount > 0 && (
+              <Button
+                variant="ghost"
+                className={`p-2 rounded transition-colors ${isPlacingField ? 'text-primary bg-surface' : 'text-text-secondary hover:text-primary'}`}
+                title={isPlacingField ? fr.signatureFields.placing : fr.signatureFields.place}
+                aria-pressed={isPlacingField}
+                onClick={() => setIsPlacingField(!isPlacingField)}
+              >
+                <Signature className="h-5 w-5" />
+              </Button>
+            )}
+            {pageCount > 0 && (
+              <div className="flex items-center mr-4">
+                <Button 
+                  variant="ghost" 
+                  className="text-text-secondary hover:text-primary p-2 rounded transition-colors" 
+                  title={fr.document.previousPage}
+                  onClick={() => goToPage(pageNumber - 1)}
+                  disabled={pageNumber <= 1}
+                >
+                  <ChevronLeft className="h-5 w-5" />
+                </Button>
+                <Input
+                  className="bg-surface text-text-primary w-14 text-center"
+                  value={pageInput}
+                  onChange={(e) => setPageInput(e.target.value)}
+                  onBlur={() => goToPage(parseInt(pageInput))}
+                  onKeyDown={(e) => e.key === 'Enter' && goToPage(parseInt(pageInput))}
+                  aria-label={fr.document.page}
+                />
+                <span className="text-text-secondary text-sm mx-2">/ {pageCount}</span>
+                <Button 
+                  variant="ghost" 
+                  className="text-text-secondary hover:text-primary p-2 rounded transition-colors" 
+                  title={fr.document.nextPage}
+                  onClick={() => goToPage(pageNumber + 1)}
+                  disabled={pageNumber >= pageCount}
+                >
+                  <ChevronRight className="h-5 w-5" />
+                </Button>
+              </div>
+            )}
             <Button 
               variant="ghost" 
               className="text-text-secondary hover:text-primary p-2 rounded transition-colors" 
@@ -98,28 +210,64 @@ export default function DocumentViewer({ document }: DocumentViewerProps) {
           </div>
         </div>
         
-        {/* Document Content Area */}
-        <div 
-          ref={viewerRef}
-          className="document-viewer h-[calc(100vh-240px)] overflow-auto bg-surface rounded p-6"
-          style={{ transform: `scale(${parseInt(zoom) / 100})`, transformOrigin: 'top center' }}
-        >
-          <div className="document-page w-full max-w-[600px] h-[842px] bg-white relative mx-auto">
-            {/* This would be replaced with actual document content from PDF.js */}
-            <div className="text-black p-8">
-              {document.content ? (
-                <div dangerouslySetInnerHTML={{ __html: document.content }} />
-              ) : (
-                <div className="text-center text-gray-400 h-full flex flex-col justify-center">
-                  <p>{fr.document.noContent}</p>
-                </div>
-              )}
-            </div>
-            
-            {/* Token Watermark - Bottom of the document page */}
-            <div className="absolute bottom-2 left-0 w-full text-center text-gray-400 text-opacity-50 text-xs">
-              TOKEN: {document.token}
+        <div className="flex gap-4">
+          {/* Page thumbnails */}
+          {pdf && pageCount > 1 && (
+            <div className="hidden md:flex flex-col gap-3 h-[calc(100vh-240px)] overflow-y-auto pr-2 w-40 shrink-0" aria-label={fr.document.pages}>
+              {Array.from({ length: pageCount }, (_, index) => index + 1).map((page) => (
+                <button
+                  key={page}
+                  className={`flex flex-col items-center rounded p-1 border-2 ${
+                    page === pageNumber ? 'border-primary' : 'border-transparent hover:border-accent'
+                  }`}
+                  onClick={() => setPageNumber(page)}
+                >
+                  <PdfPage pdf={pdf} pageNumber={page} scale={THUMBNAIL_SCALE} lazy className="min-h-[100px] min-w-[70px]" />
+                  <span className="text-text-secondary text-xs mt-1">{page}</span>
+                </button>
+              ))}
             </div>
+          )}
+
+          {/* Document Content Area */}
+          <div 
+            ref={viewerRef}
+            className="document-viewer flex-grow h-[calc(100vh-240px)] overflow-auto bg-surface rounded p-6"
+          >
+            {pdf ? (
+              <PdfPage
+                pdf={pdf}
+                pageNumber={pageNumber}
+                scale={zoomToScale(parseInt(zoom))}
+                withTextLayer
+                className="document-page mx-auto"
+              >
+                {/* Token Watermark - Bottom of the document page */}
+                <div className="absolute bottom-2 left-0 w-full text-center text-gray-400 text-opacity-50 text-xs pointer-events-none">
+                  TOKEN: {document.token}
+                </div>
+                {!version && (
+                  <SignatureFieldsLayer
+                    documentId={document.id}
+                    pageNumber={pageNumber}
+                    fields={signatureFields.filter(field => !field.signatureId)}
+                    isPlacing={isPlacingField}
+                    canEdit={canEditFields}
+                    onPlaced={() => setIsPlacingField(false)}
+                  />
+                )}
+              </PdfPage>
+            ) : (
+              <div className="text-center text-text-secondary h-full flex flex-col justify-center">
+                {isWithheld ? (
+                  <p className={scanStatus === 'pending' ? '' : 'text-error'}>{fr.scan.withheld[scanStatus]}</p>
+                ) : isLoading ? (
+                  <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full mx-auto"></div>
+                ) : (
+                  <p>{error ? fr.document.loadError : fr.document.noContent}</p>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
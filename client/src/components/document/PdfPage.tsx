@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from 'react';
+import { TextLayer, RenderingCancelledException, type PDFDocumentProxy } from '@/lib/pdf';
+
+type PdfPageProps = {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  scale: number;
+  // Selectable text over the canvas (disabled for thumbnails)
+  withTextLayer?: boolean;
+  // Render only once the page scrolls into view
+  lazy?: boolean;
+  className?: string;
+  children?: React.ReactNode;
+};
+
+export default function PdfPage({
+  pdf,
+  pageNumber,
+  scale,
+  withTextLayer = false,
+  lazy = false,
+  className = '',
+  children
+}: PdfPageProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(!lazy);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    if (!lazy || !containerRef.current) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, [lazy]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    let cancelled = false;
+    let cleanup = () => {};
+
+    pdf.getPage(pageNumber).then((page) => {
+      if (cancelled || !canvasRef.current) return;
+
+      const viewport = page.getViewport({ scale });
+      const outputScale = window.devicePixelRatio || 1;
+      const canvas = canvasRef.current;
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      setSize({ width: viewport.width, height: viewport.height });
+
+      const renderTask = page.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+      });
+      renderTask.promise.catch((err) => {
+        if (!(err instanceof RenderingCancelledException)) {
+          console.error(err);
+        }
+      });
+
+      let textLayer: TextLayer | undefined;
+      if (withTextLayer && textLayerRef.current) {
+        textLayerRef.current.replaceChildren();
+        textLayer = new TextLayer({
+          textContentSource: page.streamTextContent(),
+          container: textLayerRef.current,
+          viewport
+        });
+        textLayer.render().catch(() => {});
+      }
+
+      cleanup = () => {
+        renderTask.cancel();
+        textLayer?.cancel();
+      };
+    });
+
+    return () => {
+      cancelled = true;
+      cleanup();
+    };
+  }, [pdf, pageNumber, scale, withTextLayer, isVisible]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative bg-white shadow ${className}`}
+      style={{
+        width: size?.width,
+        height: size?.height,
+        // Used by the PDF.js text layer to position and size the text spans
+        ['--scale-factor' as string]: scale
+      }}
+    >
+      <canvas ref={canvasRef} className="block" style={{ width: size?.width, height: size?.height }} />
+      {withTextLayer && <div ref={textLayerRef} className="textLayer" />}
+      {children}
+    </div>
+  );
+}
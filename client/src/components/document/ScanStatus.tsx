@@ -0,0 +1,73 @@
+import { useMutation } from '@tanstack/react-query';
+import { Loader2, RefreshCw, ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DocumentMetadata, ScanStatus as ScanStatusValue } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { fr } from '@/lib/i18n/french';
+
+type ScanStatusProps = {
+  document: DocumentMetadata;
+};
+
+const SCAN_STATUS_CLASSES: Record<ScanStatusValue, string> = {
+  not_scanned: 'text-text-secondary',
+  pending: 'text-warning',
+  clean: 'text-success',
+  infected: 'text-error',
+  failed: 'text-error'
+};
+
+const SCAN_STATUS_ICONS: Record<ScanStatusValue, typeof ShieldCheck> = {
+  not_scanned: ShieldQuestion,
+  pending: Loader2,
+  clean: ShieldCheck,
+  infected: ShieldAlert,
+  failed: ShieldAlert
+};
+
+// Malware scan result of the current file, with a retry when the scanner could not be reached
+export default function ScanStatus({ document }: ScanStatusProps) {
+  const { toast } = useToast();
+  const status = document.scanStatus as ScanStatusValue;
+  const Icon = SCAN_STATUS_ICONS[status];
+
+  const retryScan = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/documents/${document.id}/scan`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${document.id}`] });
+      toast({ title: fr.scan.retried });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: fr.common.error,
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <div>
+      <h3 className="text-sm text-text-secondary mb-1">{fr.scan.title}</h3>
+      <div className="flex items-center justify-between">
+        <p className={`text-sm flex items-center ${SCAN_STATUS_CLASSES[status]}`}>
+          <Icon className={`h-4 w-4 mr-1 shrink-0 ${status === 'pending' ? 'animate-spin' : ''}`} />
+          {fr.scan.statuses[status]}
+        </p>
+        {status === 'failed' && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-text-secondary hover:text-primary p-1 h-auto"
+            title={fr.scan.retry}
+            onClick={() => retryScan.mutate()}
+            disabled={retryScan.isPending}
+          >
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,65 @@
-import { Clock, CheckCircle, History } from 'lucide-react';
+import { useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CheckCircle, History, Eye, Download, Upload, GitCompare, Anchor } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Document } from '@shared/schema';
+import SignatureWorkflowPanel from '@/components/document/SignatureWorkflowPanel';
+import ScanStatus from '@/components/document/ScanStatus';
+import { DocumentDetails, DocumentVersionEntry, VersionReason } from '@shared/schema';
 import { fr } from '@/lib/i18n/french';
 import { useModal } from '@/lib/utils/modals';
-import { formatDateToFrench } from '@/lib/utils/document';
+import { formatDateToFrench, isContentWithheld } from '@/lib/utils/document';
 
 type SidebarProps = {
-  document: Document;
+  document: DocumentDetails;
   onSignDocument: () => void;
+  // Version shown in the viewer, null for the current copy
+  viewedVersionId: number | null;
+  onViewVersion: (version: DocumentVersionEntry | null) => void;
+  onReplaceFile: (file: File) => void;
+  isReplacing: boolean;
 };
 
-export default function Sidebar({ document, onSignDocument }: SidebarProps) {
+export default function Sidebar({
+  document,
+  onSignDocument,
+  viewedVersionId,
+  onViewVersion,
+  onReplaceFile,
+  isReplacing
+}: SidebarProps) {
   const { openModal } = useModal();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: versions = [] } = useQuery<DocumentVersionEntry[]>({
+    queryKey: [`/api/documents/${document.id}/versions`],
+  });
   
   const handleViewAuditLog = () => {
     openModal('auditLog', { documentId: document.id });
   };
 
+  // Compare the two most recent versions by default
+  const handleCompareVersions = () => {
+    openModal('versionDiff', {
+      documentId: document.id,
+      fromId: versions[versions.length - 2].id,
+      toId: versions[versions.length - 1].id
+    });
+  };
+
+  // Saves the inclusion proof of the current version, to be checked offline with npm run anchor:verify
+  const handleDownloadProof = () => {
+    const blob = new Blob([JSON.stringify(document.inclusionProof, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = `inclusion_proof_${document.uid}.json`;
+    window.document.body.appendChild(a);
+    a.click();
+    window.document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   // Format the dates
   const creationDate = formatDateToFrench(document.createdAt);
   const lastModified = formatDateToFrench(document.updatedAt);
@@ -51,6 +94,33 @@ export default function Sidebar({ document, onSignDocument }: SidebarProps) {
             <p className="text-text-primary">{document.size || fr.sidebar.unknown}</p>
           </div>
           
+          {/* Malware scan of the current file */}
+          <ScanStatus document={document} />
+
+          {/* Registry anchoring of the current version */}
+          <div>
+            <h3 className="text-sm text-text-secondary mb-1">{fr.sidebar.anchoring}</h3>
+            {document.inclusionProof ? (
+              <div className="flex items-center justify-between">
+                <p className="text-text-primary text-sm flex items-center" title={document.inclusionProof.root}>
+                  <Anchor className="h-4 w-4 mr-1 shrink-0" />
+                  {fr.sidebar.anchoredAt} {formatDateToFrench(document.inclusionProof.anchoredAt)}
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-text-secondary hover:text-primary p-1 h-auto"
+                  title={fr.sidebar.downloadProof}
+                  onClick={handleDownloadProof}
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <p className="text-text-secondary text-sm">{fr.sidebar.anchorPending}</p>
+            )}
+          </div>
+
           <div>
             <h3 className="text-sm text-text-secondary mb-1">{fr.sidebar.createdBy}</h3>
             <div className="flex items-center">
@@ -61,24 +131,94 @@ export default function Sidebar({ document, onSignDocument }: SidebarProps) {
             </div>
           </div>
           
-          {/* Signature Status */}
-          <div>
-            <h3 className="text-sm text-text-secondary mb-1">{fr.sidebar.signatureStatus}</h3>
-            <div className="flex items-center">
-              {document.isSigned ? (
-                <>
-                  <CheckCircle className="h-4 w-4 text-success mr-1" />
-                  <p className="text-success">{fr.sidebar.signed}</p>
-                </>
-              ) : (
-                <>
-                  <Clock className="h-4 w-4 text-warning mr-1" />
-                  <p className="text-warning">{fr.sidebar.notSigned}</p>
-                </>
+          {/* Signature Status and workflow */}
+          <SignatureWorkflowPanel document={document} />
+          
+          {/* Version history, most recent first */}
+          {versions.length > 0 && (
+            <div>
+              <h3 className="text-sm text-text-secondary mb-1">{fr.sidebar.versions}</h3>
+              <ul className="space-y-2 max-h-60 overflow-y-auto">
+                {[...versions].reverse().map((version) => {
+                  const isCurrent = version.id === document.currentVersionId;
+                  const isViewed = viewedVersionId === version.id || (viewedVersionId === null && isCurrent);
+                  return (
+                    <li
+                      key={version.id}
+                      className={`bg-surface rounded p-2 text-xs border ${isViewed ? 'border-primary' : 'border-transparent'}`}
+                    >
+                      <div className="flex justify-between items-center">
+                        <p className="text-text-primary font-medium">
+                          {fr.sidebar.version} {version.version}
+                          {isCurrent && <span className="text-text-secondary font-normal"> ({fr.sidebar.current})</span>}
+                        </p>
+                        <div className="flex items-center">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-text-secondary hover:text-primary p-1 h-auto"
+                            title={fr.sidebar.viewVersion}
+                            onClick={() => onViewVersion(isCurrent ? null : version)}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <a
+                            href={`/api/documents/${document.id}/versions/${version.id}/download`}
+                            className="text-text-secondary hover:text-primary p-1"
+                            title={fr.sidebar.downloadVersion}
+                          >
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </div>
+                      </div>
+                      <p className="text-text-secondary">
+                        {fr.sidebar.versionReasons[version.reason as VersionReason] ?? version.reason}
+                        {version.creatorName && ` · ${version.creatorName}`}
+                      </p>
+                      <p className="text-text-secondary">
+                        {formatDateToFrench(version.createdAt)}{version.size && ` · ${version.size}`}
+                      </p>
+                      <p className="text-text-secondary font-mono truncate" title={version.hash}>{version.hash}</p>
+                    </li>
+                  );
+                })}
+              </ul>
+              {versions.length > 1 && (
+                <Button
+                  variant="outline"
+                  className="w-full mt-2 bg-surface hover:bg-surface/80 text-text-primary py-2 px-4 rounded flex items-center justify-center transition-colors"
+                  onClick={handleCompareVersions}
+                >
+                  <GitCompare className="mr-2 h-4 w-4" />
+                  {fr.sidebar.compareVersions}
+                </Button>
               )}
             </div>
-          </div>
-          
+          )}
+
+          {/* Replace File Button: the new file becomes the current version */}
+          <Button
+            variant="outline"
+            className="w-full mt-2 bg-surface hover:bg-surface/80 text-text-primary py-2 px-4 rounded flex items-center justify-center transition-colors"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isReplacing}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {isReplacing ? fr.sidebar.replacing : fr.sidebar.replaceFile}
+          </Button>
+          <input
+            type="file"
+            accept={document.contentType}
+            className="hidden"
+            ref={fileInputRef}
+            onChange={(e) => {
+              if (e.target.files && e.target.files.length > 0) {
+                onReplaceFile(e.target.files[0]);
+              }
+              e.target.value = '';
+            }}
+          />
+
           {/* Audit Log Button */}
           <Button 
             variant="outline"
@@ -89,8 +229,8 @@ export default function Sidebar({ document, onSignDocument }: SidebarProps) {
             {fr.sidebar.auditLog}
           </Button>
           
-          {/* Sign Button (conditionally visible) */}
-          {!document.isSigned && (
+          {/* Sign Button (conditionally visible): hidden while a signature request is in progress or the content is withheld */}
+          {!document.isSigned && document.signatureStatus !== 'awaiting_signatures' && !isContentWithheld(document.scanStatus) && (
             <Button 
               className="w-full mt-2 bg-primary text-white hover:bg-primary/90"
               onClick={onSignDocument}
@@ -0,0 +1,218 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SignatureFieldEntry } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { fr } from '@/lib/i18n/french';
+
+// Box in fractions of the page, from the top-left corner
+type FieldRect = { x: number; y: number; width: number; height: number };
+
+// Smallest box kept at the end of a drag, as a fraction of the page
+const MIN_FIELD_SIZE = 0.02;
+
+type SignatureFieldsLayerProps = {
+  documentId: number;
+  pageNumber: number;
+  // Unsigned fields of the document; signed ones are drawn in the PDF itself
+  fields: SignatureFieldEntry[];
+  // Dragging on the page draws a new field
+  isPlacing: boolean;
+  canEdit: boolean;
+  onPlaced: () => void;
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Overlay of the signature fields of a page, also used to draw new fields
+export default function SignatureFieldsLayer({
+  documentId,
+  pageNumber,
+  fields,
+  isPlacing,
+  canEdit,
+  onPlaced
+}: SignatureFieldsLayerProps) {
+  const { toast } = useToast();
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<FieldRect | null>(null);
+  const [isDrawn, setIsDrawn] = useState(false);
+  const [signerEmail, setSignerEmail] = useState('');
+
+  // A drawn box belongs to the page it was drawn on
+  useEffect(() => {
+    setDraft(null);
+    setIsDrawn(false);
+  }, [pageNumber, isPlacing]);
+
+  const refreshFields = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/signature-fields`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/auditlogs`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: fr.common.error,
+      description: error.message,
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (rect: FieldRect) => apiRequest('POST', `/api/documents/${documentId}/signature-fields`, {
+      signer: signerEmail.trim(),
+      page: pageNumber,
+      x: Number(rect.x.toFixed(4)),
+      y: Number(rect.y.toFixed(4)),
+      width: Number(rect.width.toFixed(4)),
+      height: Number(rect.height.toFixed(4))
+    }),
+    onSuccess: () => {
+      refreshFields();
+      setDraft(null);
+      setIsDrawn(false);
+      setSignerEmail('');
+      toast({ title: fr.signatureFields.added });
+      onPlaced();
+    },
+    onError
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (fieldId: number) => apiRequest('DELETE', `/api/documents/${documentId}/signature-fields/${fieldId}`),
+    onSuccess: () => {
+      refreshFields();
+      toast({ title: fr.signatureFields.removed });
+    },
+    onError
+  });
+
+  const toFraction = (e: React.PointerEvent) => {
+    const bounds = layerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - bounds.left) / bounds.width),
+      y: clamp((e.clientY - bounds.top) / bounds.height)
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!isPlacing || createMutation.isPending) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toFraction(e);
+    setDragStart(point);
+    setDraft({ ...point, width: 0, height: 0 });
+    setIsDrawn(false);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    const point = toFraction(e);
+    setDraft({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y)
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!dragStart) return;
+    setDragStart(null);
+    if (draft && draft.width >= MIN_FIELD_SIZE && draft.height >= MIN_FIELD_SIZE) {
+      setIsDrawn(true);
+    } else {
+      setDraft(null);
+    }
+  };
+
+  const boxStyle = (rect: FieldRect) => ({
+    left: `${rect.x * 100}%`,
+    top: `${rect.y * 100}%`,
+    width: `${rect.width * 100}%`,
+    height: `${rect.height * 100}%`
+  });
+
+  return (
+    <div
+      ref={layerRef}
+      className={`absolute inset-0 z-10 ${isPlacing ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {fields.filter(field => field.page === pageNumber).map(field => (
+        <div
+          key={field.id}
+          className="absolute border-2 border-dashed border-primary bg-primary/10 rounded-sm"
+          style={boxStyle(field)}
+        >
+          <span className="absolute left-1 top-0.5 text-xs text-primary font-medium truncate max-w-full pr-5">
+            {field.signerName ?? field.signerEmail}
+          </span>
+          {canEdit && !isPlacing && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="absolute right-0 top-0 p-0.5 h-auto text-primary hover:text-error pointer-events-auto"
+              title={fr.signatureFields.remove}
+              onClick={() => removeMutation.mutate(field.id)}
+              disabled={removeMutation.isPending}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {draft && (
+        <div className="absolute border-2 border-primary bg-primary/20 rounded-sm" style={boxStyle(draft)} />
+      )}
+
+      {/* Signer of the box just drawn */}
+      {draft && isDrawn && (
+        <form
+          className="absolute flex gap-1 bg-surface border border-gray-700 rounded p-1 shadow cursor-default"
+          style={{ left: `${draft.x * 100}%`, top: `calc(${(draft.y + draft.height) * 100}% + 4px)` }}
+          onPointerDown={(e) => e.stopPropagation()}
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate(draft);
+          }}
+        >
+          <Input
+            type="email"
+            autoFocus
+            required
+            className="h-8 w-56 bg-background border border-gray-600 text-text-primary text-sm"
+            placeholder={fr.signatureFields.signerEmail}
+            value={signerEmail}
+            onChange={(e) => setSignerEmail(e.target.value)}
+          />
+          <Button
+            type="submit"
+            className="h-8 bg-primary text-white hover:bg-primary/90"
+            disabled={createMutation.isPending}
+          >
+            {fr.signatureFields.add}
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            className="h-8 p-1 text-text-secondary"
+            title={fr.common.cancel}
+            onClick={() => {
+              setDraft(null);
+              setIsDrawn(false);
+            }}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useRef, useState } from 'react';
+import { PAD_STROKE_WIDTH, PadPoint } from '@/lib/signature';
+import { fr } from '@/lib/i18n/french';
+
+// Drawing area, in pad units (the SVG scales to the width of the modal)
+const PAD_WIDTH = 500;
+const PAD_HEIGHT = 180;
+
+// Distance below which a new point is not recorded, to keep the paths small
+const MIN_POINT_DISTANCE = 1.5;
+
+type SignaturePadProps = {
+  strokes: PadPoint[][];
+  onChange: (strokes: PadPoint[][]) => void;
+};
+
+const toPathData = (stroke: PadPoint[]) =>
+  stroke.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x} ${point.y}`).join(' ');
+
+// Captures mouse, touch and stylus strokes as vector polylines
+export default function SignaturePad({ strokes, onChange }: SignaturePadProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [current, setCurrent] = useState<PadPoint[] | null>(null);
+
+  const toPoint = (e: React.PointerEvent): PadPoint => {
+    const bounds = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.round((e.clientX - bounds.left) / bounds.width * PAD_WIDTH * 10) / 10,
+      y: Math.round((e.clientY - bounds.top) / bounds.height * PAD_HEIGHT * 10) / 10
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setCurrent([toPoint(e)]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!current) return;
+    const point = toPoint(e);
+    const last = current[current.length - 1];
+    if (Math.hypot(point.x - last.x, point.y - last.y) >= MIN_POINT_DISTANCE) {
+      setCurrent([...current, point]);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!current) return;
+    onChange([...strokes, current]);
+    setCurrent(null);
+  };
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${PAD_WIDTH} ${PAD_HEIGHT}`}
+        className="w-full bg-white rounded border border-gray-600 cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        aria-label={fr.signaturePad.drawHint}
+      >
+        <line x1={20} y1={PAD_HEIGHT - 40} x2={PAD_WIDTH - 20} y2={PAD_HEIGHT - 40} stroke="#d1d5db" strokeDasharray="6 4" />
+        {[...strokes, ...(current ? [current] : [])].map((stroke, index) => (
+          <path
+            key={index}
+            d={toPathData(stroke.length === 1 ? [stroke[0], stroke[0]] : stroke)}
+            fill="none"
+            stroke="#0d1a59"
+            strokeWidth={PAD_STROKE_WIDTH}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ))}
+      </svg>
+      {strokes.length === 0 && !current && (
+        <p className="absolute inset-0 flex items-center justify-center text-gray-400 text-sm pointer-events-none">
+          {fr.signaturePad.drawHint}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { CheckCircle, Clock, PenLine, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { DocumentMetadata, SignatureRequestEntry, SignatureStatus, SignerStatus } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { useModal } from '@/lib/utils/modals';
+import { fr } from '@/lib/i18n/french';
+import { formatDateToFrench } from '@/lib/utils/document';
+
+type SignatureWorkflowPanelProps = {
+  document: DocumentMetadata;
+};
+
+const SIGNER_STATUS_CLASSES: Record<SignerStatus, string> = {
+  pending: 'text-warning',
+  signed: 'text-success',
+  declined: 'text-error'
+};
+
+// Signature status of the document, signers of the latest request and the actions of the current user
+export default function SignatureWorkflowPanel({ document }: SignatureWorkflowPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { openModal } = useModal();
+  const [isDeclining, setIsDeclining] = useState(false);
+  const [declineReason, setDeclineReason] = useState('');
+
+  const { data: requests = [] } = useQuery<SignatureRequestEntry[]>({
+    queryKey: [`/api/documents/${document.id}/signature-requests`],
+  });
+
+  const latest = requests[0];
+  const ownSigner = latest?.signers.find(signer => signer.userId === user?.id);
+  const isOwner = document.creatorId === user?.id;
+  const status = (document.isSigned ? 'completed' : document.signatureStatus) as SignatureStatus;
+
+  const refreshDocument = () => {
+    [
+      [`/api/documents/${document.id}`],
+      [`/api/documents/${document.id}/signature-requests`],
+      [`/api/documents/${document.id}/versions`],
+      [`/api/documents/${document.id}/signature-fields`],
+      [`/api/documents/${document.id}/auditlogs`],
+      ['/api/signature-tasks'],
+      ['/api/documents']
+    ].forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: fr.common.error,
+      description: error.message,
+    });
+  };
+
+  const signMutation = useMutation({
+    mutationFn: async (handwritten: boolean) => apiRequest('POST', `/api/documents/${document.id}/signature-requests/${latest!.id}/sign`, { handwritten }),
+    onSuccess: () => {
+      refreshDocument();
+      toast({
+        title: fr.signatureWorkflow.signed,
+        description: fr.signatureWorkflow.signedDesc,
+      });
+    },
+    onError
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/documents/${document.id}/signature-requests/${latest!.id}/decline`, {
+      reason: declineReason.trim() || undefined
+    }),
+    onSuccess: () => {
+      refreshDocument();
+      setIsDeclining(false);
+      setDeclineReason('');
+      toast({ title: fr.signatureWorkflow.declined });
+    },
+    onError
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/documents/${document.id}/signature-requests/${latest!.id}/cancel`, {}),
+    onSuccess: () => {
+      refreshDocument();
+      toast({ title: fr.signatureWorkflow.cancelled });
+    },
+    onError
+  });
+
+  return (
+    <div>
+      <h3 className="text-sm text-text-secondary mb-1">{fr.sidebar.signatureStatus}</h3>
+      <div className="flex items-center">
+        {status === 'completed' ? (
+          <CheckCircle className="h-4 w-4 text-success mr-1" />
+        ) : status === 'declined' ? (
+          <XCircle className="h-4 w-4 text-error mr-1" />
+        ) : (
+          <Clock className="h-4 w-4 text-warning mr-1" />
+        )}
+        <p className={status === 'completed' ? 'text-success' : status === 'declined' ? 'text-error' : 'text-warning'}>
+          {status === 'draft' ? fr.sidebar.notSigned : fr.signatureWorkflow.statuses[status]}
+        </p>
+      </div>
+
+      {latest && (
+        <div className="bg-surface rounded p-2 mt-2 text-xs space-y-1">
+          <p className="text-text-secondary">
+            {fr.signatureWorkflow.modes[latest.mode as keyof typeof fr.signatureWorkflow.modes]}
+          </p>
+          {latest.message && <p className="text-text-primary italic">{latest.message}</p>}
+          <ol className="space-y-1">
+            {latest.signers.map(signer => (
+              <li key={signer.id} className="flex justify-between gap-2">
+                <span className="text-text-primary">
+                  {latest.mode === 'sequential' && `${signer.position + 1}. `}
+                  {signer.name ?? signer.email}
+                  {signer.isTurn && signer.userId === user?.id && (
+                    <span className="text-primary"> ({fr.signatureWorkflow.yourTurn})</span>
+                  )}
+                </span>
+                <span className={SIGNER_STATUS_CLASSES[signer.status as SignerStatus]}>
+                  {fr.signatureWorkflow.signerStatuses[signer.status as SignerStatus]}
+                  {signer.decidedAt && ` · ${formatDateToFrench(signer.decidedAt)}`}
+                </span>
+              </li>
+            ))}
+          </ol>
+          {latest.signers.filter(signer => signer.declineReason).map(signer => (
+            <p key={signer.id} className="text-error">{signer.name} : {signer.declineReason}</p>
+          ))}
+          {latest.creatorName && (
+            <p className="text-text-secondary">
+              {fr.signatureWorkflow.requestedBy} {latest.creatorName} · {formatDateToFrench(latest.createdAt)}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Actions of the current signer, when their turn has come */}
+      {ownSigner?.isTurn && !isDeclining && (
+        <div className="flex gap-2 mt-2">
+          <Button
+            className="flex-1 bg-primary text-white hover:bg-primary/90"
+            onClick={() => openModal('signaturePad', {
+              documentId: document.id,
+              onConfirm: (handwritten: boolean) => signMutation.mutate(handwritten)
+            })}
+            disabled={signMutation.isPending}
+          >
+            <PenLine className="mr-2 h-4 w-4" />
+            {signMutation.isPending ? fr.common.signing : fr.signatureWorkflow.signNow}
+          </Button>
+          <Button
+            variant="outline"
+            className="bg-surface text-text-primary hover:text-error"
+            onClick={() => setIsDeclining(true)}
+          >
+            {fr.signatureWorkflow.decline}
+          </Button>
+        </div>
+      )}
+      {ownSigner?.status === 'pending' && latest?.status === 'awaiting' && isDeclining && (
+        <div className="mt-2 space-y-2">
+          <Textarea
+            className="w-full rounded bg-background border border-gray-600 text-text-primary text-sm"
+            rows={2}
+            maxLength={500}
+            placeholder={fr.signatureWorkflow.declineReason}
+            value={declineReason}
+            onChange={(e) => setDeclineReason(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1 bg-surface text-text-primary"
+              onClick={() => setIsDeclining(false)}
+            >
+              {fr.common.cancel}
+            </Button>
+            <Button
+              className="flex-1 bg-error text-white hover:bg-error/90"
+              onClick={() => declineMutation.mutate()}
+              disabled={declineMutation.isPending}
+            >
+              {fr.signatureWorkflow.decline}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Owner actions */}
+      {isOwner && status === 'awaiting_signatures' && latest?.status === 'awaiting' && (
+        <Button
+          variant="outline"
+          className="w-full mt-2 bg-surface hover:bg-surface/80 text-text-primary"
+          onClick={() => cancelMutation.mutate()}
+          disabled={cancelMutation.isPending}
+        >
+          {fr.signatureWorkflow.cancel}
+        </Button>
+      )}
+      {isOwner && !document.isSigned && status !== 'awaiting_signatures' && document.contentType === 'application/pdf' && (
+        <Button
+          variant="outline"
+          className="w-full mt-2 bg-surface hover:bg-surface/80 text-text-primary"
+          onClick={() => openModal('signatureRequest', { documentId: document.id })}
+        >
+          <PenLine className="mr-2 h-4 w-4" />
+          {fr.signatureWorkflow.request}
+        </Button>
+      )}
+    </div>
+  );
+}
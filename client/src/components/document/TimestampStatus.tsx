@@ -0,0 +1,32 @@
+import { Clock, ShieldAlert } from 'lucide-react';
+import { TimestampVerification } from '@shared/schema';
+import { fr } from '@/lib/i18n/french';
+import { formatDateToFrench } from '@/lib/utils/document';
+
+type TimestampStatusProps = {
+  // Null when the hash or signature was not timestamped
+  verification: TimestampVerification | null;
+};
+
+// Result of an RFC 3161 timestamp verification: certified time and authority, or why the token was rejected
+export default function TimestampStatus({ verification }: TimestampStatusProps) {
+  if (!verification) {
+    return <p className="text-text-secondary text-xs">{fr.timestamps.none}</p>;
+  }
+
+  if (!verification.valid) {
+    return (
+      <p className="text-error text-xs flex items-center">
+        <ShieldAlert className="h-3 w-3 mr-1 shrink-0" />
+        {fr.timestamps.invalid} : {verification.error}
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-success text-xs flex items-center" title={`${fr.timestamps.serialNumber} ${verification.serialNumber}`}>
+      <Clock className="h-3 w-3 mr-1 shrink-0" />
+      {fr.timestamps.certifiedAt} {formatDateToFrench(verification.time!)} · {verification.authority}
+    </p>
+  );
+}
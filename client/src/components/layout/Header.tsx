@@ -2,17 +2,19 @@ import { useState } from 'react';
 import { Link, useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { ChevronDown, UserPlus, Printer, Save, FilePlus, FolderOpen, FileUp, FileText, CheckCircle, Download } from 'lucide-react';
+import { ChevronDown, UserPlus, Printer, Save, FilePlus, FolderOpen, FileUp, FileText, CheckCircle, Download, LogOut, ShieldCheck, Stamp, Building2, ShieldAlert } from 'lucide-react';
 import { useModal } from '@/lib/utils/modals';
 import { fr } from '@/lib/i18n/french';
 import { useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
 import beaverLogo from '@/assets/beaver.png';
 
 export default function Header() {
   const { openModal } = useModal();
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
   
   const isDocumentView = location.startsWith('/document/');
 
@@ -48,21 +50,32 @@ export default function Header() {
   };
 
   const handlePrintDocument = () => {
+    // Printing happens in the browser only, so it is the one action the client reports itself
+    const documentId = location.split('/')[2];
+    if (documentId) {
+      apiRequest('POST', '/api/auditlogs', {
+        documentId: parseInt(documentId),
+        action: 'print',
+        details: 'Document imprimé'
+      }).catch(() => {});
+    }
     window.print();
   };
   
   const { toast } = useToast();
   
   const signDocument = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (handwritten: boolean) => {
       const documentId = location.split('/')[2];
       if (!documentId) throw new Error("ID de document manquant");
-      return apiRequest('POST', `/api/documents/${documentId}/sign`, {});
+      return apiRequest('POST', `/api/documents/${documentId}/sign`, { handwritten });
     },
     onSuccess: () => {
       const documentId = location.split('/')[2];
       if (documentId) {
         queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/versions`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/signature-fields`] });
         toast({
           title: fr.document.signSuccess,
           description: fr.document.signSuccessDesc,
@@ -78,6 +91,17 @@ export default function Header() {
     }
   });
 
+  // The handwritten signature is chosen first, then the document is signed
+  const handleSignDocument = () => {
+    const documentId = location.split('/')[2];
+    if (documentId) {
+      openModal('signaturePad', {
+        documentId: parseInt(documentId),
+        onConfirm: (handwritten: boolean) => signDocument.mutate(handwritten)
+      });
+    }
+  };
+
   return (
     <header className="bg-secondary shadow-md">
       <div className="container mx-auto px-4">
@@ -95,107 +119,148 @@ export default function Header() {
           </div>
           
           {/* Main Navigation */}
-          <nav className="flex items-center space-x-6">
-            {/* File Dropdown */}
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="ghost" className="flex items-center text-text-primary hover:text-primary transition-colors text-lg px-4 py-2">
-                  {fr.nav.file}
-                  <ChevronDown className="ml-2 h-5 w-5" />
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent className="bg-secondary border-gray-700 text-text-primary">
-                <DropdownMenuItem onClick={handleNewDocument} className="hover:bg-surface hover:text-primary">
-                  <FilePlus className="mr-2 h-4 w-4" />
-                  {fr.nav.new}
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={handleOpenDocument} className="hover:bg-surface hover:text-primary">
-                  <FolderOpen className="mr-2 h-4 w-4" />
-                  {fr.nav.open}
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={handleSaveDocument} className="hover:bg-surface hover:text-primary">
-                  <Save className="mr-2 h-4 w-4" />
-                  {fr.nav.save}
-                </DropdownMenuItem>
-                <DropdownMenuItem className="border-t border-gray-700" />
-                <DropdownMenuItem onClick={handleImportPDF} className="hover:bg-surface hover:text-primary">
-                  <FileUp className="mr-2 h-4 w-4" />
-                  {fr.nav.importPDF}
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={handleImportGoogleDoc} className="hover:bg-surface hover:text-primary">
-                  <FileText className="mr-2 h-4 w-4" />
-                  {fr.nav.importGoogleDoc}
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+          {user && (
+            <nav className="flex items-center space-x-6">
+              {/* File Dropdown */}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" className="flex items-center text-text-primary hover:text-primary transition-colors text-lg px-4 py-2">
+                    {fr.nav.file}
+                    <ChevronDown className="ml-2 h-5 w-5" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent className="bg-secondary border-gray-700 text-text-primary">
+                  <DropdownMenuItem onClick={handleNewDocument} className="hover:bg-surface hover:text-primary">
+                    <FilePlus className="mr-2 h-4 w-4" />
+                    {fr.nav.new}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleOpenDocument} className="hover:bg-surface hover:text-primary">
+                    <FolderOpen className="mr-2 h-4 w-4" />
+                    {fr.nav.open}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleSaveDocument} className="hover:bg-surface hover:text-primary">
+                    <Save className="mr-2 h-4 w-4" />
+                    {fr.nav.save}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem className="border-t border-gray-700" />
+                  <DropdownMenuItem onClick={handleImportPDF} className="hover:bg-surface hover:text-primary">
+                    <FileUp className="mr-2 h-4 w-4" />
+                    {fr.nav.importPDF}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleImportGoogleDoc} className="hover:bg-surface hover:text-primary">
+                    <FileText className="mr-2 h-4 w-4" />
+                    {fr.nav.importGoogleDoc}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             
-            {/* Share Button - Only show when viewing a document */}
-            {isDocumentView && (
-              <Button 
-                variant="ghost" 
-                className="flex items-center text-text-primary hover:text-primary transition-colors text-lg px-4 py-2"
-                onClick={handleShareDocument}
-              >
-                <UserPlus className="mr-2 h-5 w-5" />
-                {fr.nav.share}
-              </Button>
-            )}
+              {/* Share Button - Only show when viewing a document */}
+              {isDocumentView && (
+                <Button 
+                  variant="ghost" 
+                  className="flex items-center text-text-primary hover:text-primary transition-colors text-lg px-4 py-2"
+                  onClick={handleShareDocument}
+                >
+                  <UserPlus className="mr-2 h-5 w-5" />
+                  {fr.nav.share}
+                </Button>
+              )}
             
-            {/* Print Button - Only show when viewing a document */}
-            {isDocumentView && (
-              <Button 
-                variant="ghost" 
-                className="flex items-center text-text-primary hover:text-primary transition-colors text-lg px-4 py-2"
-                onClick={handlePrintDocument}
-              >
-                <Printer className="mr-2 h-5 w-5" />
-                {fr.nav.print}
-              </Button>
-            )}
+              {/* Print Button - Only show when viewing a document */}
+              {isDocumentView && (
+                <Button 
+                  variant="ghost" 
+                  className="flex items-center text-text-primary hover:text-primary transition-colors text-lg px-4 py-2"
+                  onClick={handlePrintDocument}
+                >
+                  <Printer className="mr-2 h-5 w-5" />
+                  {fr.nav.print}
+                </Button>
+              )}
             
-            {/* Save Button - Only show when viewing a document */}
-            {isDocumentView && (
-              <Button 
-                variant="ghost" 
-                className="flex items-center text-text-primary hover:text-primary transition-colors text-lg px-4 py-2"
-                onClick={handleSaveDocument}
-              >
-                <Save className="mr-2 h-5 w-5" />
-                {fr.nav.save}
-              </Button>
-            )}
+              {/* Save Button - Only show when viewing a document */}
+              {isDocumentView && (
+                <Button 
+                  variant="ghost" 
+                  className="flex items-center text-text-primary hover:text-primary transition-colors text-lg px-4 py-2"
+                  onClick={handleSaveDocument}
+                >
+                  <Save className="mr-2 h-5 w-5" />
+                  {fr.nav.save}
+                </Button>
+              )}
             
-            {/* Download Button - Only show when viewing a document */}
-            {isDocumentView && (
-              <Button 
-                variant="ghost" 
-                className="flex items-center text-text-primary hover:text-primary transition-colors text-lg px-4 py-2"
-                onClick={handleDownloadDocument}
-              >
-                <Download className="mr-2 h-5 w-5" />
-                {fr.nav.download}
-              </Button>
-            )}
-          </nav>
+              {/* Download Button - Only show when viewing a document */}
+              {isDocumentView && (
+                <Button 
+                  variant="ghost" 
+                  className="flex items-center text-text-primary hover:text-primary transition-colors text-lg px-4 py-2"
+                  onClick={handleDownloadDocument}
+                >
+                  <Download className="mr-2 h-5 w-5" />
+                  {fr.nav.download}
+                </Button>
+              )}
+
+              {/* Public verification page */}
+              <Link href="/verify" className="flex items-center text-text-primary hover:text-primary transition-colors text-lg px-4 py-2">
+                <ShieldCheck className="mr-2 h-5 w-5" />
+                {fr.nav.verify}
+              </Link>
+            </nav>
+          )}
           
           {/* User Section */}
-          <div className="flex items-center">
-            {isDocumentView && (
-              <Button 
-                className="bg-primary text-white mr-5 hover:bg-primary/90 text-lg px-5 py-2 h-auto"
-                onClick={() => signDocument.mutate()}
-                disabled={signDocument.isPending}
-              >
-                <CheckCircle className="mr-2 h-5 w-5" />
-                {signDocument.isPending ? fr.common.signing : fr.document.sign}
-              </Button>
-            )}
-            <div className="relative">
-              <div className="h-12 w-12 rounded-full bg-primary flex items-center justify-center text-white text-base font-medium">
-                RG
-              </div>
+          {user && (
+            <div className="flex items-center">
+              {isDocumentView && (
+                <Button 
+                  className="bg-primary text-white mr-5 hover:bg-primary/90 text-lg px-5 py-2 h-auto"
+                  onClick={handleSignDocument}
+                  disabled={signDocument.isPending}
+                >
+                  <CheckCircle className="mr-2 h-5 w-5" />
+                  {signDocument.isPending ? fr.common.signing : fr.document.sign}
+                </Button>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button className="h-12 w-12 rounded-full bg-primary flex items-center justify-center text-white text-base font-medium" title={user.name}>
+                    {user.initials}
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="bg-secondary border-gray-700 text-text-primary">
+                  <div className="px-2 py-1.5 text-sm">
+                    <p className="font-medium">{user.name}</p>
+                    {user.company && <p className="text-text-secondary text-xs">{user.company}</p>}
+                  </div>
+                  <DropdownMenuItem className="border-t border-gray-700" />
+                  {user.company && (
+                    <>
+                      <DropdownMenuItem onClick={() => openModal('company')} className="hover:bg-surface hover:text-primary">
+                        <Building2 className="mr-2 h-4 w-4" />
+                        {fr.nav.company}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => openModal('stampProfiles')} className="hover:bg-surface hover:text-primary">
+                        <Stamp className="mr-2 h-4 w-4" />
+                        {fr.nav.stampProfiles}
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                  {user.isAdmin && (
+                    <DropdownMenuItem onClick={() => openModal('quarantine')} className="hover:bg-surface hover:text-primary">
+                      <ShieldAlert className="mr-2 h-4 w-4" />
+                      {fr.nav.quarantine}
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => logoutMutation.mutate()} className="hover:bg-surface hover:text-primary">
+                    <LogOut className="mr-2 h-4 w-4" />
+                    {fr.auth.logout}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </header>
@@ -8,11 +8,12 @@ import {
   DialogFooter
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { X, Download } from 'lucide-react';
+import { X, Download, ShieldCheck, ShieldAlert } from 'lucide-react';
 import { useModal } from '@/lib/utils/modals';
 import { fr } from '@/lib/i18n/french';
-import { AuditLog } from '@shared/schema';
+import { AuditLog, AuditChainReport, TimestampEntry, TimestampKind } from '@shared/schema';
 import { formatDateToFrench } from '@/lib/utils/document';
+import TimestampStatus from '@/components/document/TimestampStatus';
 
 export default function AuditLogModal() {
   const { isOpen, closeModal, modalType, modalData } = useModal();
@@ -22,12 +23,25 @@ export default function AuditLogModal() {
     enabled: isOpen && modalType === 'auditLog' && !!modalData?.documentId,
   });
 
+  // Integrity of the hash chain, recomputed by the server on each opening
+  const { data: chainReport } = useQuery<AuditChainReport>({
+    queryKey: [`/api/documents/${modalData?.documentId}/auditlogs/verify`],
+    enabled: isOpen && modalType === 'auditLog' && !!modalData?.documentId,
+  });
+
+  // RFC 3161 timestamps of the document's files and signatures, verified again on each opening
+  const { data: timestamps } = useQuery<TimestampEntry[]>({
+    queryKey: [`/api/documents/${modalData?.documentId}/timestamps`],
+    enabled: isOpen && modalType === 'auditLog' && !!modalData?.documentId,
+    staleTime: 0,
+  });
+
   const handleExport = () => {
     if (!auditLogs) return;
     
     const logText = auditLogs.map(log => {
       const timestamp = formatDateToFrench(log.timestamp);
-      return `${timestamp} - ${log.action}: ${log.details}\nUID: ${log.documentId}`;
+      return `${timestamp} - ${log.action}: ${log.details}\nUID: ${log.documentId}\nSHA-256: ${log.hash}`;
     }).join('\n\n');
     
     const blob = new Blob([logText], { type: 'text/plain' });
@@ -48,7 +62,20 @@ export default function AuditLogModal() {
       'view': fr.audit.view,
       'edit': fr.audit.edit,
       'sign': fr.audit.sign,
-      'share': fr.audit.share
+      'share': fr.audit.share,
+      'download': fr.audit.download,
+      'print': fr.audit.print,
+      'delete': fr.audit.delete,
+      'replace': fr.audit.replace,
+      'compare': fr.audit.compare,
+      'signature_request': fr.audit.signatureRequest,
+      'signature_declined': fr.audit.signatureDeclined,
+      'signature_cancelled': fr.audit.signatureCancelled,
+      'signature_completed': fr.audit.signatureCompleted,
+      'signature_field_added': fr.audit.signatureFieldAdded,
+      'signature_field_removed': fr.audit.signatureFieldRemoved,
+      'access_denied': fr.audit.accessDenied,
+      'scan': fr.audit.scan
     };
     
     return actionMap[action] || action;
@@ -62,13 +89,51 @@ export default function AuditLogModal() {
         </DialogHeader>
         
         <div className="py-4 max-h-[70vh] overflow-y-auto">
-          <div className="flex justify-end mb-4">
+          <div className="flex justify-between items-center mb-4">
+            {chainReport ? (
+              <div className={`flex items-center text-sm ${chainReport.valid ? 'text-success' : 'text-error'}`}>
+                {chainReport.valid ? (
+                  <ShieldCheck className="h-4 w-4 mr-1" />
+                ) : (
+                  <ShieldAlert className="h-4 w-4 mr-1" />
+                )}
+                {chainReport.valid ? fr.audit.chainValid : fr.audit.chainBroken}
+              </div>
+            ) : <div />}
             <Button variant="outline" className="bg-secondary text-text-primary flex items-center" onClick={handleExport}>
               <Download className="h-4 w-4 mr-1" />
               {fr.audit.export}
             </Button>
           </div>
           
+          {chainReport && !chainReport.valid && (
+            <ul className="bg-error/10 text-error text-sm p-3 rounded mb-4 space-y-1">
+              {[...chainReport.document.issues, ...chainReport.global.issues].map((issue, index) => (
+                <li key={index}>{issue.message}</li>
+              ))}
+              {chainReport.global.issues.length === 0 && !chainReport.global.valid && (
+                <li>{fr.audit.globalChainBroken}</li>
+              )}
+            </ul>
+          )}
+
+          {timestamps && timestamps.length > 0 && (
+            <div className="mb-4">
+              <h3 className="text-text-secondary text-sm mb-2">{fr.timestamps.title}</h3>
+              <ul className="space-y-1">
+                {timestamps.map((entry) => (
+                  <li key={entry.id} className="bg-secondary p-2 rounded text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-text-primary">{fr.timestamps.kinds[entry.kind as TimestampKind]}</span>
+                      <span className="text-text-secondary text-xs font-mono truncate ml-2">SHA-256: {entry.hash}</span>
+                    </div>
+                    <TimestampStatus verification={entry.verification} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {isLoading ? (
             <div className="text-center py-4">
               <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2"></div>
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useModal } from '@/lib/utils/modals';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { fr } from '@/lib/i18n/french';
+import { Company, CompanyBranding } from '@shared/schema';
+
+export default function CompanyModal() {
+  const { isOpen, closeModal, modalType } = useModal();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const isModalOpen = isOpen && modalType === 'company';
+  const [branding, setBranding] = useState<CompanyBranding>({
+    issuerName: '',
+    authorName: '',
+    verificationBaseUrl: null
+  });
+
+  const { data: company } = useQuery<Company>({
+    queryKey: ['/api/company'],
+    enabled: isModalOpen && !!user?.company,
+  });
+
+  useEffect(() => {
+    if (company) {
+      setBranding({
+        issuerName: company.issuerName,
+        authorName: company.authorName,
+        verificationBaseUrl: company.verificationBaseUrl
+      });
+    }
+  }, [company]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => apiRequest('PUT', '/api/company', branding),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/company'] });
+      toast({ title: fr.company.saved });
+      closeModal();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: fr.common.error,
+        description: error.message,
+      });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={isModalOpen} onOpenChange={(open) => !open && closeModal()}>
+      <DialogContent className="sm:max-w-lg bg-surface text-text-primary border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-medium text-primary">{fr.company.title}</DialogTitle>
+        </DialogHeader>
+
+        {!company ? (
+          <p className="text-text-secondary p-2">{user?.company ? fr.common.loading : fr.stampProfiles.noCompany}</p>
+        ) : (
+          <form id="company-form" onSubmit={handleSubmit} className="p-2 space-y-4">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <h3 className="text-text-secondary mb-1">{fr.company.name}</h3>
+                <p className="text-text-primary">{company.name}</p>
+              </div>
+              <div>
+                <h3 className="text-text-secondary mb-1">{fr.company.code}</h3>
+                <p className="text-text-primary font-mono">CPY{company.code}</p>
+              </div>
+            </div>
+            <p className="text-text-secondary text-xs">{fr.company.description}</p>
+
+            <div>
+              <Label htmlFor="issuerName" className="block text-text-primary mb-1">{fr.company.issuerName}</Label>
+              <Input
+                id="issuerName"
+                className="bg-background border border-gray-600 text-text-primary"
+                value={branding.issuerName}
+                onChange={(e) => setBranding(prev => ({ ...prev, issuerName: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="authorName" className="block text-text-primary mb-1">{fr.company.authorName}</Label>
+              <Input
+                id="authorName"
+                className="bg-background border border-gray-600 text-text-primary"
+                value={branding.authorName}
+                onChange={(e) => setBranding(prev => ({ ...prev, authorName: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="verificationBaseUrl" className="block text-text-primary mb-1">{fr.company.verificationBaseUrl}</Label>
+              <Input
+                id="verificationBaseUrl"
+                type="url"
+                placeholder="https://..."
+                className="bg-background border border-gray-600 text-text-primary"
+                value={branding.verificationBaseUrl ?? ''}
+                onChange={(e) => setBranding(prev => ({ ...prev, verificationBaseUrl: e.target.value || null }))}
+              />
+              <p className="text-text-secondary text-xs mt-1">{fr.company.verificationBaseUrlHelp}</p>
+            </div>
+          </form>
+        )}
+
+        <DialogFooter className="border-t border-gray-700 pt-4">
+          <Button
+            variant="outline"
+            onClick={closeModal}
+            className="bg-secondary text-text-primary hover:bg-secondary/80"
+          >
+            {fr.common.cancel}
+          </Button>
+          <Button
+            type="submit"
+            form="company-form"
+            className="bg-primary text-white hover:bg-primary/90"
+            disabled={!company || saveMutation.isPending}
+          >
+            {fr.common.save}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useRef } from 'react';
 import { useLocation } from 'wouter';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { 
   Dialog, 
   DialogContent, 
@@ -11,11 +11,14 @@ import {
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Upload, X } from 'lucide-react';
 import { useModal } from '@/lib/utils/modals';
 import { queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { fr } from '@/lib/i18n/french';
+import { useAuth } from '@/hooks/use-auth';
+import { QrStampSettings, StampProfile } from '@shared/schema';
 
 export default function ImportDocumentModal() {
   const { isOpen, closeModal, modalType } = useModal();
@@ -27,8 +30,20 @@ export default function ImportDocumentModal() {
   const [options, setOptions] = useState({
     generateNewUid: true,
     addToken: true,
+    addQrCode: false,
     signAfterImport: false
   });
+  const [qrStamp, setQrStamp] = useState<QrStampSettings>({
+    position: 'bottom-right',
+    pages: 'last'
+  });
+  const [stampProfileId, setStampProfileId] = useState('default');
+
+  const { user } = useAuth();
+  const { data: stampProfiles = [] } = useQuery<StampProfile[]>({
+    queryKey: ['/api/stamp-profiles'],
+    enabled: isOpen && modalType === 'import' && !!user?.company,
+  });
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -38,7 +53,12 @@ export default function ImportDocumentModal() {
       
       const formData = new FormData();
       formData.append('file', selectedFile);
-      formData.append('options', JSON.stringify(options));
+      formData.append('options', JSON.stringify({
+        ...options,
+        // The QR code is part of the stamp, so it requires the token option
+        qrCode: options.addToken && options.addQrCode ? qrStamp : null,
+        stampProfileId: stampProfileId === 'default' ? null : parseInt(stampProfileId)
+      }));
       
       const response = await fetch('/api/documents/upload', {
         method: 'POST',
@@ -196,6 +216,72 @@ export default function ImportDocumentModal() {
                   {fr.import.addToken}
                 </Label>
               </div>
+
+              {options.addToken && stampProfiles.length > 0 && (
+                <div className="pl-6">
+                  <Label className="text-text-secondary text-sm mb-1 block">{fr.import.stampProfile}</Label>
+                  <Select value={stampProfileId} onValueChange={setStampProfileId}>
+                    <SelectTrigger className="bg-secondary text-text-primary">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">{fr.import.defaultStampProfile}</SelectItem>
+                      {stampProfiles.map(profile => (
+                        <SelectItem key={profile.id} value={String(profile.id)}>{profile.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <Checkbox 
+                  id="addQrCode" 
+                  checked={options.addToken && options.addQrCode}
+                  disabled={!options.addToken}
+                  onCheckedChange={() => toggleOption('addQrCode')}
+                />
+                <Label htmlFor="addQrCode" className="text-text-primary cursor-pointer">
+                  {fr.import.addQrCode}
+                </Label>
+              </div>
+
+              {options.addToken && options.addQrCode && (
+                <div className="grid grid-cols-2 gap-3 pl-6">
+                  <div>
+                    <Label className="text-text-secondary text-sm mb-1 block">{fr.import.qrPosition}</Label>
+                    <Select
+                      value={qrStamp.position}
+                      onValueChange={(position) => setQrStamp(prev => ({ ...prev, position: position as QrStampSettings['position'] }))}
+                    >
+                      <SelectTrigger className="bg-secondary text-text-primary">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(fr.stamp.positions) as QrStampSettings['position'][]).map(position => (
+                          <SelectItem key={position} value={position}>{fr.stamp.positions[position]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-text-secondary text-sm mb-1 block">{fr.import.qrPages}</Label>
+                    <Select
+                      value={qrStamp.pages}
+                      onValueChange={(pages) => setQrStamp(prev => ({ ...prev, pages: pages as QrStampSettings['pages'] }))}
+                    >
+                      <SelectTrigger className="bg-secondary text-text-primary">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(fr.import.qrPageOptions) as QrStampSettings['pages'][]).map(pages => (
+                          <SelectItem key={pages} value={pages}>{fr.import.qrPageOptions[pages]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
               
               <div className="flex items-center space-x-2">
                 <Checkbox 
@@ -0,0 +1,142 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, Download, Trash2 } from 'lucide-react';
+import { useModal } from '@/lib/utils/modals';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { fr } from '@/lib/i18n/french';
+import { formatDateToFrench, formatFileSize } from '@/lib/utils/document';
+import { QuarantineEntry } from '@shared/schema';
+
+// Uploads refused by the PDF checks, reviewed by administrators
+export default function QuarantineModal() {
+  const { isOpen, closeModal, modalType } = useModal();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const isModalOpen = isOpen && modalType === 'quarantine';
+
+  const { data: entries = [] } = useQuery<QuarantineEntry[]>({
+    queryKey: ['/api/quarantine'],
+    enabled: isModalOpen && !!user?.isAdmin,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: fr.common.error,
+      description: error.message,
+    });
+  };
+
+  const releaseMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest('POST', `/api/quarantine/${id}/release`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quarantine'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      toast({ title: fr.quarantine.released });
+    },
+    onError,
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest('DELETE', `/api/quarantine/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quarantine'] });
+      toast({ title: fr.quarantine.purged });
+    },
+    onError,
+  });
+
+  const isPending = releaseMutation.isPending || purgeMutation.isPending;
+
+  return (
+    <Dialog open={isModalOpen} onOpenChange={(open) => !open && closeModal()}>
+      <DialogContent className="sm:max-w-2xl bg-surface text-text-primary border-gray-700 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-medium text-primary">{fr.quarantine.title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="p-2 space-y-2">
+          <p className="text-text-secondary text-sm">{fr.quarantine.description}</p>
+          <div className="bg-background rounded p-3 max-h-[60vh] overflow-y-auto">
+            {entries.length === 0 ? (
+              <p className="text-text-secondary text-center py-2">{fr.quarantine.noEntries}</p>
+            ) : (
+              entries.map((entry) => (
+                <div key={entry.id} className="border-b border-gray-700 last:border-b-0 py-2">
+                  <div className="flex justify-between items-start">
+                    <div className="min-w-0">
+                      <p className="text-text-primary truncate" title={entry.hash}>{entry.fileName}</p>
+                      <p className="text-text-secondary text-xs">
+                        {fr.quarantine.uploadedBy} {entry.userName} · {formatDateToFrench(entry.createdAt)} · {formatFileSize(entry.size)}
+                        {entry.documentId && ` · ${fr.quarantine.replacing} #${entry.documentId}`}
+                      </p>
+                    </div>
+                    {entry.status === 'quarantined' ? (
+                      <div className="flex items-center shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-text-primary hover:text-primary p-1 h-auto"
+                          title={fr.quarantine.download}
+                          asChild
+                        >
+                          <a href={`/api/quarantine/${entry.id}/download`} download>
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-success hover:text-success/80 p-1 h-auto"
+                          title={fr.quarantine.release}
+                          onClick={() => releaseMutation.mutate(entry.id)}
+                          disabled={isPending}
+                        >
+                          <CheckCircle className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-error hover:text-error/80 p-1 h-auto"
+                          title={fr.quarantine.purge}
+                          onClick={() => purgeMutation.mutate(entry.id)}
+                          disabled={isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <p className="text-text-secondary text-xs shrink-0 ml-2">
+                        {fr.quarantine.statuses[entry.status]}
+                        {entry.resolvedByName && ` ${fr.quarantine.resolvedBy} ${entry.resolvedByName}`}
+                      </p>
+                    )}
+                  </div>
+                  <p className="text-error text-xs mt-1">{entry.reason}</p>
+                  {entry.report && entry.report.threats.length > 0 && (
+                    <ul className="text-text-secondary text-xs mt-1 list-disc list-inside">
+                      {entry.report.threats.map((threat, index) => (
+                        <li key={index}>
+                          {fr.quarantine.threatKinds[threat.kind]} ({threat.location}){threat.detail && ` : ${threat.detail}`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import '@fontsource/dancing-script/400.css';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import SignaturePad from '@/components/document/SignaturePad';
+import { useModal } from '@/lib/utils/modals';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { fr } from '@/lib/i18n/french';
+import { PadPoint, strokesToDrawing, typedNameToDrawing } from '@/lib/signature';
+import { SignatureDrawing, SignatureFieldEntry, UserSignatureEntry, UserSignatureInput } from '@shared/schema';
+
+type PadMode = 'saved' | 'draw' | 'type';
+
+// Renders a saved vector signature at the width of its container
+function DrawingPreview({ drawing }: { drawing: SignatureDrawing }) {
+  return (
+    <svg viewBox={`0 0 ${drawing.width} ${drawing.height}`} className="w-full max-h-40 bg-white rounded border border-gray-600 p-2">
+      {drawing.paths.map((path, index) => (
+        <path
+          key={index}
+          d={path.d}
+          fill={path.fill ? '#0d1a59' : 'none'}
+          stroke={path.fill ? 'none' : '#0d1a59'}
+          strokeWidth={path.strokeWidth}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      ))}
+    </svg>
+  );
+}
+
+// Handwritten signature chosen before signing; modalData.onConfirm receives whether it is drawn in the signature field
+export default function SignaturePadModal() {
+  const { isOpen, closeModal, modalType, modalData } = useModal();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const isModalOpen = isOpen && modalType === 'signaturePad';
+  const documentId: number | undefined = modalData?.documentId;
+  const onConfirm: ((handwritten: boolean) => void) | undefined = modalData?.onConfirm;
+  const [mode, setMode] = useState<PadMode>('draw');
+  const [strokes, setStrokes] = useState<PadPoint[][]>([]);
+  const [typedName, setTypedName] = useState('');
+
+  const { data: savedSignature, isLoading: isLoadingSaved } = useQuery<UserSignatureEntry>({
+    queryKey: ['/api/user-signature'],
+    enabled: isModalOpen,
+  });
+
+  const { data: fields = [] } = useQuery<SignatureFieldEntry[]>({
+    queryKey: [`/api/documents/${documentId}/signature-fields`],
+    enabled: isModalOpen && !!documentId,
+  });
+  // The handwritten signature is only drawn in a signature field assigned to the signer
+  const hasField = fields.some(field => field.signerId === user?.id && !field.signatureId);
+
+  useEffect(() => {
+    if (isModalOpen && !isLoadingSaved) {
+      setMode(savedSignature ? 'saved' : 'draw');
+      setStrokes([]);
+      setTypedName(savedSignature?.typedName ?? user?.name ?? '');
+    }
+  }, [isModalOpen, isLoadingSaved, savedSignature, user]);
+
+  const confirm = (handwritten: boolean) => {
+    closeModal();
+    onConfirm?.(handwritten);
+  };
+
+  // The signature drawn or typed is saved for the next signatures, then used for this one
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      let input: UserSignatureInput;
+      if (mode === 'type') {
+        const name = typedName.trim();
+        if (!name) throw new Error(fr.signaturePad.empty);
+        input = { kind: 'typed', typedName: name, drawing: await typedNameToDrawing(name) };
+      } else {
+        const drawing = strokesToDrawing(strokes);
+        if (!drawing) throw new Error(fr.signaturePad.empty);
+        input = { kind: 'drawn', drawing };
+      }
+      return apiRequest('PUT', '/api/user-signature', input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user-signature'] });
+      confirm(true);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: fr.common.error,
+        description: error.message,
+      });
+    }
+  });
+
+  const handleSign = () => {
+    if (mode === 'saved') {
+      confirm(true);
+    } else {
+      saveMutation.mutate();
+    }
+  };
+
+  return (
+    <Dialog open={isModalOpen} onOpenChange={(open) => !open && closeModal()}>
+      <DialogContent className="sm:max-w-xl bg-surface text-text-primary border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-medium text-primary">{fr.signaturePad.title}</DialogTitle>
+        </DialogHeader>
+
+        {!hasField ? (
+          <p className="text-text-secondary text-sm p-2">{fr.signaturePad.noField}</p>
+        ) : (
+          <div className="space-y-3 p-2">
+            <ToggleGroup
+              type="single"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as PadMode)}
+              className="bg-secondary rounded justify-start"
+            >
+              {savedSignature && (
+                <ToggleGroupItem value="saved" className="text-sm">{fr.signaturePad.saved}</ToggleGroupItem>
+              )}
+              <ToggleGroupItem value="draw" className="text-sm">{fr.signaturePad.draw}</ToggleGroupItem>
+              <ToggleGroupItem value="type" className="text-sm">{fr.signaturePad.type}</ToggleGroupItem>
+            </ToggleGroup>
+
+            {mode === 'saved' && savedSignature && (
+              <DrawingPreview drawing={savedSignature.drawing} />
+            )}
+
+            {mode === 'draw' && (
+              <>
+                <SignaturePad strokes={strokes} onChange={setStrokes} />
+                <div className="flex justify-end">
+                  <Button
+                    variant="ghost"
+                    className="text-text-secondary hover:text-primary"
+                    onClick={() => setStrokes([])}
+                    disabled={strokes.length === 0}
+                  >
+                    {fr.signaturePad.clear}
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {mode === 'type' && (
+              <>
+                <Input
+                  className="bg-background border border-gray-600 text-text-primary"
+                  placeholder={fr.signaturePad.typedName}
+                  maxLength={80}
+                  value={typedName}
+                  onChange={(e) => setTypedName(e.target.value)}
+                />
+                <div
+                  className="bg-white rounded border border-gray-600 h-24 flex items-center justify-center text-5xl text-[#0d1a59] overflow-hidden"
+                  style={{ fontFamily: "'Dancing Script', cursive" }}
+                >
+                  {typedName}
+                </div>
+              </>
+            )}
+
+            {mode !== 'saved' && (
+              <p className="text-text-secondary text-xs">{fr.signaturePad.savedNote}</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="border-t border-gray-700 pt-4">
+          <Button
+            variant="outline"
+            onClick={closeModal}
+            className="bg-secondary text-text-primary hover:bg-secondary/80"
+          >
+            {fr.common.cancel}
+          </Button>
+          {hasField && (
+            <Button
+              variant="outline"
+              onClick={() => confirm(false)}
+              className="bg-secondary text-text-primary hover:bg-secondary/80"
+              disabled={saveMutation.isPending}
+            >
+              {fr.signaturePad.signWithout}
+            </Button>
+          )}
+          <Button
+            className="bg-primary text-white hover:bg-primary/90"
+            onClick={() => hasField ? handleSign() : confirm(false)}
+            disabled={saveMutation.isPending}
+          >
+            {saveMutation.isPending ? fr.signaturePad.preparing : fr.signaturePad.sign}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
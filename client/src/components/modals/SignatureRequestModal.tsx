@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { useModal } from '@/lib/utils/modals';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { fr } from '@/lib/i18n/french';
+import { SignatureRequestMode } from '@shared/schema';
+
+export default function SignatureRequestModal() {
+  const { isOpen, closeModal, modalType, modalData } = useModal();
+  const { toast } = useToast();
+
+  const isModalOpen = isOpen && modalType === 'signatureRequest';
+  const documentId: number | undefined = modalData?.documentId;
+  const [mode, setMode] = useState<SignatureRequestMode>('sequential');
+  const [signers, setSigners] = useState<string[]>(['']);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (isModalOpen) {
+      setMode('sequential');
+      setSigners(['']);
+      setMessage('');
+    }
+  }, [isModalOpen]);
+
+  const requestMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/documents/${documentId}/signature-requests`, {
+      mode,
+      signers: signers.map(email => email.trim()).filter(Boolean),
+      message: message.trim() || undefined
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/signature-requests`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/shares`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/signature-tasks'] });
+      toast({
+        title: fr.signatureWorkflow.created,
+        description: fr.signatureWorkflow.createdDesc,
+      });
+      closeModal();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: fr.common.error,
+        description: error.message,
+      });
+    }
+  });
+
+  const updateSigner = (index: number, email: string) => {
+    setSigners(prev => prev.map((current, i) => i === index ? email : current));
+  };
+
+  // Swaps a signer with its neighbour (sequential order)
+  const moveSigner = (index: number, offset: number) => {
+    setSigners(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestMutation.mutate();
+  };
+
+  return (
+    <Dialog open={isModalOpen} onOpenChange={(open) => !open && closeModal()}>
+      <DialogContent className="sm:max-w-lg bg-surface text-text-primary border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-medium text-primary">{fr.signatureWorkflow.title}</DialogTitle>
+        </DialogHeader>
+
+        <form id="signature-request-form" onSubmit={handleSubmit} className="p-2 space-y-4">
+          <div>
+            <h4 className="text-text-primary font-medium mb-2">{fr.signatureWorkflow.mode}</h4>
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as SignatureRequestMode)} className="space-y-3">
+              {(['sequential', 'parallel'] as const).map(option => (
+                <div key={option} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option} id={`signature-mode-${option}`} />
+                  <Label htmlFor={`signature-mode-${option}`} className="text-text-primary cursor-pointer">
+                    {fr.signatureWorkflow.modes[option]}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div>
+            <h4 className="text-text-primary font-medium mb-2">{fr.signatureWorkflow.signers}</h4>
+            <div className="space-y-2">
+              {signers.map((email, index) => (
+                <div key={index} className="flex items-center gap-1">
+                  {mode === 'sequential' && (
+                    <span className="text-text-secondary text-sm w-5">{index + 1}.</span>
+                  )}
+                  <Input
+                    type="email"
+                    className="flex-1 bg-background border border-gray-600 text-text-primary"
+                    placeholder={fr.signatureWorkflow.signerEmail}
+                    value={email}
+                    onChange={(e) => updateSigner(index, e.target.value)}
+                    required
+                  />
+                  {mode === 'sequential' && (
+                    <>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="text-text-secondary hover:text-primary p-1 h-auto"
+                        title={fr.signatureWorkflow.moveUp}
+                        disabled={index === 0}
+                        onClick={() => moveSigner(index, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="text-text-secondary hover:text-primary p-1 h-auto"
+                        title={fr.signatureWorkflow.moveDown}
+                        disabled={index === signers.length - 1}
+                        onClick={() => moveSigner(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-text-secondary hover:text-error p-1 h-auto"
+                    title={fr.signatureWorkflow.removeSigner}
+                    disabled={signers.length === 1}
+                    onClick={() => setSigners(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              className="mt-2 text-text-secondary hover:text-primary"
+              disabled={signers.length >= 10}
+              onClick={() => setSigners(prev => [...prev, ''])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {fr.signatureWorkflow.addSigner}
+            </Button>
+          </div>
+
+          <div>
+            <Label htmlFor="signature-message" className="block text-text-primary font-medium mb-2">
+              {fr.signatureWorkflow.message}
+            </Label>
+            <Textarea
+              id="signature-message"
+              className="w-full rounded bg-background border border-gray-600 text-text-primary focus:ring-primary"
+              rows={3}
+              maxLength={500}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+          </div>
+        </form>
+
+        <DialogFooter className="border-t border-gray-700 pt-4">
+          <Button
+            variant="outline"
+            onClick={closeModal}
+            className="bg-secondary text-text-primary hover:bg-secondary/80"
+          >
+            {fr.common.cancel}
+          </Button>
+          <Button
+            type="submit"
+            form="signature-request-form"
+            className="bg-primary text-white hover:bg-primary/90"
+            disabled={!documentId || requestMutation.isPending}
+          >
+            {requestMutation.isPending ? fr.signatureWorkflow.sending : fr.signatureWorkflow.send}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { useModal } from '@/lib/utils/modals';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { fr } from '@/lib/i18n/french';
+import { DEFAULT_STAMP_LAYOUT, StampLayout, StampProfile } from '@shared/schema';
+
+type ProfileForm = StampLayout & { name: string };
+
+const emptyForm: ProfileForm = { ...DEFAULT_STAMP_LAYOUT, name: '' };
+
+// Editable layout fields of a saved profile
+const toForm = ({ id: _id, company: _company, createdAt: _createdAt, ...profile }: StampProfile): ProfileForm =>
+  profile as ProfileForm;
+
+export default function StampProfilesModal() {
+  const { isOpen, closeModal, modalType } = useModal();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<ProfileForm>(emptyForm);
+
+  const isModalOpen = isOpen && modalType === 'stampProfiles';
+
+  const { data: profiles = [] } = useQuery<StampProfile[]>({
+    queryKey: ['/api/stamp-profiles'],
+    enabled: isModalOpen && !!user?.company,
+  });
+
+  const setField = <K extends keyof ProfileForm>(field: K, value: ProfileForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: fr.common.error,
+      description: error.message,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => editingId
+      ? apiRequest('PUT', `/api/stamp-profiles/${editingId}`, form)
+      : apiRequest('POST', '/api/stamp-profiles', form),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stamp-profiles'] });
+      toast({ title: fr.stampProfiles.saved });
+      resetForm();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest('DELETE', `/api/stamp-profiles/${id}`),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stamp-profiles'] });
+      toast({ title: fr.stampProfiles.deleted });
+      if (id === editingId) {
+        resetForm();
+      }
+    },
+    onError,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  const numberInput = (field: 'marginX' | 'marginY' | 'fontSize' | 'opacity' | 'backgroundOpacity', step: string) => (
+    <Input
+      id={field}
+      type="number"
+      step={step}
+      className="bg-background border border-gray-600 text-text-primary"
+      value={form[field]}
+      onChange={(e) => setField(field, parseFloat(e.target.value) || 0)}
+    />
+  );
+
+  return (
+    <Dialog open={isModalOpen} onOpenChange={(open) => !open && closeModal()}>
+      <DialogContent className="sm:max-w-2xl bg-surface text-text-primary border-gray-700 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-medium text-primary">{fr.stampProfiles.title}</DialogTitle>
+        </DialogHeader>
+
+        {!user?.company ? (
+          <p className="text-text-secondary p-2">{fr.stampProfiles.noCompany}</p>
+        ) : (
+          <div className="p-2 space-y-6">
+            <div>
+              <p className="text-text-secondary text-sm mb-2">{fr.stampProfiles.description}</p>
+              <div className="bg-background rounded p-3 max-h-40 overflow-y-auto">
+                {profiles.length === 0 ? (
+                  <p className="text-text-secondary text-center py-2">{fr.stampProfiles.noProfiles}</p>
+                ) : (
+                  profiles.map((profile) => (
+                    <div key={profile.id} className="flex justify-between items-center mb-2 last:mb-0">
+                      <div>
+                        <p className="text-text-primary">{profile.name}</p>
+                        <p className="text-text-secondary text-xs font-mono">{profile.template}</p>
+                      </div>
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-text-primary hover:text-primary p-1 h-auto"
+                          onClick={() => { setEditingId(profile.id); setForm(toForm(profile)); }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-error hover:text-error/80 p-1 h-auto"
+                          onClick={() => deleteMutation.mutate(profile.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="flex justify-between items-center">
+                <h4 className="text-text-primary font-medium">
+                  {editingId ? form.name : fr.stampProfiles.newProfile}
+                </h4>
+                {editingId && (
+                  <Button type="button" variant="ghost" size="sm" onClick={resetForm}>
+                    <Plus className="mr-1 h-4 w-4" />
+                    {fr.stampProfiles.newProfile}
+                  </Button>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="name" className="block text-text-primary mb-1">{fr.stampProfiles.name}</Label>
+                <Input
+                  id="name"
+                  className="bg-background border border-gray-600 text-text-primary"
+                  value={form.name}
+                  onChange={(e) => setField('name', e.target.value)}
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="template" className="block text-text-primary mb-1">{fr.stampProfiles.template}</Label>
+                <Input
+                  id="template"
+                  className="bg-background border border-gray-600 text-text-primary font-mono"
+                  value={form.template}
+                  onChange={(e) => setField('template', e.target.value)}
+                  required
+                />
+                <p className="text-text-secondary text-xs mt-1">{fr.stampProfiles.templateHelp}</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label className="block text-text-primary mb-1">{fr.stampProfiles.position}</Label>
+                  <Select value={form.position} onValueChange={(value) => setField('position', value as StampLayout['position'])}>
+                    <SelectTrigger className="bg-background text-text-primary">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(fr.stamp.positions) as StampLayout['position'][]).map(position => (
+                        <SelectItem key={position} value={position}>{fr.stamp.positions[position]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="block text-text-primary mb-1">{fr.stampProfiles.pages}</Label>
+                  <Select value={form.pages} onValueChange={(value) => setField('pages', value as StampLayout['pages'])}>
+                    <SelectTrigger className="bg-background text-text-primary">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(fr.stamp.pageOptions) as StampLayout['pages'][]).map(pages => (
+                        <SelectItem key={pages} value={pages}>{fr.stamp.pageOptions[pages]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="marginX" className="block text-text-primary mb-1">{fr.stampProfiles.marginX}</Label>
+                  {numberInput('marginX', '1')}
+                </div>
+                <div>
+                  <Label htmlFor="marginY" className="block text-text-primary mb-1">{fr.stampProfiles.marginY}</Label>
+                  {numberInput('marginY', '1')}
+                </div>
+                <div>
+                  <Label htmlFor="fontSize" className="block text-text-primary mb-1">{fr.stampProfiles.fontSize}</Label>
+                  {numberInput('fontSize', '0.5')}
+                </div>
+                <div>
+                  <Label htmlFor="opacity" className="block text-text-primary mb-1">{fr.stampProfiles.opacity}</Label>
+                  {numberInput('opacity', '0.05')}
+                </div>
+                <div>
+                  <Label htmlFor="textColor" className="block text-text-primary mb-1">{fr.stampProfiles.textColor}</Label>
+                  <Input
+                    id="textColor"
+                    type="color"
+                    className="bg-background border border-gray-600 h-10 p-1"
+                    value={form.textColor}
+                    onChange={(e) => setField('textColor', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <div className="flex items-center space-x-2 mb-1">
+                    <Checkbox
+                      id="background"
+                      checked={form.backgroundColor !== null}
+                      onCheckedChange={(checked) => setField('backgroundColor', checked ? '#ffffff' : null)}
+                    />
+                    <Label htmlFor="background" className="text-text-primary cursor-pointer">{fr.stampProfiles.background}</Label>
+                  </div>
+                  {form.backgroundColor !== null && (
+                    <Input
+                      type="color"
+                      className="bg-background border border-gray-600 h-10 p-1"
+                      value={form.backgroundColor}
+                      onChange={(e) => setField('backgroundColor', e.target.value)}
+                    />
+                  )}
+                </div>
+                {form.backgroundColor !== null && (
+                  <div>
+                    <Label htmlFor="backgroundOpacity" className="block text-text-primary mb-1">{fr.stampProfiles.backgroundOpacity}</Label>
+                    {numberInput('backgroundOpacity', '0.05')}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="rotateLandscape"
+                  checked={form.rotateLandscape}
+                  onCheckedChange={(checked) => setField('rotateLandscape', checked === true)}
+                />
+                <Label htmlFor="rotateLandscape" className="text-text-primary cursor-pointer">
+                  {fr.stampProfiles.rotateLandscape}
+                </Label>
+              </div>
+
+              <Button
+                type="submit"
+                className="bg-primary text-white hover:bg-primary/90"
+                disabled={saveMutation.isPending}
+              >
+                {editingId ? fr.stampProfiles.update : fr.stampProfiles.create}
+              </Button>
+            </form>
+          </div>
+        )}
+
+        <DialogFooter className="border-t border-gray-700 pt-4">
+          <Button onClick={closeModal} className="bg-primary text-white hover:bg-primary/90">
+            {fr.common.close}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
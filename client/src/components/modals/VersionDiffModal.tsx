@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { FileDown } from 'lucide-react';
+import { useModal } from '@/lib/utils/modals';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { fr } from '@/lib/i18n/french';
+import { formatDateToFrench } from '@/lib/utils/document';
+import { DiffSegment, DocumentMetadata, DocumentVersionEntry, PageDiff, VersionDiff } from '@shared/schema';
+
+type DiffMode = 'sideBySide' | 'inline';
+
+const SEGMENT_CLASSES: Record<DiffSegment['type'], string> = {
+  equal: 'text-text-primary',
+  added: 'bg-green-500/20 text-green-300',
+  removed: 'bg-red-500/20 text-red-300 line-through'
+};
+
+// Renders the segments of one page, keeping the extracted line breaks
+function DiffText({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <p className="whitespace-pre-wrap break-words text-sm leading-relaxed">
+      {segments.map((segment, index) => (
+        <span key={index} className={SEGMENT_CLASSES[segment.type]}>{segment.text}</span>
+      ))}
+    </p>
+  );
+}
+
+function PageDiffView({ page, mode }: { page: PageDiff; mode: DiffMode }) {
+  return (
+    <div className="border border-gray-700 rounded">
+      <h3 className="text-sm font-medium text-text-primary bg-secondary px-3 py-1">
+        {fr.versionDiff.page} {page.page} ({fr.versionDiff.statuses[page.status]})
+      </h3>
+      {mode === 'inline' ? (
+        <div className="p-3">
+          <DiffText segments={page.segments} />
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 divide-x divide-gray-700">
+          <div className="p-3">
+            <DiffText segments={page.segments.filter(segment => segment.type !== 'added')} />
+          </div>
+          <div className="p-3">
+            <DiffText segments={page.segments.filter(segment => segment.type !== 'removed')} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function VersionDiffModal() {
+  const { isOpen, closeModal, modalType, modalData } = useModal();
+  const { toast } = useToast();
+
+  const isModalOpen = isOpen && modalType === 'versionDiff';
+  const documentId: number | undefined = modalData?.documentId;
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [mode, setMode] = useState<DiffMode>('sideBySide');
+
+  useEffect(() => {
+    if (isModalOpen) {
+      setFromId(String(modalData.fromId));
+      setToId(String(modalData.toId));
+    }
+  }, [isModalOpen, modalData]);
+
+  const { data: versions = [] } = useQuery<DocumentVersionEntry[]>({
+    queryKey: [`/api/documents/${documentId}/versions`],
+    enabled: isModalOpen && !!documentId,
+  });
+
+  const canCompare = isModalOpen && !!documentId && !!fromId && !!toId && fromId !== toId;
+  const { data: diff, isLoading, error } = useQuery<VersionDiff>({
+    queryKey: [`/api/documents/${documentId}/versions/compare?from=${fromId}&to=${toId}`],
+    enabled: canCompare,
+  });
+
+  // The report is registered as a new document, then downloaded like any other
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/documents/${documentId}/versions/compare/report`, {
+        from: Number(fromId),
+        to: Number(toId)
+      });
+      return await res.json() as DocumentMetadata;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/auditlogs`] });
+      toast({
+        title: fr.versionDiff.reportCreated,
+        description: fr.versionDiff.reportCreatedDesc,
+      });
+      window.location.href = `/api/documents/${report.id}/download`;
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: fr.common.error,
+        description: error.message,
+      });
+    }
+  });
+
+  const changedPages = diff?.pages.filter(page => page.status !== 'unchanged') ?? [];
+  const unchangedPages = diff?.pages.filter(page => page.status === 'unchanged').map(page => page.page) ?? [];
+
+  const versionSelect = (id: string, value: string, onChange: (value: string) => void, label: string) => (
+    <div className="flex-1">
+      <Label htmlFor={id} className="text-text-secondary text-sm mb-1 block">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id} className="bg-secondary text-text-primary">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map(version => (
+            <SelectItem key={version.id} value={String(version.id)}>
+              {fr.sidebar.version} {version.version} · {formatDateToFrench(version.createdAt)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={isModalOpen} onOpenChange={(open) => !open && closeModal()}>
+      <DialogContent className="sm:max-w-5xl bg-surface text-text-primary border-gray-700">
+        <DialogHeader className="border-b border-gray-700 pb-2">
+          <DialogTitle className="text-xl font-medium text-primary">{fr.versionDiff.title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-end gap-4">
+          {versionSelect('diff-from', fromId, setFromId, fr.versionDiff.from)}
+          {versionSelect('diff-to', toId, setToId, fr.versionDiff.to)}
+          <ToggleGroup
+            type="single"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as DiffMode)}
+            className="bg-secondary rounded"
+          >
+            <ToggleGroupItem value="sideBySide" className="text-sm">{fr.versionDiff.sideBySide}</ToggleGroupItem>
+            <ToggleGroupItem value="inline" className="text-sm">{fr.versionDiff.inline}</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-3">
+          {isLoading ? (
+            <p className="text-text-secondary p-2">{fr.versionDiff.comparing}</p>
+          ) : error ? (
+            <p className="text-error p-2">{error.message}</p>
+          ) : diff && (
+            <>
+              <p className="text-sm text-text-secondary">
+                {fr.versionDiff.stats
+                  .replace('{pages}', String(diff.stats.changedPages))
+                  .replace('{added}', String(diff.stats.addedWords))
+                  .replace('{removed}', String(diff.stats.removedWords))}
+              </p>
+              {unchangedPages.length > 0 && (
+                <p className="text-sm text-text-secondary">
+                  {fr.versionDiff.unchangedPages.replace('{pages}', unchangedPages.join(', '))}
+                </p>
+              )}
+              {changedPages.length === 0 ? (
+                <p className="text-text-secondary p-2">{fr.versionDiff.noChanges}</p>
+              ) : changedPages.map(page => (
+                <PageDiffView key={page.page} page={page} mode={mode} />
+              ))}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="border-t border-gray-700 pt-4">
+          <Button
+            variant="outline"
+            onClick={closeModal}
+            className="bg-secondary text-text-primary hover:bg-secondary/80"
+          >
+            {fr.common.close}
+          </Button>
+          <Button
+            className="bg-primary text-white hover:bg-primary/90"
+            onClick={() => reportMutation.mutate()}
+            disabled={!diff || reportMutation.isPending}
+          >
+            <FileDown className="mr-2 h-4 w-4" />
+            {reportMutation.isPending ? fr.versionDiff.generatingReport : fr.versionDiff.downloadReport}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
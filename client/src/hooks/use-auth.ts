@@ -0,0 +1,45 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { User } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+export type AuthUser = Omit<User, "password">;
+
+type LoginData = {
+  username: string;
+  password: string;
+};
+
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: (loggedInUser) => {
+      queryClient.setQueryData(["/api/auth/me"], loggedInUser);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      // Drop every cached document belonging to the previous session
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], null);
+    },
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    logoutMutation,
+  };
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import { getDocument, type PDFDocumentProxy } from "@/lib/pdf";
+
+/**
+ * Loads a PDF from an URL with PDF.js (range requests enabled) and releases it on unmount
+ */
+export function usePdfDocument(url: string | null) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!url) {
+      return;
+    }
+
+    setPdf(null);
+    setError(null);
+    setIsLoading(true);
+
+    const loadingTask = getDocument({ url, withCredentials: true });
+    loadingTask.promise
+      .then((loaded) => setPdf(loaded))
+      .catch((err: Error) => setError(err))
+      .finally(() => setIsLoading(false));
+
+    return () => {
+      loadingTask.destroy();
+    };
+  }, [url]);
+
+  return { pdf, error, isLoading };
+}
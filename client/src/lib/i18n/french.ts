@@ -11,6 +11,16 @@ export const fr = {
     unknown: "Inconnu",
     signing: "Signature en cours..."
   },
+  auth: {
+    title: "Connexion à BeaverDoc",
+    username: "Nom d'utilisateur",
+    password: "Mot de passe",
+    login: "Se connecter",
+    loggingIn: "Connexion...",
+    logout: "Se déconnecter",
+    loginFailed: "Échec de la connexion",
+    loginFailedDesc: "Identifiant ou mot de passe incorrect"
+  },
   nav: {
     file: "Fichier",
     new: "Nouveau",
@@ -20,7 +30,11 @@ export const fr = {
     print: "Imprimer",
     share: "Partager",
     importPDF: "Importer PDF",
-    importGoogleDoc: "Importer Google Doc"
+    importGoogleDoc: "Importer Google Doc",
+    verify: "Vérifier",
+    stampProfiles: "Profils de marquage",
+    company: "Société",
+    quarantine: "Quarantaine"
   },
   documents: {
     title: "Mes Documents",
@@ -37,7 +51,16 @@ export const fr = {
     fullscreen: "Plein écran",
     notFound: "Document non trouvé",
     notFoundDesc: "Le document demandé n'existe pas ou vous n'avez pas les permissions nécessaires.",
-    noContent: "Aucun contenu disponible"
+    noContent: "Aucun contenu disponible",
+    loadError: "Impossible d'afficher ce document",
+    page: "Page",
+    pages: "Pages",
+    previousPage: "Page précédente",
+    nextPage: "Page suivante",
+    viewingVersion: "Version affichée :",
+    backToCurrent: "Revenir à la version courante",
+    replaceSuccess: "Fichier remplacé",
+    replaceSuccessDesc: "Le nouveau fichier est devenu la version courante du document"
   },
   upload: {
     title: "Importez vos documents",
@@ -63,7 +86,24 @@ export const fr = {
     signed: "Signé",
     notSigned: "Non signé",
     auditLog: "Historique d'audit",
-    unknown: "Inconnue"
+    unknown: "Inconnue",
+    versions: "Versions",
+    version: "Version",
+    current: "courante",
+    viewVersion: "Afficher cette version",
+    downloadVersion: "Télécharger cette version",
+    replaceFile: "Remplacer le fichier",
+    replacing: "Remplacement...",
+    compareVersions: "Comparer les versions",
+    anchoring: "Ancrage du registre",
+    anchoredAt: "Ancré le",
+    anchorPending: "En attente du prochain ancrage",
+    downloadProof: "Télécharger la preuve d'inclusion",
+    versionReasons: {
+      upload: "Importation",
+      replace: "Remplacement du fichier",
+      signature: "Signature"
+    }
   },
   import: {
     title: "Importer un Document",
@@ -73,10 +113,95 @@ export const fr = {
     generateNewUid: "Générer un nouveau UID",
     addToken: "Ajouter un token de traçabilité",
     signAfterImport: "Signer automatiquement après l'importation",
+    stampProfile: "Profil de marquage",
+    defaultStampProfile: "Standard",
+    addQrCode: "Ajouter un QR code de vérification",
+    qrPosition: "Position du QR code",
+    qrPages: "Pages portant le QR code",
+    qrPageOptions: {
+      all: "Toutes les pages",
+      last: "Dernière page uniquement"
+    },
     import: "Importer",
     fileSelected: "Fichier sélectionné",
     change: "Changer"
   },
+  stamp: {
+    positions: {
+      "bottom-right": "En bas à droite",
+      "bottom-left": "En bas à gauche",
+      "top-right": "En haut à droite",
+      "top-left": "En haut à gauche"
+    },
+    pageOptions: {
+      all: "Toutes les pages",
+      first: "Première page",
+      last: "Dernière page",
+      odd: "Pages impaires"
+    }
+  },
+  company: {
+    title: "Société",
+    name: "Nom",
+    code: "Code dans les UID",
+    description: "Ces informations sont inscrites dans les métadonnées des copies marquées de vos documents",
+    issuerName: "Émetteur (certifié par)",
+    authorName: "Auteur",
+    verificationBaseUrl: "Adresse de vérification",
+    verificationBaseUrlHelp: "Adresse publique de BeaverDoc pour vos documents ; laisser vide pour l'adresse par défaut",
+    saved: "Informations de la société enregistrées"
+  },
+  stampProfiles: {
+    title: "Profils de marquage",
+    description: "Mises en page du marquage partagées par les utilisateurs de votre société",
+    noCompany: "Aucune société n'est associée à votre compte",
+    noProfiles: "Aucun profil de marquage",
+    newProfile: "Nouveau profil",
+    name: "Nom du profil",
+    template: "Modèle du texte",
+    templateHelp: "Variables : {page}, {total}, {uid}, {token}, {date}, {signer} ; {uid:8} ne garde que les 8 derniers caractères",
+    position: "Coin",
+    pages: "Pages marquées",
+    marginX: "Marge horizontale (pt)",
+    marginY: "Marge verticale (pt)",
+    fontSize: "Taille du texte (pt)",
+    textColor: "Couleur du texte",
+    opacity: "Opacité du texte",
+    background: "Fond derrière le texte",
+    backgroundOpacity: "Opacité du fond",
+    rotateLandscape: "Texte vertical sur les pages paysage",
+    create: "Créer le profil",
+    update: "Mettre à jour",
+    saved: "Profil de marquage enregistré",
+    deleted: "Profil de marquage supprimé"
+  },
+  quarantine: {
+    title: "Fichiers en quarantaine",
+    description: "Fichiers refusés à l'importation ; libérer un fichier l'enregistre tel quel pour l'utilisateur qui l'a téléchargé",
+    noEntries: "Aucun fichier en quarantaine",
+    uploadedBy: "Téléchargé par",
+    replacing: "Remplacement du document",
+    threats: "Éléments détectés",
+    statuses: {
+      quarantined: "En quarantaine",
+      released: "Libéré",
+      purged: "Supprimé"
+    },
+    resolvedBy: "par",
+    threatKinds: {
+      javascript: "JavaScript",
+      launch: "Lancement d'application",
+      embedded_file: "Fichier incorporé",
+      xfa: "Formulaire XFA",
+      external_uri: "Lien externe",
+      encryption: "Chiffrement"
+    },
+    download: "Télécharger",
+    release: "Libérer",
+    purge: "Supprimer",
+    released: "Fichier libéré et enregistré",
+    purged: "Fichier supprimé de la quarantaine"
+  },
   share: {
     title: "Partager le Document",
     emailAddress: "Adresse email",
@@ -103,6 +228,175 @@ export const fr = {
     edit: "Modification du document",
     sign: "Signature du document",
     share: "Partage du document",
-    download: "Téléchargement du document"
+    download: "Téléchargement du document",
+    print: "Impression du document",
+    delete: "Suppression du document",
+    replace: "Remplacement du fichier",
+    compare: "Comparaison de versions",
+    signatureRequest: "Demande de signature",
+    signatureDeclined: "Signature refusée",
+    signatureCancelled: "Demande de signature annulée",
+    signatureCompleted: "Signatures terminées",
+    signatureFieldAdded: "Champ de signature placé",
+    signatureFieldRemoved: "Champ de signature supprimé",
+    accessDenied: "Accès refusé",
+    scan: "Analyse antivirus",
+    chainValid: "Historique intègre : chaîne de hachage vérifiée",
+    chainBroken: "Historique altéré : la chaîne de hachage est rompue",
+    globalChainBroken: "Le journal global a été altéré en dehors de ce document"
+  },
+  scan: {
+    title: "Analyse antivirus",
+    statuses: {
+      not_scanned: "Non analysé",
+      pending: "Analyse en cours...",
+      clean: "Aucune menace détectée",
+      infected: "Menace détectée : contenu bloqué",
+      failed: "Échec de l'analyse : contenu bloqué"
+    },
+    withheld: {
+      pending: "Le document est en cours d'analyse antivirus ; il s'affichera dès la fin de l'analyse",
+      infected: "L'analyse antivirus a détecté une menace : le contenu de ce document n'est pas accessible",
+      failed: "L'analyse antivirus a échoué : le contenu de ce document n'est pas accessible"
+    },
+    retry: "Relancer l'analyse",
+    retried: "Analyse antivirus relancée"
+  },
+  timestamps: {
+    title: "Horodatages RFC 3161",
+    kinds: {
+      content: "Empreinte d'un fichier",
+      signature: "Signature"
+    },
+    none: "Non horodaté",
+    invalid: "Horodatage invalide",
+    certifiedAt: "Horodaté le",
+    serialNumber: "N° de série"
+  },
+  signatureWorkflow: {
+    title: "Demande de signature",
+    statuses: {
+      draft: "Brouillon",
+      awaiting_signatures: "En attente de signatures",
+      completed: "Signé",
+      declined: "Signature refusée"
+    },
+    signerStatuses: {
+      pending: "En attente",
+      signed: "Signé",
+      declined: "Refusé"
+    },
+    mode: "Ordre des signatures",
+    modes: {
+      sequential: "Séquentiel : chaque signataire à son tour",
+      parallel: "Parallèle : tous les signataires en même temps"
+    },
+    signers: "Signataires",
+    signerEmail: "Adresse email du signataire",
+    addSigner: "Ajouter un signataire",
+    removeSigner: "Retirer",
+    moveUp: "Monter",
+    moveDown: "Descendre",
+    message: "Message aux signataires (facultatif)",
+    send: "Envoyer la demande",
+    sending: "Envoi...",
+    created: "Demande de signature envoyée",
+    createdDesc: "Les signataires peuvent signer le document depuis leur tableau de bord",
+    request: "Demander des signatures",
+    signNow: "Signer maintenant",
+    decline: "Refuser de signer",
+    declineReason: "Motif du refus (facultatif)",
+    declined: "Signature refusée",
+    cancel: "Annuler la demande",
+    cancelled: "Demande de signature annulée",
+    signed: "Signature apposée",
+    signedDesc: "Votre signature a été ajoutée au document",
+    yourTurn: "à vous de signer",
+    requestedBy: "Demandée par",
+    tasks: "Signatures à effectuer",
+    openDocument: "Ouvrir"
+  },
+  signaturePad: {
+    title: "Signature manuscrite",
+    saved: "Signature enregistrée",
+    draw: "Dessiner",
+    type: "Saisir",
+    drawHint: "Signez ici avec la souris, le doigt ou le stylet",
+    clear: "Effacer",
+    typedName: "Votre nom",
+    empty: "Dessinez ou saisissez votre signature",
+    savedNote: "Votre signature sera enregistrée et proposée lors de vos prochaines signatures.",
+    noField: "Aucun champ de signature ne vous est attribué sur ce document : seule la signature électronique sera apposée.",
+    sign: "Signer",
+    signWithout: "Signer sans signature manuscrite",
+    preparing: "Préparation..."
+  },
+  signatureFields: {
+    place: "Placer un champ de signature",
+    placing: "Tracez le cadre de la signature sur la page",
+    signerEmail: "Adresse email du signataire",
+    add: "Ajouter",
+    remove: "Supprimer le champ",
+    added: "Champ de signature placé",
+    removed: "Champ de signature supprimé"
+  },
+  versionDiff: {
+    title: "Comparaison de versions",
+    from: "Version de référence",
+    to: "Version comparée",
+    sideBySide: "Côte à côte",
+    inline: "En ligne",
+    page: "Page",
+    statuses: {
+      unchanged: "inchangée",
+      changed: "modifiée",
+      added: "ajoutée",
+      removed: "supprimée"
+    },
+    stats: "{pages} page(s) modifiée(s) · {added} mot(s) ajouté(s) · {removed} mot(s) supprimé(s)",
+    unchangedPages: "Pages inchangées : {pages}",
+    noChanges: "Aucune différence de texte entre ces versions",
+    comparing: "Comparaison en cours...",
+    downloadReport: "Télécharger le rapport",
+    generatingReport: "Génération du rapport...",
+    reportCreated: "Rapport de comparaison créé",
+    reportCreatedDesc: "Le rapport a été ajouté à vos documents avec son propre UID"
+  },
+  verify: {
+    title: "Vérifier un document",
+    description: "Contrôlez qu'un document a bien été enregistré et, le cas échéant, signé. Aucune connexion n'est requise.",
+    reference: "UID ou token du document",
+    check: "Vérifier",
+    checking: "Vérification...",
+    dropFile: "Glissez le PDF reçu ici pour vérifier son authenticité",
+    browse: "Choisir un fichier",
+    unknown: "Document inconnu",
+    registered: "Document enregistré",
+    registeredSigned: "Document enregistré et signé",
+    fileMatches: "Le fichier est identique à une copie émise par BeaverDoc",
+    fileDiffers: "Le fichier ne correspond à aucune copie émise par BeaverDoc",
+    tokenMatches: "Le token correspond au document enregistré",
+    tokenDiffers: "Le token ne correspond pas au document enregistré",
+    embeddedHashKnown: "L'empreinte inscrite dans les métadonnées est connue",
+    embeddedHashUnknown: "L'empreinte inscrite dans les métadonnées est inconnue",
+    fileHash: "Empreinte SHA-256 du fichier",
+    verdicts: {
+      authentic: "Document authentique",
+      modified_after_stamping: "Document modifié après son marquage",
+      unknown_uid: "UID inconnu",
+      metadata_stripped: "Métadonnées BeaverDoc absentes"
+    },
+    registeredAt: "Enregistré le",
+    updatedAt: "Dernière modification",
+    signer: "Signataire",
+    signedAt: "Signé le",
+    signatures: "Signatures apposées",
+    contentHash: "Empreinte SHA-256 de la copie émise",
+    originalHash: "Empreinte SHA-256 de l'original importé",
+    linkHashMatches: "L'empreinte du lien de vérification correspond à l'original enregistré",
+    linkHashDiffers: "L'empreinte du lien de vérification ne correspond pas à l'original enregistré",
+    certificateFingerprint: "Empreinte du certificat",
+    contentTimestamp: "Horodatage de la copie émise",
+    signatureTimestamps: "Horodatage des signatures du fichier"
   }
 };
@@ -0,0 +1,15 @@
+import { GlobalWorkerOptions, PixelsPerInch } from "pdfjs-dist";
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+// PDF.js parses documents in a web worker bundled by Vite
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+export { getDocument, TextLayer, RenderingCancelledException } from "pdfjs-dist";
+export type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist";
+
+/**
+ * Converts a zoom percentage into a PDF.js render scale (100% = real size on screen)
+ */
+export function zoomToScale(zoom: number): number {
+  return (zoom / 100) * PixelsPerInch.PDF_TO_CSS_UNITS;
+}
@@ -0,0 +1,67 @@
+import { parse, type Font } from 'opentype.js';
+import scriptFontUrl from '@fontsource/dancing-script/files/dancing-script-latin-400-normal.woff?url';
+import { SignatureDrawing } from '@shared/schema';
+
+export type PadPoint = { x: number; y: number };
+
+// Pen width of the strokes captured on the pad, in pad units
+export const PAD_STROKE_WIDTH = 2.5;
+
+// Font size used to outline typed names (units of the drawing)
+const TYPED_FONT_SIZE = 72;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Crops the strokes to their bounding box (plus half a pen width) and writes them as SVG path data
+export function strokesToDrawing(strokes: PadPoint[][]): SignatureDrawing | null {
+  const points = strokes.flat();
+  if (points.length === 0) return null;
+
+  const margin = PAD_STROKE_WIDTH;
+  const minX = Math.min(...points.map(point => point.x)) - margin;
+  const minY = Math.min(...points.map(point => point.y)) - margin;
+  const maxX = Math.max(...points.map(point => point.x)) + margin;
+  const maxY = Math.max(...points.map(point => point.y)) + margin;
+
+  return {
+    width: round(maxX - minX),
+    height: round(maxY - minY),
+    paths: strokes.filter(stroke => stroke.length > 0).map(stroke => ({
+      // A single tap is kept as a dot
+      d: (stroke.length === 1 ? [stroke[0], stroke[0]] : stroke)
+        .map((point, index) => `${index === 0 ? 'M' : 'L'}${round(point.x - minX)} ${round(point.y - minY)}`)
+        .join(' '),
+      fill: false,
+      strokeWidth: PAD_STROKE_WIDTH
+    }))
+  };
+}
+
+let scriptFont: Promise<Font> | null = null;
+
+// The script font is downloaded once, when a name is first typed
+function loadScriptFont(): Promise<Font> {
+  if (!scriptFont) {
+    scriptFont = fetch(scriptFontUrl)
+      .then(res => res.arrayBuffer())
+      .then(buffer => parse(buffer));
+    scriptFont.catch(() => {
+      scriptFont = null;
+    });
+  }
+  return scriptFont;
+}
+
+// Outlines a typed name in the script font, so it is drawn as vector paths like a handwritten signature
+export async function typedNameToDrawing(name: string): Promise<SignatureDrawing> {
+  const font = await loadScriptFont();
+  const box = font.getPath(name, 0, 0, TYPED_FONT_SIZE).getBoundingBox();
+  const margin = 2;
+  const path = font.getPath(name, margin - box.x1, margin - box.y1, TYPED_FONT_SIZE);
+
+  return {
+    width: round(box.x2 - box.x1 + 2 * margin),
+    height: round(box.y2 - box.y1 + 2 * margin),
+    paths: [{ d: path.toPathData(1), fill: true }]
+  };
+}
@@ -1,4 +1,5 @@
 // Functions related to document handling
+import { ScanStatus } from '@shared/schema';
 
 /**
  * Generates a UID for a document
@@ -53,3 +54,10 @@ export function formatFileSize(bytes: number): string {
   
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
+
+/**
+ * Whether the server withholds the document content because of its malware scan (in progress, infected or failed)
+ */
+export function isContentWithheld(scanStatus: string): scanStatus is Exclude<ScanStatus, 'not_scanned' | 'clean'> {
+  return scanStatus === 'pending' || scanStatus === 'infected' || scanStatus === 'failed';
+}
@@ -1,28 +1,40 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useParams } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import DocumentViewer from "@/components/document/DocumentViewer";
 import Sidebar from "@/components/document/Sidebar";
 import { fr } from "@/lib/i18n/french";
-import { Document } from "@shared/schema";
+import { DocumentDetails, DocumentVersionEntry } from "@shared/schema";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useModal } from "@/lib/utils/modals";
+
+// Delay between two checks of a pending malware scan
+const SCAN_POLL_INTERVAL = 3000;
 
 export default function DocumentView() {
   const { id } = useParams();
   const { toast } = useToast();
+  const { openModal } = useModal();
+  // Prior version shown in the viewer, null for the current copy
+  const [viewedVersion, setViewedVersion] = useState<DocumentVersionEntry | null>(null);
   
-  const { data: document, isLoading } = useQuery<Document>({
+  const { data: document, isLoading } = useQuery<DocumentDetails>({
     queryKey: [`/api/documents/${id}`],
+    // Polled until the malware scan of a new file completes
+    refetchInterval: (query) => query.state.data?.scanStatus === 'pending' ? SCAN_POLL_INTERVAL : false,
   });
 
   const signDocument = useMutation({
-    mutationFn: async () => {
-      return apiRequest('POST', `/api/documents/${id}/sign`, {});
+    mutationFn: async (handwritten: boolean) => {
+      return apiRequest('POST', `/api/documents/${id}/sign`, { handwritten });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/documents/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${id}/versions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${id}/signature-fields`] });
+      setViewedVersion(null);
       toast({
         title: fr.document.signSuccess,
         description: fr.document.signSuccessDesc,
@@ -37,17 +49,43 @@ export default function DocumentView() {
     }
   });
 
-  // Create an audit log entry for document view
-  useEffect(() => {
-    if (document) {
-      apiRequest('POST', '/api/auditlogs', {
-        documentId: document.id,
-        userId: 1, // In a real app, this would be the current user's ID
-        action: 'view',
-        details: 'Document viewed'
+  // The new file becomes the current version; prior versions stay available in the sidebar
+  const replaceFile = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch(`/api/documents/${id}/versions`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || response.statusText);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${id}/versions`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      setViewedVersion(null);
+      toast({
+        title: fr.document.replaceSuccess,
+        description: fr.document.replaceSuccessDesc,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: fr.common.error,
+        description: error.message,
       });
     }
-  }, [document]);
+  });
 
   if (isLoading) {
     return (
@@ -71,8 +109,22 @@ export default function DocumentView() {
   return (
     <div className="container mx-auto px-4 py-6">
       <div className="flex flex-col lg:flex-row gap-6">
-        <Sidebar document={document} onSignDocument={signDocument.mutate} />
-        <DocumentViewer document={document} />
+        <Sidebar
+          document={document}
+          onSignDocument={() => openModal('signaturePad', {
+            documentId: document.id,
+            onConfirm: (handwritten: boolean) => signDocument.mutate(handwritten)
+          })}
+          viewedVersionId={viewedVersion?.id ?? null}
+          onViewVersion={setViewedVersion}
+          onReplaceFile={replaceFile.mutate}
+          isReplacing={replaceFile.isPending}
+        />
+        <DocumentViewer
+          document={document}
+          version={viewedVersion}
+          onBackToCurrent={() => setViewedVersion(null)}
+        />
       </div>
     </div>
   );
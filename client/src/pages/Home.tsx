@@ -3,10 +3,12 @@ import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Upload, FileTextIcon, FilePlus } from "lucide-react";
+import { Upload, FileTextIcon, FilePlus, PenLine } from "lucide-react";
 import { useModal } from "@/lib/utils/modals";
 import UploadZone from "@/components/document/UploadZone";
 import { fr } from "@/lib/i18n/french";
+import { formatDateToFrench } from "@/lib/utils/document";
+import { SignatureTask } from "@shared/schema";
 
 export default function Home() {
   const [, navigate] = useLocation();
@@ -16,6 +18,11 @@ export default function Home() {
     queryKey: ['/api/documents'],
   });
 
+  // Signature requests where it is the user's turn to sign
+  const { data: signatureTasks = [] } = useQuery<SignatureTask[]>({
+    queryKey: ['/api/signature-tasks'],
+  });
+
   const handleCreateDocument = () => {
     openModal('import');
   };
@@ -37,6 +44,38 @@ export default function Home() {
         </Button>
       </div>
 
+      {signatureTasks.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-lg font-medium text-text-primary mb-3">{fr.signatureWorkflow.tasks}</h2>
+          <div className="space-y-2">
+            {signatureTasks.map(task => (
+              <Card key={task.signerId} className="bg-secondary">
+                <CardContent className="p-4 flex items-center justify-between">
+                  <div className="flex items-center">
+                    <PenLine className="h-6 w-6 text-primary mr-3" />
+                    <div>
+                      <h3 className="font-medium text-text-primary">{task.document.name}</h3>
+                      <p className="text-sm text-text-secondary">
+                        {fr.signatureWorkflow.requestedBy} {task.requestedBy ?? fr.common.unknown} · {formatDateToFrench(task.request.createdAt)}
+                      </p>
+                      {task.request.message && (
+                        <p className="text-sm text-text-primary italic">{task.request.message}</p>
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    onClick={() => handleOpenDocument(String(task.document.id))}
+                    className="bg-primary text-white hover:bg-primary/90"
+                  >
+                    {fr.signatureWorkflow.openDocument}
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
       {isLoading ? (
         <div className="text-center py-8">
           <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { fr } from "@/lib/i18n/french";
+import beaverLogo from "@/assets/beaver.png";
+
+export default function Login() {
+  const { loginMutation } = useAuth();
+  const { toast } = useToast();
+
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate({ username, password }, {
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: fr.auth.loginFailed,
+          description: fr.auth.loginFailedDesc,
+        });
+      }
+    });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-16 flex justify-center">
+      <Card className="bg-secondary w-full max-w-md">
+        <CardContent className="p-8">
+          <div className="flex flex-col items-center mb-6">
+            <img
+              src={beaverLogo}
+              alt="Beaver Logo"
+              className="h-16 w-16 mb-3 object-contain"
+            />
+            <h1 className="text-2xl font-bold text-primary">{fr.auth.title}</h1>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="username" className="block text-text-primary font-medium mb-2">
+                {fr.auth.username}
+              </Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                className="bg-background border border-gray-600 text-text-primary focus:ring-primary"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="password" className="block text-text-primary font-medium mb-2">
+                {fr.auth.password}
+              </Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                className="bg-background border border-gray-600 text-text-primary focus:ring-primary"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full bg-primary text-white hover:bg-primary/90"
+              disabled={loginMutation.isPending}
+            >
+              {loginMutation.isPending ? fr.auth.loggingIn : fr.auth.login}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
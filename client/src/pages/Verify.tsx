@@ -0,0 +1,324 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ShieldCheck, ShieldAlert, ShieldQuestion, Upload, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import TimestampStatus from "@/components/document/TimestampStatus";
+import { FileVerificationResult, FileVerificationVerdict, VerificationSummary } from "@shared/schema";
+import { fr } from "@/lib/i18n/french";
+import { formatDateToFrench } from "@/lib/utils/document";
+
+type LookupResult =
+  | { found: true; summary: VerificationSummary }
+  | { found: false; message: string };
+
+const verdictStyles: Record<FileVerificationVerdict, { icon: typeof ShieldCheck; className: string }> = {
+  authentic: { icon: ShieldCheck, className: "text-success" },
+  modified_after_stamping: { icon: ShieldAlert, className: "text-error" },
+  unknown_uid: { icon: ShieldQuestion, className: "text-warning" },
+  metadata_stripped: { icon: ShieldQuestion, className: "text-warning" },
+};
+
+export default function Verify() {
+  const [reference, setReference] = useState("");
+  // Hash of the original carried by verification links (QR codes printed on documents)
+  const [linkHash, setLinkHash] = useState<string | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const lookupMutation = useMutation({
+    mutationFn: async (value: string): Promise<LookupResult> => {
+      // Tokens start with DOC-, everything else is treated as a UID
+      const url = value.startsWith("DOC-")
+        ? `/api/verify/token/${encodeURIComponent(value)}`
+        : `/api/verify/${encodeURIComponent(value)}`;
+
+      const res = await fetch(url);
+      if (res.status === 404) {
+        const body = await res.json();
+        return { found: false, message: body.message };
+      }
+      if (!res.ok) {
+        throw new Error((await res.text()) || res.statusText);
+      }
+      return { found: true, summary: await res.json() };
+    },
+  });
+
+  // The server reads the UID/token from the PDF metadata and compares it to the issued copies
+  const fileMutation = useMutation({
+    mutationFn: async (selected: File): Promise<FileVerificationResult> => {
+      const formData = new FormData();
+      formData.append("file", selected);
+
+      const res = await fetch("/api/verify/file", { method: "POST", body: formData });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || res.statusText);
+      }
+      return res.json();
+    },
+  });
+
+  // Verification links (e.g. printed on documents) carry the UID and the original hash in the query string
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const initial = params.get("uid") || params.get("token");
+    setLinkHash(params.get("hash"));
+    if (initial) {
+      setReference(initial);
+      lookupMutation.mutate(initial);
+    }
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = reference.trim();
+    if (value) {
+      setLinkHash(null);
+      lookupMutation.mutate(value);
+    }
+  };
+
+  const handleFile = (selected: File) => {
+    setFile(selected);
+    fileMutation.mutate(selected);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const result = lookupMutation.data;
+  const summary = result?.found ? result.summary : null;
+  const fileResult = fileMutation.data;
+  const VerdictIcon = fileResult ? verdictStyles[fileResult.verdict].icon : null;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <h1 className="text-2xl font-bold text-primary mb-2">{fr.verify.title}</h1>
+      <p className="text-text-secondary mb-6">{fr.verify.description}</p>
+
+      <Card className="bg-secondary mb-6">
+        <CardContent className="p-6 space-y-6">
+          <form onSubmit={handleSubmit}>
+            <Label htmlFor="reference" className="block text-text-primary font-medium mb-2">
+              {fr.verify.reference}
+            </Label>
+            <div className="flex">
+              <Input
+                id="reference"
+                placeholder="UID-... / DOC-..."
+                className="flex-grow rounded-l bg-background border border-gray-600 text-text-primary font-mono focus:ring-primary"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+              />
+              <Button
+                type="submit"
+                className="bg-primary text-white rounded-r hover:bg-primary/90"
+                disabled={lookupMutation.isPending || !reference.trim()}
+              >
+                <Search className="mr-2 h-4 w-4" />
+                {lookupMutation.isPending ? fr.verify.checking : fr.verify.check}
+              </Button>
+            </div>
+          </form>
+
+          <div
+            className={`upload-zone p-6 flex flex-col items-center border-2 border-dashed rounded-lg transition-all ${
+              isDragging ? 'border-primary bg-primary/5' : 'border-accent'
+            }`}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+          >
+            <Upload className="h-10 w-10 text-accent mb-3" />
+            <p className="text-text-primary mb-3 text-center">
+              {file ? file.name : fr.verify.dropFile}
+            </p>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              {fr.verify.browse}
+            </Button>
+            {fileMutation.isPending && (
+              <p className="text-text-secondary text-sm mt-3">{fr.verify.checking}</p>
+            )}
+            {fileMutation.isError && (
+              <p className="text-error text-sm mt-3">{fileMutation.error.message}</p>
+            )}
+            <input
+              type="file"
+              accept=".pdf,application/pdf"
+              className="hidden"
+              ref={fileInputRef}
+              onChange={(e) => e.target.files && e.target.files.length > 0 && handleFile(e.target.files[0])}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {fileResult && VerdictIcon && (
+        <Card className="bg-secondary mb-6">
+          <CardContent className="p-6 space-y-4">
+            <div className="flex items-center">
+              <VerdictIcon className={`h-8 w-8 mr-3 ${verdictStyles[fileResult.verdict].className}`} />
+              <div>
+                <p className={`font-medium ${verdictStyles[fileResult.verdict].className}`}>
+                  {fr.verify.verdicts[fileResult.verdict]}
+                </p>
+                {fileResult.embedded.uid && (
+                  <p className="text-text-secondary text-xs font-mono break-all">{fileResult.embedded.uid}</p>
+                )}
+              </div>
+            </div>
+
+            {fileResult.checks && (
+              <ul className="text-sm space-y-1">
+                <li className={fileResult.checks.matchesIssuedCopy ? "text-success" : "text-error"}>
+                  {fileResult.checks.matchesIssuedCopy ? fr.verify.fileMatches : fr.verify.fileDiffers}
+                </li>
+                <li className={fileResult.checks.tokenMatches ? "text-success" : "text-error"}>
+                  {fileResult.checks.tokenMatches ? fr.verify.tokenMatches : fr.verify.tokenDiffers}
+                </li>
+                <li className={fileResult.checks.embeddedHashKnown ? "text-success" : "text-warning"}>
+                  {fileResult.checks.embeddedHashKnown ? fr.verify.embeddedHashKnown : fr.verify.embeddedHashUnknown}
+                </li>
+              </ul>
+            )}
+
+            {/* Timestamps carried by the signatures of the submitted file itself */}
+            {fileResult.signatureTimestamps.length > 0 && (
+              <div>
+                <h3 className="text-text-secondary text-sm mb-1">{fr.verify.signatureTimestamps}</h3>
+                <ul className="space-y-1">
+                  {fileResult.signatureTimestamps.map((timestamp, index) => (
+                    <li key={index} className="bg-surface p-2 rounded">
+                      <TimestampStatus verification={timestamp} />
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-text-secondary text-sm mb-1">{fr.verify.fileHash}</h3>
+              <div className="bg-surface p-2 rounded text-xs break-all font-mono">{fileResult.fileHash}</div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {lookupMutation.isError && (
+        <Card className="bg-secondary">
+          <CardContent className="p-6 text-error">{lookupMutation.error.message}</CardContent>
+        </Card>
+      )}
+
+      {result && !result.found && (
+        <Card className="bg-secondary">
+          <CardContent className="p-6 flex items-center">
+            <ShieldQuestion className="h-8 w-8 text-warning mr-3" />
+            <div>
+              <p className="text-warning font-medium">{fr.verify.unknown}</p>
+              <p className="text-text-secondary text-sm">{result.message}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {summary && (
+        <Card className="bg-secondary">
+          <CardContent className="p-6 space-y-4">
+            <div className="flex items-center">
+              <ShieldCheck className="h-8 w-8 text-success mr-3" />
+              <div>
+                <p className="text-success font-medium">
+                  {summary.status === 'signed' ? fr.verify.registeredSigned : fr.verify.registered}
+                </p>
+                <p className="text-text-secondary text-xs font-mono break-all">{summary.uid}</p>
+              </div>
+            </div>
+
+            {linkHash && (
+              <p className={`text-sm ${linkHash === summary.originalHash ? "text-success" : "text-error"}`}>
+                {linkHash === summary.originalHash ? fr.verify.linkHashMatches : fr.verify.linkHashDiffers}
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div>
+                <h3 className="text-text-secondary mb-1">{fr.verify.registeredAt}</h3>
+                <p className="text-text-primary">{formatDateToFrench(summary.createdAt)}</p>
+              </div>
+              <div>
+                <h3 className="text-text-secondary mb-1">{fr.verify.updatedAt}</h3>
+                <p className="text-text-primary">{formatDateToFrench(summary.updatedAt)}</p>
+              </div>
+              {summary.signer && (
+                <>
+                  <div>
+                    <h3 className="text-text-secondary mb-1">{fr.verify.signer}</h3>
+                    <p className="text-text-primary">{summary.signer.name}</p>
+                    <p className="text-text-secondary text-xs">{summary.signer.certificateSubject}</p>
+                  </div>
+                  <div>
+                    <h3 className="text-text-secondary mb-1">{fr.verify.signedAt}</h3>
+                    <p className="text-text-primary">{formatDateToFrench(summary.signer.signedAt)}</p>
+                    <TimestampStatus verification={summary.signer.timestamp} />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Every signature, when there is more than the latest one shown above */}
+            {summary.signatures.length > (summary.signer ? 1 : 0) && (
+              <div>
+                <h3 className="text-text-secondary text-sm mb-1">{fr.verify.signatures}</h3>
+                <ul className="space-y-1 text-sm">
+                  {summary.signatures.map((signature, index) => (
+                    <li key={index} className="bg-surface p-2 rounded">
+                      <p className="text-text-primary">{signature.name} · {formatDateToFrench(signature.signedAt)}</p>
+                      <p className="text-text-secondary text-xs">{signature.certificateSubject}</p>
+                      <TimestampStatus verification={signature.timestamp} />
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-text-secondary text-sm mb-1">{fr.verify.contentHash}</h3>
+              <div className="bg-surface p-2 rounded text-xs break-all font-mono">
+                {summary.contentHash || fr.sidebar.unknown}
+              </div>
+              <h3 className="text-text-secondary text-sm mt-2 mb-1">{fr.verify.contentTimestamp}</h3>
+              <TimestampStatus verification={summary.contentTimestamp} />
+            </div>
+
+            {summary.originalHash && summary.originalHash !== summary.contentHash && (
+              <div>
+                <h3 className="text-text-secondary text-sm mb-1">{fr.verify.originalHash}</h3>
+                <div className="bg-surface p-2 rounded text-xs break-all font-mono">{summary.originalHash}</div>
+              </div>
+            )}
+
+            {summary.signer && (
+              <div>
+                <h3 className="text-text-secondary text-sm mb-1">{fr.verify.certificateFingerprint}</h3>
+                <div className="bg-surface p-2 rounded text-xs break-all font-mono">
+                  {summary.signer.certificateFingerprint}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+CREATE TABLE "audit_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"action" text NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"details" text
+);
+--> statement-breakpoint
+CREATE TABLE "document_shares" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"permission" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "documents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"uid" text NOT NULL,
+	"token" text NOT NULL,
+	"content" text,
+	"content_type" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"size" text,
+	"creator_id" integer NOT NULL,
+	"is_signed" boolean DEFAULT false,
+	"signature_data" text,
+	CONSTRAINT "documents_uid_unique" UNIQUE("uid")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"name" text NOT NULL,
+	"initials" text NOT NULL,
+	"company" text,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
@@ -0,0 +1,7 @@
+ALTER TABLE "audit_logs" ADD COLUMN "sequence" integer;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "document_sequence" integer;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "previous_hash" text;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "document_previous_hash" text;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "hash" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "audit_logs_document_sequence_idx" ON "audit_logs" USING btree ("document_id","document_sequence");--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_sequence_unique" UNIQUE("sequence");
\ No newline at end of file
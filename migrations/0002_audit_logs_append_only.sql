@@ -0,0 +1,18 @@
+-- Journal d'audit en ajout seul : ni modification ni suppression des entrées.
+-- Seules les entrées antérieures au chaînage (hash NULL) peuvent être scellées une fois.
+CREATE FUNCTION audit_logs_append_only() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.hash IS NULL THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'audit_logs est en ajout seul (% refusé)', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+CREATE TRIGGER audit_logs_append_only_rows
+  BEFORE UPDATE OR DELETE ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION audit_logs_append_only();
+--> statement-breakpoint
+CREATE TRIGGER audit_logs_append_only_truncate
+  BEFORE TRUNCATE ON audit_logs
+  FOR EACH STATEMENT EXECUTE FUNCTION audit_logs_append_only();
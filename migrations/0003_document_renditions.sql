@@ -0,0 +1,19 @@
+CREATE TABLE "document_renditions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"content" text NOT NULL,
+	"hash" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "original_hash" text;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "add_token" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "document_renditions_document_kind_idx" ON "document_renditions" USING btree ("document_id","kind");--> statement-breakpoint
+-- Documents existants : le contenu stocké (déjà marqué à l'importation, ou signé) devient
+-- l'original de référence et la copie émise, afin de ne pas le marquer une seconde fois.
+UPDATE "documents" SET "original_hash" = encode(sha256(decode("content", 'base64')), 'hex') WHERE "content" IS NOT NULL;--> statement-breakpoint
+INSERT INTO "document_renditions" ("document_id", "kind", "content", "hash")
+  SELECT "id", CASE WHEN "is_signed" THEN 'signed' ELSE 'stamped' END, "content", "original_hash"
+  FROM "documents"
+  WHERE "content" IS NOT NULL AND "content_type" = 'application/pdf';
@@ -0,0 +1 @@
+ALTER TABLE "documents" ADD COLUMN "qr_stamp" text;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "stamp_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company" text NOT NULL,
+	"name" text NOT NULL,
+	"template" text NOT NULL,
+	"position" text NOT NULL,
+	"margin_x" integer NOT NULL,
+	"margin_y" integer NOT NULL,
+	"rotate_landscape" boolean DEFAULT false NOT NULL,
+	"font_size" real NOT NULL,
+	"text_color" text NOT NULL,
+	"background_color" text,
+	"opacity" real NOT NULL,
+	"background_opacity" real NOT NULL,
+	"pages" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "stamp_layout" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "stamp_profiles_company_name_idx" ON "stamp_profiles" USING btree ("company","name");
\ No newline at end of file
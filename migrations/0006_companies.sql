@@ -0,0 +1,13 @@
+CREATE TABLE "companies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"code" text NOT NULL,
+	"issuer_name" text NOT NULL,
+	"author_name" text NOT NULL,
+	"verification_base_url" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "companies_name_unique" UNIQUE("name"),
+	CONSTRAINT "companies_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "company_id" integer;
\ No newline at end of file
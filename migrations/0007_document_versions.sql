@@ -0,0 +1,39 @@
+CREATE TABLE "document_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"content" text NOT NULL,
+	"content_type" text NOT NULL,
+	"hash" text NOT NULL,
+	"size" text,
+	"creator_id" integer NOT NULL,
+	"reason" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DROP INDEX "document_renditions_document_kind_idx";--> statement-breakpoint
+ALTER TABLE "document_renditions" ADD COLUMN "version_id" integer;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "current_version_id" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX "document_versions_document_version_idx" ON "document_versions" USING btree ("document_id","version");--> statement-breakpoint
+-- Documents existants : l'original stocké devient la version 1, la rendition signée la version 2.
+-- Les copies marquées sont rattachées à la version 1, dont elles sont dérivées.
+INSERT INTO "document_versions" ("document_id", "version", "content", "content_type", "hash", "size", "creator_id", "reason", "created_at")
+  SELECT "id", 1, "content", "content_type", COALESCE("original_hash", encode(sha256(decode("content", 'base64')), 'hex')), "size", "creator_id", 'upload', "created_at"
+  FROM "documents"
+  WHERE "content" IS NOT NULL;--> statement-breakpoint
+INSERT INTO "document_versions" ("document_id", "version", "content", "content_type", "hash", "size", "creator_id", "reason", "created_at")
+  SELECT r."document_id", 2, r."content", d."content_type", r."hash",
+    round(length(decode(r."content", 'base64')) / 1048576.0, 2) || ' MB', d."creator_id", 'signature', r."created_at"
+  FROM "document_renditions" r
+  JOIN "documents" d ON d."id" = r."document_id"
+  WHERE r."kind" = 'signed';--> statement-breakpoint
+DELETE FROM "document_renditions" WHERE "kind" = 'signed';--> statement-breakpoint
+UPDATE "document_renditions" r SET "version_id" = v."id"
+  FROM "document_versions" v
+  WHERE v."document_id" = r."document_id" AND v."version" = 1;--> statement-breakpoint
+DELETE FROM "document_renditions" WHERE "version_id" IS NULL;--> statement-breakpoint
+UPDATE "documents" d SET "current_version_id" = (
+  SELECT v."id" FROM "document_versions" v WHERE v."document_id" = d."id" ORDER BY v."version" DESC LIMIT 1
+);--> statement-breakpoint
+ALTER TABLE "document_renditions" ALTER COLUMN "version_id" SET NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "document_renditions_version_kind_idx" ON "document_renditions" USING btree ("version_id","kind");
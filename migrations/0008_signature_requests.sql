@@ -0,0 +1,45 @@
+CREATE TABLE "document_signatures" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"version_id" integer NOT NULL,
+	"signer_id" integer NOT NULL,
+	"request_id" integer,
+	"signature_data" text,
+	"signed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "signature_request_signers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"request_id" integer NOT NULL,
+	"document_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"decided_at" timestamp,
+	"decline_reason" text,
+	"signature_id" integer
+);
+--> statement-breakpoint
+CREATE TABLE "signature_requests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"creator_id" integer NOT NULL,
+	"mode" text NOT NULL,
+	"status" text NOT NULL,
+	"message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"closed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "signature_status" text DEFAULT 'draft' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "signature_request_signers_request_user_idx" ON "signature_request_signers" USING btree ("request_id","user_id");--> statement-breakpoint
+-- Documents déjà signés : circuit de signature terminé, et chaque version signée enregistrée comme signature.
+-- Le détail de la signature n'est connu que pour la version signée encore courante.
+UPDATE "documents" SET "signature_status" = 'completed' WHERE "is_signed" = true;--> statement-breakpoint
+INSERT INTO "document_signatures" ("document_id", "version_id", "signer_id", "request_id", "signature_data", "signed_at")
+  SELECT v."document_id", v."id", v."creator_id", NULL,
+    CASE WHEN d."current_version_id" = v."id" THEN d."signature_data" END, v."created_at"
+  FROM "document_versions" v
+  JOIN "documents" d ON d."id" = v."document_id"
+  WHERE v."reason" = 'signature'
+  ORDER BY v."id";
@@ -0,0 +1,14 @@
+CREATE TABLE "signature_fields" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"signer_id" integer NOT NULL,
+	"page" integer NOT NULL,
+	"x" real NOT NULL,
+	"y" real NOT NULL,
+	"width" real NOT NULL,
+	"height" real NOT NULL,
+	"signature_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "signature_fields_document_signer_idx" ON "signature_fields" USING btree ("document_id","signer_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "user_signatures" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"typed_name" text,
+	"drawing" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_signatures_user_id_unique" UNIQUE("user_id")
+);
@@ -0,0 +1,12 @@
+CREATE TABLE "timestamp_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"hash" text NOT NULL,
+	"signature_id" integer,
+	"token" text NOT NULL,
+	"authority" text NOT NULL,
+	"serial_number" text NOT NULL,
+	"gen_time" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,20 @@
+CREATE TABLE "merkle_anchors" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"root" text NOT NULL,
+	"leaf_count" integer NOT NULL,
+	"timestamp_token" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "merkle_leaves" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"anchor_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"kind" text NOT NULL,
+	"source_id" integer NOT NULL,
+	"document_id" integer NOT NULL,
+	"hash" text NOT NULL,
+	"proof" text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "merkle_leaves_kind_source_idx" ON "merkle_leaves" USING btree ("kind","source_id");
\ No newline at end of file
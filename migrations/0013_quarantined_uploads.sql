@@ -0,0 +1,20 @@
+CREATE TABLE "quarantined_uploads" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"document_id" integer,
+	"file_name" text NOT NULL,
+	"declared_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"hash" text NOT NULL,
+	"reason" text NOT NULL,
+	"report" text,
+	"storage_key" text NOT NULL,
+	"status" text DEFAULT 'quarantined' NOT NULL,
+	"resolved_by" integer,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "is_admin" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+-- L'utilisateur initial administre la quarantaine des bases existantes
+UPDATE "users" SET "is_admin" = true WHERE "username" = 'remi.guillette';
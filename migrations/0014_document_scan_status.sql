@@ -0,0 +1 @@
+ALTER TABLE "documents" ADD COLUMN "scan_status" text DEFAULT 'not_scanned' NOT NULL;
\ No newline at end of file
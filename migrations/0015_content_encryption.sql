@@ -0,0 +1,11 @@
+CREATE TABLE "data_keys" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"master_key_id" text NOT NULL,
+	"wrapped_key" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"rotated_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "document_renditions" ADD COLUMN "data_key_id" integer;--> statement-breakpoint
+ALTER TABLE "document_versions" ADD COLUMN "data_key_id" integer;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "data_key_id" integer;
\ No newline at end of file
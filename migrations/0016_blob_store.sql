@@ -0,0 +1,36 @@
+CREATE TABLE "blobs" (
+	"hash" text PRIMARY KEY NOT NULL,
+	"data_key_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "legacy_contents" (
+	"hash" text PRIMARY KEY NOT NULL,
+	"content" text NOT NULL,
+	"data_key_id" integer
+);
+--> statement-breakpoint
+-- Contenus enregistrés dans la base : conservés une fois par empreinte dans legacy_contents,
+-- d'où le serveur les déplace au démarrage vers le stockage des contenus.
+INSERT INTO "legacy_contents" ("hash", "content", "data_key_id")
+  SELECT DISTINCT ON ("hash") "hash", "content", "data_key_id" FROM "document_versions" ORDER BY "hash", "id"
+  ON CONFLICT DO NOTHING;--> statement-breakpoint
+INSERT INTO "legacy_contents" ("hash", "content", "data_key_id")
+  SELECT DISTINCT ON ("hash") "hash", "content", "data_key_id" FROM "document_renditions" ORDER BY "hash", "id"
+  ON CONFLICT DO NOTHING;--> statement-breakpoint
+-- Les documents désignent leur contenu original par son empreinte, celle de leur dernière version originale
+UPDATE "documents" d SET "original_hash" = (
+  SELECT v."hash" FROM "document_versions" v
+  WHERE v."document_id" = d."id" AND v."reason" <> 'signature'
+  ORDER BY v."version" DESC LIMIT 1
+) WHERE d."original_hash" IS NULL;--> statement-breakpoint
+-- Clés de données des contenus en double, devenues inutiles
+DELETE FROM "data_keys" WHERE "id" NOT IN (
+  SELECT "data_key_id" FROM "legacy_contents" WHERE "data_key_id" IS NOT NULL
+);--> statement-breakpoint
+ALTER TABLE "document_renditions" DROP COLUMN "content";--> statement-breakpoint
+ALTER TABLE "document_renditions" DROP COLUMN "data_key_id";--> statement-breakpoint
+ALTER TABLE "document_versions" DROP COLUMN "content";--> statement-breakpoint
+ALTER TABLE "document_versions" DROP COLUMN "data_key_id";--> statement-breakpoint
+ALTER TABLE "documents" DROP COLUMN "content";--> statement-breakpoint
+ALTER TABLE "documents" DROP COLUMN "data_key_id";
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { Document, InclusionProof, MerkleLeafKind, MerkleProofStep } from '@shared/schema';
+import { storage } from '../storage';
+import { requestTimestamp } from '../signing/tsa';
+import { buildMerkleTree, hashLeaf } from './merkle';
+
+export { verifyInclusionProof } from './proof';
+export type { InclusionProofVerification } from './proof';
+
+const HOUR = 60 * 60 * 1000;
+// Délai maximal de setTimeout et setInterval (2^31 - 1 ms, environ 24 jours) : au-delà, Node le ramène à 1 ms
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Intervalle entre deux ancrages (ANCHOR_INTERVAL_HOURS, 24 heures par défaut, 596 heures au plus)
+ */
+function getAnchorInterval(): number {
+  const hours = Number(process.env.ANCHOR_INTERVAL_HOURS);
+  const interval = (Number.isFinite(hours) && hours > 0 ? hours : 24) * HOUR;
+  if (interval > MAX_TIMER_DELAY) {
+    throw new Error(`ANCHOR_INTERVAL_HOURS trop grand (${hours}) : ${Math.floor(MAX_TIMER_DELAY / HOUR)} heures au plus`);
+  }
+  return interval;
+}
+
+/**
+ * La racine de chaque ancrage est horodatée sauf si ANCHOR_TIMESTAMP vaut "false"
+ */
+function isRootTimestampEnabled(): boolean {
+  return process.env.ANCHOR_TIMESTAMP !== 'false';
+}
+
+let anchoring: Promise<number | undefined> | undefined;
+
+/**
+ * Ancre les empreintes des versions, renditions et entrées du journal pas encore ancrées
+ * dans un nouvel arbre de Merkle. Renvoie l'identifiant de l'ancrage, undefined s'il n'y avait rien à ancrer.
+ * Un ancrage déjà en cours est attendu plutôt que dupliqué.
+ */
+export function anchorPendingHashes(): Promise<number | undefined> {
+  if (!anchoring) {
+    anchoring = createAnchor().finally(() => {
+      anchoring = undefined;
+    });
+  }
+  return anchoring;
+}
+
+async function createAnchor(): Promise<number | undefined> {
+  const sources = await storage.getUnanchoredHashes();
+  if (sources.length === 0) {
+    return undefined;
+  }
+
+  const tree = buildMerkleTree(sources);
+  let timestampToken: string | null = null;
+  if (isRootTimestampEnabled()) {
+    // Un échec d'horodatage n'empêche pas l'ancrage : la racine reste vérifiable sans jeton
+    try {
+      timestampToken = (await requestTimestamp(Buffer.from(tree.root, 'hex'))).toString('base64');
+    } catch (error) {
+      console.error(`Horodatage de la racine ${tree.root} impossible:`, error);
+    }
+  }
+
+  const anchor = await storage.createMerkleAnchor(
+    { root: tree.root, leafCount: sources.length, timestampToken },
+    sources.map((source, position) => ({
+      ...source,
+      position,
+      proof: JSON.stringify(tree.proofs[position])
+    }))
+  );
+  console.log(`Ancrage ${anchor.id} : ${sources.length} empreintes, racine ${tree.root}`);
+  return anchor.id;
+}
+
+/**
+ * Lance un ancrage à intervalle régulier. Au démarrage, l'ancrage dû depuis le dernier est rattrapé.
+ */
+export async function scheduleAnchoring(): Promise<void> {
+  const interval = getAnchorInterval();
+  const run = () => anchorPendingHashes().catch(error => console.error("Erreur lors de l'ancrage du registre:", error));
+
+  const latest = await storage.getLatestMerkleAnchor();
+  const delay = latest ? Math.max(0, latest.createdAt.getTime() + interval - Date.now()) : 0;
+  setTimeout(() => {
+    run();
+    setInterval(run, interval).unref();
+  }, delay).unref();
+}
+
+/**
+ * Preuve d'inclusion d'une empreinte ancrée, undefined tant qu'elle attend le prochain ancrage
+ */
+export async function getInclusionProof(kind: MerkleLeafKind, sourceId: number): Promise<InclusionProof | undefined> {
+  const leaf = await storage.getMerkleLeaf(kind, sourceId);
+  const anchor = leaf && await storage.getMerkleAnchor(leaf.anchorId);
+  if (!leaf || !anchor) {
+    return undefined;
+  }
+
+  return {
+    algorithm: 'sha256-rfc6962',
+    leaf: { kind: leaf.kind, sourceId: leaf.sourceId, documentId: leaf.documentId, hash: leaf.hash },
+    leafHash: hashLeaf(leaf),
+    path: JSON.parse(leaf.proof) as MerkleProofStep[],
+    root: anchor.root,
+    anchorId: anchor.id,
+    leafCount: anchor.leafCount,
+    anchoredAt: anchor.createdAt.toISOString(),
+    timestampToken: anchor.timestampToken
+  };
+}
+
+/**
+ * Preuve d'inclusion de la version courante d'un document
+ */
+export async function getDocumentInclusionProof(document: Document): Promise<InclusionProof | null> {
+  if (!document.currentVersionId) {
+    return null;
+  }
+  return (await getInclusionProof('version', document.currentVersionId)) ?? null;
+}
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { InclusionProof, MerkleLeafSource } from '@shared/schema';
+import { buildMerkleTree, computeRoot, hashLeaf, hashNode } from './merkle';
+import { verifyInclusionProof } from './proof';
+
+function sha256(...parts: Buffer[]): string {
+  return createHash('sha256').update(Buffer.concat(parts)).digest('hex');
+}
+
+function createLeaves(count: number): MerkleLeafSource[] {
+  return Array.from({ length: count }, (_, index) => ({
+    kind: 'version',
+    documentId: 1,
+    sourceId: index + 1,
+    hash: sha256(Buffer.from(`contenu ${index + 1}`))
+  }));
+}
+
+/**
+ * Merkle Tree Hash de la RFC 6962 (section 2.1) sur des empreintes de feuilles : le sous-arbre gauche
+ * couvre la plus grande puissance de deux strictement inférieure au nombre de feuilles
+ */
+function referenceRoot(leafHashes: string[]): string {
+  if (leafHashes.length === 1) {
+    return leafHashes[0];
+  }
+  let split = 1;
+  while (split * 2 < leafHashes.length) {
+    split *= 2;
+  }
+  return sha256(
+    Buffer.from([0x01]),
+    Buffer.from(referenceRoot(leafHashes.slice(0, split)), 'hex'),
+    Buffer.from(referenceRoot(leafHashes.slice(split)), 'hex')
+  );
+}
+
+describe('merkle', () => {
+  it('préfixe les feuilles par 0x00 et les nœuds internes par 0x01', () => {
+    const [leaf] = createLeaves(1);
+    const text = Buffer.from(`version:1:1:${leaf.hash}`, 'utf8');
+    assert.equal(hashLeaf(leaf), sha256(Buffer.from([0x00]), text));
+
+    const left = 'a'.repeat(64);
+    const right = 'b'.repeat(64);
+    assert.equal(hashNode(left, right), sha256(Buffer.from([0x01]), Buffer.from(left, 'hex'), Buffer.from(right, 'hex')));
+    assert.notEqual(hashNode(left, right), sha256(Buffer.from([0x00]), Buffer.from(left + right, 'hex')));
+  });
+
+  it('fait remonter sans duplication le dernier nœud d\'un niveau impair', () => {
+    const tree = buildMerkleTree(createLeaves(3));
+    const [a, b, c] = tree.leafHashes;
+
+    assert.equal(tree.root, hashNode(hashNode(a, b), c));
+    assert.deepEqual(tree.proofs[2], [{ position: 'left', hash: hashNode(a, b) }]);
+    assert.deepEqual(tree.proofs[0], [{ position: 'right', hash: b }, { position: 'right', hash: c }]);
+  });
+
+  it('calcule la racine de la RFC 6962 et un chemin valide pour chaque feuille', () => {
+    for (let count = 1; count <= 9; count++) {
+      const tree = buildMerkleTree(createLeaves(count));
+
+      assert.equal(tree.root, referenceRoot(tree.leafHashes), `${count} feuilles`);
+      tree.leafHashes.forEach((leafHash, index) => {
+        assert.equal(computeRoot(leafHash, tree.proofs[index]), tree.root, `${count} feuilles, feuille ${index}`);
+      });
+    }
+  });
+
+  it('refuse un arbre sans feuille', () => {
+    assert.throws(() => buildMerkleTree([]), /au moins une feuille/);
+  });
+});
+
+describe('verifyInclusionProof', () => {
+  const leaves = createLeaves(5);
+  const tree = buildMerkleTree(leaves);
+  const proof: InclusionProof = {
+    algorithm: 'sha256-rfc6962',
+    leaf: leaves[4],
+    leafHash: tree.leafHashes[4],
+    path: tree.proofs[4],
+    root: tree.root,
+    anchorId: 1,
+    leafCount: leaves.length,
+    anchoredAt: new Date().toISOString(),
+    timestampToken: null
+  };
+
+  it('valide une preuve sans horodatage', () => {
+    assert.deepEqual(verifyInclusionProof(proof), { valid: true, timestamp: null, error: null });
+  });
+
+  it('refuse une feuille dont le contenu ne correspond pas à son empreinte', () => {
+    const result = verifyInclusionProof({ ...proof, leaf: { ...proof.leaf, sourceId: 6 } });
+    assert.equal(result.valid, false);
+    assert.match(result.error!, /empreinte de la feuille/);
+  });
+
+  it('refuse un chemin qui ne mène pas à la racine', () => {
+    const result = verifyInclusionProof({ ...proof, path: [{ ...proof.path[0], position: 'right' }] });
+    assert.equal(result.valid, false);
+    assert.match(result.error!, /chemin d'inclusion/);
+  });
+});
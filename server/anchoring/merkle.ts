@@ -0,0 +1,79 @@
+import { createHash } from 'crypto';
+import { MerkleLeafSource, MerkleProofStep } from '@shared/schema';
+
+// Préfixes de domaine (RFC 6962) : une feuille ne peut pas être confondue avec un nœud interne
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+/**
+ * Arbre de Merkle construit sur une liste de feuilles : racine et chemin d'inclusion de chaque feuille
+ */
+export interface MerkleTree {
+  root: string;
+  leafHashes: string[];
+  proofs: MerkleProofStep[][];
+}
+
+/**
+ * Empreinte d'une feuille : SHA-256(0x00 || "type:documentId:sourceId:empreinte")
+ */
+export function hashLeaf(leaf: MerkleLeafSource): string {
+  return createHash('sha256')
+    .update(LEAF_PREFIX)
+    .update(`${leaf.kind}:${leaf.documentId}:${leaf.sourceId}:${leaf.hash}`, 'utf8')
+    .digest('hex');
+}
+
+/**
+ * Empreinte d'un nœud interne : SHA-256(0x01 || gauche || droite)
+ */
+export function hashNode(left: string, right: string): string {
+  return createHash('sha256')
+    .update(NODE_PREFIX)
+    .update(Buffer.from(left, 'hex'))
+    .update(Buffer.from(right, 'hex'))
+    .digest('hex');
+}
+
+/**
+ * Construit l'arbre niveau par niveau. Le dernier nœud d'un niveau impair remonte tel quel
+ * (sans duplication), son chemin ne reçoit alors pas d'étape pour ce niveau.
+ */
+export function buildMerkleTree(leaves: MerkleLeafSource[]): MerkleTree {
+  if (leaves.length === 0) {
+    throw new Error('Un arbre de Merkle nécessite au moins une feuille');
+  }
+
+  const leafHashes = leaves.map(hashLeaf);
+  const proofs: MerkleProofStep[][] = leaves.map(() => []);
+  // Feuilles couvertes par chaque nœud du niveau courant
+  let level = leafHashes.map((hash, index) => ({ hash, leaves: [index] }));
+
+  while (level.length > 1) {
+    const next: typeof level = [];
+    for (let index = 0; index < level.length; index += 2) {
+      const left = level[index];
+      const right = level[index + 1];
+      if (!right) {
+        next.push(left);
+        continue;
+      }
+      left.leaves.forEach(leaf => proofs[leaf].push({ position: 'right', hash: right.hash }));
+      right.leaves.forEach(leaf => proofs[leaf].push({ position: 'left', hash: left.hash }));
+      next.push({ hash: hashNode(left.hash, right.hash), leaves: [...left.leaves, ...right.leaves] });
+    }
+    level = next;
+  }
+
+  return { root: level[0].hash, leafHashes, proofs };
+}
+
+/**
+ * Recalcule la racine à partir de l'empreinte d'une feuille et de son chemin d'inclusion
+ */
+export function computeRoot(leafHash: string, path: MerkleProofStep[]): string {
+  return path.reduce(
+    (hash, step) => step.position === 'left' ? hashNode(step.hash, hash) : hashNode(hash, step.hash),
+    leafHash
+  );
+}
@@ -0,0 +1,40 @@
+import { InclusionProof, TimestampVerification } from '@shared/schema';
+import { verifyTimestampToken } from '../signing/tsa';
+import { computeRoot, hashLeaf } from './merkle';
+
+/**
+ * Résultat de la vérification hors ligne d'une preuve d'inclusion
+ */
+export interface InclusionProofVerification {
+  valid: boolean;
+  // Horodatage de la racine, null quand elle n'a pas été horodatée
+  timestamp: TimestampVerification | null;
+  error: string | null;
+}
+
+/**
+ * Vérifie une preuve sans accès au registre : empreinte de la feuille, racine recalculée
+ * à partir du chemin, puis jeton d'horodatage de la racine s'il y en a un
+ */
+export function verifyInclusionProof(proof: InclusionProof): InclusionProofVerification {
+  const failure = (error: string, timestamp: TimestampVerification | null = null) => ({ valid: false, timestamp, error });
+
+  if (proof.algorithm !== 'sha256-rfc6962') {
+    return failure(`Algorithme non pris en charge : ${proof.algorithm}`);
+  }
+  if (hashLeaf(proof.leaf) !== proof.leafHash) {
+    return failure("L'empreinte de la feuille ne correspond pas à son contenu");
+  }
+  if (computeRoot(proof.leafHash, proof.path) !== proof.root) {
+    return failure("Le chemin d'inclusion ne mène pas à la racine de l'ancrage");
+  }
+
+  if (!proof.timestampToken) {
+    return { valid: true, timestamp: null, error: null };
+  }
+  const timestamp = verifyTimestampToken(Buffer.from(proof.timestampToken, 'base64'), Buffer.from(proof.root, 'hex'));
+  if (!timestamp.valid) {
+    return failure(`Horodatage de la racine invalide : ${timestamp.error}`, timestamp);
+  }
+  return { valid: true, timestamp, error: null };
+}
@@ -0,0 +1,41 @@
+import fs from 'fs';
+import { InclusionProof } from '@shared/schema';
+import { verifyInclusionProof } from './proof';
+
+/**
+ * Vérifie hors ligne une preuve d'inclusion (champ inclusionProof de GET /api/documents/:id),
+ * sans accès au registre ni au réseau.
+ *
+ * Usage : npm run anchor:verify -- preuve.json
+ */
+function main() {
+  const [file] = process.argv.slice(2);
+  if (!file) {
+    console.error('Usage : npm run anchor:verify -- preuve.json');
+    process.exit(1);
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  // La réponse complète du document est acceptée aussi bien que la preuve seule
+  const proof: InclusionProof | null = parsed && 'inclusionProof' in parsed ? parsed.inclusionProof : parsed;
+  if (!proof) {
+    console.error("Le document n'a pas encore été ancré.");
+    process.exit(1);
+  }
+
+  const result = verifyInclusionProof(proof);
+  if (!result.valid) {
+    console.error(`Preuve invalide : ${result.error}`);
+    process.exit(1);
+  }
+
+  console.log(`Preuve valide : ${proof.leaf.kind} #${proof.leaf.sourceId} (empreinte ${proof.leaf.hash})`);
+  console.log(`Incluse dans l'ancrage ${proof.anchorId} (${proof.leafCount} empreintes), racine ${proof.root}`);
+  if (result.timestamp) {
+    console.log(`Racine horodatée le ${result.timestamp.time} par ${result.timestamp.authority} (n° ${result.timestamp.serialNumber})`);
+  } else {
+    console.log(`Racine non horodatée, ancrage enregistré le ${proof.anchoredAt}`);
+  }
+}
+
+main();
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuditLog } from '@shared/schema';
+import { GENESIS_HASH, buildAuditChainReport, chainAuditLog, verifyAuditChain } from './auditChain';
+
+/**
+ * Journal de test : chaque entrée est chaînée à la suite des précédentes, comme par createAuditLog
+ */
+function appendEntries(entries: Array<{ documentId: number; action: string }>): AuditLog[] {
+  const logs: AuditLog[] = [];
+  entries.forEach(({ documentId, action }, index) => {
+    const documentHead = logs.filter(log => log.documentId === documentId).pop();
+    const timestamp = new Date(Date.UTC(2025, 0, 1, 10, index));
+    logs.push({ id: index + 1, ...chainAuditLog({ documentId, userId: 1, action, details: null }, logs[logs.length - 1], documentHead, timestamp) });
+  });
+  return logs;
+}
+
+// Entrées 1 à 5 du journal ; le document 1 en a quatre, le document 2 une seule (la troisième)
+const ENTRIES = [
+  { documentId: 1, action: 'upload' },
+  { documentId: 1, action: 'view' },
+  { documentId: 2, action: 'upload' },
+  { documentId: 1, action: 'download' },
+  { documentId: 1, action: 'print' }
+];
+
+describe('verifyAuditChain', () => {
+  it('valide une chaîne intacte, globale et par document', () => {
+    const logs = appendEntries(ENTRIES);
+
+    assert.equal(logs[0].previousHash, GENESIS_HASH);
+    assert.equal(logs[3].documentPreviousHash, logs[1].hash);
+    assert.deepEqual(verifyAuditChain(logs, 'global'), { valid: true, entries: 5, headHash: logs[4].hash, issues: [] });
+    assert.deepEqual(verifyAuditChain(logs.filter(log => log.documentId === 1), 'document').issues, []);
+    assert.equal(buildAuditChainReport(1, logs).valid, true);
+  });
+
+  it('signale une entrée modifiée à sa position', () => {
+    const logs = appendEntries(ENTRIES);
+    logs[3] = { ...logs[3], action: 'view' };
+
+    assert.deepEqual(verifyAuditChain(logs, 'global').issues, [
+      { logId: 4, type: 'tampered', message: 'L\'entrée 4 a été modifiée' }
+    ]);
+    // Dans la chaîne du document 1, c'est sa troisième entrée
+    assert.deepEqual(verifyAuditChain(logs.filter(log => log.documentId === 1), 'document').issues, [
+      { logId: 4, type: 'tampered', message: 'L\'entrée 3 a été modifiée' }
+    ]);
+  });
+
+  it('signale une entrée supprimée sur l\'entrée qui la suivait', () => {
+    const logs = appendEntries(ENTRIES).filter(log => log.id !== 2);
+
+    assert.deepEqual(verifyAuditChain(logs, 'global').issues, [
+      { logId: 3, type: 'gap', message: 'Entrée 2 manquante' },
+      { logId: 3, type: 'broken_link', message: 'L\'entrée 3 ne suit pas l\'entrée précédente' }
+    ]);
+    assert.deepEqual(verifyAuditChain(logs.filter(log => log.documentId === 1), 'document').issues, [
+      { logId: 4, type: 'gap', message: 'Entrée 2 manquante' },
+      { logId: 4, type: 'broken_link', message: 'L\'entrée 3 ne suit pas l\'entrée précédente' }
+    ]);
+  });
+
+  it('signale deux entrées interverties', () => {
+    const logs = appendEntries(ENTRIES);
+    logs[3] = { ...logs[3], sequence: 5 };
+    logs[4] = { ...logs[4], sequence: 4 };
+
+    const issues = verifyAuditChain(logs, 'global').issues;
+    assert.deepEqual(issues.map(issue => [issue.logId, issue.type]), [
+      [5, 'broken_link'],
+      [5, 'tampered'],
+      [4, 'broken_link'],
+      [4, 'tampered']
+    ]);
+  });
+});
+
+describe('buildAuditChainReport', () => {
+  it('ne détaille de la chaîne globale que les problèmes des entrées du document', () => {
+    const logs = appendEntries(ENTRIES).filter(log => log.id !== 2);
+
+    const other = buildAuditChainReport(2, logs);
+    assert.equal(other.valid, false);
+    assert.equal(other.document.valid, true);
+    assert.equal(other.global.valid, false);
+    assert.deepEqual(other.global.issues.map(issue => issue.logId), [3, 3]);
+
+    const report = buildAuditChainReport(1, logs);
+    assert.deepEqual(report.document.issues.map(issue => issue.type), ['gap', 'broken_link']);
+    assert.deepEqual(report.global.issues, []);
+  });
+});
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+import { AuditChainIssue, AuditChainReport, AuditChainStatus, AuditLog, InsertAuditLog } from '@shared/schema';
+
+/**
+ * Hash précédant la première entrée d'une chaîne
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+type ChainedFields = Omit<AuditLog, 'id' | 'hash'>;
+
+/**
+ * Empreinte SHA-256 d'une entrée : couvre tous ses champs, sa position et les liens vers les entrées précédentes.
+ * L'identifiant technique (id) n'en fait pas partie.
+ */
+export function computeAuditLogHash(entry: ChainedFields): string {
+  const payload = JSON.stringify([
+    entry.sequence,
+    entry.documentSequence,
+    entry.documentId,
+    entry.userId,
+    entry.action,
+    new Date(entry.timestamp).toISOString(),
+    entry.details ?? null,
+    entry.previousHash,
+    entry.documentPreviousHash
+  ]);
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * Construit une nouvelle entrée chaînée à la suite des dernières entrées globale et du document
+ *
+ * @param log Entrée à ajouter
+ * @param globalHead Dernière entrée du journal (tous documents confondus)
+ * @param documentHead Dernière entrée du même document
+ * @param timestamp Horodatage de l'entrée
+ */
+export function chainAuditLog(
+  log: InsertAuditLog,
+  globalHead: AuditLog | undefined,
+  documentHead: AuditLog | undefined,
+  timestamp = new Date()
+): Omit<AuditLog, 'id'> {
+  const entry: ChainedFields = {
+    documentId: log.documentId,
+    userId: log.userId,
+    action: log.action,
+    details: log.details ?? null,
+    timestamp,
+    sequence: (globalHead?.sequence ?? 0) + 1,
+    documentSequence: (documentHead?.documentSequence ?? 0) + 1,
+    previousHash: globalHead?.hash ?? GENESIS_HASH,
+    documentPreviousHash: documentHead?.hash ?? GENESIS_HASH
+  };
+  return { ...entry, hash: computeAuditLogHash(entry) };
+}
+
+/**
+ * Vérifie une chaîne d'entrées : numérotation continue (trous, doublons),
+ * liens vers l'entrée précédente (réordonnancement, suppression) et empreintes (modification).
+ *
+ * @param logs Entrées de la chaîne, dans un ordre quelconque
+ * @param scope 'global' pour le journal complet, 'document' pour les entrées d'un seul document
+ */
+export function verifyAuditChain(logs: AuditLog[], scope: 'global' | 'document'): AuditChainStatus {
+  const position = (log: AuditLog) => scope === 'global' ? log.sequence : log.documentSequence;
+  const link = (log: AuditLog) => scope === 'global' ? log.previousHash : log.documentPreviousHash;
+
+  const issues: AuditChainIssue[] = [];
+  const sealed = logs
+    .filter(log => {
+      if (log.hash === null || position(log) === null) {
+        issues.push({ logId: log.id, type: 'unsealed', message: 'Entrée non chaînée' });
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => position(a)! - position(b)!);
+
+  let expected = 1;
+  let previousHash = GENESIS_HASH;
+  for (const log of sealed) {
+    const current = position(log)!;
+    if (current < expected) {
+      issues.push({ logId: log.id, type: 'duplicate', message: `Position ${current} déjà utilisée` });
+    } else if (current > expected) {
+      const missing = current - 1 === expected ? `Entrée ${expected} manquante` : `Entrées ${expected} à ${current - 1} manquantes`;
+      issues.push({ logId: log.id, type: 'gap', message: missing });
+    }
+
+    if (link(log) !== previousHash) {
+      issues.push({ logId: log.id, type: 'broken_link', message: `L'entrée ${current} ne suit pas l'entrée précédente` });
+    }
+    if (computeAuditLogHash(log) !== log.hash) {
+      issues.push({ logId: log.id, type: 'tampered', message: `L'entrée ${current} a été modifiée` });
+    }
+
+    expected = current + 1;
+    previousHash = log.hash!;
+  }
+
+  return {
+    valid: issues.length === 0,
+    entries: logs.length,
+    headHash: sealed.length > 0 ? sealed[sealed.length - 1].hash : null,
+    issues
+  };
+}
+
+/**
+ * État de la chaîne pour un document : sa propre chaîne et la chaîne globale.
+ * Pour la chaîne globale, seuls les problèmes touchant les entrées du document sont détaillés.
+ */
+export function buildAuditChainReport(documentId: number, allLogs: AuditLog[]): AuditChainReport {
+  const documentLogs = allLogs.filter(log => log.documentId === documentId);
+  const documentStatus = verifyAuditChain(documentLogs, 'document');
+  const globalStatus = verifyAuditChain(allLogs, 'global');
+
+  const documentLogIds = new Set(documentLogs.map(log => log.id));
+  const global = {
+    ...globalStatus,
+    issues: globalStatus.issues.filter(issue => documentLogIds.has(issue.logId))
+  };
+
+  return {
+    documentId,
+    valid: documentStatus.valid && globalStatus.valid,
+    verifiedAt: new Date().toISOString(),
+    document: documentStatus,
+    global
+  };
+}
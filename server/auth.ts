@@ -0,0 +1,134 @@
+import { type Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { verifyPassword } from "./password";
+import { User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+/**
+ * Retire les champs sensibles avant d'envoyer un utilisateur au client
+ */
+export function toPublicUser(user: SelectUser) {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Exige une session authentifiée ; répond 401 sinon
+ */
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentification requise" });
+  }
+  next();
+};
+
+/**
+ * Exige un administrateur connecté ; répond 401 ou 403 sinon
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentification requise" });
+  }
+  if (!req.user!.isAdmin) {
+    return res.status(403).json({ message: "Accès réservé aux administrateurs" });
+  }
+  next();
+};
+
+/**
+ * Configure les sessions, la stratégie passport-local et les routes d'authentification
+ */
+export function setupAuth(app: Express) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    console.warn("SESSION_SECRET non défini : un secret temporaire est utilisé, les sessions ne survivront pas au redémarrage.");
+    secret = randomBytes(32).toString("hex");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 8 * 60 * 60 * 1000 // 8 heures
+    }
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/login", (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) {
+        return next(err);
+      }
+      if (!user) {
+        return res.status(401).json({ message: "Identifiant ou mot de passe incorrect" });
+      }
+
+      // Nouvelle session à chaque connexion pour éviter la fixation de session
+      req.session.regenerate((regenerateErr) => {
+        if (regenerateErr) {
+          return next(regenerateErr);
+        }
+        req.login(user, (loginErr) => {
+          if (loginErr) {
+            return next(loginErr);
+          }
+          res.json(toPublicUser(user));
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((err) => {
+      if (err) {
+        return next(err);
+      }
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).send();
+      });
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, (req: Request, res: Response) => {
+    res.json(toPublicUser(req.user!));
+  });
+}
@@ -0,0 +1,50 @@
+import path from 'path';
+import { LocalBlobStore } from './local';
+import { S3BlobStore } from './s3';
+import { BlobStore, BlobStoreError } from './store';
+
+export { BlobStoreError, LocalBlobStore, S3BlobStore };
+export type { BlobStore };
+
+// Délai de réponse du stockage S3 par défaut
+const S3_TIMEOUT_MS = 30000;
+
+let blobStore: BlobStore | undefined;
+
+/**
+ * Stockage des contenus choisi par BLOB_STORE : "local" (par défaut, répertoire BLOB_DIR, ./blobs par défaut)
+ * ou "s3" (bucket S3_BUCKET d'un service compatible S3)
+ */
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    blobStore = createBlobStore();
+  }
+  return blobStore;
+}
+
+function createBlobStore(): BlobStore {
+  const store = process.env.BLOB_STORE || 'local';
+  if (store === 'local') {
+    return new LocalBlobStore(process.env.BLOB_DIR || path.join(process.cwd(), 'blobs'));
+  }
+  if (store === 's3') {
+    const { S3_BUCKET: bucket, S3_ACCESS_KEY_ID: accessKeyId, S3_SECRET_ACCESS_KEY: secretAccessKey } = process.env;
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      throw new BlobStoreError('Stockage S3 incomplet : S3_BUCKET, S3_ACCESS_KEY_ID et S3_SECRET_ACCESS_KEY sont requis');
+    }
+    const region = process.env.S3_REGION || 'us-east-1';
+    const timeout = Number(process.env.S3_TIMEOUT_MS);
+    return new S3BlobStore({
+      endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket,
+      accessKeyId,
+      secretAccessKey,
+      prefix: process.env.S3_PREFIX || '',
+      // Les services auto-hébergés (S3_ENDPOINT) adressent en général le bucket dans le chemin
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === 'true' : Boolean(process.env.S3_ENDPOINT),
+      timeoutMs: Number.isFinite(timeout) && timeout > 0 ? timeout : S3_TIMEOUT_MS
+    });
+  }
+  throw new BlobStoreError(`Stockage des contenus inconnu (BLOB_STORE): ${store}`);
+}
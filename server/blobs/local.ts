@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+import { BlobStore, BlobStoreError, assertBlobHash } from './store';
+
+/**
+ * Stockage sur le système de fichiers local : <racine>/<2 premiers caractères>/<empreinte>
+ */
+export class LocalBlobStore implements BlobStore {
+  readonly name = 'local';
+
+  constructor(readonly root: string) {}
+
+  private pathOf(hash: string): string {
+    assertBlobHash(hash);
+    return path.join(this.root, hash.substring(0, 2), hash);
+  }
+
+  /**
+   * Écriture puis renommage : un contenu n'est jamais lu à moitié écrit
+   */
+  async put(hash: string, content: Buffer): Promise<void> {
+    const target = this.pathOf(hash);
+    const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(temporary, content, { mode: 0o600 });
+    await fs.promises.rename(temporary, target);
+  }
+
+  async get(hash: string): Promise<Buffer> {
+    try {
+      return await fs.promises.readFile(this.pathOf(hash));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new BlobStoreError(`Contenu introuvable dans le stockage local: ${hash}`, 404);
+      }
+      throw error;
+    }
+  }
+
+  async delete(hash: string): Promise<void> {
+    await fs.promises.rm(this.pathOf(hash), { force: true });
+  }
+}
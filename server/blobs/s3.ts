@@ -0,0 +1,174 @@
+import { createHash, createHmac } from 'crypto';
+import { BlobStore, BlobStoreError, assertBlobHash } from './store';
+
+/**
+ * Accès à un bucket compatible S3 (AWS S3, MinIO, Ceph RGW…)
+ */
+export interface S3Config {
+  // URL du service, par exemple https://s3.eu-west-3.amazonaws.com ou http://localhost:9000
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Préfixe des clés des objets dans le bucket
+  prefix: string;
+  // Bucket dans le chemin (<endpoint>/<bucket>/<clé>) plutôt que dans le nom d'hôte
+  forcePathStyle: boolean;
+  timeoutMs: number;
+}
+
+/**
+ * Requête à signer : les en-têtes fournis sont tous signés, avec l'hôte
+ */
+export interface S3SigningRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date: Date;
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Date au format de base ISO 8601 des en-têtes AWS (20130524T000000Z)
+ */
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Encodage d'un segment du chemin selon AWS : tout sauf les caractères non réservés
+ */
+function encodePathSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * En-tête Authorization d'une requête S3 signée en AWS Signature Version 4
+ */
+export function signS3Request(request: S3SigningRequest): string {
+  const amzDate = toAmzDate(request.date);
+  const day = amzDate.substring(0, 8);
+  const scope = `${day}/${request.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = { host: request.url.host };
+  Object.entries(request.headers).forEach(([name, value]) => {
+    headers[name.toLowerCase()] = value.trim();
+  });
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(';');
+
+  const query = Array.from(request.url.searchParams.entries())
+    .map(([name, value]) => `${encodePathSegment(name)}=${encodePathSegment(value)}`)
+    .sort()
+    .join('&');
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname.split('/').map(segment => encodePathSegment(decodeURIComponent(segment))).join('/'),
+    query,
+    names.map(name => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders,
+    request.payloadHash
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${request.secretAccessKey}`, day), request.region)
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  return `AWS4-HMAC-SHA256 Credential=${request.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+/**
+ * Stockage dans un bucket compatible S3 : un objet <préfixe><empreinte> par contenu
+ */
+export class S3BlobStore implements BlobStore {
+  readonly name = 's3';
+
+  constructor(private config: S3Config) {}
+
+  private urlOf(hash: string): URL {
+    assertBlobHash(hash);
+    const endpoint = new URL(this.config.endpoint);
+    const key = `${this.config.prefix}${hash}`;
+    if (this.config.forcePathStyle) {
+      return new URL(`${endpoint.origin}${endpoint.pathname.replace(/\/$/, '')}/${this.config.bucket}/${key}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}/${key}`);
+  }
+
+  private async send(method: string, hash: string, body?: Buffer): Promise<Response> {
+    const url = this.urlOf(hash);
+    const date = new Date();
+    const payloadHash = sha256(body ?? '');
+    const headers: Record<string, string> = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': toAmzDate(date)
+    };
+    const authorization = signS3Request({
+      method,
+      url,
+      headers,
+      payloadHash,
+      region: this.config.region,
+      accessKeyId: this.config.accessKeyId,
+      secretAccessKey: this.config.secretAccessKey,
+      date
+    });
+
+    try {
+      return await fetch(url, {
+        method,
+        headers: { ...headers, authorization },
+        body,
+        signal: AbortSignal.timeout(this.config.timeoutMs)
+      });
+    } catch (error) {
+      throw new BlobStoreError(`Stockage S3 injoignable (${method} ${url.pathname}): ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async fail(response: Response, action: string): Promise<never> {
+    const detail = (await response.text()).match(/<Code>([^<]+)<\/Code>/)?.[1];
+    throw new BlobStoreError(
+      `Échec ${action} dans le stockage S3: HTTP ${response.status}${detail ? ` (${detail})` : ''}`,
+      response.status === 404 ? 404 : 500
+    );
+  }
+
+  async put(hash: string, content: Buffer): Promise<void> {
+    const response = await this.send('PUT', hash, content);
+    if (!response.ok) {
+      await this.fail(response, `de l'écriture de ${hash}`);
+    }
+    await response.arrayBuffer();
+  }
+
+  async get(hash: string): Promise<Buffer> {
+    const response = await this.send('GET', hash);
+    if (!response.ok) {
+      await this.fail(response, `de la lecture de ${hash}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(hash: string): Promise<void> {
+    const response = await this.send('DELETE', hash);
+    if (!response.ok && response.status !== 404) {
+      await this.fail(response, `de la suppression de ${hash}`);
+    }
+    await response.arrayBuffer();
+  }
+}
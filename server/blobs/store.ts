@@ -0,0 +1,32 @@
+import { HttpError } from '../httpError';
+
+/**
+ * Stockage des contenus adressés par leur empreinte SHA-256 (hex) : un contenu identique n'est écrit qu'une fois
+ */
+export interface BlobStore {
+  // Nom affiché dans les journaux du serveur
+  readonly name: string;
+  put(hash: string, content: Buffer): Promise<void>;
+  get(hash: string): Promise<Buffer>;
+  // Sans effet si le contenu n'existe pas
+  delete(hash: string): Promise<void>;
+}
+
+/**
+ * Échec du stockage des contenus (configuration incomplète, contenu introuvable, service injoignable)
+ */
+export class BlobStoreError extends HttpError {
+  constructor(message: string, status = 500) {
+    super(message, status);
+    this.name = 'BlobStoreError';
+  }
+}
+
+/**
+ * Refuse une clé qui n'est pas une empreinte SHA-256, pour ne jamais sortir du répertoire ou du préfixe
+ */
+export function assertBlobHash(hash: string): void {
+  if (!/^[0-9a-f]{64}$/.test(hash)) {
+    throw new BlobStoreError(`Empreinte de contenu invalide: ${hash}`);
+  }
+}
@@ -0,0 +1,50 @@
+import { Company } from '@shared/schema';
+import { DocumentIssuer } from './pdfUtils';
+
+// Code inscrit dans l'UID des documents créés par un utilisateur sans société
+export const NO_COMPANY_CODE = '0000';
+
+// Émetteur des documents sans société
+const PLATFORM_ISSUER = 'BeaverDoc';
+
+/**
+ * Code société dérivé du nom : initiales sans accents en majuscules,
+ * suivies d'un numéro si le code est déjà attribué
+ */
+export function deriveCompanyCode(name: string, takenCodes: Set<string>): string {
+  const initials = name
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase())
+    .join('')
+    .substring(0, 6);
+  const base = initials.length >= 2 ? initials : `${initials}CO`;
+
+  let code = base;
+  for (let suffix = 2; takenCodes.has(code); suffix++) {
+    code = `${base}${suffix}`;
+  }
+  return code;
+}
+
+/**
+ * Adresse publique de la page de vérification : celle de la société,
+ * sinon VERIFICATION_BASE_URL (http://localhost:5000 par défaut)
+ */
+export function getVerificationBaseUrl(company?: Company): string {
+  const baseUrl = company?.verificationBaseUrl || process.env.VERIFICATION_BASE_URL || 'http://localhost:5000';
+  return baseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Émetteur inscrit dans les métadonnées des PDF marqués pour une société
+ */
+export function toDocumentIssuer(company?: Company): DocumentIssuer {
+  return {
+    name: company?.issuerName ?? PLATFORM_ISSUER,
+    author: company?.authorName ?? PLATFORM_ISSUER,
+    verificationUrl: `${getVerificationBaseUrl(company)}/verify`
+  };
+}
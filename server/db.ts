@@ -0,0 +1,42 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import path from "path";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+/**
+ * Pilote de stockage choisi au démarrage.
+ * STORAGE_DRIVER peut forcer "memory" ou "postgres" ; sinon PostgreSQL est
+ * utilisé dès que DATABASE_URL est défini.
+ */
+export type StorageDriver = "memory" | "postgres";
+
+export function resolveStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER;
+  if (driver === "memory" || driver === "postgres") {
+    return driver;
+  }
+  return process.env.DATABASE_URL ? "postgres" : "memory";
+}
+
+/**
+ * Crée le pool de connexions PostgreSQL et l'instance Drizzle associée
+ */
+export function createDatabase(connectionString = process.env.DATABASE_URL): { pool: pg.Pool; db: Database } {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  return { pool, db };
+}
+
+/**
+ * Applique les migrations générées par drizzle-kit (dossier ./migrations)
+ */
+export async function runMigrations(db: Database): Promise<void> {
+  await migrate(db, { migrationsFolder: path.join(process.cwd(), "migrations") });
+}
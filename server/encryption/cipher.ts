@@ -0,0 +1,38 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { EncryptionError } from './provider';
+
+export const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Chiffre en AES-256-GCM avec un vecteur d'initialisation aléatoire : iv || tag || chiffré
+ */
+export function encryptAesGcm(key: Buffer, plaintext: Buffer, aad?: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  if (aad) {
+    cipher.setAAD(aad);
+  }
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Déchiffre le résultat d'encryptAesGcm ; une clé erronée ou un contenu altéré est refusé
+ */
+export function decryptAesGcm(key: Buffer, sealed: Buffer, aad?: Buffer): Buffer {
+  if (sealed.length < IV_LENGTH + TAG_LENGTH) {
+    throw new EncryptionError('Contenu chiffré tronqué');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', key, sealed.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  if (aad) {
+    decipher.setAAD(aad);
+  }
+  try {
+    return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  } catch {
+    throw new EncryptionError("Échec du déchiffrement : clé erronée ou contenu altéré");
+  }
+}
@@ -0,0 +1,113 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DataKey } from '@shared/schema';
+import { HttpError } from '../httpError';
+import { EncryptionError, LocalKeyfileProvider, getKeyProvider, openContent, rewrapDataKeys, sealContent } from '.';
+import { decryptAesGcm, encryptAesGcm } from './cipher';
+
+// Fichier de clés propre au test, créé à la première utilisation du fournisseur
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'encryption-test-'));
+process.env.ENCRYPTION_KEYFILE = path.join(workDir, 'encryption-keys.json');
+
+/**
+ * Clés de données enregistrées comme par le stockage, pour la ré-enveloppe
+ */
+function createDataKeyStore() {
+  const dataKeys = new Map<number, DataKey>();
+  return {
+    dataKeys,
+    async add(dataKey: Pick<DataKey, 'masterKeyId' | 'wrappedKey'>): Promise<DataKey> {
+      const stored = { ...dataKey, id: dataKeys.size + 1, createdAt: new Date(), rotatedAt: null };
+      dataKeys.set(stored.id, stored);
+      return stored;
+    },
+    async getDataKeys() {
+      return Array.from(dataKeys.values());
+    },
+    async updateDataKey(id: number, changes: Partial<DataKey>) {
+      const updated = { ...dataKeys.get(id)!, ...changes };
+      dataKeys.set(id, updated);
+      return updated;
+    }
+  };
+}
+
+describe('chiffrement des contenus', () => {
+  after(() => fs.rmSync(workDir, { recursive: true, force: true }));
+
+  it('chiffre un contenu avec une clé de données enveloppée, puis le déchiffre', async () => {
+    const content = Buffer.from('%PDF-1.7 contrat confidentiel');
+    const store = createDataKeyStore();
+
+    const sealed = await sealContent(content);
+    assert.equal(fs.statSync(process.env.ENCRYPTION_KEYFILE!).mode & 0o777, 0o600);
+    assert.equal(sealed.dataKey.masterKeyId, getKeyProvider().activeMasterKeyId());
+    assert.equal(sealed.content.includes(content), false);
+    // iv (12 octets) || tag (16 octets) || chiffré
+    assert.equal(sealed.content.length, 12 + 16 + content.length);
+
+    assert.deepEqual(await openContent(sealed.content, await store.add(sealed.dataKey)), content);
+    await assert.rejects(openContent(sealed.content, undefined), /Clé de données introuvable/);
+  });
+
+  it('refuse un contenu dont le tag GCM ne correspond pas', async () => {
+    const store = createDataKeyStore();
+    const sealed = await sealContent(Buffer.from('%PDF-1.7 contrat'));
+    const dataKey = await store.add(sealed.dataKey);
+
+    for (const offset of [12, sealed.content.length - 1]) {
+      const altered = Buffer.from(sealed.content);
+      altered[offset] ^= 0x01;
+      await assert.rejects(openContent(altered, dataKey), (error: unknown) => {
+        assert.ok(error instanceof EncryptionError);
+        assert.ok(error instanceof HttpError);
+        assert.equal(error.status, 500);
+        assert.match(error.message, /clé erronée ou contenu altéré/);
+        return true;
+      });
+    }
+    await assert.rejects(openContent(sealed.content.subarray(0, 20), dataKey), /tronqué/);
+  });
+
+  it('lie l\'enveloppe d\'une clé de données à l\'identifiant de sa clé maîtresse', () => {
+    const key = Buffer.alloc(32, 7);
+    const wrapped = encryptAesGcm(key, Buffer.from('clé de données'), Buffer.from('mk-a'));
+
+    assert.deepEqual(decryptAesGcm(key, wrapped, Buffer.from('mk-a')), Buffer.from('clé de données'));
+    assert.throws(() => decryptAesGcm(key, wrapped, Buffer.from('mk-b')), EncryptionError);
+  });
+
+  it('ré-enveloppe les clés de données existantes avec la nouvelle clé maîtresse', async () => {
+    const store = createDataKeyStore();
+    const contents = [Buffer.from('%PDF-1.7 premier'), Buffer.from('%PDF-1.7 second')];
+    const sealed = await Promise.all(contents.map(sealContent));
+    await Promise.all(sealed.map(item => store.add(item.dataKey)));
+    const provider = getKeyProvider() as LocalKeyfileProvider;
+    const previous = provider.activeMasterKeyId();
+
+    const active = provider.addMasterKey();
+    assert.notEqual(active, previous);
+    assert.equal(await rewrapDataKeys(store), 2);
+
+    const rewrapped = await store.getDataKeys();
+    rewrapped.forEach((dataKey, index) => {
+      assert.equal(dataKey.masterKeyId, active);
+      assert.notEqual(dataKey.wrappedKey, sealed[index].dataKey.wrappedKey);
+      assert.ok(dataKey.rotatedAt instanceof Date);
+    });
+    // Les contenus ne sont pas rechiffrés : ils restent lisibles avec les clés ré-enveloppées
+    for (let index = 0; index < rewrapped.length; index++) {
+      assert.deepEqual(await openContent(sealed[index].content, rewrapped[index]), contents[index]);
+    }
+    assert.equal(await rewrapDataKeys(store), 0);
+
+    // L'ancienne clé maîtresse n'enveloppe plus rien : elle peut être retirée
+    assert.deepEqual(provider.retireMasterKeys(new Set(rewrapped.map(dataKey => dataKey.masterKeyId))), [previous]);
+    assert.deepEqual(provider.masterKeyIds(), [active]);
+    assert.deepEqual(await openContent(sealed[0].content, rewrapped[0]), contents[0]);
+    await assert.rejects(openContent(sealed[1].content, { ...rewrapped[1], masterKeyId: previous }), /Clé maîtresse inconnue/);
+  });
+});
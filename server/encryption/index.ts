@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import { DataKey, InsertDataKey } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { decryptAesGcm, encryptAesGcm } from './cipher';
+import { LocalKeyfileProvider } from './keyfile';
+import { EncryptionError, KeyProvider } from './provider';
+
+export { EncryptionError, LocalKeyfileProvider };
+export type { KeyProvider };
+
+/**
+ * Fichier de clés maîtresses (ENCRYPTION_KEYFILE, ./keys/encryption-keys.json par défaut)
+ */
+export function getKeyfilePath(): string {
+  return process.env.ENCRYPTION_KEYFILE || path.join(process.cwd(), 'keys', 'encryption-keys.json');
+}
+
+/**
+ * Au démarrage : sans fichier de clés, les contenus déjà chiffrés seraient illisibles et le serveur ne démarre pas
+ */
+export function assertKeyfileAvailable(hasEncryptedContent: boolean): void {
+  if (hasEncryptedContent && !fs.existsSync(getKeyfilePath())) {
+    throw new EncryptionError(`Fichier de clés introuvable (${getKeyfilePath()}) alors que des contenus sont chiffrés`);
+  }
+}
+
+let provider: LocalKeyfileProvider | undefined;
+
+/**
+ * Fournisseur de clés maîtresses ; le fichier de clés est créé à la première utilisation s'il n'existe pas
+ */
+export function getKeyProvider(): KeyProvider {
+  if (!provider) {
+    provider = new LocalKeyfileProvider(getKeyfilePath());
+    if (!provider.exists()) {
+      provider.create();
+      console.warn(`Fichier de clés de chiffrement créé : ${provider.filePath}. Conservez-en une copie de sauvegarde : sans lui, les documents sont illisibles.`);
+    }
+  }
+  return provider;
+}
+
+/**
+ * Chiffre un contenu en AES-256-GCM avec une nouvelle clé de données ;
+ * renvoie le contenu chiffré et la clé de données enveloppée à enregistrer
+ */
+export async function sealContent(content: Buffer): Promise<{ content: Buffer; dataKey: InsertDataKey }> {
+  const dataKey = await getKeyProvider().generateDataKey();
+  return {
+    content: encryptAesGcm(dataKey.plaintext, content),
+    dataKey: { masterKeyId: dataKey.masterKeyId, wrappedKey: dataKey.wrapped.toString('base64') }
+  };
+}
+
+/**
+ * Déchiffre un contenu scellé par sealContent
+ */
+export async function openContent(content: Buffer, dataKey: DataKey | undefined): Promise<Buffer> {
+  if (!dataKey) {
+    throw new EncryptionError('Clé de données introuvable : le contenu ne peut pas être déchiffré');
+  }
+  const key = await getKeyProvider().decryptDataKey(dataKey.masterKeyId, Buffer.from(dataKey.wrappedKey, 'base64'));
+  return decryptAesGcm(key, content);
+}
+
+/**
+ * Ré-enveloppe avec la clé maîtresse active les clés de données enveloppées par une autre ;
+ * les contenus ne sont pas rechiffrés. Renvoie le nombre de clés ré-enveloppées.
+ */
+export async function rewrapDataKeys(storage: Pick<IStorage, 'getDataKeys' | 'updateDataKey'>): Promise<number> {
+  const keyProvider = getKeyProvider();
+  const active = keyProvider.activeMasterKeyId();
+  const stale = (await storage.getDataKeys()).filter(dataKey => dataKey.masterKeyId !== active);
+  for (const dataKey of stale) {
+    const rewrapped = await keyProvider.reEncryptDataKey(dataKey.masterKeyId, Buffer.from(dataKey.wrappedKey, 'base64'));
+    await storage.updateDataKey(dataKey.id, {
+      masterKeyId: rewrapped.masterKeyId,
+      wrappedKey: rewrapped.wrapped.toString('base64'),
+      rotatedAt: new Date()
+    });
+  }
+  return stale.length;
+}
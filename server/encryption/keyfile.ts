@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { KEY_LENGTH, decryptAesGcm, encryptAesGcm } from './cipher';
+import { EncryptionError, GeneratedDataKey, KeyProvider } from './provider';
+
+/**
+ * Contenu du fichier de clés : clés maîtresses AES-256 (base64) par identifiant, et identifiant de la clé active
+ */
+interface Keyring {
+  activeKeyId: string;
+  keys: Record<string, string>;
+}
+
+/**
+ * Identifiant d'une nouvelle clé maîtresse : date de création et suffixe aléatoire
+ */
+function newMasterKeyId(): string {
+  return `mk-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${randomBytes(4).toString('hex')}`;
+}
+
+function parseKeyring(json: string, filePath: string): Keyring {
+  const keyring = JSON.parse(json) as Keyring;
+  const keys = keyring && typeof keyring.keys === 'object' ? keyring.keys : {};
+  const valid = typeof keyring?.activeKeyId === 'string'
+    && keyring.activeKeyId in keys
+    && Object.values(keys).every(key => Buffer.from(String(key), 'base64').length === KEY_LENGTH);
+  if (!valid) {
+    throw new EncryptionError(`Fichier de clés invalide: ${filePath}`);
+  }
+  return keyring;
+}
+
+/**
+ * Fournisseur local : les clés maîtresses sont lues dans un fichier de clés (JSON, accessible au seul serveur).
+ * Les clés de données sont enveloppées en AES-256-GCM, l'identifiant de la clé maîtresse servant de données associées.
+ */
+export class LocalKeyfileProvider implements KeyProvider {
+  private keyring: Keyring | undefined;
+  private loadedMtime = 0;
+
+  constructor(readonly filePath: string) {}
+
+  exists(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+
+  /**
+   * Crée le fichier de clés avec une première clé maîtresse ; un fichier existant n'est jamais écrasé
+   */
+  create(): void {
+    const id = newMasterKeyId();
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(
+      this.filePath,
+      JSON.stringify({ activeKeyId: id, keys: { [id]: randomBytes(KEY_LENGTH).toString('base64') } }, null, 2),
+      { mode: 0o600, flag: 'wx' }
+    );
+  }
+
+  /**
+   * Trousseau relu dès que le fichier change, pour suivre une rotation faite pendant que le serveur tourne
+   */
+  private load(): Keyring {
+    let mtime: number;
+    try {
+      mtime = fs.statSync(this.filePath).mtimeMs;
+    } catch {
+      throw new EncryptionError(`Fichier de clés introuvable: ${this.filePath}`);
+    }
+    if (!this.keyring || mtime !== this.loadedMtime) {
+      this.keyring = parseKeyring(fs.readFileSync(this.filePath, 'utf8'), this.filePath);
+      this.loadedMtime = mtime;
+    }
+    return this.keyring;
+  }
+
+  /**
+   * Remplace le fichier d'un bloc (écriture puis renommage)
+   */
+  private save(keyring: Keyring): void {
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(keyring, null, 2), { mode: 0o600 });
+    fs.renameSync(temporary, this.filePath);
+    this.keyring = undefined;
+  }
+
+  private masterKey(id: string): Buffer {
+    const key = this.load().keys[id];
+    if (!key) {
+      throw new EncryptionError(`Clé maîtresse inconnue: ${id}`);
+    }
+    return Buffer.from(key, 'base64');
+  }
+
+  private wrap(masterKeyId: string, dataKey: Buffer): Buffer {
+    return encryptAesGcm(this.masterKey(masterKeyId), dataKey, Buffer.from(masterKeyId, 'utf8'));
+  }
+
+  activeMasterKeyId(): string {
+    return this.load().activeKeyId;
+  }
+
+  masterKeyIds(): string[] {
+    return Object.keys(this.load().keys);
+  }
+
+  async generateDataKey(): Promise<GeneratedDataKey> {
+    const masterKeyId = this.activeMasterKeyId();
+    const plaintext = randomBytes(KEY_LENGTH);
+    return { masterKeyId, plaintext, wrapped: this.wrap(masterKeyId, plaintext) };
+  }
+
+  async decryptDataKey(masterKeyId: string, wrapped: Buffer): Promise<Buffer> {
+    return decryptAesGcm(this.masterKey(masterKeyId), wrapped, Buffer.from(masterKeyId, 'utf8'));
+  }
+
+  async reEncryptDataKey(masterKeyId: string, wrapped: Buffer): Promise<{ masterKeyId: string; wrapped: Buffer }> {
+    const plaintext = await this.decryptDataKey(masterKeyId, wrapped);
+    const active = this.activeMasterKeyId();
+    return { masterKeyId: active, wrapped: this.wrap(active, plaintext) };
+  }
+
+  /**
+   * Ajoute une clé maîtresse, qui devient active ; les précédentes restent disponibles
+   * pour les clés de données pas encore ré-enveloppées
+   */
+  addMasterKey(): string {
+    const keyring = this.load();
+    const id = newMasterKeyId();
+    this.save({ activeKeyId: id, keys: { ...keyring.keys, [id]: randomBytes(KEY_LENGTH).toString('base64') } });
+    return id;
+  }
+
+  /**
+   * Retire les clés maîtresses inactives qui n'enveloppent plus aucune clé de données ; renvoie leurs identifiants
+   */
+  retireMasterKeys(inUse: Set<string>): string[] {
+    const keyring = this.load();
+    const retired = Object.keys(keyring.keys).filter(id => id !== keyring.activeKeyId && !inUse.has(id));
+    if (retired.length > 0) {
+      const keys = { ...keyring.keys };
+      retired.forEach(id => delete keys[id]);
+      this.save({ activeKeyId: keyring.activeKeyId, keys });
+    }
+    return retired;
+  }
+}
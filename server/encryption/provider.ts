@@ -0,0 +1,33 @@
+import { HttpError } from '../httpError';
+
+/**
+ * Clé de données générée par le fournisseur : en clair pour chiffrer un contenu, enveloppée pour être stockée
+ */
+export interface GeneratedDataKey {
+  masterKeyId: string;
+  plaintext: Buffer;
+  wrapped: Buffer;
+}
+
+/**
+ * Fournisseur de clés maîtresses sur le modèle d'un KMS : les clés maîtresses ne quittent pas le fournisseur,
+ * qui génère, déchiffre et ré-enveloppe les clés de données
+ */
+export interface KeyProvider {
+  // Clé maîtresse enveloppant les nouvelles clés de données
+  activeMasterKeyId(): string;
+  generateDataKey(): Promise<GeneratedDataKey>;
+  decryptDataKey(masterKeyId: string, wrapped: Buffer): Promise<Buffer>;
+  // Ré-enveloppe une clé de données avec la clé maîtresse active, sans la renvoyer en clair
+  reEncryptDataKey(masterKeyId: string, wrapped: Buffer): Promise<{ masterKeyId: string; wrapped: Buffer }>;
+}
+
+/**
+ * Erreur de chiffrement (trousseau absent, clé inconnue, contenu altéré)
+ */
+export class EncryptionError extends HttpError {
+  constructor(message: string, status = 500) {
+    super(message, status);
+    this.name = 'EncryptionError';
+  }
+}
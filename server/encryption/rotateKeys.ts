@@ -0,0 +1,42 @@
+import { initStorage, storage } from '../storage';
+import { LocalKeyfileProvider, getKeyProvider, rewrapDataKeys } from '.';
+
+/**
+ * Rotation de la clé maîtresse : ajoute une clé maîtresse au fichier de clés, qui devient active,
+ * puis ré-enveloppe avec elle toutes les clés de données. Avec --retire, les clés maîtresses
+ * qui n'enveloppent plus aucune clé de données sont ensuite retirées du fichier.
+ * Conserver une sauvegarde du fichier de clés avant de retirer des clés.
+ *
+ * Usage : npm run encryption:rotate [-- --retire]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const unknown = args.filter(arg => arg !== '--retire');
+  if (unknown.length > 0) {
+    console.error('Usage : npm run encryption:rotate [-- --retire]');
+    process.exit(1);
+  }
+
+  await initStorage();
+  const keyProvider = getKeyProvider();
+  if (keyProvider instanceof LocalKeyfileProvider) {
+    console.log(`Nouvelle clé maîtresse active : ${keyProvider.addMasterKey()}`);
+  }
+
+  const count = await rewrapDataKeys(storage);
+  console.log(`${count} clé(s) de données ré-enveloppée(s) avec ${keyProvider.activeMasterKeyId()}`);
+
+  if (args.includes('--retire') && keyProvider instanceof LocalKeyfileProvider) {
+    const inUse = new Set((await storage.getDataKeys()).map(dataKey => dataKey.masterKeyId));
+    const retired = keyProvider.retireMasterKeys(inUse);
+    console.log(retired.length > 0
+      ? `Clé(s) maîtresse(s) retirée(s) : ${retired.join(', ')}`
+      : 'Aucune clé maîtresse à retirer');
+  }
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(`Échec de la rotation : ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,9 @@
+/**
+ * Erreur dont le message peut être renvoyé au client, avec le code HTTP correspondant
+ */
+export class HttpError extends Error {
+  constructor(message: string, public status = 500) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { initStorage } from "./storage";
+import { scheduleAnchoring } from "./anchoring";
+import { resumePendingScans } from "./scanning";
 import { setupVite, serveStatic, log } from "./vite";
 import { securityHeaders, validateInput, rateLimiter, auditLog } from "./middlewares/security";
 import path from "path";
@@ -54,6 +57,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await initStorage();
+  await scheduleAnchoring();
+  await resumePendingScans();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
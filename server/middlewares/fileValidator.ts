@@ -3,6 +3,21 @@ import multer from 'multer';
 import path from 'path';
 import { createHash } from 'crypto';
 import fs from 'fs';
+import { PdfSecurityReport } from '@shared/schema';
+import { PdfSecurityError, sanitizePdf } from '../pdfSanitizer';
+import { quarantineUpload } from '../quarantine';
+import { FileScan, scanContent } from '../scanning';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Rapport de l'analyse de sécurité du PDF téléchargé
+      pdfSecurityReport?: PdfSecurityReport;
+      // Analyse antivirus du fichier tel que reçu, sans analyseur configuré
+      malwareScan?: FileScan;
+    }
+  }
+}
 
 // Configuration de multer pour le téléchargement de fichiers
 const storage = multer.diskStorage({
@@ -26,29 +41,31 @@ const storage = multer.diskStorage({
   },
 });
 
-// Filtrer les types de fichiers autorisés
-const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  // Accepter uniquement les PDF
-  if (file.mimetype === 'application/pdf') {
-    cb(null, true);
-  } else {
-    cb(new Error('Type de fichier non autorisé. Seuls les PDF sont acceptés.'));
-  }
-};
+// Rapport vide des fichiers refusés avant l'analyse de leur contenu PDF
+const noReport: PdfSecurityReport = { threats: [], sanitized: false };
+
+// Le type déclaré par le client n'est pas filtré ici : la nature du fichier est vérifiée
+// sur son contenu, et un fichier refusé est placé en quarantaine plutôt que rejeté sans trace
 
-// Limiter la taille des fichiers (10 MB max)
+// Limiter la taille des fichiers (10 MB max) ; un fichier trop volumineux n'est pas reçu en entier
 const limits = {
   fileSize: 10 * 1024 * 1024,
 };
 
+// Nombre maximal de pages d'un PDF importé (MAX_PDF_PAGES, 500 par défaut)
+function getMaxPdfPages(): number {
+  const pages = Number(process.env.MAX_PDF_PAGES);
+  return Number.isInteger(pages) && pages > 0 ? pages : 500;
+}
+
 // Middleware pour télécharger des fichiers
 export const uploadMiddleware = multer({
   storage,
-  fileFilter,
   limits,
 }).single('file');
 
-// Middleware de validation de fichier PDF
+// Middleware de validation de fichier PDF : en cas de succès, req.file.buffer contient le PDF
+// (réécrit si des éléments ont été neutralisés) ; un fichier refusé est placé en quarantaine
 export const validatePdfUpload = (req: Request, res: Response, next: NextFunction) => {
   uploadMiddleware(req, res, (err) => {
     if (err) {
@@ -66,57 +83,69 @@ export const validatePdfUpload = (req: Request, res: Response, next: NextFunctio
     if (!req.file) {
       return res.status(400).json({ message: 'Aucun fichier n\'a été téléchargé.' });
     }
-
-    // Analyser le fichier PDF pour détecter d'éventuelles menaces
-    // Cette fonction pourrait être étendue avec des bibliothèques de sécurité plus sophistiquées
-    validatePdfSecurity(req.file.path)
-      .then(() => {
+    const file = req.file;
+
+    // Analyser le fichier reçu puis le PDF pour détecter et neutraliser d'éventuelles menaces
+    validateReceivedFile(file.path)
+      .then(({ content, report, malwareScan }) => {
+        file.buffer = content;
+        file.size = content.length;
+        file.mimetype = 'application/pdf';
+        req.pdfSecurityReport = report;
+        req.malwareScan = malwareScan;
         next();
       })
-      .catch((error) => {
-        // Supprimer le fichier en cas de problème
-        fs.unlinkSync(req.file!.path);
-        res.status(400).json({ message: error.message });
+      .catch(async (error) => {
+        if (!(error instanceof PdfSecurityError)) {
+          console.error('Erreur lors de la validation du fichier:', error);
+          return res.status(500).json({ message: 'Erreur lors de la validation du fichier' });
+        }
+        try {
+          const quarantined = await quarantineUpload(file, req.user!.id, error.message, error.report, req.document?.id ?? null);
+          console.warn(`Fichier placé en quarantaine (#${quarantined.id}): ${file.originalname} | ${error.message}`);
+          res.status(error.status).json({
+            message: `${error.message} Le fichier a été placé en quarantaine.`,
+            quarantineId: quarantined.id,
+            report: error.report
+          });
+        } catch (quarantineError) {
+          console.error('Erreur lors de la mise en quarantaine:', quarantineError);
+          res.status(error.status).json({ message: error.message });
+        }
       });
   });
 };
 
-// Fonction pour vérifier la sécurité basique d'un PDF
-async function validatePdfSecurity(filePath: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    // Lecture du début du fichier pour vérifier la signature (magic bytes) du PDF
-    const buffer = Buffer.alloc(5);
-    const fileDescriptor = fs.openSync(filePath, 'r');
-    fs.readSync(fileDescriptor, buffer, 0, 5, 0);
-    fs.closeSync(fileDescriptor);
-
-    // Vérifier la signature PDF
-    if (buffer.toString() !== '%PDF-') {
-      return reject(new Error('Le fichier n\'est pas un PDF valide.'));
-    }
-
-    // Vérification de base du contenu (pourrait être étendu)
-    const fileContent = fs.readFileSync(filePath);
-    const content = fileContent.toString('utf-8', 0, Math.min(fileContent.length, 1024 * 50));
-
-    // Recherche de scripts potentiellement dangereux
-    if (content.includes('/JS') || content.includes('/JavaScript')) {
-      return reject(new Error('Le PDF contient potentiellement du code JavaScript non autorisé.'));
-    }
+// Analyse antivirus du fichier tel que reçu, avant que la neutralisation n'en retire une partie
+// (une menace logée dans un script retiré ne serait plus visible) : un fichier infecté est refusé
+async function validateReceivedFile(filePath: string): Promise<{ content: Buffer; report: PdfSecurityReport; malwareScan?: FileScan }> {
+  const received = fs.readFileSync(filePath);
+  const malwareScan = await scanContent(received);
+  if (malwareScan?.status === 'infected') {
+    throw new PdfSecurityError(`L'analyse antivirus a détecté une menace dans le fichier (${malwareScan.threat}).`, noReport);
+  }
+  return { ...(await validatePdfSecurity(received)), malwareScan };
+}
 
-    // Recherche d'actions automatiques
-    if (content.includes('/AA') || content.includes('/OpenAction')) {
-      return reject(new Error('Le PDF contient des actions automatiques potentiellement dangereuses.'));
-    }
+// Fonction pour vérifier la signature (magic bytes) et le nombre de pages d'un PDF puis analyser
+// son graphe d'objets (voir pdfSanitizer) : le fichier est refusé (PdfSecurityError),
+// ou renvoyé sans les éléments neutralisés, selon la politique de sécurité
+async function validatePdfSecurity(content: Buffer): Promise<{ content: Buffer; report: PdfSecurityReport }> {
 
-    // Recherche d'inclusions externes
-    if (content.includes('/URI') && (content.includes('http://') || content.includes('https://'))) {
-      // Log l'alerte mais ne rejette pas forcément
-      console.warn('Le PDF contient des liens externes (à surveiller).');
-    }
+  // Vérifier la signature PDF, quel que soit le type déclaré
+  if (content.subarray(0, 5).toString() !== '%PDF-') {
+    throw new PdfSecurityError('Le fichier n\'est pas un PDF valide.', noReport);
+  }
 
-    resolve();
-  });
+  const sanitized = await sanitizePdf(content);
+  if (sanitized.pageCount === 0) {
+    throw new PdfSecurityError('Le PDF ne contient aucune page.', sanitized.report);
+  }
+  const maxPages = getMaxPdfPages();
+  if (sanitized.pageCount > maxPages) {
+    throw new PdfSecurityError(`Le PDF compte ${sanitized.pageCount} pages, au-delà de la limite de ${maxPages}.`, sanitized.report);
+  }
+  return sanitized;
 }
 
 // Middleware pour nettoyer les fichiers temporaires
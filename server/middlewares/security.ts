@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { randomBytes } from 'crypto';
+import { Document } from '@shared/schema';
+import { storage } from '../storage';
+import { assertDocumentScanned } from '../scanning';
+import { HttpError } from '../httpError';
 
 /**
  * Génère un nonce aléatoire pour les en-têtes CSP
@@ -37,6 +41,10 @@ export const securityHeaders = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
+// Champs transmis tels quels : contenu binaire, et texte brut écrit dans les PDF
+// (modèle de marquage, émetteur, auteur, adresse de vérification), jamais interprété comme du HTML
+const RAW_INPUT_KEYS = ['buffer', 'file', 'files', 'template', 'issuerName', 'authorName', 'verificationBaseUrl'];
+
 /**
  * Valide les entrées pour prévenir les injections
  */
@@ -63,8 +71,8 @@ export const validateInput = (req: Request, res: Response, next: NextFunction) =
       const sanitized: any = {};
       for (const key in data) {
         if (Object.prototype.hasOwnProperty.call(data, key)) {
-          // Ignorer le contenu binaire (comme les uploads de fichiers)
-          if (key !== 'buffer' && key !== 'file' && key !== 'files') {
+          // Ignorer le contenu binaire (comme les uploads de fichiers) et le texte brut écrit dans les PDF
+          if (!RAW_INPUT_KEYS.includes(key)) {
             sanitized[key] = sanitizeInput(data[key]);
           } else {
             sanitized[key] = data[key];
@@ -111,8 +119,9 @@ export const rateLimiter = (() => {
   const MAX_REQUESTS = 100; // Limite de requêtes par fenêtre de temps
   
   return (req: Request, res: Response, next: NextFunction) => {
-    // Appliquer uniquement sur les routes d'API sensibles
-    if (!req.path.startsWith('/api/documents')) {
+    // Appliquer uniquement sur les routes d'API sensibles (dont la vérification publique).
+    // originalUrl car req.path est relatif au point de montage '/api'
+    if (!req.originalUrl.startsWith('/api/documents') && !req.originalUrl.startsWith('/api/verify')) {
       return next();
     }
     
@@ -138,19 +147,118 @@ export const rateLimiter = (() => {
 })();
 
 /**
- * Validation spécifique pour les routes sensibles
+ * Niveaux d'accès à un document, du plus faible au plus fort.
+ * Les partages donnent read/write/full ; seul le créateur est owner.
  */
-export const validateDocumentAccess = (req: Request, res: Response, next: NextFunction) => {
-  const documentId = req.params.id;
-  
-  // Vérifier que l'ID est un nombre valide
-  if (!/^\d+$/.test(documentId)) {
-    return res.status(400).json({ message: 'Format d\'identifiant de document invalide' });
+export type DocumentPermission = 'read' | 'write' | 'full' | 'owner';
+
+const PERMISSION_RANK: Record<DocumentPermission, number> = {
+  read: 1,
+  write: 2,
+  full: 3,
+  owner: 4
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      document?: Document;
+      documentPermission?: DocumentPermission;
+    }
+  }
+}
+
+/**
+ * Détermine le niveau d'accès d'un utilisateur à un document (undefined si aucun)
+ */
+export async function getDocumentPermission(
+  document: Document,
+  userId: number
+): Promise<DocumentPermission | undefined> {
+  if (document.creatorId === userId) {
+    return 'owner';
+  }
+
+  const share = await storage.getDocumentShare(document.id, userId);
+  if (share && share.permission in PERMISSION_RANK) {
+    return share.permission as DocumentPermission;
+  }
+  return undefined;
+}
+
+/**
+ * Indique si un niveau d'accès couvre le niveau requis
+ */
+export function hasPermission(granted: DocumentPermission | undefined, required: DocumentPermission): boolean {
+  return !!granted && PERMISSION_RANK[granted] >= PERMISSION_RANK[required];
+}
+
+/**
+ * Journalise une tentative d'accès refusée et répond 403
+ */
+export async function denyDocumentAccess(
+  req: Request,
+  res: Response,
+  documentId: number,
+  required: DocumentPermission,
+  granted: DocumentPermission | undefined
+) {
+  await storage.createAuditLog({
+    documentId,
+    userId: req.user!.id,
+    action: 'access_denied',
+    details: `Accès refusé: ${req.method} ${req.originalUrl} (requis: ${required}, accordé: ${granted || 'aucun'})`
+  });
+  return res.status(403).json({ message: 'Vous n\'avez pas les permissions nécessaires pour ce document' });
+}
+
+/**
+ * Validation spécifique pour les routes sensibles :
+ * vérifie l'identifiant, l'existence du document et le niveau d'accès de l'utilisateur.
+ * Les refus sont journalisés dans l'historique d'audit du document.
+ */
+export const validateDocumentAccess = (required: DocumentPermission) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const documentId = req.params.id;
+    
+    // Vérifier que l'ID est un nombre valide
+    if (!/^\d+$/.test(documentId)) {
+      return res.status(400).json({ message: 'Format d\'identifiant de document invalide' });
+    }
+
+    try {
+      const document = await storage.getDocument(parseInt(documentId));
+      if (!document) {
+        return res.status(404).json({ message: 'Document non trouvé' });
+      }
+
+      const permission = await getDocumentPermission(document, req.user!.id);
+      if (!hasPermission(permission, required)) {
+        return denyDocumentAccess(req, res, document.id, required, permission);
+      }
+
+      req.document = document;
+      req.documentPermission = permission;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * À placer après validateDocumentAccess : le contenu d'un document n'est servi ou traité
+ * qu'une fois son analyse antivirus passée (ou sans analyseur configuré)
+ */
+export const requireScannedDocument = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    assertDocumentScanned(req.document!);
+    next();
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    next(error);
   }
-  
-  // Ajouter ici d'autres validations spécifiques aux documents
-  
-  next();
 };
 
 /**
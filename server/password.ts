@@ -0,0 +1,37 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Longueur de la clé dérivée par scrypt (en octets)
+const KEY_LENGTH = 64;
+
+/**
+ * Calcule l'empreinte d'un mot de passe au format `scrypt$<sel>$<hash>`
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const derived = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${derived.toString('hex')}`;
+}
+
+/**
+ * Indique si une valeur stockée est déjà une empreinte produite par hashPassword
+ */
+export function isPasswordHash(stored: string): boolean {
+  return /^scrypt\$[0-9a-f]+\$[0-9a-f]+$/.test(stored);
+}
+
+/**
+ * Compare un mot de passe saisi à l'empreinte stockée, en temps constant
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    return false;
+  }
+
+  const [, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'hex');
+  const derived = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(derived, expected);
+}
@@ -0,0 +1,137 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { PDFDocument, PDFHexString, PDFName, PDFString } from 'pdf-lib';
+import type { User } from '@shared/schema';
+import { DEFAULT_PDF_SECURITY_POLICY, PdfSecurityError, sanitizePdf } from './pdfSanitizer';
+
+// Stockage en mémoire et répertoire de quarantaine propres au test, lus au chargement du stockage
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf-sanitizer-test-'));
+process.env.STORAGE_DRIVER = 'memory';
+process.env.QUARANTINE_DIR = path.join(workDir, 'quarantine');
+
+const SCRIPT = 'app.alert("BeaverDoc")';
+
+async function createPdf(prepare?: (pdfDoc: PDFDocument) => void): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage([595, 842]).drawText('Contrat de test', { x: 50, y: 780 });
+  prepare?.(pdfDoc);
+  return Buffer.from(await pdfDoc.save({ useObjectStreams: false }));
+}
+
+function withOpenActionScript(pdfDoc: PDFDocument) {
+  pdfDoc.catalog.set(PDFName.of('OpenAction'), pdfDoc.context.obj({ Type: 'Action', S: 'JavaScript', JS: PDFString.of(SCRIPT) }));
+}
+
+// Dictionnaire /Encrypt du gestionnaire standard (RC4 40 bits) : le contenu n'est pas chiffré,
+// mais le fichier se présente comme tel à tout lecteur
+function withEncryption(pdfDoc: PDFDocument) {
+  pdfDoc.context.trailerInfo.Encrypt = pdfDoc.context.obj({
+    Filter: 'Standard',
+    V: 1,
+    R: 2,
+    O: PDFHexString.of('0'.repeat(64)),
+    U: PDFHexString.of('0'.repeat(64)),
+    P: -44
+  });
+}
+
+describe('sanitizePdf', () => {
+  it('retire le JavaScript et réécrit le fichier', async () => {
+    const content = await createPdf(withOpenActionScript);
+
+    const sanitized = await sanitizePdf(content, DEFAULT_PDF_SECURITY_POLICY);
+    assert.equal(sanitized.report.sanitized, true);
+    assert.deepEqual(sanitized.report.threats, [
+      { kind: 'javascript', location: 'Catalogue /OpenAction', detail: SCRIPT, action: 'strip' }
+    ]);
+    assert.notDeepEqual(sanitized.content, content);
+
+    const rewritten = await PDFDocument.load(sanitized.content);
+    assert.equal(rewritten.catalog.has(PDFName.of('OpenAction')), false);
+    assert.equal(rewritten.getPageCount(), 1);
+    assert.deepEqual((await sanitizePdf(sanitized.content, DEFAULT_PDF_SECURITY_POLICY)).report.threats, []);
+  });
+
+  it('refuse un PDF chiffré', async () => {
+    const content = await createPdf(withEncryption);
+
+    await assert.rejects(sanitizePdf(content, DEFAULT_PDF_SECURITY_POLICY), (error: unknown) => {
+      assert.ok(error instanceof PdfSecurityError);
+      assert.equal(error.status, 400);
+      assert.match(error.message, /chiffrement/);
+      assert.deepEqual(error.report.threats.map(threat => [threat.kind, threat.action]), [['encryption', 'reject']]);
+      return true;
+    });
+  });
+
+  it('renvoie un PDF sans élément à retirer octet pour octet', async () => {
+    const content = await createPdf();
+
+    const sanitized = await sanitizePdf(content, DEFAULT_PDF_SECURITY_POLICY);
+    assert.equal(sanitized.content, content);
+    assert.deepEqual(sanitized.report, { threats: [], sanitized: false });
+    assert.equal(sanitized.pageCount, 1);
+  });
+
+  it('refuse un fichier qui n\'est pas un PDF lisible', async () => {
+    await assert.rejects(sanitizePdf(Buffer.from('%PDF-1.7 tronqué'), DEFAULT_PDF_SECURITY_POLICY), PdfSecurityError);
+  });
+});
+
+describe('validatePdfUpload', () => {
+  const server = http.createServer();
+  let baseUrl: string;
+
+  before(async () => {
+    // Chargés après la configuration du stockage et de la quarantaine
+    const { cleanupMiddleware, validatePdfUpload } = await import('./middlewares/fileValidator');
+    const app = express();
+    app.post('/upload', (req, _res, next) => {
+      req.user = { id: 1 } as User;
+      next();
+    }, cleanupMiddleware, validatePdfUpload, (req, res) => {
+      res.json({ size: req.file!.size, report: req.pdfSecurityReport });
+    });
+    server.on('request', app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  async function upload(content: Buffer) {
+    const body = new FormData();
+    body.append('file', new Blob([content], { type: 'application/pdf' }), 'contrat.pdf');
+    const response = await fetch(`${baseUrl}/upload`, { method: 'POST', body });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('place en quarantaine un PDF chiffré', async () => {
+    const { storage } = await import('./storage');
+    const content = await createPdf(withEncryption);
+
+    const response = await upload(content);
+    assert.equal(response.status, 400);
+    assert.match(response.body.message, /placé en quarantaine/);
+
+    const entry = (await storage.getQuarantinedUpload(response.body.quarantineId))!;
+    assert.equal(entry.fileName, 'contrat.pdf');
+    assert.match(entry.reason, /chiffrement/);
+    assert.deepEqual(fs.readFileSync(path.join(process.env.QUARANTINE_DIR!, entry.storageKey)), content);
+  });
+
+  it('transmet le PDF neutralisé à la route', async () => {
+    const response = await upload(await createPdf(withOpenActionScript));
+    assert.equal(response.status, 200);
+    assert.equal(response.body.report.sanitized, true);
+  });
+});
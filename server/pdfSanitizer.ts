@@ -0,0 +1,510 @@
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFObject,
+  PDFRef,
+  PDFStream,
+  PDFString
+} from 'pdf-lib';
+import {
+  PdfSecurityPolicy,
+  PdfSecurityReport,
+  PdfThreat,
+  PdfThreatAction,
+  PdfThreatKind
+} from '@shared/schema';
+import { HttpError } from './httpError';
+
+/**
+ * Fichier refusé par l'analyse de sécurité, avec le rapport des éléments trouvés
+ */
+export class PdfSecurityError extends HttpError {
+  constructor(message: string, public report: PdfSecurityReport, status = 400) {
+    super(message, status);
+    this.name = 'PdfSecurityError';
+  }
+}
+
+/**
+ * PDF après analyse : contenu réécrit si des éléments ont été retirés, sinon les octets d'origine
+ */
+export interface SanitizedPdf {
+  content: Buffer;
+  pageCount: number;
+  report: PdfSecurityReport;
+}
+
+// Le chiffrement ne peut pas être retiré : « strip » revient à refuser le fichier
+export const DEFAULT_PDF_SECURITY_POLICY: PdfSecurityPolicy = {
+  javascript: 'strip',
+  launch: 'strip',
+  embedded_file: 'strip',
+  xfa: 'strip',
+  external_uri: 'allow',
+  encryption: 'reject'
+};
+
+const PDF_THREAT_ACTIONS: PdfThreatAction[] = ['reject', 'strip', 'allow'];
+
+const THREAT_LABELS: Record<PdfThreatKind, string> = {
+  javascript: 'JavaScript',
+  launch: 'action de lancement',
+  embedded_file: 'fichier joint',
+  xfa: 'formulaire XFA',
+  external_uri: 'lien externe',
+  encryption: 'chiffrement'
+};
+
+// Longueur maximale des extraits de script ou d'adresse repris dans le rapport
+const DETAIL_MAX_LENGTH = 200;
+
+const KEY = {
+  A: PDFName.of('A'),
+  AA: PDFName.of('AA'),
+  AF: PDFName.of('AF'),
+  AcroForm: PDFName.of('AcroForm'),
+  Annots: PDFName.of('Annots'),
+  EF: PDFName.of('EF'),
+  EmbeddedFile: PDFName.of('EmbeddedFile'),
+  EmbeddedFiles: PDFName.of('EmbeddedFiles'),
+  F: PDFName.of('F'),
+  Fields: PDFName.of('Fields'),
+  First: PDFName.of('First'),
+  FS: PDFName.of('FS'),
+  JavaScript: PDFName.of('JavaScript'),
+  JS: PDFName.of('JS'),
+  Kids: PDFName.of('Kids'),
+  Names: PDFName.of('Names'),
+  NeedsRendering: PDFName.of('NeedsRendering'),
+  Next: PDFName.of('Next'),
+  OpenAction: PDFName.of('OpenAction'),
+  Outlines: PDFName.of('Outlines'),
+  S: PDFName.of('S'),
+  Subtype: PDFName.of('Subtype'),
+  T: PDFName.of('T'),
+  Title: PDFName.of('Title'),
+  Type: PDFName.of('Type'),
+  UF: PDFName.of('UF'),
+  URI: PDFName.of('URI'),
+  Win: PDFName.of('Win'),
+  XFA: PDFName.of('XFA')
+};
+
+/**
+ * Politique appliquée aux importations : valeurs par défaut, remplacées type par type
+ * par PDF_SECURITY_POLICY (ex. « external_uri=strip,launch=reject »)
+ */
+export function getPdfSecurityPolicy(): PdfSecurityPolicy {
+  const policy = { ...DEFAULT_PDF_SECURITY_POLICY };
+  (process.env.PDF_SECURITY_POLICY ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .forEach(entry => {
+      const [kind, action] = entry.split('=').map(part => part.trim());
+      if (kind in policy && PDF_THREAT_ACTIONS.includes(action as PdfThreatAction)) {
+        policy[kind as PdfThreatKind] = action as PdfThreatAction;
+      } else {
+        console.warn(`PDF_SECURITY_POLICY : entrée ignorée « ${entry} »`);
+      }
+    });
+  return policy;
+}
+
+function textOf(value: PDFObject | undefined): string | null {
+  if (value instanceof PDFString || value instanceof PDFHexString || value instanceof PDFName) {
+    return value.decodeText();
+  }
+  return null;
+}
+
+function excerpt(text: string | null): string | null {
+  return text && text.length > DETAIL_MAX_LENGTH ? `${text.slice(0, DETAIL_MAX_LENGTH)}…` : text;
+}
+
+/**
+ * Nom de fichier d'une spécification de fichier (chaîne ou dictionnaire /UF, /F)
+ */
+function fileSpecName(spec: PDFObject | undefined): string | null {
+  if (spec instanceof PDFDict) {
+    return textOf(spec.lookup(KEY.UF)) ?? textOf(spec.lookup(KEY.F));
+  }
+  return textOf(spec);
+}
+
+/**
+ * Type d'élément dangereux d'un dictionnaire d'action, undefined pour une action sans risque (GoTo, Named...)
+ */
+function classifyAction(action: PDFDict): { kind: PdfThreatKind; detail: string | null } | undefined {
+  const type = textOf(action.lookup(KEY.S));
+  if (action.has(KEY.JS) || type === 'JavaScript') {
+    return { kind: 'javascript', detail: excerpt(textOf(action.lookup(KEY.JS))) };
+  }
+
+  switch (type) {
+    case 'Launch': {
+      const windows = action.lookup(KEY.Win);
+      return {
+        kind: 'launch',
+        detail: fileSpecName(action.lookup(KEY.F)) ?? (windows instanceof PDFDict ? textOf(windows.lookup(KEY.F)) : null)
+      };
+    }
+    case 'URI':
+      return { kind: 'external_uri', detail: excerpt(textOf(action.lookup(KEY.URI))) };
+    case 'SubmitForm':
+    case 'ImportData':
+    case 'GoToR':
+      return { kind: 'external_uri', detail: excerpt(fileSpecName(action.lookup(KEY.F))) };
+    case 'GoToE':
+      return { kind: 'embedded_file', detail: fileSpecName(action.lookup(KEY.F)) };
+    default:
+      return undefined;
+  }
+}
+
+function removeFromArray(array: PDFArray, item: PDFObject) {
+  const index = array.asArray().indexOf(item);
+  if (index >= 0) {
+    array.remove(index);
+  }
+}
+
+/**
+ * Supprime les objets indirects qui ne sont plus atteignables depuis le trailer,
+ * pour que le contenu des éléments retirés (scripts, fichiers joints) ne reste pas dans le fichier
+ */
+function removeUnreachableObjects(context: PDFContext) {
+  const reachable = new Set<PDFRef>();
+  const pending: PDFObject[] = [context.trailerInfo.Root, context.trailerInfo.Info].filter((value): value is PDFObject => !!value);
+
+  while (pending.length > 0) {
+    const value = pending.pop()!;
+    if (value instanceof PDFRef) {
+      if (!reachable.has(value)) {
+        reachable.add(value);
+        const object = context.lookup(value);
+        if (object) pending.push(object);
+      }
+    } else if (value instanceof PDFDict) {
+      value.values().forEach(entry => pending.push(entry));
+    } else if (value instanceof PDFArray) {
+      value.asArray().forEach(entry => pending.push(entry));
+    } else if (value instanceof PDFStream) {
+      pending.push(value.dict);
+    }
+  }
+
+  context.enumerateIndirectObjects()
+    .filter(([ref]) => !reachable.has(ref))
+    .forEach(([ref]) => context.delete(ref));
+}
+
+/**
+ * Parcours du graphe d'objets d'un PDF : catalogue, arborescences de noms, formulaire, signets,
+ * pages et annotations, puis tout objet indirect restant. Chaque élément trouvé est rapporté
+ * avec l'action de la politique ; les corrections des éléments à retirer sont appliquées par strip().
+ */
+class PdfAnalyzer {
+  readonly threats: PdfThreat[] = [];
+  private fixes: (() => void)[] = [];
+  // Actions et fichiers joints déjà rapportés, pour ne pas les rapporter à nouveau lors du balayage final
+  private seen = new Set<PDFObject>();
+
+  constructor(private pdfDoc: PDFDocument, private policy: PdfSecurityPolicy) {}
+
+  analyze() {
+    if (this.pdfDoc.isEncrypted) {
+      // Les noms restent lisibles, mais pas les chaînes : le fichier ne peut être ni lu ni réécrit par le serveur
+      this.report('encryption', 'Trailer /Encrypt', null);
+    }
+    this.checkCatalog();
+    this.checkPages();
+    this.checkRemainingObjects();
+  }
+
+  /**
+   * Retire les éléments à neutraliser puis les objets devenus inaccessibles
+   */
+  strip() {
+    this.fixes.forEach(fix => fix());
+    removeUnreachableObjects(this.pdfDoc.context);
+  }
+
+  private lookup(value: PDFObject | undefined): PDFObject | undefined {
+    return value ? this.pdfDoc.context.lookup(value) : undefined;
+  }
+
+  /**
+   * Un élément à retirer fait refuser le fichier s'il ne peut pas l'être (chiffrement, fichier chiffré)
+   */
+  private resolveAction(kind: PdfThreatKind, fix?: () => void): PdfThreatAction {
+    const action = this.policy[kind];
+    return action === 'strip' && (!fix || this.pdfDoc.isEncrypted) ? 'reject' : action;
+  }
+
+  private report(kind: PdfThreatKind, location: string, detail: string | null, fix?: () => void) {
+    const action = this.resolveAction(kind, fix);
+    this.threats.push({ kind, location, detail: this.pdfDoc.isEncrypted ? null : detail, action });
+    if (action === 'strip') {
+      this.fixes.push(fix!);
+    }
+  }
+
+  /**
+   * Action (ou tableau d'actions /Next) référencée par une entrée ; remove retire cette référence
+   */
+  private checkAction(value: PDFObject | undefined, location: string, remove: () => void) {
+    const action = this.lookup(value);
+    if (action instanceof PDFArray) {
+      action.asArray().forEach((item, index) =>
+        this.checkAction(item, `${location}[${index}]`, () => action.set(index, PDFNull)));
+      return;
+    }
+    if (!(action instanceof PDFDict)) {
+      return;
+    }
+
+    const threat = classifyAction(action);
+    const alreadySeen = this.seen.has(action);
+    this.seen.add(action);
+    if (threat && alreadySeen) {
+      // Action partagée : chaque référence est retirée, l'action n'est rapportée qu'une fois
+      if (this.resolveAction(threat.kind, remove) === 'strip') this.fixes.push(remove);
+    } else if (threat) {
+      this.report(threat.kind, location, threat.detail, remove);
+    } else if (!alreadySeen) {
+      this.checkAction(action.get(KEY.Next), `${location} /Next`, () => action.delete(KEY.Next));
+    }
+  }
+
+  private checkAdditionalActions(owner: PDFDict, location: string) {
+    const actions = this.lookup(owner.get(KEY.AA));
+    if (actions instanceof PDFDict) {
+      actions.entries().forEach(([trigger, action]) =>
+        this.checkAction(action, `${location} /AA /${trigger.decodeText()}`, () => actions.delete(trigger)));
+    }
+  }
+
+  /**
+   * Couples (nom, valeur) d'une arborescence de noms
+   */
+  private nameTreeEntries(node: PDFObject | undefined, visited = new Set<PDFObject>()): [string, PDFObject][] {
+    const dict = this.lookup(node);
+    if (!(dict instanceof PDFDict) || visited.has(dict)) {
+      return [];
+    }
+    visited.add(dict);
+
+    const entries: [string, PDFObject][] = [];
+    const names = this.lookup(dict.get(KEY.Names));
+    if (names instanceof PDFArray) {
+      for (let index = 0; index + 1 < names.size(); index += 2) {
+        entries.push([textOf(this.lookup(names.get(index))) ?? '', names.get(index + 1)]);
+      }
+    }
+    const kids = this.lookup(dict.get(KEY.Kids));
+    if (kids instanceof PDFArray) {
+      kids.asArray().forEach(kid => entries.push(...this.nameTreeEntries(kid, visited)));
+    }
+    return entries;
+  }
+
+  /**
+   * Fichier joint par une spécification de fichier ; remove retire la référence. Ses flux /EmbeddedFile
+   * sont marqués comme rapportés, et un fichier référencé à plusieurs endroits n'est rapporté qu'une fois.
+   */
+  private checkEmbeddedFile(spec: PDFObject | undefined, location: string, fallbackName: string | null, remove: () => void) {
+    const dict = this.lookup(spec);
+    if (dict && this.seen.has(dict)) {
+      if (this.resolveAction('embedded_file', remove) === 'strip') this.fixes.push(remove);
+      return;
+    }
+
+    if (dict instanceof PDFDict) {
+      this.seen.add(dict);
+      const files = this.lookup(dict.get(KEY.EF));
+      if (files instanceof PDFDict) {
+        files.values().forEach(file => {
+          const stream = this.lookup(file);
+          if (stream) this.seen.add(stream);
+        });
+      }
+    }
+    this.report('embedded_file', location, fileSpecName(dict) ?? fallbackName, remove);
+  }
+
+  private checkCatalog() {
+    const catalog = this.pdfDoc.catalog;
+    this.checkAction(catalog.get(KEY.OpenAction), 'Catalogue /OpenAction', () => catalog.delete(KEY.OpenAction));
+    this.checkAdditionalActions(catalog, 'Catalogue');
+
+    const names = this.lookup(catalog.get(KEY.Names));
+    if (names instanceof PDFDict) {
+      this.nameTreeEntries(names.get(KEY.JavaScript)).forEach(([name, value]) => {
+        const action = this.lookup(value);
+        if (action) this.seen.add(action);
+        this.report(
+          'javascript',
+          `Arborescence de noms /JavaScript « ${name} »`,
+          action instanceof PDFDict ? excerpt(textOf(action.lookup(KEY.JS))) : null,
+          () => names.delete(KEY.JavaScript)
+        );
+      });
+      this.nameTreeEntries(names.get(KEY.EmbeddedFiles)).forEach(([name, spec]) =>
+        this.checkEmbeddedFile(spec, `Arborescence de noms /EmbeddedFiles « ${name} »`, name, () => names.delete(KEY.EmbeddedFiles)));
+    }
+
+    // Fichiers associés au document (PDF 2.0)
+    const associatedFiles = this.lookup(catalog.get(KEY.AF));
+    if (associatedFiles instanceof PDFArray) {
+      associatedFiles.asArray().forEach((spec, index) =>
+        this.checkEmbeddedFile(spec, `Catalogue /AF[${index}]`, null, () => removeFromArray(associatedFiles, spec)));
+    }
+
+    const form = this.lookup(catalog.get(KEY.AcroForm));
+    if (form instanceof PDFDict) {
+      if (form.has(KEY.XFA)) {
+        this.report('xfa', 'Formulaire /AcroForm /XFA', null, () => {
+          form.delete(KEY.XFA);
+          catalog.delete(KEY.NeedsRendering);
+        });
+      }
+      this.checkFields(form.get(KEY.Fields), new Set());
+    }
+
+    const outlines = this.lookup(catalog.get(KEY.Outlines));
+    if (outlines instanceof PDFDict) {
+      this.checkOutlines(outlines.get(KEY.First), new Set());
+    }
+  }
+
+  private checkFields(value: PDFObject | undefined, visited: Set<PDFObject>) {
+    const fields = this.lookup(value);
+    if (!(fields instanceof PDFArray)) {
+      return;
+    }
+    fields.asArray().forEach(item => {
+      const field = this.lookup(item);
+      if (!(field instanceof PDFDict) || visited.has(field)) {
+        return;
+      }
+      visited.add(field);
+      const location = `Champ « ${textOf(field.lookup(KEY.T)) ?? '?'} »`;
+      this.checkAction(field.get(KEY.A), `${location} /A`, () => field.delete(KEY.A));
+      this.checkAdditionalActions(field, location);
+      this.checkFields(field.get(KEY.Kids), visited);
+    });
+  }
+
+  private checkOutlines(first: PDFObject | undefined, visited: Set<PDFObject>) {
+    let item = this.lookup(first);
+    while (item instanceof PDFDict && !visited.has(item)) {
+      visited.add(item);
+      const outline = item;
+      const location = `Signet « ${textOf(outline.lookup(KEY.Title)) ?? '?'} »`;
+      this.checkAction(outline.get(KEY.A), `${location} /A`, () => outline.delete(KEY.A));
+      this.checkOutlines(outline.get(KEY.First), visited);
+      item = this.lookup(outline.get(KEY.Next));
+    }
+  }
+
+  private checkPages() {
+    this.pdfDoc.getPages().forEach((page, pageIndex) => {
+      const location = `Page ${pageIndex + 1}`;
+      this.checkAdditionalActions(page.node, location);
+
+      const annotations = this.lookup(page.node.get(KEY.Annots));
+      if (!(annotations instanceof PDFArray)) {
+        return;
+      }
+      annotations.asArray().forEach((item, index) => {
+        const annotation = this.lookup(item);
+        if (!(annotation instanceof PDFDict)) {
+          return;
+        }
+        const subtype = textOf(annotation.lookup(KEY.Subtype)) ?? '?';
+        const annotationLocation = `${location}, annotation ${index + 1} (${subtype})`;
+        this.checkAction(annotation.get(KEY.A), `${annotationLocation} /A`, () => annotation.delete(KEY.A));
+        this.checkAdditionalActions(annotation, annotationLocation);
+        if (subtype === 'FileAttachment') {
+          this.checkEmbeddedFile(annotation.get(KEY.FS), annotationLocation, null, () => removeFromArray(annotations, item));
+        }
+      });
+    });
+  }
+
+  /**
+   * Actions et fichiers joints hors des emplacements parcourus (objets orphelins, structures non standard)
+   */
+  private checkRemainingObjects() {
+    const context = this.pdfDoc.context;
+    context.enumerateIndirectObjects().forEach(([ref, object]) => {
+      if (this.seen.has(object)) {
+        return;
+      }
+      const location = `Objet ${ref.objectNumber} ${ref.generationNumber} R`;
+      const remove = () => context.delete(ref);
+      if (object instanceof PDFStream && object.dict.lookup(KEY.Type) === KEY.EmbeddedFile) {
+        this.report('embedded_file', location, null, remove);
+      } else if (object instanceof PDFDict) {
+        const threat = classifyAction(object);
+        if (threat) this.report(threat.kind, location, threat.detail, remove);
+      }
+    });
+  }
+}
+
+/**
+ * Analyse un PDF d'après son graphe d'objets (flux d'objets compris) et applique la politique :
+ * refus (PdfSecurityError) si un élément est à refuser, sinon retrait des éléments à neutraliser.
+ * Un PDF sans élément à retirer est renvoyé tel quel, ses éventuelles signatures restent donc valides.
+ */
+export async function sanitizePdf(content: Buffer, policy = getPdfSecurityPolicy()): Promise<SanitizedPdf> {
+  let pdfDoc: PDFDocument;
+  let analyzer: PdfAnalyzer;
+  try {
+    pdfDoc = await PDFDocument.load(content, { ignoreEncryption: true, updateMetadata: false });
+    analyzer = new PdfAnalyzer(pdfDoc, policy);
+    analyzer.analyze();
+  } catch (error) {
+    throw new PdfSecurityError(
+      "Le fichier n'est pas un PDF valide ou sa structure est illisible.",
+      { threats: [], sanitized: false }
+    );
+  }
+
+  const report: PdfSecurityReport = { threats: analyzer.threats, sanitized: false };
+  const rejected = Array.from(new Set(
+    report.threats.filter(threat => threat.action === 'reject').map(threat => THREAT_LABELS[threat.kind])
+  ));
+  if (rejected.length > 0) {
+    throw new PdfSecurityError(`Le PDF contient des éléments non autorisés : ${rejected.join(', ')}.`, report);
+  }
+
+  const pageCount = pdfDoc.getPageCount();
+  if (!report.threats.some(threat => threat.action === 'strip')) {
+    return { content, pageCount, report };
+  }
+  analyzer.strip();
+  return { content: Buffer.from(await pdfDoc.save()), pageCount, report: { ...report, sanitized: true } };
+}
+
+/**
+ * Résumé d'un rapport pour le journal d'audit, undefined s'il n'y a rien à signaler
+ */
+export function describePdfSecurityReport(report: PdfSecurityReport): string | undefined {
+  const summarize = (action: PdfThreatAction) => Array.from(new Set(
+    report.threats.filter(threat => threat.action === action).map(threat => THREAT_LABELS[threat.kind])
+  )).join(', ');
+
+  const parts = [
+    summarize('strip') && `éléments retirés: ${summarize('strip')}`,
+    summarize('allow') && `éléments signalés: ${summarize('allow')}`
+  ].filter(Boolean);
+  return parts.length > 0 ? `Analyse PDF: ${parts.join(' ; ')}` : undefined;
+}
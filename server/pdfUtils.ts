@@ -1,21 +1,212 @@
-import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, degrees, rgb } from 'pdf-lib';
 import { createHash } from 'crypto';
+import QRCode from 'qrcode';
+import { DEFAULT_STAMP_LAYOUT, QrStampSettings, STAMP_PLACEHOLDER_PATTERN, StampLayout } from '@shared/schema';
 
 /**
- * Ajoute un UID et un token comme texte semi-transparent en bas de chaque page d'un document PDF
+ * QR code de vérification à apposer : réglages du document et adresse encodée
+ */
+export interface QrStampOptions extends QrStampSettings {
+  url: string;
+}
+
+/**
+ * Émetteur du document, inscrit dans les métadonnées du PDF marqué
+ */
+export interface DocumentIssuer {
+  name: string;
+  author: string;
+  verificationUrl: string;
+}
+
+/**
+ * Options de marquage : émetteur, mise en page du texte, signataire et QR code de vérification
+ */
+export interface StampOptions {
+  issuer?: DocumentIssuer;
+  layout?: StampLayout;
+  signer?: string;
+  qrCode?: QrStampOptions;
+  // La mention de signature est dessinée dans un champ de signature plutôt qu'en pied de page
+  omitSignatureLine?: boolean;
+}
+
+/**
+ * Nombre de pages d'un PDF
+ */
+export async function getPdfPageCount(pdfBuffer: Buffer): Promise<number> {
+  const pdfDoc = await PDFDocument.load(pdfBuffer, { updateMetadata: false });
+  return pdfDoc.getPageCount();
+}
+
+/**
+ * Remplace les variables {nom} ou {nom:N} (N derniers caractères) d'un modèle de marquage.
+ * Les variables inconnues sont laissées telles quelles.
+ */
+export function renderStampTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(STAMP_PLACEHOLDER_PATTERN, (placeholder, name: string, length?: string) => {
+    const value = values[name];
+    if (value === undefined) {
+      return placeholder;
+    }
+    return length ? value.substring(Math.max(0, value.length - parseInt(length))) : value;
+  });
+}
+
+/**
+ * Indique si un modèle de marquage peut être écrit avec la police standard (encodage WinAnsi)
+ */
+export async function isStampTemplateEncodable(template: string): Promise<boolean> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  try {
+    font.encodeText(template);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pages marquées selon le profil (index à partir de 0, les pages impaires sont comptées à partir de 1)
+ */
+function isStampedPage(selection: StampLayout['pages'], index: number, total: number): boolean {
+  switch (selection) {
+    case 'first': return index === 0;
+    case 'last': return index === total - 1;
+    case 'odd': return index % 2 === 0;
+    default: return true;
+  }
+}
+
+/**
+ * Couleur pdf-lib à partir d'une couleur hexadécimale #rrggbb
+ */
+function hexToRgb(hex: string) {
+  const value = parseInt(hex.slice(1), 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
+
+/**
+ * Dessine les lignes du marquage dans le coin choisi, la première au plus près du bord.
+ * Sur une page paysage, si le profil le demande, le texte est tourné de 90° le long du bord vertical.
+ */
+function drawStampLines(page: PDFPage, lines: string[], layout: StampLayout, font: PDFFont) {
+  const { width, height } = page.getSize();
+  const { fontSize, marginX, marginY } = layout;
+  const lineStep = fontSize + 3;
+  const left = layout.position.endsWith('left');
+  const bottom = layout.position.startsWith('bottom');
+  const rotated = layout.rotateLandscape && width > height;
+
+  lines.forEach((text, index) => {
+    const textWidth = font.widthOfTextAtSize(text, fontSize);
+    let x: number;
+    let y: number;
+    let background: { x: number; y: number; width: number; height: number };
+
+    if (rotated) {
+      // La ligne de base est verticale : le corps du texte s'étend vers la gauche de x
+      x = left ? marginX + fontSize + index * lineStep : width - marginX - index * lineStep;
+      y = bottom ? marginY : height - marginY - textWidth;
+      background = { x: x - fontSize - 2, y: y - 2, width: fontSize + 4, height: textWidth + 4 };
+    } else {
+      x = left ? marginX : width - marginX - textWidth;
+      y = bottom ? marginY + index * lineStep : height - marginY - fontSize - index * lineStep;
+      background = { x: x - 2, y: y - 2, width: textWidth + 4, height: fontSize + 4 };
+    }
+
+    // Fond semi-transparent sous le texte
+    if (layout.backgroundColor) {
+      page.drawRectangle({
+        ...background,
+        color: hexToRgb(layout.backgroundColor),
+        opacity: layout.backgroundOpacity
+      });
+    }
+
+    page.drawText(text, {
+      x,
+      y,
+      size: fontSize,
+      font,
+      color: hexToRgb(layout.textColor),
+      opacity: layout.opacity,
+      rotate: degrees(rotated ? 90 : 0)
+    });
+  });
+}
+
+// Émetteur inscrit lorsque l'appelant n'en fournit pas
+const DEFAULT_ISSUER: DocumentIssuer = {
+  name: 'BeaverDoc',
+  author: 'BeaverDoc',
+  verificationUrl: '/verify'
+};
+
+// Côté du QR code en points (2,5 cm) et marge par rapport au bord de la page
+const QR_SIZE = 72;
+const QR_MARGIN = 20;
+// Zone de silence autour du QR code, en modules (4 selon la norme)
+const QR_QUIET_ZONE = 4;
+// En bas de page, le QR code est placé au-dessus des lignes du pied de page
+const QR_BOTTOM_OFFSET = 40;
+
+/**
+ * Dessine un QR code vectoriel dans un coin de la page, sur fond blanc opaque.
+ * La matrice est calculée localement : aucune requête réseau ni image intermédiaire.
+ */
+function drawQrCode(page: PDFPage, options: QrStampOptions) {
+  const { modules } = QRCode.create(options.url, { errorCorrectionLevel: 'M' });
+  const { width, height } = page.getSize();
+  const moduleSize = QR_SIZE / (modules.size + 2 * QR_QUIET_ZONE);
+
+  const x = options.position.endsWith('left') ? QR_MARGIN : width - QR_MARGIN - QR_SIZE;
+  const y = options.position.startsWith('top') ? height - QR_MARGIN - QR_SIZE : QR_BOTTOM_OFFSET;
+
+  page.drawRectangle({ x, y, width: QR_SIZE, height: QR_SIZE, color: rgb(1, 1, 1) });
+
+  // Un rectangle par suite de modules noirs consécutifs sur une ligne
+  for (let row = 0; row < modules.size; row++) {
+    let col = 0;
+    while (col < modules.size) {
+      if (!modules.get(row, col)) {
+        col++;
+        continue;
+      }
+      const start = col;
+      while (col < modules.size && modules.get(row, col)) {
+        col++;
+      }
+      page.drawRectangle({
+        x: x + (QR_QUIET_ZONE + start) * moduleSize,
+        y: y + QR_SIZE - (QR_QUIET_ZONE + row + 1) * moduleSize,
+        width: (col - start) * moduleSize,
+        height: moduleSize,
+        color: rgb(0, 0, 0)
+      });
+    }
+  }
+}
+
+/**
+ * Ajoute un UID et un token comme texte semi-transparent sur les pages d'un document PDF,
+ * selon la mise en page du profil de marquage (par défaut en bas à droite de chaque page)
  * Met également à jour les métadonnées du document pour une meilleure validité juridique
  * 
  * @param pdfBuffer Buffer contenant le PDF original
  * @param uid Identifiant unique du document
  * @param token Token de traçabilité du document
  * @param signatureInfo Information de signature optionnelle à ajouter 
+ * @param options Émetteur, profil de marquage, signataire et QR code de vérification optionnels
  * @returns Buffer du PDF modifié avec UID et token
  */
 export async function addUidAndTokenToPdf(
   pdfBuffer: Buffer,
   uid: string,
   token: string,
-  signatureInfo?: string
+  signatureInfo?: string,
+  options: StampOptions = {}
 ): Promise<Buffer> {
   try {
     // Charge le document PDF
@@ -24,8 +215,8 @@ export async function addUidAndTokenToPdf(
     // Récupère une police standard
     const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
     
-    // Taille de police très petite pour le texte en pied de page
-    const fontSize = 6;
+    // Mise en page du marquage : profil choisi à l'importation, sinon la mise en page par défaut
+    const layout = options.layout ?? DEFAULT_STAMP_LAYOUT;
     
     // Nombre de pages dans le document
     const pages = pdfDoc.getPages();
@@ -34,71 +225,31 @@ export async function addUidAndTokenToPdf(
     const now = new Date();
     const timestamp = now.toLocaleString('fr-FR');
     
-    // Ajoute l'UID et le token à chaque page
+    // Ajoute le marquage aux pages retenues par le profil
     for (let i = 0; i < pages.length; i++) {
       const page = pages[i];
-      const { width, height } = page.getSize();
-      
-      // Version simplifiée en format court pour être plus lisible
-      const uidShort = uid.substring(uid.length - 8);
-      const tokenShort = token.substring(token.length - 8);
-      
-      // Texte à ajouter avec UID et token en format court
-      const text = `BeaverDoc: P${i + 1}/${pages.length} | UID:${uidShort} | Token:${tokenShort}`;
-      
-      // Calcule la largeur du texte
-      const textWidth = font.widthOfTextAtSize(text, fontSize);
-      const x = width - textWidth - 10; // Aligné à droite avec une marge
-      
-      // Position en bas de page avec marge suffisante pour éviter le rognage
-      const y = 20; // Augmenté pour éviter d'être coupé
-      
-      // Crée un rectangle blanc semi-transparent pour servir de fond au texte
-      page.drawRectangle({
-        x: x - 2,
-        y: y - 2,
-        width: textWidth + 4,
-        height: fontSize + 4,
-        color: rgb(1, 1, 1), // Blanc
-        opacity: 0.7 // Semi-transparent
-      });
-      
-      // Ajoute le texte à la page avec une couleur foncée
-      page.drawText(text, {
-        x,
-        y,
-        size: fontSize,
-        font,
-        color: rgb(0.3, 0.3, 0.3), // Gris foncé
-        opacity: 0.9 // Bien visible
-      });
-      
-      // Si le document est signé, ajouter l'info de signature sur une ligne séparée
-      if (signatureInfo) {
-        const sigText = `Signé: ${signatureInfo.split(':')[1].trim()} | ${timestamp}`;
-        const sigTextWidth = font.widthOfTextAtSize(sigText, fontSize);
-        const sigX = width - sigTextWidth - 10;
-        const sigY = y + fontSize + 3;
-        
-        // Rectangle blanc pour le texte de signature
-        page.drawRectangle({
-          x: sigX - 2,
-          y: sigY - 2,
-          width: sigTextWidth + 4,
-          height: fontSize + 4,
-          color: rgb(1, 1, 1),
-          opacity: 0.7
-        });
-        
-        // Texte de signature
-        page.drawText(sigText, {
-          x: sigX,
-          y: sigY,
-          size: fontSize,
-          font,
-          color: rgb(0.3, 0.3, 0.3),
-          opacity: 0.9
-        });
+
+      if (isStampedPage(layout.pages, i, pages.length)) {
+        const lines = [renderStampTemplate(layout.template, {
+          page: String(i + 1),
+          total: String(pages.length),
+          uid,
+          token,
+          date: timestamp,
+          signer: options.signer ?? ''
+        })];
+
+        // Si le document est signé, ajouter l'info de signature sur une ligne séparée
+        if (signatureInfo && !options.omitSignatureLine) {
+          lines.push(`Signé: ${signatureInfo.split(':')[1].trim()} | ${timestamp}`);
+        }
+
+        drawStampLines(page, lines, layout, font);
+      }
+
+      // QR code de vérification sur chaque page ou seulement sur la dernière
+      if (options.qrCode && (options.qrCode.pages === 'all' || i === pages.length - 1)) {
+        drawQrCode(page, options.qrCode);
       }
     }
     
@@ -107,21 +258,24 @@ export async function addUidAndTokenToPdf(
       .update(pdfBuffer)
       .digest('hex');
       
+    // Émetteur du document : sa société, sinon BeaverDoc
+    const issuer = options.issuer ?? DEFAULT_ISSUER;
+
     // Mise à jour des métadonnées du document pour validité juridique
     pdfDoc.setTitle(`Document sécurisé - ${uid}`);
-    pdfDoc.setAuthor('Rémi Guillette');
-    pdfDoc.setCreator('Rémi Guillette Consulting');
+    pdfDoc.setAuthor(issuer.author);
+    pdfDoc.setCreator(issuer.name);
     pdfDoc.setProducer('BeaverDoc Secure Document System');
     
     // Informations de sécurité complètes
     const securityInfo = `UID:${uid} | Token:${token} | Hash:${contentHash} | Timestamp:${new Date().toISOString()}`;
-    const issuerInfo = `Certifié par: Rémi Guillette Consulting | Vérification: beaverdoc.verify.com`;
+    const issuerInfo = `Certifié par: ${issuer.name} | Vérification: ${issuer.verificationUrl}`;
     
     // Définir le sujet avec informations de sécurité détaillées
     pdfDoc.setSubject(`Document authentifié par BeaverDoc - ${securityInfo} | ${issuerInfo}`);
     
     // Ajouter des informations de sécurité dans les mots-clés
-    const keywords = ['document sécurisé', 'authentifié', uid, token, contentHash, 'Rémi Guillette Consulting'];
+    const keywords = ['document sécurisé', 'authentifié', uid, token, contentHash, issuer.name];
     
     if (signatureInfo) {
       keywords.push('signé électroniquement');
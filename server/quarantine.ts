@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { PdfSecurityReport, QuarantineEntry, QuarantineStatus, QuarantinedUpload, User } from '@shared/schema';
+import { storage } from './storage';
+import { HttpError } from './httpError';
+
+/**
+ * Erreur de traitement d'un fichier en quarantaine portant le code HTTP à renvoyer au client
+ */
+export class QuarantineError extends HttpError {
+  constructor(message: string, status = 409) {
+    super(message, status);
+    this.name = 'QuarantineError';
+  }
+}
+
+/**
+ * Fichier refusé à mettre en quarantaine, tel que reçu par multer
+ */
+export interface RejectedFile {
+  path: string;
+  originalname: string;
+  mimetype: string;
+}
+
+/**
+ * Répertoire des fichiers en quarantaine (QUARANTINE_DIR), hors du répertoire des téléchargements temporaires
+ */
+export function getQuarantineDir(): string {
+  return process.env.QUARANTINE_DIR || path.join(process.cwd(), 'quarantine');
+}
+
+/**
+ * Déplace un fichier refusé dans le répertoire de quarantaine et enregistre le motif du refus
+ */
+export async function quarantineUpload(
+  file: RejectedFile,
+  userId: number,
+  reason: string,
+  report: PdfSecurityReport | null,
+  documentId: number | null = null
+): Promise<QuarantinedUpload> {
+  const content = fs.readFileSync(file.path);
+  const hash = createHash('sha256').update(content).digest('hex');
+  const storageKey = `${Date.now()}-${hash.substring(0, 16)}.quarantine`;
+
+  const dir = getQuarantineDir();
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, storageKey), content, { mode: 0o600 });
+  fs.unlinkSync(file.path);
+
+  return storage.createQuarantinedUpload({
+    userId,
+    documentId,
+    fileName: file.originalname,
+    declaredType: file.mimetype,
+    size: content.length,
+    hash,
+    reason,
+    report: report ? JSON.stringify(report) : null,
+    storageKey
+  });
+}
+
+// Entrées en cours de libération ou de purge
+const pendingResolutions = new Set<number>();
+
+/**
+ * Exécute la libération ou la purge d'une entrée ; refusée si une autre est déjà en cours pour la même entrée
+ */
+export async function withQuarantineLock<T>(id: number, task: () => Promise<T>): Promise<T> {
+  if (pendingResolutions.has(id)) {
+    throw new QuarantineError('Ce fichier est déjà en cours de traitement');
+  }
+  pendingResolutions.add(id);
+  try {
+    return await task();
+  } finally {
+    pendingResolutions.delete(id);
+  }
+}
+
+function assertQuarantined(upload: QuarantinedUpload) {
+  if (upload.status !== 'quarantined') {
+    throw new QuarantineError("Ce fichier n'est plus en quarantaine");
+  }
+}
+
+/**
+ * Fichier en quarantaine ; refusé s'il a déjà été libéré ou purgé
+ */
+export async function getQuarantinedFile(upload: QuarantinedUpload): Promise<Buffer> {
+  assertQuarantined(upload);
+  try {
+    return fs.readFileSync(path.join(getQuarantineDir(), upload.storageKey));
+  } catch {
+    throw new QuarantineError('Fichier introuvable dans le répertoire de quarantaine', 410);
+  }
+}
+
+/**
+ * Clôt une entrée (libération ou purge) et supprime le fichier du répertoire de quarantaine
+ */
+export async function resolveQuarantinedUpload(
+  upload: QuarantinedUpload,
+  status: 'released' | 'purged',
+  admin: User,
+  documentId = upload.documentId
+): Promise<QuarantinedUpload> {
+  assertQuarantined(upload);
+  fs.rmSync(path.join(getQuarantineDir(), upload.storageKey), { force: true });
+  return storage.updateQuarantinedUpload(upload.id, {
+    status,
+    documentId,
+    resolvedBy: admin.id,
+    resolvedAt: new Date()
+  });
+}
+
+/**
+ * Entrée de quarantaine telle que listée aux administrateurs
+ */
+export async function toQuarantineEntry({ storageKey: _storageKey, report, ...upload }: QuarantinedUpload): Promise<QuarantineEntry> {
+  const user = await storage.getUser(upload.userId);
+  const resolver = upload.resolvedBy ? await storage.getUser(upload.resolvedBy) : undefined;
+  return {
+    ...upload,
+    status: upload.status as QuarantineStatus,
+    userName: user?.name ?? null,
+    resolvedByName: resolver?.name ?? null,
+    report: report ? JSON.parse(report) as PdfSecurityReport : null
+  };
+}
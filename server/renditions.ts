@@ -0,0 +1,159 @@
+import { createHash } from 'crypto';
+import {
+  Company,
+  Document,
+  DocumentRendition,
+  QrStampSettings,
+  RenditionKind,
+  StampLayout,
+  qrStampSettingsSchema,
+  stampLayoutSchema
+} from '@shared/schema';
+import { storage } from './storage';
+import { addUidAndTokenToPdf, StampOptions } from './pdfUtils';
+import { getVerificationBaseUrl, toDocumentIssuer } from './companies';
+import { timestampContent } from './timestamps';
+
+/**
+ * Copie remise à l'utilisateur : la version signée, une rendition dérivée ou l'original
+ */
+export interface DeliverableCopy {
+  kind: RenditionKind | 'signed' | 'original';
+  content: Buffer;
+  hash: string;
+}
+
+/**
+ * Empreinte SHA-256 (hex) d'un contenu
+ */
+export function sha256Hex(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Relit documents.qrStamp ; undefined si absent ou invalide
+ */
+export function parseQrStamp(raw: string | null): QrStampSettings | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    const parsed = qrStampSettingsSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Relit documents.stampLayout ; undefined si absent ou invalide (mise en page par défaut)
+ */
+export function parseStampLayout(raw: string | null): StampLayout | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    const parsed = stampLayoutSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Lien vers la page publique de vérification, pré-rempli avec l'UID et l'empreinte de l'original
+ */
+export function buildVerificationUrl(uid: string, hash: string | null, company?: Company): string {
+  const baseUrl = getVerificationBaseUrl(company);
+  const params = new URLSearchParams({ uid });
+  if (hash) {
+    params.set('hash', hash);
+  }
+  return `${baseUrl}/verify?${params.toString()}`;
+}
+
+/**
+ * Options de marquage propres au document (émetteur, profil de marquage, QR code de vérification)
+ */
+export async function getStampOptions(document: Document): Promise<StampOptions> {
+  const company = document.companyId ? await storage.getCompany(document.companyId) : undefined;
+  const qrStamp = parseQrStamp(document.qrStamp);
+  return {
+    issuer: toDocumentIssuer(company),
+    layout: parseStampLayout(document.stampLayout),
+    qrCode: qrStamp ? { ...qrStamp, url: buildVerificationUrl(document.uid, document.originalHash, company) } : undefined
+  };
+}
+
+/**
+ * Enregistre une rendition dérivée de la version originale courante, et horodate son empreinte.
+ * Une seule rendition par version et par type : si elle existe déjà, c'est elle qui est renvoyée.
+ */
+export async function saveRendition(document: Document, kind: RenditionKind, content: Buffer): Promise<DocumentRendition> {
+  const rendition = await storage.createDocumentRendition({
+    documentId: document.id,
+    versionId: document.currentVersionId!,
+    kind
+  }, content);
+  await timestampContent(document.id, rendition.hash);
+  return rendition;
+}
+
+/**
+ * Rendition marquée avec l'UID et le token, dérivée de la version originale courante
+ * à la première demande puis réutilisée.
+ * Undefined si le document est signé, n'est pas un PDF à marquer ou si le marquage échoue.
+ */
+export async function getStampedRendition(document: Document): Promise<DocumentRendition | undefined> {
+  if (document.isSigned || document.contentType !== 'application/pdf' || !document.addToken || !document.originalHash || !document.currentVersionId) {
+    return undefined;
+  }
+
+  const cached = await storage.getDocumentRendition(document.currentVersionId, 'stamped');
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const stamped = await addUidAndTokenToPdf(
+      await storage.getBlobContent(document.originalHash),
+      document.uid,
+      document.token || 'NO-TOKEN',
+      undefined,
+      await getStampOptions(document)
+    );
+    console.log(`UID et token ajoutés au document: ${document.name}`);
+    return saveRendition(document, 'stamped', stamped);
+  } catch (error) {
+    console.error("Erreur lors de l'ajout de l'UID et du token au PDF:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Copie à remettre pour un document : la version signée courante, sinon la copie marquée, sinon l'original.
+ * Pendant une demande de signature, la version signée courante porte les signatures déjà apposées.
+ */
+export async function getDeliverableCopy(document: Document): Promise<DeliverableCopy | undefined> {
+  const current = document.currentVersionId
+    ? await storage.getDocumentVersion(document.currentVersionId)
+    : undefined;
+  if (current?.reason === 'signature') {
+    return { kind: 'signed', content: await storage.getBlobContent(current.hash), hash: current.hash };
+  }
+
+  if (!document.originalHash) {
+    return undefined;
+  }
+
+  const rendition = await getStampedRendition(document);
+  if (rendition) {
+    return {
+      kind: rendition.kind as RenditionKind,
+      content: await storage.getBlobContent(rendition.hash),
+      hash: rendition.hash
+    };
+  }
+
+  return { kind: 'original', content: await storage.getBlobContent(document.originalHash), hash: document.originalHash };
+}
@@ -1,16 +1,77 @@
 import express, { type Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { Readable } from "stream";
 import { storage } from "./storage";
 import multer from "multer";
 import * as z from "zod";
-import { insertDocumentSchema, insertAuditLogSchema, insertDocumentShareSchema } from "@shared/schema";
+import {
+  insertDocumentSchema,
+  insertAuditLogSchema,
+  insertDocumentShareSchema,
+  insertStampProfileSchema,
+  companyBrandingSchema,
+  qrStampSettingsSchema,
+  signatureFieldInputSchema,
+  signatureRequestInputSchema,
+  stampProfileInputSchema,
+  userSignatureInputSchema,
+  Document,
+  DocumentDetails,
+  QuarantinedUpload,
+  QuarantineEntry,
+  DocumentSignature,
+  DocumentVersion,
+  DocumentVersionEntry,
+  InsertDocument,
+  SignatureRequest,
+  SignatureTask,
+  StampLayout,
+  StampProfile,
+  UserSignature,
+  UserSignatureEntry,
+  User
+} from "@shared/schema";
 import { randomUUID } from "crypto";
-import { addUidAndTokenToPdf } from "./pdfUtils";
+import { setupAuth, requireAuth, requireAdmin } from "./auth";
+import { HttpError } from "./httpError";
+import { signDocumentPdf, addSignatureToPdf, loadSigningCredentials, SigningError } from "./signing";
+import { getPdfPageCount, isStampTemplateEncodable } from "./pdfUtils";
+import { NO_COMPANY_CODE } from "./companies";
+import { buildVerificationSummary, verifyUploadedPdf } from "./verification";
+import { buildAuditChainReport } from "./auditChain";
+import { buildDiffReportPdf, diffDocumentVersions, VersionDiffError } from "./versionDiff";
+import {
+  assertSignatureFieldsEditable,
+  buildSignatureFieldEntry,
+  buildSignatureRequestEntry,
+  findPendingSigner,
+  findSignatureRequest,
+  isSignerTurn,
+  resolveSigners,
+  SignatureWorkflowError,
+  withDocumentLock
+} from "./signatureWorkflow";
+import { getDeliverableCopy, getStampedRendition, getStampOptions, sha256Hex } from "./renditions";
+import { getTimestampEntries, saveSignatureTimestamp, timestampContent } from "./timestamps";
+import { getDocumentInclusionProof } from "./anchoring";
+import { describePdfSecurityReport } from "./pdfSanitizer";
+import { FileScan, completeDocumentScan, getInitialScanStatus, getMalwareScanner, scanDocument } from "./scanning";
+import {
+  getQuarantinedFile,
+  QuarantineError,
+  resolveQuarantinedUpload,
+  toQuarantineEntry,
+  withQuarantineLock
+} from "./quarantine";
 import { 
   securityHeaders, 
   validateInput, 
   rateLimiter, 
   validateDocumentAccess, 
+  requireScannedDocument,
+  getDocumentPermission,
+  hasPermission,
+  denyDocumentAccess,
   auditLog 
 } from "./middlewares/security";
 import {
@@ -24,17 +85,269 @@ const upload = multer({
   limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit
 });
 
-const generateUID = () => {
+const generateUID = (creatorId: number, companyCode: string) => {
   const now = new Date();
   const date = now.toISOString().split('T')[0].replace(/-/g, '');
   const time = now.toTimeString().split(' ')[0].replace(/:/g, '');
-  const userId = '0042'; // For demo, this would come from auth in a real app
-  const companyId = '7890'; // For demo, this would come from config in a real app
+  const userId = creatorId.toString().padStart(4, '0');
   const random = randomUUID().replace(/-/g, '').substring(0, 16);
   
-  return `UID-${date}-${time}-USR${userId}-CPY${companyId}-${random}`;
+  return `UID-${date}-${time}-USR${userId}-CPY${companyCode}-${random}`;
 };
 
+// Permissions accordables lors d'un partage
+const SHARE_PERMISSIONS = ['read', 'write', 'full'];
+
+// Actions que seul le navigateur peut constater ; toutes les autres sont journalisées par le serveur
+const CLIENT_AUDIT_ACTIONS = ['print'];
+
+/**
+ * Mise en page copiée d'un profil de marquage dans le document importé
+ */
+function toStampLayout({ id: _id, company: _company, name: _name, createdAt: _createdAt, ...layout }: StampProfile): StampLayout {
+  return layout as StampLayout;
+}
+
+/**
+ * Profil de marquage de la société de l'utilisateur ; undefined s'il n'existe pas ou appartient à une autre société
+ */
+async function findCompanyStampProfile(user: User, id: string | number): Promise<StampProfile | undefined> {
+  if (!user.company || !/^\d+$/.test(String(id))) {
+    return undefined;
+  }
+  const profile = await storage.getStampProfile(Number(id));
+  return profile && profile.company === user.company ? profile : undefined;
+}
+
+/**
+ * Valide un profil de marquage soumis par le client ; renvoie le message d'erreur à afficher, le cas échéant
+ */
+async function validateStampProfileInput(
+  user: User,
+  body: unknown,
+  currentId?: number
+): Promise<{ profile: z.infer<typeof stampProfileInputSchema> } | { status: number; message: string }> {
+  const parsed = stampProfileInputSchema.safeParse(body);
+  if (!parsed.success) {
+    return { status: 400, message: "Profil de marquage invalide" };
+  }
+  if (!(await isStampTemplateEncodable(parsed.data.template))) {
+    return { status: 400, message: "Le modèle contient des caractères non pris en charge par la police du marquage" };
+  }
+  const homonym = await storage.getStampProfileByName(user.company!, parsed.data.name);
+  if (homonym && homonym.id !== currentId) {
+    return { status: 409, message: "Un profil de marquage porte déjà ce nom" };
+  }
+  return { profile: parsed.data };
+}
+
+/**
+ * Taille affichée d'un fichier
+ */
+function formatFileSize(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+/**
+ * Fichier enregistré comme version d'un document : importé, ou produit par BeaverDoc
+ */
+type StoredFile = Pick<Express.Multer.File, 'originalname' | 'buffer' | 'mimetype' | 'size'>;
+
+/**
+ * Enregistre un fichier comme nouvelle version originale du document,
+ * qui sert dès lors aux copies marquées et à la signature. Son empreinte est horodatée.
+ */
+async function addOriginalVersion(
+  document: Document,
+  file: StoredFile,
+  user: User,
+  reason: 'upload' | 'replace',
+  changes?: Partial<Document>
+): Promise<{ document: Document; version: DocumentVersion }> {
+  const version = await storage.createDocumentVersion({
+    documentId: document.id,
+    contentType: file.mimetype,
+    size: formatFileSize(file.size),
+    creatorId: user.id,
+    reason
+  }, file.buffer, changes);
+  await timestampContent(document.id, version.hash);
+  return { document: (await storage.getDocument(document.id))!, version };
+}
+
+/**
+ * En-tête Content-Disposition pour un nom de fichier fourni par l'utilisateur (RFC 6266) : nom ASCII de repli
+ * entre guillemets, sans guillemet, barre oblique inverse ni caractère de contrôle, et nom complet encodé en UTF-8
+ */
+function contentDisposition(type: 'inline' | 'attachment', fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Sert un contenu à afficher dans le navigateur, avec prise en charge des requêtes de plage.
+ * Une consultation est journalisée pour toute lecture depuis le début du fichier ;
+ * les plages suivantes, demandées par la visionneuse au fil des pages, ne le sont pas.
+ */
+async function sendInlineContent(
+  req: Request,
+  res: Response,
+  file: { name: string; contentType: string; content: Buffer },
+  logView: () => Promise<unknown>
+) {
+  const { content } = file;
+  res.setHeader('Content-Type', file.contentType || 'application/octet-stream');
+  res.setHeader('Content-Disposition', contentDisposition('inline', file.name));
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  const range = req.headers.range ? req.range(content.length) : undefined;
+  if (range === -1) {
+    res.setHeader('Content-Range', `bytes */${content.length}`);
+    return res.status(416).end();
+  }
+  const partial = Array.isArray(range) && range.length === 1 ? range[0] : undefined;
+  if (!partial || partial.start === 0) {
+    await logView();
+  }
+
+  if (partial) {
+    const { start, end } = partial;
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${content.length}`);
+    res.setHeader('Content-Length', end - start + 1);
+    return Readable.from([content.subarray(start, end + 1)]).pipe(res);
+  }
+
+  res.setHeader('Content-Length', content.length);
+  Readable.from([content]).pipe(res);
+}
+
+/**
+ * Version d'un document désignée dans l'URL ; undefined si elle appartient à un autre document
+ */
+async function findDocumentVersion(document: Document, versionId: string) {
+  if (!/^\d+$/.test(versionId)) {
+    return undefined;
+  }
+  const version = await storage.getDocumentVersion(Number(versionId));
+  return version && version.documentId === document.id ? version : undefined;
+}
+
+/**
+ * Versions à comparer, désignées par leurs identifiants ; la plus ancienne sert de référence
+ */
+async function findComparedVersions(document: Document, fromId: unknown, toId: unknown) {
+  const first = await findDocumentVersion(document, String(fromId ?? ''));
+  const second = await findDocumentVersion(document, String(toId ?? ''));
+  if (!first || !second) {
+    throw new VersionDiffError("Version du document non trouvée", 404);
+  }
+  if (first.id === second.id) {
+    throw new VersionDiffError("Choisissez deux versions différentes à comparer");
+  }
+  return first.version < second.version ? { from: first, to: second } : { from: second, to: first };
+}
+
+/**
+ * Origine d'une requête pour l'historique d'audit : adresse IP et agent utilisateur
+ */
+function describeRequestOrigin(req: Request): string {
+  return `IP: ${req.ip || req.socket.remoteAddress || 'inconnue'} | User-Agent: ${req.headers['user-agent'] || 'inconnu'}`;
+}
+
+/**
+ * Applique une signature PAdES au document et l'enregistre comme nouvelle version.
+ * La première signature porte sur la version originale courante, marquée avec la mention de signature ;
+ * les suivantes sont ajoutées au PDF déjà signé sans invalider les signatures précédentes.
+ * Hors demande de signature, le document est signé dès cette signature ; dans une demande,
+ * il ne l'est qu'une fois tous les signataires passés.
+ */
+async function signStoredDocument(
+  document: Document,
+  user: User,
+  request?: SignatureRequest,
+  handwritten = false
+): Promise<{ document: Document; signature: DocumentSignature }> {
+  if (document.contentType !== 'application/pdf' || !document.originalHash) {
+    throw new SigningError("Seuls les documents PDF peuvent être signés", 400);
+  }
+  if (document.isSigned) {
+    throw new SigningError("Le document est déjà signé", 409);
+  }
+  if (!request && document.signatureStatus === 'awaiting_signatures') {
+    throw new SigningError("Une demande de signature est en cours pour ce document", 409);
+  }
+
+  const credentials = loadSigningCredentials(user);
+  if (!credentials) {
+    throw new SigningError("Aucun certificat de signature n'est configuré pour cet utilisateur", 503);
+  }
+
+  const current = document.currentVersionId ? await storage.getDocumentVersion(document.currentVersionId) : undefined;
+  const source = await storage.getBlobContent(current?.reason === 'signature' ? current.hash : document.originalHash);
+
+  // Champ de signature placé pour ce signataire : la signature y est dessinée
+  const field = (await storage.getSignatureFields(document.id)).find(candidate => candidate.signerId === user.id && !candidate.signatureId);
+  if (field && field.page > await getPdfPageCount(source)) {
+    throw new SigningError(`Le champ de signature de ${user.name} se trouve sur la page ${field.page}, absente du document`, 409);
+  }
+
+  // Signature manuscrite enregistrée, dessinée dans le champ si le signataire le demande
+  const savedSignature = field && handwritten ? await storage.getUserSignature(user.id) : undefined;
+  const visible = field && { field, drawing: savedSignature ? toUserSignatureEntry(savedSignature).drawing : undefined };
+
+  const { content, signatureData, timestamp } = current?.reason === 'signature'
+    ? await addSignatureToPdf(source, document, user, credentials, visible)
+    : await signDocumentPdf(source, document, user, credentials, await getStampOptions(document), visible);
+
+  // L'original reste inchangé : le PDF signé devient la version courante
+  const version = await storage.createDocumentVersion({
+    documentId: document.id,
+    contentType: document.contentType,
+    size: formatFileSize(content.length),
+    creatorId: user.id,
+    reason: 'signature'
+  }, content, request ? {
+    signatureData: JSON.stringify(signatureData)
+  } : {
+    isSigned: true,
+    signatureData: JSON.stringify(signatureData),
+    signatureStatus: 'completed'
+  });
+  const signature = await storage.createDocumentSignature({
+    documentId: document.id,
+    versionId: version.id,
+    signerId: user.id,
+    requestId: request?.id ?? null,
+    signatureData: JSON.stringify(signatureData),
+    signedAt: new Date(signatureData.signedAt)
+  });
+  if (field) {
+    await storage.updateSignatureField(field.id, { signatureId: signature.id });
+  }
+  const signatureTimestamp = await saveSignatureTimestamp(document.id, signature.id, timestamp);
+  await timestampContent(document.id, version.hash);
+
+  await storage.createAuditLog({
+    documentId: document.id,
+    userId: user.id,
+    action: 'sign',
+    details: `Document signé (PAdES) avec le certificat ${signatureData.certificateSubject} #${signatureData.certificateFingerprint.substring(0, 16).toUpperCase()} | Version ${version.version} | SHA-256: ${version.hash}${request ? ` | Demande de signature n°${request.id}` : ''}${savedSignature ? ' | Signature manuscrite' : ''} | Horodatage RFC 3161: ${signatureTimestamp.authority} ${signatureTimestamp.genTime.toISOString()} #${signatureTimestamp.serialNumber}`
+  });
+
+  console.log(`PDF signé avec succès: ${document.name}`);
+  return { document: (await storage.getDocument(document.id))!, signature };
+}
+
+/**
+ * Signature manuscrite enregistrée, avec son dessin relu depuis le JSON
+ */
+function toUserSignatureEntry(signature: UserSignature): UserSignatureEntry {
+  return { ...signature, drawing: JSON.parse(signature.drawing) };
+}
+
 const generateToken = () => {
   const now = new Date();
   const date = now.toISOString().split('T')[0].replace(/-/g, '');
@@ -44,11 +357,149 @@ const generateToken = () => {
   return `DOC-${date}-${time}-${random}`;
 };
 
+/**
+ * Enregistre un fichier comme nouveau document de l'utilisateur, avec un UID et un token,
+ * puis dérive sa copie marquée. Le fichier est conservé tel quel comme version 1 ; l'analyse antivirus
+ * du fichier reçu est journalisée, ou, sans elle, le fichier enregistré est analysé avant de renvoyer le document.
+ */
+async function registerDocument(
+  user: User,
+  file: StoredFile,
+  settings: Pick<InsertDocument, 'addToken' | 'qrStamp' | 'stampLayout'>,
+  auditDetails: string,
+  malwareScan?: FileScan
+): Promise<Document> {
+  // Société du créateur : son code figure dans l'UID et son identité dans les copies marquées
+  const company = user.company ? await storage.ensureCompany(user.company) : undefined;
+
+  const validatedDoc = insertDocumentSchema.parse({
+    ...settings,
+    name: file.originalname,
+    uid: generateUID(user.id, company?.code ?? NO_COMPANY_CODE),
+    token: generateToken(),
+    originalHash: sha256Hex(file.buffer),
+    contentType: file.mimetype,
+    size: formatFileSize(file.size),
+    creatorId: user.id,
+    companyId: company?.id ?? null,
+    isSigned: false,
+    scanStatus: malwareScan?.status ?? getInitialScanStatus()
+  });
+  const { document } = await addOriginalVersion(await storage.createDocument(validatedDoc), file, user, 'upload');
+
+  await storage.createAuditLog({
+    documentId: document.id,
+    userId: user.id,
+    action: 'create',
+    details: auditDetails
+  });
+
+  // Copie marquée dérivée une fois pour toutes à l'enregistrement
+  await getStampedRendition(document);
+  return completeDocumentScan(document, user.id, malwareScan);
+}
+
+/**
+ * Remplace le fichier d'un document : le nouveau fichier devient la version courante
+ * et sa copie marquée est dérivée ; le remplacement est journalisé, comme l'analyse du fichier reçu
+ * (sans elle, le nouveau fichier est analysé avant de renvoyer le document)
+ */
+async function replaceDocumentFile(
+  document: Document,
+  file: StoredFile,
+  user: User,
+  auditSuffix?: string,
+  malwareScan?: FileScan
+): Promise<Document> {
+  // Les signatures portaient sur le fichier remplacé : elles restent dans l'historique des versions
+  const { document: updatedDoc, version } = await addOriginalVersion(document, file, user, 'replace', {
+    isSigned: false,
+    signatureData: null,
+    signatureStatus: 'draft',
+    scanStatus: malwareScan?.status ?? getInitialScanStatus()
+  });
+
+  await storage.createAuditLog({
+    documentId: document.id,
+    userId: user.id,
+    action: 'replace',
+    details: [
+      `Fichier remplacé: ${file.originalname} | Version ${version.version} | SHA-256: ${version.hash}`,
+      auditSuffix
+    ].filter(Boolean).join(' | ')
+  });
+
+  // Copie marquée de la nouvelle version, dérivée une fois pour toutes
+  await getStampedRendition(updatedDoc);
+  return completeDocumentScan(updatedDoc, user.id, malwareScan);
+}
+
+/**
+ * Entrée de quarantaine désignée par un paramètre de route, undefined si l'identifiant est invalide ou inconnu
+ */
+async function findQuarantinedUpload(id: string): Promise<QuarantinedUpload | undefined> {
+  const uploadId = parseInt(id);
+  return isNaN(uploadId) ? undefined : storage.getQuarantinedUpload(uploadId);
+}
+
+/**
+ * Enregistre tel quel un fichier libéré de la quarantaine, pour l'utilisateur qui l'avait téléchargé :
+ * nouveau document (avec les options d'importation par défaut) ou nouvelle version du document
+ * dont il devait remplacer le fichier
+ */
+async function releaseQuarantinedUpload(upload: QuarantinedUpload, admin: User): Promise<QuarantineEntry> {
+  const content = await getQuarantinedFile(upload);
+  if (content.subarray(0, 5).toString() !== '%PDF-') {
+    throw new QuarantineError("Seul un fichier PDF peut être libéré");
+  }
+  // Le marquage doit pouvoir relire le fichier (un PDF chiffré ou endommagé ne peut pas être enregistré)
+  await getPdfPageCount(content).catch(() => {
+    throw new QuarantineError("Ce PDF ne peut pas être lu (chiffré ou endommagé) et ne peut pas être libéré");
+  });
+  const owner = await storage.getUser(upload.userId);
+  if (!owner) {
+    throw new QuarantineError("L'utilisateur ayant téléchargé le fichier n'existe plus");
+  }
+
+  const file: StoredFile = { originalname: upload.fileName, buffer: content, mimetype: 'application/pdf', size: content.length };
+  const releaseDetails = `Libéré de la quarantaine (#${upload.id}) par ${admin.name} | Motif du refus: ${upload.reason}`;
+
+  let document: Document;
+  if (upload.documentId) {
+    const target = await storage.getDocument(upload.documentId);
+    if (!target) {
+      throw new QuarantineError("Le document dont le fichier devait être remplacé n'existe plus");
+    }
+    if (target.signatureStatus === 'awaiting_signatures') {
+      throw new QuarantineError("Une demande de signature est en cours sur le document : annulez-la avant de libérer le fichier");
+    }
+    document = await replaceDocumentFile(target, file, owner, releaseDetails);
+  } else {
+    document = await registerDocument(owner, file, { addToken: true, qrStamp: null, stampLayout: null },
+      `Document uploaded: ${file.originalname} | SHA-256: ${upload.hash} | ${releaseDetails}`);
+  }
+
+  return toQuarantineEntry(await resolveQuarantinedUpload(upload, 'released', admin, document.id));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions et routes /api/auth
+  setupAuth(app);
+
+  // Toutes les routes de documents et d'audit exigent un utilisateur connecté
+  app.use('/api/documents', requireAuth);
+  app.use('/api/auditlogs', requireAuth);
+  app.use('/api/stamp-profiles', requireAuth);
+  app.use('/api/company', requireAuth);
+  app.use('/api/signature-tasks', requireAuth);
+  app.use('/api/user-signature', requireAuth);
+  app.use('/api/quarantine', requireAdmin);
+
   // Get all documents
   app.get('/api/documents', async (req: Request, res: Response) => {
     try {
-      const documents = await storage.getAllDocuments();
+      // Uniquement les documents créés par l'utilisateur ou partagés avec lui
+      const documents = await storage.getDocumentsForUser(req.user!.id);
       res.json(documents);
     } catch (error) {
       res.status(500).json({ message: "Erreur lors de la récupération des documents" });
@@ -56,98 +507,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get a document by ID
-  app.get('/api/documents/:id', validateDocumentAccess, async (req: Request, res: Response) => {
+  app.get('/api/documents/:id', validateDocumentAccess('read'), async (req: Request, res: Response) => {
     try {
-      const document = await storage.getDocument(parseInt(req.params.id));
-      if (!document) {
-        return res.status(404).json({ message: "Document non trouvé" });
-      }
-      res.json(document);
+      const details: DocumentDetails = {
+        ...req.document!,
+        inclusionProof: await getDocumentInclusionProof(req.document!)
+      };
+      res.json(details);
     } catch (error) {
       res.status(500).json({ message: "Erreur lors de la récupération du document" });
     }
   });
 
+  // Stream the document bytes (PDF viewer), with support for range requests
+  app.get('/api/documents/:id/content', validateDocumentAccess('read'), requireScannedDocument, async (req: Request, res: Response) => {
+    try {
+      const document = req.document!;
+      const copy = await getDeliverableCopy(document);
+      if (!copy) {
+        return res.status(404).json({ message: "Contenu du document non trouvé" });
+      }
+
+      await sendInlineContent(req, res, { ...document, content: copy.content }, () => storage.createAuditLog({
+        documentId: document.id,
+        userId: req.user!.id,
+        action: 'view',
+        details: `Document consulté | Rendition: ${copy.kind} | SHA-256: ${copy.hash} | ${describeRequestOrigin(req)}`
+      }));
+    } catch (error) {
+      console.error("Content error:", error);
+      res.status(500).json({ message: "Erreur lors de la lecture du contenu du document" });
+    }
+  });
+
   // Upload a document - ajout de la validation de sécurité pour les fichiers PDF
-  app.post('/api/documents/upload', async (req: Request, res: Response, next: NextFunction) => {
-    // Utiliser le middleware spécifique pour les fichiers PDF
-    if (req.headers['content-type']?.includes('multipart/form-data')) {
-      // Premier traitement avec multer standard pour tous les fichiers
-      upload.single('file')(req, res, (err) => {
-        if (err) {
-          return res.status(400).json({ message: err.message });
-        }
-        
-        // Si ce n'est pas un PDF, on continue directement
-        if (req.file && req.file.mimetype !== 'application/pdf') {
-          next();
-        } else {
-          // Pour les PDF, validation supplémentaire (facultatif ici car on a déjà le buffer)
-          next();
-        }
-      });
-    } else {
-      res.status(400).json({ message: "Format de requête invalide. Multipart/form-data attendu." });
+  // Le fichier est vérifié (signature, nombre de pages, contenu actif) avant tout enregistrement ;
+  // un fichier refusé est placé en quarantaine, le fichier temporaire est supprimé après la réponse
+  app.post('/api/documents/upload', (req: Request, res: Response, next: NextFunction) => {
+    if (!req.headers['content-type']?.includes('multipart/form-data')) {
+      return res.status(400).json({ message: "Format de requête invalide. Multipart/form-data attendu." });
     }
-  }, async (req: Request, res: Response) => {
+    next();
+  }, cleanupMiddleware, validatePdfUpload, async (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "Aucun fichier n'a été téléchargé" });
       }
 
-      const options = req.body.options ? JSON.parse(req.body.options) : {
-        generateNewUid: true,
-        addToken: true,
-        signAfterImport: false
-      };
+      // Options envoyées en JSON dans le formulaire : un objet est attendu
+      let options;
+      try {
+        options = req.body.options ? JSON.parse(req.body.options) : {
+          generateNewUid: true,
+          addToken: true,
+          signAfterImport: false
+        };
+      } catch {
+        options = undefined;
+      }
+      if (!options || typeof options !== 'object' || Array.isArray(options)) {
+        return res.status(400).json({ message: "Options d'importation invalides : un objet JSON est attendu" });
+      }
 
-      const uid = generateUID();
-      const token = generateToken();
-      let fileBuffer = req.file.buffer;
-      
-      // Si c'est un PDF et que l'option addToken est activée, ajouter l'UID et le token
-      if (req.file.mimetype === 'application/pdf' && options.addToken) {
-        try {
-          // Ajoute l'UID et le token au PDF
-          fileBuffer = await addUidAndTokenToPdf(
-            req.file.buffer,
-            uid,
-            token
-          );
-          
-          console.log(`UID et token ajoutés au document lors de l'importation: ${req.file.originalname}`);
-        } catch (pdfError) {
-          console.error("Erreur lors de l'ajout de l'UID et du token au PDF:", pdfError);
-          // En cas d'erreur, on utilise le document original
-          fileBuffer = req.file.buffer;
-        }
+      // Le QR code de vérification n'est apposé que sur les copies marquées
+      const qrStamp = options.addToken !== false && options.qrCode
+        ? qrStampSettingsSchema.safeParse(options.qrCode)
+        : undefined;
+      if (qrStamp && !qrStamp.success) {
+        return res.status(400).json({ message: "Options du QR code de vérification invalides" });
       }
 
-      // Create document entry
-      const document = {
-        name: req.file.originalname,
-        uid: uid,
-        token: token,
-        content: fileBuffer.toString('base64'),
-        contentType: req.file.mimetype,
-        size: `${(req.file.size / 1024 / 1024).toFixed(2)} MB`,
-        creatorId: 1, // For demo, this would come from auth in a real app
-        isSigned: options.signAfterImport
-      };
+      // Profil de marquage de la société, copié dans le document pour que ses copies restent reproductibles
+      const stampProfile = options.stampProfileId
+        ? await findCompanyStampProfile(req.user!, options.stampProfileId)
+        : undefined;
+      if (options.stampProfileId && !stampProfile) {
+        return res.status(400).json({ message: "Profil de marquage introuvable" });
+      }
 
-      // Validate with zod
-      const validatedDoc = insertDocumentSchema.parse(document);
-      
-      // Create document in storage
-      const createdDoc = await storage.createDocument(validatedDoc);
+      const createdDoc = await registerDocument(req.user!, req.file, {
+        addToken: options.addToken !== false,
+        qrStamp: qrStamp ? JSON.stringify(qrStamp.data) : null,
+        stampLayout: stampProfile ? JSON.stringify(toStampLayout(stampProfile)) : null
+      }, [
+        `Document uploaded: ${req.file.originalname} | SHA-256: ${sha256Hex(req.file.buffer)}`,
+        stampProfile && `Profil de marquage: ${stampProfile.name}`,
+        req.pdfSecurityReport && describePdfSecurityReport(req.pdfSecurityReport)
+      ].filter(Boolean).join(' | '), req.malwareScan);
 
-      // Create audit log entry
-      await storage.createAuditLog({
-        documentId: createdDoc.id,
-        userId: 1, // For demo, this would come from auth in a real app
-        action: 'create',
-        details: `Document uploaded: ${req.file.originalname}`
-      });
+      // Signature immédiate demandée à l'importation, si l'analyse antivirus du fichier reçu le permet
+      if (options.signAfterImport && ['clean', 'not_scanned'].includes(createdDoc.scanStatus)) {
+        try {
+          const { document: signedDoc } = await withDocumentLock(createdDoc.id, () => signStoredDocument(createdDoc, req.user!));
+          return res.status(201).json(signedDoc);
+        } catch (signError) {
+          console.error("Erreur lors de la signature après importation:", signError);
+        }
+      }
 
       res.status(201).json(createdDoc);
     } catch (error) {
@@ -157,68 +613,530 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Sign a document
-  app.post('/api/documents/:id/sign', validateDocumentAccess, async (req: Request, res: Response) => {
+  // Seul un accès complet (ou le créateur) permet de signer
+  app.post('/api/documents/:id/sign', validateDocumentAccess('full'), requireScannedDocument, async (req: Request, res: Response) => {
     try {
-      const documentId = parseInt(req.params.id);
-      const document = await storage.getDocument(documentId);
-      
-      if (!document) {
-        return res.status(404).json({ message: "Document non trouvé" });
+      const { document: updatedDoc } = await withDocumentLock(req.document!.id, async () =>
+        signStoredDocument((await storage.getDocument(req.document!.id))!, req.user!, undefined, req.body?.handwritten === true)
+      );
+      res.json(updatedDoc);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Erreur lors de la signature du PDF:", error);
+      res.status(500).json({ message: "Erreur lors de la signature du document" });
+    }
+  });
+
+  // Relance l'analyse antivirus d'un document dont l'analyse a échoué ou n'a pas eu lieu
+  app.post('/api/documents/:id/scan', validateDocumentAccess('write'), async (req: Request, res: Response) => {
+    try {
+      const document = req.document!;
+      if (!getMalwareScanner()) {
+        return res.status(503).json({ message: "Aucun analyseur antivirus n'est configuré" });
+      }
+      if (!['failed', 'not_scanned'].includes(document.scanStatus)) {
+        return res.status(409).json({ message: "Le document a déjà été analysé ou son analyse est en cours" });
       }
+      const pendingDoc = await storage.updateDocument(document.id, { scanStatus: 'pending' });
+      scanDocument(pendingDoc, req.user!.id);
+      res.json(pendingDoc);
+    } catch (error) {
+      console.error("Erreur lors de la relance de l'analyse antivirus:", error);
+      res.status(500).json({ message: "Erreur lors de la relance de l'analyse antivirus" });
+    }
+  });
 
-      // In a real app, we would apply a digital signature here
-      const signatureData = `digital_signature_${randomUUID()}`;
-      
-      let contentToUpdate = document.content;
-      
-      // Si c'est un PDF et qu'il y a un contenu, mettre à jour le document avec la signature
-      if (document.contentType === 'application/pdf' && document.content) {
-        try {
-          const contentBuffer = Buffer.from(document.content as string, 'base64');
-          
-          // Ajoute l'UID, le token et maintenant la signature au PDF
-          const signatureInfo = `Signé électroniquement: ${signatureData.substring(0, 8).toUpperCase()}`;
-          const updatedBuffer = await addUidAndTokenToPdf(
-            contentBuffer,
-            document.uid,
-            document.token || 'NO-TOKEN',
-            signatureInfo
-          );
-          
-          // Met à jour le contenu avec le document signé
-          contentToUpdate = updatedBuffer.toString('base64');
-          
-          console.log(`PDF signé avec succès: ${document.name}`);
-        } catch (pdfError) {
-          console.error("Erreur lors de la signature du PDF:", pdfError);
-          // En cas d'erreur, on garde le contenu original
+  // Signature requests of a document, most recent first
+  app.get('/api/documents/:id/signature-requests', validateDocumentAccess('read'), async (req: Request, res: Response) => {
+    try {
+      const requests = await storage.getSignatureRequests(req.document!.id);
+      const entries = [];
+      for (const request of requests) {
+        entries.push(await buildSignatureRequestEntry(request));
+      }
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la récupération des demandes de signature" });
+    }
+  });
+
+  // Request signatures from an ordered (sequential) or unordered (parallel) list of signers
+  // Seul le créateur peut demander des signatures
+  app.post('/api/documents/:id/signature-requests', validateDocumentAccess('owner'), requireScannedDocument, async (req: Request, res: Response) => {
+    try {
+      const parsed = signatureRequestInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Demande de signature invalide", errors: parsed.error.errors });
+      }
+
+      const entry = await withDocumentLock(req.document!.id, async () => {
+        const document = (await storage.getDocument(req.document!.id))!;
+        if (document.contentType !== 'application/pdf') {
+          throw new SignatureWorkflowError("Seuls les documents PDF peuvent être signés");
+        }
+        if (document.isSigned) {
+          throw new SignatureWorkflowError("Le document est déjà signé", 409);
         }
+        if (document.signatureStatus === 'awaiting_signatures') {
+          throw new SignatureWorkflowError("Une demande de signature est déjà en cours pour ce document", 409);
+        }
+
+        const signers = await resolveSigners(parsed.data.signers);
+        const withoutCredentials = signers.find(signer => !loadSigningCredentials(signer));
+        if (withoutCredentials) {
+          throw new SignatureWorkflowError(`Aucun certificat de signature n'est configuré pour ${withoutCredentials.name}`);
+        }
+
+        // Chaque signataire doit pouvoir consulter le document qu'il signe
+        for (const signer of signers) {
+          if (!(await getDocumentPermission(document, signer.id))) {
+            await storage.createDocumentShare(insertDocumentShareSchema.parse({
+              documentId: document.id,
+              userId: signer.id,
+              permission: 'read'
+            }));
+          }
+        }
+
+        const request = await storage.createSignatureRequest({
+          documentId: document.id,
+          creatorId: req.user!.id,
+          mode: parsed.data.mode,
+          status: 'awaiting',
+          message: parsed.data.message || null
+        }, signers.map(signer => signer.id));
+
+        await storage.createAuditLog({
+          documentId: document.id,
+          userId: req.user!.id,
+          action: 'signature_request',
+          details: `Demande de signature n°${request.id} (${parsed.data.mode === 'sequential' ? 'séquentielle' : 'parallèle'}) | Signataires: ${signers.map(signer => signer.name).join(', ')}`
+        });
+        return buildSignatureRequestEntry(request);
+      });
+
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
       }
-      
-      // Update document
-      const updatedDoc = await storage.updateDocument(documentId, {
-        ...document,
-        content: contentToUpdate,
-        isSigned: true,
-        signatureData
+      console.error("Signature request error:", error);
+      res.status(500).json({ message: "Erreur lors de la création de la demande de signature" });
+    }
+  });
+
+  // Sign as one of the signers of a request, when it is their turn
+  app.post('/api/documents/:id/signature-requests/:requestId/sign', validateDocumentAccess('read'), requireScannedDocument, async (req: Request, res: Response) => {
+    try {
+      const entry = await withDocumentLock(req.document!.id, async () => {
+        const request = await findSignatureRequest(req.document!.id, req.params.requestId);
+        const { signer, signers } = await findPendingSigner(request, req.user!);
+        if (!isSignerTurn(request, signers, signer)) {
+          throw new SignatureWorkflowError("Les signataires précédents doivent d'abord signer le document", 409);
+        }
+
+        const document = (await storage.getDocument(request.documentId))!;
+        const { signature } = await signStoredDocument(document, req.user!, request, req.body?.handwritten === true);
+        await storage.updateSignatureRequestSigner(signer.id, {
+          status: 'signed',
+          decidedAt: signature.signedAt,
+          signatureId: signature.id
+        });
+
+        // Dernier signataire : la demande est terminée et le document signé
+        if (signers.every(other => other.id === signer.id || other.status === 'signed')) {
+          await storage.updateSignatureRequest(request.id, { status: 'completed', closedAt: new Date() });
+          await storage.updateDocument(document.id, { isSigned: true, signatureStatus: 'completed' });
+          await storage.createAuditLog({
+            documentId: document.id,
+            userId: req.user!.id,
+            action: 'signature_completed',
+            details: `Demande de signature n°${request.id} terminée : ${signers.length} signature(s)`
+          });
+        }
+        return buildSignatureRequestEntry((await storage.getSignatureRequest(request.id))!);
       });
 
-      // Create audit log entry
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Erreur lors de la signature du PDF:", error);
+      res.status(500).json({ message: "Erreur lors de la signature du document" });
+    }
+  });
+
+  // Decline to sign: la demande est close et le document passe à l'état refusé
+  app.post('/api/documents/:id/signature-requests/:requestId/decline', validateDocumentAccess('read'), async (req: Request, res: Response) => {
+    try {
+      const reason = typeof req.body.reason === 'string' ? req.body.reason.trim().substring(0, 500) : '';
+
+      const entry = await withDocumentLock(req.document!.id, async () => {
+        const request = await findSignatureRequest(req.document!.id, req.params.requestId);
+        const { signer } = await findPendingSigner(request, req.user!);
+
+        const decidedAt = new Date();
+        await storage.updateSignatureRequestSigner(signer.id, { status: 'declined', decidedAt, declineReason: reason || null });
+        await storage.updateSignatureRequest(request.id, { status: 'declined', closedAt: decidedAt });
+        await storage.updateDocument(request.documentId, { signatureStatus: 'declined' });
+
+        await storage.createAuditLog({
+          documentId: request.documentId,
+          userId: req.user!.id,
+          action: 'signature_declined',
+          details: `Signature refusée | Demande de signature n°${request.id}${reason ? ` | Motif: ${reason}` : ''}`
+        });
+        return buildSignatureRequestEntry((await storage.getSignatureRequest(request.id))!);
+      });
+
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Signature decline error:", error);
+      res.status(500).json({ message: "Erreur lors du refus de signature" });
+    }
+  });
+
+  // Cancel a request in progress; signatures already applied remain in the version history
+  app.post('/api/documents/:id/signature-requests/:requestId/cancel', validateDocumentAccess('owner'), async (req: Request, res: Response) => {
+    try {
+      const entry = await withDocumentLock(req.document!.id, async () => {
+        const request = await findSignatureRequest(req.document!.id, req.params.requestId);
+        if (request.status !== 'awaiting') {
+          throw new SignatureWorkflowError("Cette demande de signature n'est plus en cours", 409);
+        }
+
+        await storage.updateSignatureRequest(request.id, { status: 'cancelled', closedAt: new Date() });
+        await storage.updateDocument(request.documentId, { signatureStatus: 'draft' });
+
+        await storage.createAuditLog({
+          documentId: request.documentId,
+          userId: req.user!.id,
+          action: 'signature_cancelled',
+          details: `Demande de signature n°${request.id} annulée`
+        });
+        return buildSignatureRequestEntry((await storage.getSignatureRequest(request.id))!);
+      });
+
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Signature cancel error:", error);
+      res.status(500).json({ message: "Erreur lors de l'annulation de la demande de signature" });
+    }
+  });
+
+  // Signature fields placed on the pages of a document
+  app.get('/api/documents/:id/signature-fields', validateDocumentAccess('read'), async (req: Request, res: Response) => {
+    try {
+      const fields = await storage.getSignatureFields(req.document!.id);
+      const entries = [];
+      for (const field of fields) {
+        entries.push(await buildSignatureFieldEntry(field));
+      }
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la récupération des champs de signature" });
+    }
+  });
+
+  // Place a signature field for a signer; one field per signer
+  // Seul le créateur place les champs de signature
+  app.post('/api/documents/:id/signature-fields', validateDocumentAccess('owner'), async (req: Request, res: Response) => {
+    try {
+      const parsed = signatureFieldInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Champ de signature invalide", errors: parsed.error.errors });
+      }
+
+      const entry = await withDocumentLock(req.document!.id, async () => {
+        const document = (await storage.getDocument(req.document!.id))!;
+        assertSignatureFieldsEditable(document);
+
+        const [signer] = await resolveSigners([parsed.data.signer]);
+        const fields = await storage.getSignatureFields(document.id);
+        if (fields.some(field => field.signerId === signer.id)) {
+          throw new SignatureWorkflowError(`${signer.name} a déjà un champ de signature sur ce document`, 409);
+        }
+        if (!document.originalHash || parsed.data.page > await getPdfPageCount(await storage.getBlobContent(document.originalHash))) {
+          throw new SignatureWorkflowError(`La page ${parsed.data.page} est absente du document`);
+        }
+
+        const { signer: _signer, ...placement } = parsed.data;
+        const field = await storage.createSignatureField({ ...placement, documentId: document.id, signerId: signer.id });
+
+        await storage.createAuditLog({
+          documentId: document.id,
+          userId: req.user!.id,
+          action: 'signature_field_added',
+          details: `Champ de signature placé pour ${signer.name} | Page ${field.page}`
+        });
+        return buildSignatureFieldEntry(field);
+      });
+
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Signature field error:", error);
+      res.status(500).json({ message: "Erreur lors de l'ajout du champ de signature" });
+    }
+  });
+
+  // Remove a signature field that has not been signed yet
+  app.delete('/api/documents/:id/signature-fields/:fieldId', validateDocumentAccess('owner'), async (req: Request, res: Response) => {
+    try {
+      await withDocumentLock(req.document!.id, async () => {
+        const document = (await storage.getDocument(req.document!.id))!;
+        const field = /^\d+$/.test(req.params.fieldId) ? await storage.getSignatureField(Number(req.params.fieldId)) : undefined;
+        if (!field || field.documentId !== document.id) {
+          throw new SignatureWorkflowError("Champ de signature non trouvé", 404);
+        }
+        assertSignatureFieldsEditable(document);
+        if (field.signatureId) {
+          throw new SignatureWorkflowError("Ce champ de signature a déjà été signé", 409);
+        }
+
+        await storage.deleteSignatureField(field.id);
+        await storage.createAuditLog({
+          documentId: document.id,
+          userId: req.user!.id,
+          action: 'signature_field_removed',
+          details: `Champ de signature de ${(await storage.getUser(field.signerId))?.name ?? 'utilisateur inconnu'} supprimé | Page ${field.page}`
+        });
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Signature field removal error:", error);
+      res.status(500).json({ message: "Erreur lors de la suppression du champ de signature" });
+    }
+  });
+
+  // Handwritten signature saved by the current user
+  app.get('/api/user-signature', async (req: Request, res: Response) => {
+    try {
+      const signature = await storage.getUserSignature(req.user!.id);
+      if (!signature) {
+        return res.status(404).json({ message: "Aucune signature manuscrite n'est enregistrée" });
+      }
+      res.json(toUserSignatureEntry(signature));
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la récupération de la signature manuscrite" });
+    }
+  });
+
+  // Save (or replace) the handwritten signature captured on the signature pad
+  app.put('/api/user-signature', async (req: Request, res: Response) => {
+    try {
+      const parsed = userSignatureInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Signature manuscrite invalide", errors: parsed.error.errors });
+      }
+
+      const signature = await storage.saveUserSignature({
+        userId: req.user!.id,
+        kind: parsed.data.kind,
+        typedName: parsed.data.kind === 'typed' ? parsed.data.typedName : null,
+        drawing: JSON.stringify(parsed.data.drawing)
+      });
+      res.json(toUserSignatureEntry(signature));
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de l'enregistrement de la signature manuscrite" });
+    }
+  });
+
+  app.delete('/api/user-signature', async (req: Request, res: Response) => {
+    try {
+      await storage.deleteUserSignature(req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la suppression de la signature manuscrite" });
+    }
+  });
+
+  // Signatures awaiting the current user (their turn has come)
+  app.get('/api/signature-tasks', async (req: Request, res: Response) => {
+    try {
+      const tasks: SignatureTask[] = [];
+      for (const signer of await storage.getPendingSignerTasks(req.user!.id)) {
+        const request = (await storage.getSignatureRequest(signer.requestId))!;
+        const document = await storage.getDocument(signer.documentId);
+        if (!document || !isSignerTurn(request, await storage.getSignatureRequestSigners(request.id), signer)) {
+          continue;
+        }
+        tasks.push({
+          signerId: signer.id,
+          request,
+          document: { id: document.id, name: document.name, uid: document.uid },
+          requestedBy: (await storage.getUser(request.creatorId))?.name ?? null
+        });
+      }
+      res.json(tasks);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la récupération des signatures à effectuer" });
+    }
+  });
+
+  // List the versions of a document (metadata only)
+  app.get('/api/documents/:id/versions', validateDocumentAccess('read'), async (req: Request, res: Response) => {
+    try {
+      const versions = await storage.getDocumentVersions(req.document!.id);
+      const creators = new Map<number, string | null>();
+      for (const creatorId of Array.from(new Set(versions.map(version => version.creatorId)))) {
+        creators.set(creatorId, (await storage.getUser(creatorId))?.name ?? null);
+      }
+      const entries: DocumentVersionEntry[] = versions.map(version => ({
+        ...version,
+        creatorName: creators.get(version.creatorId) ?? null
+      }));
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la récupération des versions du document" });
+    }
+  });
+
+  // Replace the file: le nouveau fichier devient la version courante, les précédentes restent consultables
+  app.post('/api/documents/:id/versions', validateDocumentAccess('write'), cleanupMiddleware, validatePdfUpload, async (req: Request, res: Response) => {
+    try {
+      const document = req.document!;
+      if (!req.file) {
+        return res.status(400).json({ message: "Aucun fichier n'a été téléchargé" });
+      }
+      if (req.file.mimetype !== document.contentType) {
+        return res.status(400).json({ message: "Le nouveau fichier doit être du même type que le document" });
+      }
+      if (document.signatureStatus === 'awaiting_signatures') {
+        return res.status(409).json({ message: "Une demande de signature est en cours : annulez-la avant de remplacer le fichier" });
+      }
+
+      const updatedDoc = await replaceDocumentFile(
+        document,
+        req.file,
+        req.user!,
+        req.pdfSecurityReport && describePdfSecurityReport(req.pdfSecurityReport),
+        req.malwareScan
+      );
+      res.status(201).json(updatedDoc);
+    } catch (error) {
+      console.error("Replace error:", error);
+      res.status(500).json({ message: "Erreur lors du remplacement du fichier" });
+    }
+  });
+
+  // Stream the bytes of a version as stored (PDF viewer), with support for range requests
+  app.get('/api/documents/:id/versions/:versionId/content', validateDocumentAccess('read'), requireScannedDocument, async (req: Request, res: Response) => {
+    try {
+      const document = req.document!;
+      const version = await findDocumentVersion(document, req.params.versionId);
+      if (!version) {
+        return res.status(404).json({ message: "Version du document non trouvée" });
+      }
+
+      await sendInlineContent(req, res, {
+        name: document.name,
+        contentType: version.contentType,
+        content: await storage.getBlobContent(version.hash)
+      }, () => storage.createAuditLog({
+        documentId: document.id,
+        userId: req.user!.id,
+        action: 'view',
+        details: `Version ${version.version} consultée | SHA-256: ${version.hash} | ${describeRequestOrigin(req)}`
+      }));
+    } catch (error) {
+      console.error("Version content error:", error);
+      res.status(500).json({ message: "Erreur lors de la lecture de la version du document" });
+    }
+  });
+
+  // Download a version as stored
+  app.get('/api/documents/:id/versions/:versionId/download', validateDocumentAccess('read'), requireScannedDocument, async (req: Request, res: Response) => {
+    try {
+      const document = req.document!;
+      const version = await findDocumentVersion(document, req.params.versionId);
+      if (!version) {
+        return res.status(404).json({ message: "Version du document non trouvée" });
+      }
+
       await storage.createAuditLog({
-        documentId,
-        userId: 1, // For demo, this would come from auth in a real app
-        action: 'sign',
-        details: `Document signé avec le certificat #${signatureData.substring(0, 8).toUpperCase()}`
+        documentId: document.id,
+        userId: req.user!.id,
+        action: 'download',
+        details: `Version ${version.version} téléchargée par l'utilisateur ID: ${req.user!.id} | SHA-256: ${version.hash}`
       });
 
-      res.json(updatedDoc);
+      res.setHeader('Content-Type', version.contentType || 'application/octet-stream');
+      res.setHeader('Content-Disposition', contentDisposition('attachment', `v${version.version}-${document.name}`));
+      res.send(await storage.getBlobContent(version.hash));
     } catch (error) {
-      res.status(500).json({ message: "Erreur lors de la signature du document" });
+      console.error("Version download error:", error);
+      res.status(500).json({ message: "Erreur lors du téléchargement de la version du document" });
+    }
+  });
+
+  // Compare the text of two versions, page by page and word by word
+  app.get('/api/documents/:id/versions/compare', validateDocumentAccess('read'), requireScannedDocument, async (req: Request, res: Response) => {
+    try {
+      const versions = await findComparedVersions(req.document!, req.query.from, req.query.to);
+      res.json(await diffDocumentVersions(req.document!, versions.from, versions.to));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Version diff error:", error);
+      res.status(500).json({ message: "Erreur lors de la comparaison des versions" });
+    }
+  });
+
+  // Comparison report: PDF enregistré comme nouveau document de l'utilisateur, avec son propre UID
+  app.post('/api/documents/:id/versions/compare/report', validateDocumentAccess('read'), requireScannedDocument, async (req: Request, res: Response) => {
+    try {
+      const document = req.document!;
+      const versions = await findComparedVersions(document, req.body.from, req.body.to);
+      const diff = await diffDocumentVersions(document, versions.from, versions.to);
+      const report = await buildDiffReportPdf(document, diff);
+
+      const reportDoc = await registerDocument(req.user!, {
+        originalname: `Comparaison v${diff.from.version}-v${diff.to.version} - ${document.name.replace(/\.pdf$/i, '')}.pdf`,
+        buffer: report,
+        mimetype: 'application/pdf',
+        size: report.length
+      }, {
+        addToken: true,
+        qrStamp: null,
+        stampLayout: null
+      }, `Rapport de comparaison des versions ${diff.from.version} et ${diff.to.version} du document ${document.uid} | SHA-256: ${sha256Hex(report)}`);
+
+      await storage.createAuditLog({
+        documentId: document.id,
+        userId: req.user!.id,
+        action: 'compare',
+        details: `Versions ${diff.from.version} et ${diff.to.version} comparées | Rapport: ${reportDoc.uid}`
+      });
+
+      res.status(201).json(reportDoc);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Diff report error:", error);
+      res.status(500).json({ message: "Erreur lors de la création du rapport de comparaison" });
     }
   });
 
   // Get audit logs for a document
-  app.get('/api/documents/:id/auditlogs', validateDocumentAccess, async (req: Request, res: Response) => {
+  app.get('/api/documents/:id/auditlogs', validateDocumentAccess('read'), async (req: Request, res: Response) => {
     try {
       const documentId = parseInt(req.params.id);
       const logs = await storage.getAuditLogsByDocumentId(documentId);
@@ -228,19 +1146,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create audit log
+  // Verify the hash chain of the document's audit log entries
+  app.get('/api/documents/:id/auditlogs/verify', validateDocumentAccess('read'), async (req: Request, res: Response) => {
+    try {
+      const allLogs = await storage.getAllAuditLogs();
+      res.json(buildAuditChainReport(req.document!.id, allLogs));
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la vérification de l'historique d'audit" });
+    }
+  });
+
+  // RFC 3161 timestamp tokens of the document's files and signatures, verified on each request
+  app.get('/api/documents/:id/timestamps', validateDocumentAccess('read'), async (req: Request, res: Response) => {
+    try {
+      res.json(await getTimestampEntries(req.document!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la vérification des horodatages du document" });
+    }
+  });
+
+  // Create audit log entry for actions only the browser can observe (CLIENT_AUDIT_ACTIONS)
   app.post('/api/auditlogs', async (req: Request, res: Response) => {
     try {
-      const auditLogData = insertAuditLogSchema.parse(req.body);
+      // L'auteur de l'entrée est toujours l'utilisateur de la session
+      const auditLogData = insertAuditLogSchema.parse({ ...req.body, userId: req.user!.id });
+      if (!CLIENT_AUDIT_ACTIONS.includes(auditLogData.action)) {
+        return res.status(400).json({ message: `Action d'audit non autorisée depuis le client: ${auditLogData.action}` });
+      }
+      auditLogData.details = `${auditLogData.details || 'Action signalée par le client'} | ${describeRequestOrigin(req)}`;
+
+      const document = await storage.getDocument(auditLogData.documentId);
+      if (!document) {
+        return res.status(404).json({ message: "Document non trouvé" });
+      }
+      const permission = await getDocumentPermission(document, req.user!.id);
+      if (!hasPermission(permission, 'read')) {
+        return denyDocumentAccess(req, res, document.id, 'read', permission);
+      }
+
       const log = await storage.createAuditLog(auditLogData);
       res.status(201).json(log);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Entrée d'audit invalide", errors: error.errors });
+      }
       res.status(500).json({ message: "Erreur lors de la création de l'entrée d'audit" });
     }
   });
 
   // Get shares for a document
-  app.get('/api/documents/:id/shares', async (req: Request, res: Response) => {
+  app.get('/api/documents/:id/shares', validateDocumentAccess('read'), async (req: Request, res: Response) => {
     try {
       const documentId = parseInt(req.params.id);
       const shares = await storage.getDocumentShares(documentId);
@@ -251,16 +1206,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Share a document
-  app.post('/api/documents/:id/shares', async (req: Request, res: Response) => {
+  // Seul le créateur peut partager le document
+  app.post('/api/documents/:id/shares', validateDocumentAccess('owner'), async (req: Request, res: Response) => {
     try {
       const documentId = parseInt(req.params.id);
-      
-      // In a real app, we would look up the user by email
-      // For demo, we'll create a dummy share
+      const permission = req.body.permission || 'read';
+
+      if (!SHARE_PERMISSIONS.includes(permission)) {
+        return res.status(400).json({ message: "Permission de partage invalide" });
+      }
+
+      // Les adresses email des utilisateurs sont de la forme <username>@domaine
+      const username = String(req.body.email || '').split('@')[0];
+      const targetUser = username ? await storage.getUserByUsername(username) : undefined;
+      if (!targetUser) {
+        return res.status(404).json({ message: "Aucun utilisateur ne correspond à cette adresse email" });
+      }
+      if (targetUser.id === req.document!.creatorId) {
+        return res.status(400).json({ message: "Le créateur a déjà accès au document" });
+      }
+
+      // Un nouveau partage remplace la permission existante
+      await storage.removeDocumentShare(documentId, targetUser.id);
+
       const shareData = {
         documentId,
-        userId: Math.floor(Math.random() * 1000) + 2, // Random user ID that's not the creator
-        permission: req.body.permission || 'read'
+        userId: targetUser.id,
+        permission
       };
 
       const validatedShare = insertDocumentShareSchema.parse(shareData);
@@ -269,9 +1241,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create audit log entry
       await storage.createAuditLog({
         documentId,
-        userId: 1, // For demo, this would come from auth in a real app
+        userId: req.user!.id,
         action: 'share',
-        details: `Document shared with user: ${req.body.email} (${req.body.permission})`
+        details: `Document shared with user: ${req.body.email} (${permission})`
       });
 
       res.status(201).json(share);
@@ -281,9 +1253,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Remove a share
-  app.delete('/api/documents/:documentId/shares/:userId', async (req: Request, res: Response) => {
+  app.delete('/api/documents/:id/shares/:userId', validateDocumentAccess('owner'), async (req: Request, res: Response) => {
     try {
-      const documentId = parseInt(req.params.documentId);
+      const documentId = parseInt(req.params.id);
       const userId = parseInt(req.params.userId);
       
       await storage.removeDocumentShare(documentId, userId);
@@ -291,7 +1263,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create audit log entry
       await storage.createAuditLog({
         documentId,
-        userId: 1, // For demo, this would come from auth in a real app
+        userId: req.user!.id,
         action: 'share',
         details: `Document share removed for user ID: ${userId}`
       });
@@ -303,72 +1275,272 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Download a document with its token
-  app.get('/api/documents/:id/download', validateDocumentAccess, async (req: Request, res: Response) => {
+  app.get('/api/documents/:id/download', validateDocumentAccess('read'), requireScannedDocument, async (req: Request, res: Response) => {
     try {
       const documentId = parseInt(req.params.id);
-      const document = await storage.getDocument(documentId);
+      const document = req.document!;
       
-      if (!document) {
-        return res.status(404).json({ message: "Document non trouvé" });
+      // Copie signée ou marquée, dérivée une seule fois de l'original puis réutilisée
+      const copy = await getDeliverableCopy(document);
+      if (!copy) {
+        return res.status(404).json({ message: "Contenu du document non trouvé" });
       }
       
-      // Create audit log entry for the download
+      // Create audit log entry for the download.
+      // L'empreinte de la copie remise permet de la reconnaître lors d'une vérification ultérieure.
       await storage.createAuditLog({
         documentId,
-        userId: 1, // For demo, this would come from auth in a real app
+        userId: req.user!.id,
         action: 'download',
-        details: `Document downloaded by user ID: 1`
+        details: `Document downloaded by user ID: ${req.user!.id} | Rendition: ${copy.kind} | SHA-256: ${copy.hash}`
       });
       
-      if (!document.content) {
-        return res.status(404).json({ message: "Contenu du document non trouvé" });
-      }
-      
-      // Le contenu est défini comme non-null à ce stade
-      const contentBuffer = Buffer.from(document.content as string, 'base64');
-      
-      let finalBuffer = contentBuffer;
-      
-      // Si c'est un PDF, ajouter l'UID et le token directement dans le document
-      if (document.contentType === 'application/pdf') {
-        try {
-          // Ajoute l'UID et le token au PDF, et la signature si le document est signé
-          if (document.isSigned && document.signatureData) {
-            const signatureInfo = `Signé électroniquement: ${document.signatureData.substring(0, 8).toUpperCase()}`;
-            finalBuffer = await addUidAndTokenToPdf(
-              contentBuffer, 
-              document.uid, 
-              document.token || 'NO-TOKEN',
-              signatureInfo
-            );
-          } else {
-            finalBuffer = await addUidAndTokenToPdf(
-              contentBuffer, 
-              document.uid, 
-              document.token || 'NO-TOKEN'
-            );
-          }
-          
-          console.log(`Ajout de l'UID et du token au document PDF: ${document.name}`);
-        } catch (pdfError) {
-          console.error("Erreur lors de l'ajout de l'UID et du token au PDF:", pdfError);
-          // En cas d'erreur, on utilise le document original
-          finalBuffer = contentBuffer;
-        }
-      }
-      
       // Set appropriate headers based on content type
       res.setHeader('Content-Type', document.contentType || 'application/octet-stream');
-      res.setHeader('Content-Disposition', `attachment; filename="${document.name}"`);
+      res.setHeader('Content-Disposition', contentDisposition('attachment', document.name));
       
-      // Send the modified document
-      res.send(finalBuffer);
+      res.send(copy.content);
     } catch (error) {
       console.error("Download error:", error);
       res.status(500).json({ message: "Erreur lors du téléchargement du document" });
     }
   });
 
+  // Vérification publique d'un document par son token (sans authentification)
+  app.post('/api/verify/file', (req: Request, res: Response, next: NextFunction) => {
+    upload.single('file')(req, res, (err) => {
+      if (err) {
+        return res.status(400).json({ message: err.message });
+      }
+      next();
+    });
+  }, async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Aucun fichier n'a été téléchargé" });
+      }
+      res.json(await verifyUploadedPdf(req.file.buffer));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("File verification error:", error);
+      res.status(500).json({ message: "Erreur lors de la vérification du fichier" });
+    }
+  });
+
+  app.get('/api/verify/token/:token', async (req: Request, res: Response) => {
+    try {
+      const document = await storage.getDocumentByToken(req.params.token);
+      if (!document) {
+        return res.status(404).json({ registered: false, message: "Aucun document BeaverDoc ne correspond à ce token" });
+      }
+      res.json(await buildVerificationSummary(document));
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la vérification du document" });
+    }
+  });
+
+  // Vérification publique d'un document par son UID (sans authentification)
+  app.get('/api/verify/:uid', async (req: Request, res: Response) => {
+    try {
+      const document = await storage.getDocumentByUid(req.params.uid);
+      if (!document) {
+        return res.status(404).json({ registered: false, message: "Aucun document BeaverDoc ne correspond à cet UID" });
+      }
+      res.json(await buildVerificationSummary(document));
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la vérification du document" });
+    }
+  });
+
+  // Company of the current user
+  app.get('/api/company', async (req: Request, res: Response) => {
+    try {
+      const company = req.user!.company ? await storage.getCompanyByName(req.user!.company) : undefined;
+      if (!company) {
+        return res.status(404).json({ message: "Aucune société n'est associée à votre compte" });
+      }
+      res.json(company);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la récupération de la société" });
+    }
+  });
+
+  // Update the branding written in the company's stamped copies (name and code are fixed)
+  app.put('/api/company', async (req: Request, res: Response) => {
+    try {
+      const company = req.user!.company ? await storage.getCompanyByName(req.user!.company) : undefined;
+      if (!company) {
+        return res.status(404).json({ message: "Aucune société n'est associée à votre compte" });
+      }
+
+      const parsed = companyBrandingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Informations de la société invalides", errors: parsed.error.errors });
+      }
+
+      res.json(await storage.updateCompany(company.id, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la mise à jour de la société" });
+    }
+  });
+
+  // Stamp profiles of the user's company
+  app.get('/api/stamp-profiles', async (req: Request, res: Response) => {
+    try {
+      const company = req.user!.company;
+      res.json(company ? await storage.getStampProfilesByCompany(company) : []);
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la récupération des profils de marquage" });
+    }
+  });
+
+  // Create a stamp profile for the user's company
+  app.post('/api/stamp-profiles', async (req: Request, res: Response) => {
+    try {
+      if (!req.user!.company) {
+        return res.status(403).json({ message: "Les profils de marquage sont rattachés à une société : aucune n'est associée à votre compte" });
+      }
+
+      const result = await validateStampProfileInput(req.user!, req.body);
+      if ('message' in result) {
+        return res.status(result.status).json({ message: result.message });
+      }
+
+      const validatedProfile = insertStampProfileSchema.parse({ ...result.profile, company: req.user!.company });
+      res.status(201).json(await storage.createStampProfile(validatedProfile));
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la création du profil de marquage" });
+    }
+  });
+
+  // Update a stamp profile; documents already imported keep the layout they were stamped with
+  app.put('/api/stamp-profiles/:id', async (req: Request, res: Response) => {
+    try {
+      const profile = await findCompanyStampProfile(req.user!, req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Profil de marquage non trouvé" });
+      }
+
+      const result = await validateStampProfileInput(req.user!, req.body, profile.id);
+      if ('message' in result) {
+        return res.status(result.status).json({ message: result.message });
+      }
+
+      res.json(await storage.updateStampProfile(profile.id, result.profile));
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la mise à jour du profil de marquage" });
+    }
+  });
+
+  // Delete a stamp profile
+  app.delete('/api/stamp-profiles/:id', async (req: Request, res: Response) => {
+    try {
+      const profile = await findCompanyStampProfile(req.user!, req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Profil de marquage non trouvé" });
+      }
+
+      await storage.deleteStampProfile(profile.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la suppression du profil de marquage" });
+    }
+  });
+
+  // Quarantined uploads, most recent first (administrators only)
+  app.get('/api/quarantine', async (req: Request, res: Response) => {
+    try {
+      const uploads = await storage.getQuarantinedUploads();
+      res.json(await Promise.all(uploads.map(toQuarantineEntry)));
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la récupération des fichiers en quarantaine" });
+    }
+  });
+
+  // Download a quarantined file for inspection, never displayed inline
+  app.get('/api/quarantine/:id/download', async (req: Request, res: Response) => {
+    try {
+      const upload = await findQuarantinedUpload(req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Fichier en quarantaine non trouvé" });
+      }
+
+      const content = await getQuarantinedFile(upload);
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Content-Disposition', contentDisposition('attachment', `quarantaine-${upload.id}-${upload.fileName}`));
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.send(content);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Erreur lors du téléchargement du fichier en quarantaine" });
+    }
+  });
+
+  // Release a quarantined file: it is registered as is for the user who uploaded it
+  app.post('/api/quarantine/:id/release', async (req: Request, res: Response) => {
+    try {
+      const upload = await findQuarantinedUpload(req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Fichier en quarantaine non trouvé" });
+      }
+
+      const entry = await withQuarantineLock(upload.id, async () =>
+        releaseQuarantinedUpload((await storage.getQuarantinedUpload(upload.id))!, req.user!)
+      );
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Erreur lors de la libération du fichier en quarantaine:", error);
+      res.status(500).json({ message: "Erreur lors de la libération du fichier" });
+    }
+  });
+
+  // Purge a quarantined file: the file is deleted, the entry is kept with its reason
+  app.delete('/api/quarantine/:id', async (req: Request, res: Response) => {
+    try {
+      const upload = await findQuarantinedUpload(req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Fichier en quarantaine non trouvé" });
+      }
+
+      const purged = await withQuarantineLock(upload.id, async () =>
+        resolveQuarantinedUpload((await storage.getQuarantinedUpload(upload.id))!, 'purged', req.user!)
+      );
+      res.json(await toQuarantineEntry(purged));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Erreur lors de la purge du fichier" });
+    }
+  });
+
+  // Delete a document (creator only)
+  app.delete('/api/documents/:id', validateDocumentAccess('owner'), async (req: Request, res: Response) => {
+    try {
+      const documentId = parseInt(req.params.id);
+      await storage.deleteDocument(documentId);
+
+      // Create audit log entry
+      await storage.createAuditLog({
+        documentId,
+        userId: req.user!.id,
+        action: 'delete',
+        details: `Document supprimé: ${req.document!.name}`
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Erreur lors de la suppression du document" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import net from 'net';
+import { ClamdScanner, parseClamdReply } from './clamd';
+import { ScannerError } from './scanner';
+
+// Stockage en mémoire, chargé avec l'analyse des contenus (scanContent)
+process.env.STORAGE_DRIVER = 'memory';
+
+// Marqueur reconnu comme une menace par le démon de test
+const THREAT_MARKER = 'MENACE-DE-TEST';
+
+/**
+ * Démon clamd minimal : reçoit la commande zINSTREAM et les blocs préfixés de leur longueur,
+ * puis répond comme clamd (ou par la réponse imposée) avec un octet nul final
+ */
+function createClamdStandIn() {
+  const received: Buffer[] = [];
+  const standIn = { received, reply: undefined as string | undefined };
+
+  const server = net.createServer(socket => {
+    let pending = Buffer.alloc(0);
+    let command = false;
+    const chunks: Buffer[] = [];
+
+    socket.on('data', data => {
+      pending = Buffer.concat([pending, data]);
+      if (!command) {
+        const end = pending.indexOf(0);
+        if (end < 0) return;
+        if (pending.toString('latin1', 0, end) !== 'zINSTREAM') {
+          socket.end('UNKNOWN COMMAND\0');
+          return;
+        }
+        pending = pending.subarray(end + 1);
+        command = true;
+      }
+      while (pending.length >= 4) {
+        const length = pending.readUInt32BE(0);
+        if (pending.length < 4 + length) return;
+        if (length === 0) {
+          const content = Buffer.concat(chunks);
+          received.push(content);
+          const verdict = content.includes(THREAT_MARKER) ? 'stream: Test.Menace FOUND' : 'stream: OK';
+          socket.end(`${standIn.reply ?? verdict}\0`);
+          return;
+        }
+        chunks.push(pending.subarray(4, 4 + length));
+        pending = pending.subarray(4 + length);
+      }
+    });
+  });
+
+  return { server, standIn };
+}
+
+describe('parseClamdReply', () => {
+  it('interprète les réponses OK et FOUND', () => {
+    assert.deepEqual(parseClamdReply('stream: OK'), { infected: false });
+    assert.deepEqual(parseClamdReply('stream: Win.Test.EICAR_HDB-1 FOUND'), { infected: true, threat: 'Win.Test.EICAR_HDB-1' });
+  });
+
+  it('signale une réponse en erreur ou vide', () => {
+    assert.throws(() => parseClamdReply('INSTREAM size limit exceeded. ERROR'), (error: unknown) =>
+      error instanceof ScannerError && /size limit exceeded/.test(error.message));
+    assert.throws(() => parseClamdReply(''), /\(vide\)/);
+  });
+});
+
+describe('ClamdScanner', () => {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clamd-test-'));
+  const tcp = createClamdStandIn();
+  const unix = createClamdStandIn();
+  const socketPath = path.join(workDir, 'clamd.sock');
+  let port: number;
+
+  before(async () => {
+    await new Promise<void>(resolve => tcp.server.listen(0, '127.0.0.1', resolve));
+    await new Promise<void>(resolve => unix.server.listen(socketPath, resolve));
+    port = (tcp.server.address() as net.AddressInfo).port;
+  });
+
+  after(async () => {
+    await new Promise<void>(resolve => tcp.server.close(() => resolve()));
+    await new Promise<void>(resolve => unix.server.close(() => resolve()));
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('transmet le fichier entier par blocs et lit la réponse OK', async () => {
+    // Plus grand qu'un bloc de 64 Kio
+    const content = Buffer.alloc(150 * 1024, 'a');
+    const scanner = new ClamdScanner({ host: '127.0.0.1', port }, 5000);
+
+    assert.deepEqual(await scanner.scan(content), { infected: false });
+    assert.deepEqual(tcp.standIn.received.pop(), content);
+  });
+
+  it('lit la réponse FOUND par une socket Unix', async () => {
+    const scanner = new ClamdScanner({ path: socketPath }, 5000);
+    assert.deepEqual(await scanner.scan(Buffer.from(`%PDF-1.7 ${THREAT_MARKER}`)), { infected: true, threat: 'Test.Menace' });
+  });
+
+  it('rejette une réponse ERROR et un démon injoignable', async () => {
+    tcp.standIn.reply = 'INSTREAM size limit exceeded. ERROR';
+    try {
+      await assert.rejects(new ClamdScanner({ host: '127.0.0.1', port }, 5000).scan(Buffer.from('%PDF-1.7')), ScannerError);
+    } finally {
+      tcp.standIn.reply = undefined;
+    }
+    await assert.rejects(new ClamdScanner({ path: path.join(workDir, 'absent.sock') }, 5000).scan(Buffer.from('%PDF-1.7')), /clamd injoignable/);
+  });
+});
+
+describe('scanContent (MALWARE_SCAN_FAILURE)', () => {
+  const clamd = createClamdStandIn();
+
+  before(async () => {
+    await new Promise<void>(resolve => clamd.server.listen(0, '127.0.0.1', resolve));
+    process.env.MALWARE_SCANNER = 'clamd';
+    process.env.CLAMD_HOST = '127.0.0.1';
+    process.env.CLAMD_PORT = String((clamd.server.address() as net.AddressInfo).port);
+  });
+
+  after(async () => {
+    delete process.env.MALWARE_SCANNER;
+    delete process.env.MALWARE_SCAN_FAILURE;
+    await new Promise<void>(resolve => clamd.server.close(() => resolve()));
+  });
+
+  it('bloque un fichier infecté, que l\'échec soit ouvert ou fermé', async () => {
+    const { scanContent } = await import('./index');
+    for (const failure of ['closed', 'open']) {
+      process.env.MALWARE_SCAN_FAILURE = failure;
+      const scan = await scanContent(Buffer.from(`%PDF-1.7 ${THREAT_MARKER}`));
+      assert.equal(scan?.status, 'infected');
+      assert.equal(scan?.threat, 'Test.Menace');
+    }
+  });
+
+  it('bloque le contenu en cas d\'échec d\'analyse par défaut', async () => {
+    const { scanContent } = await import('./index');
+    delete process.env.MALWARE_SCAN_FAILURE;
+    clamd.standIn.reply = 'Can\'t allocate memory ERROR';
+    try {
+      const scan = await scanContent(Buffer.from('%PDF-1.7'));
+      assert.equal(scan?.status, 'failed');
+      assert.match(scan!.outcome, /Analyse impossible: .*allocate memory.* \| Accès au contenu bloqué/);
+    } finally {
+      clamd.standIn.reply = undefined;
+    }
+  });
+
+  it('accepte le fichier sans analyse en cas d\'échec si MALWARE_SCAN_FAILURE vaut open', async () => {
+    const { scanContent } = await import('./index');
+    process.env.MALWARE_SCAN_FAILURE = 'open';
+    clamd.standIn.reply = 'Can\'t allocate memory ERROR';
+    try {
+      const scan = await scanContent(Buffer.from('%PDF-1.7'));
+      assert.equal(scan?.status, 'not_scanned');
+      assert.match(scan!.outcome, /Document accepté sans analyse/);
+    } finally {
+      clamd.standIn.reply = undefined;
+    }
+
+    // Démon injoignable
+    process.env.CLAMD_PORT = '1';
+    assert.equal((await scanContent(Buffer.from('%PDF-1.7')))?.status, 'not_scanned');
+  });
+});
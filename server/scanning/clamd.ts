@@ -0,0 +1,79 @@
+import net from 'net';
+import { MalwareScanner, ScanResult, ScannerError } from './scanner';
+
+// Taille des blocs envoyés à clamd (la limite StreamMaxLength s'applique au total)
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Adresse du démon clamd : socket Unix ou hôte et port TCP
+ */
+export type ClamdAddress = { path: string } | { host: string; port: number };
+
+/**
+ * Interprète la réponse de clamd à INSTREAM : "stream: OK", "stream: <signature> FOUND"
+ * ou un message terminé par ERROR
+ */
+export function parseClamdReply(reply: string): ScanResult {
+  if (reply === 'stream: OK') {
+    return { infected: false };
+  }
+  const found = /^stream: (.+) FOUND$/.exec(reply);
+  if (found) {
+    return { infected: true, threat: found[1] };
+  }
+  throw new ScannerError(`Réponse de clamd en erreur: ${reply || '(vide)'}`);
+}
+
+/**
+ * Analyse par le démon ClamAV (commande INSTREAM du protocole clamd) : le fichier est transmis
+ * par blocs préfixés de leur longueur, terminés par un bloc vide
+ */
+export class ClamdScanner implements MalwareScanner {
+  readonly name = 'clamd';
+
+  constructor(private address: ClamdAddress, private timeoutMs: number) {}
+
+  scan(content: Buffer): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = 'path' in this.address
+        ? net.createConnection(this.address.path)
+        : net.createConnection(this.address.port, this.address.host);
+      const chunks: Buffer[] = [];
+      let failure: Error | undefined;
+
+      socket.setTimeout(this.timeoutMs, () => {
+        socket.destroy(new ScannerError(`clamd n'a pas répondu en ${this.timeoutMs} ms`));
+      });
+
+      socket.on('connect', () => {
+        // Préfixe "z" : commande et réponse terminées par un octet nul
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < content.length; offset += CHUNK_SIZE) {
+          const chunk = content.subarray(offset, offset + CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        socket.end(Buffer.alloc(4));
+      });
+      socket.on('data', chunk => chunks.push(chunk));
+      socket.on('error', error => {
+        failure = error instanceof ScannerError ? error : new ScannerError(`clamd injoignable: ${error.message}`);
+      });
+      socket.on('close', () => {
+        // clamd peut refuser le flux (taille maximale) et fermer la connexion avant la fin de l'envoi :
+        // sa réponse prime alors sur l'erreur d'écriture
+        const reply = Buffer.concat(chunks).toString('utf8').replace(/\0/g, '').trim();
+        if (failure && !reply) {
+          return reject(failure);
+        }
+        try {
+          resolve(parseClamdReply(reply));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+  }
+}
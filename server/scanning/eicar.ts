@@ -0,0 +1,17 @@
+import { MalwareScanner, ScanResult } from './scanner';
+
+// Fichier de test EICAR, assemblé en deux parties pour que ce fichier source ne soit pas lui-même détecté
+const EICAR_SIGNATURE = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$' + 'EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Analyseur local de test : seule la chaîne EICAR, où qu'elle se trouve dans le fichier, est détectée
+ */
+export class EicarScanner implements MalwareScanner {
+  readonly name = 'eicar';
+
+  async scan(content: Buffer): Promise<ScanResult> {
+    return content.includes(EICAR_SIGNATURE)
+      ? { infected: true, threat: 'Eicar-Test-Signature' }
+      : { infected: false };
+  }
+}
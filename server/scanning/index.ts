@@ -0,0 +1,203 @@
+import { createHash } from 'crypto';
+import { Document, ScanStatus } from '@shared/schema';
+import { storage } from '../storage';
+import { ClamdScanner } from './clamd';
+import { EicarScanner } from './eicar';
+import { MalwareScanner } from './scanner';
+import { HttpError } from '../httpError';
+
+export { ScannerError } from './scanner';
+export type { MalwareScanner, ScanResult } from './scanner';
+
+// Délai de réponse de clamd par défaut
+const CLAMD_TIMEOUT_MS = 30000;
+
+/**
+ * Erreur d'accès à un document retenu par l'analyse antivirus, portant le code HTTP à renvoyer au client
+ */
+export class MalwareScanError extends HttpError {
+  constructor(message: string, status = 403) {
+    super(message, status);
+    this.name = 'MalwareScanError';
+  }
+}
+
+/**
+ * Analyseur configuré par MALWARE_SCANNER : "clamd" (CLAMD_SOCKET, ou CLAMD_HOST et CLAMD_PORT)
+ * ou "eicar" (analyseur local de test) ; sans valeur, les fichiers ne sont pas analysés
+ */
+export function getMalwareScanner(): MalwareScanner | undefined {
+  const scanner = process.env.MALWARE_SCANNER;
+  if (!scanner || scanner === 'none') {
+    return undefined;
+  }
+  if (scanner === 'eicar') {
+    return new EicarScanner();
+  }
+  if (scanner === 'clamd') {
+    const timeout = Number(process.env.CLAMD_TIMEOUT_MS);
+    return new ClamdScanner(
+      process.env.CLAMD_SOCKET
+        ? { path: process.env.CLAMD_SOCKET }
+        : { host: process.env.CLAMD_HOST || '127.0.0.1', port: Number(process.env.CLAMD_PORT) || 3310 },
+      Number.isFinite(timeout) && timeout > 0 ? timeout : CLAMD_TIMEOUT_MS
+    );
+  }
+  throw new Error(`Analyseur antivirus inconnu (MALWARE_SCANNER): ${scanner}`);
+}
+
+/**
+ * Un échec d'analyse laisse le document accessible si MALWARE_SCAN_FAILURE vaut "open" ;
+ * par défaut ("closed"), son contenu reste bloqué
+ */
+function isFailOpen(): boolean {
+  return process.env.MALWARE_SCAN_FAILURE === 'open';
+}
+
+/**
+ * Statut d'un fichier qui vient d'être enregistré : en attente d'analyse si un analyseur est configuré
+ */
+export function getInitialScanStatus(): ScanStatus {
+  return getMalwareScanner() ? 'pending' : 'not_scanned';
+}
+
+/**
+ * Refuse l'accès au contenu d'un document en cours d'analyse, infecté ou dont l'analyse a échoué
+ */
+export function assertDocumentScanned(document: Document): void {
+  switch (document.scanStatus as ScanStatus) {
+    case 'pending':
+      throw new MalwareScanError("L'analyse antivirus du document est en cours, réessayez dans quelques instants", 409);
+    case 'infected':
+      throw new MalwareScanError("L'analyse antivirus a détecté une menace dans ce document : son contenu n'est pas accessible");
+    case 'failed':
+      throw new MalwareScanError("L'analyse antivirus du document a échoué : son contenu n'est pas accessible");
+  }
+}
+
+// Analyses en cours, par document et empreinte du fichier analysé
+const runningScans = new Map<string, Promise<ScanStatus>>();
+
+/**
+ * Analyse l'original courant du document et enregistre le résultat au journal d'audit.
+ * Renvoie le statut obtenu ; une analyse déjà en cours pour le même fichier est attendue plutôt que dupliquée.
+ */
+export function scanDocument(document: Document, userId: number): Promise<ScanStatus> {
+  const key = `${document.id}:${document.originalHash}`;
+  let scan = runningScans.get(key);
+  if (!scan) {
+    scan = runScan(document, userId)
+      .catch(error => {
+        console.error(`Erreur lors de l'analyse antivirus du document ${document.id}:`, error);
+        return document.scanStatus as ScanStatus;
+      })
+      .finally(() => runningScans.delete(key));
+    runningScans.set(key, scan);
+  }
+  return scan;
+}
+
+async function runScan(document: Document, userId: number): Promise<ScanStatus> {
+  if (!document.originalHash) {
+    return document.scanStatus as ScanStatus;
+  }
+  const scan = await scanContent(await storage.getBlobContent(document.originalHash));
+  if (!scan) {
+    return document.scanStatus as ScanStatus;
+  }
+
+  // Le résultat ne vaut que pour le fichier analysé : il est abandonné si le fichier a été remplacé entre-temps
+  const current = await storage.getDocument(document.id);
+  if (!current || current.originalHash !== document.originalHash) {
+    return scan.status;
+  }
+  await recordScan(document, userId, scan);
+  return scan.status;
+}
+
+/**
+ * Analyse d'un fichier : statut obtenu et résultat à inscrire au journal d'audit
+ */
+export interface FileScan {
+  // Nom de l'analyseur
+  scanner: string;
+  // Empreinte SHA-256 du fichier analysé
+  hash: string;
+  status: ScanStatus;
+  // Signature de la menace détectée
+  threat?: string;
+  outcome: string;
+}
+
+/**
+ * Analyse un contenu avec l'analyseur configuré, undefined sans analyseur.
+ * Un échec d'analyse donne le statut "failed", ou "not_scanned" si MALWARE_SCAN_FAILURE vaut "open".
+ */
+export async function scanContent(content: Buffer): Promise<FileScan | undefined> {
+  const scanner = getMalwareScanner();
+  if (!scanner) {
+    return undefined;
+  }
+
+  const hash = createHash('sha256').update(content).digest('hex');
+  try {
+    const result = await scanner.scan(content);
+    return result.infected
+      ? { scanner: scanner.name, hash, status: 'infected', threat: result.threat, outcome: `Menace détectée: ${result.threat} | Accès au contenu bloqué` }
+      : { scanner: scanner.name, hash, status: 'clean', outcome: 'Aucune menace détectée' };
+  } catch (error) {
+    return {
+      scanner: scanner.name,
+      hash,
+      status: isFailOpen() ? 'not_scanned' : 'failed',
+      outcome: `Analyse impossible: ${error instanceof Error ? error.message : error} | ${isFailOpen() ? 'Document accepté sans analyse' : 'Accès au contenu bloqué'}`
+    };
+  }
+}
+
+/**
+ * Enregistre le statut d'une analyse sur le document et l'inscrit au journal d'audit ;
+ * l'analyse d'un fichier reçu puis réécrit par la neutralisation porte l'empreinte du fichier reçu
+ */
+export async function recordScan(document: Document, userId: number, scan: FileScan): Promise<Document> {
+  const updated = await storage.updateDocument(document.id, { scanStatus: scan.status });
+  await storage.createAuditLog({
+    documentId: document.id,
+    userId,
+    action: 'scan',
+    details: [
+      `Analyse antivirus (${scan.scanner})${scan.hash !== document.originalHash ? ' du fichier reçu, avant neutralisation' : ''}`,
+      `SHA-256: ${scan.hash}`,
+      scan.outcome
+    ].join(' | ')
+  });
+  return updated;
+}
+
+/**
+ * Analyse d'un fichier qui vient d'être enregistré : celle du fichier reçu est inscrite au journal d'audit,
+ * ou, sans elle, le fichier enregistré est analysé. Renvoie le document avec son statut d'analyse.
+ */
+export async function completeDocumentScan(document: Document, userId: number, malwareScan?: FileScan): Promise<Document> {
+  if (malwareScan) {
+    return recordScan(document, userId, malwareScan);
+  }
+  await scanDocument(document, userId);
+  return (await storage.getDocument(document.id)) ?? document;
+}
+
+/**
+ * Reprend au démarrage les analyses interrompues ; vérifie au passage la configuration de l'analyseur
+ */
+export async function resumePendingScans(): Promise<void> {
+  const scanner = getMalwareScanner();
+  const pending = await storage.getDocumentsByScanStatus('pending');
+  if (pending.length > 0 && !scanner) {
+    console.warn(`${pending.length} document(s) en attente d'analyse antivirus, mais aucun analyseur n'est configuré (MALWARE_SCANNER)`);
+    return;
+  }
+  for (const document of pending) {
+    const version = document.currentVersionId ? await storage.getDocumentVersion(document.currentVersionId) : undefined;
+    scanDocument(document, version?.creatorId ?? document.creatorId);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Résultat d'une analyse : fichier sain, ou menace détectée avec le nom de sa signature
+ */
+export type ScanResult = { infected: false } | { infected: true; threat: string };
+
+/**
+ * Analyseur antivirus appelé sur chaque fichier enregistré
+ */
+export interface MalwareScanner {
+  // Nom inscrit au journal d'audit
+  readonly name: string;
+  scan(content: Buffer): Promise<ScanResult>;
+}
+
+/**
+ * Échec de l'analyse (analyseur injoignable, délai dépassé, réponse en erreur)
+ */
+export class ScannerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScannerError';
+  }
+}
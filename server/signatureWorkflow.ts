@@ -0,0 +1,159 @@
+import {
+  Document,
+  SignatureField,
+  SignatureFieldEntry,
+  SignatureRequest,
+  SignatureRequestEntry,
+  SignatureRequestSigner,
+  User
+} from '@shared/schema';
+import { storage } from './storage';
+import { HttpError } from './httpError';
+
+/**
+ * Erreur du circuit de signature portant le code HTTP à renvoyer au client
+ */
+export class SignatureWorkflowError extends HttpError {
+  constructor(message: string, status = 400) {
+    super(message, status);
+    this.name = 'SignatureWorkflowError';
+  }
+}
+
+// Opérations en cours par document : chaque signature part de la version produite par la précédente
+const documentQueues = new Map<number, Promise<unknown>>();
+
+/**
+ * Exécute les opérations de signature d'un même document l'une après l'autre.
+ * Deux signataires en parallèle ne peuvent ainsi pas signer la même version.
+ */
+export function withDocumentLock<T>(documentId: number, task: () => Promise<T>): Promise<T> {
+  const previous = documentQueues.get(documentId) ?? Promise.resolve();
+  const run = previous.then(task);
+  const tail = run.catch(() => undefined);
+  documentQueues.set(documentId, tail);
+  tail.then(() => {
+    if (documentQueues.get(documentId) === tail) {
+      documentQueues.delete(documentId);
+    }
+  });
+  return run;
+}
+
+/**
+ * Adresse email affichée pour un utilisateur, de la forme <username>@domaine comme pour les partages
+ */
+export function toUserEmail(user: User): string {
+  return `${user.username}@exemple.com`;
+}
+
+/**
+ * Utilisateurs désignés par leur adresse email, dans l'ordre de la demande
+ */
+export async function resolveSigners(emails: string[]): Promise<User[]> {
+  const signers: User[] = [];
+  for (const email of emails) {
+    const username = email.split('@')[0];
+    const user = username ? await storage.getUserByUsername(username) : undefined;
+    if (!user) {
+      throw new SignatureWorkflowError(`Aucun utilisateur ne correspond à l'adresse email ${email}`, 404);
+    }
+    if (signers.some(signer => signer.id === user.id)) {
+      throw new SignatureWorkflowError(`Le signataire ${email} figure plusieurs fois dans la demande`);
+    }
+    signers.push(user);
+  }
+  return signers;
+}
+
+/**
+ * Indique si c'est au signataire d'agir : en mode séquentiel, tous les signataires précédents ont signé
+ */
+export function isSignerTurn(request: SignatureRequest, signers: SignatureRequestSigner[], signer: SignatureRequestSigner): boolean {
+  if (request.status !== 'awaiting' || signer.status !== 'pending') {
+    return false;
+  }
+  return request.mode === 'parallel'
+    || signers.filter(other => other.position < signer.position).every(other => other.status === 'signed');
+}
+
+/**
+ * Demande de signature avec ses signataires, leurs noms et le tour de chacun
+ */
+export async function buildSignatureRequestEntry(request: SignatureRequest): Promise<SignatureRequestEntry> {
+  const signers = await storage.getSignatureRequestSigners(request.id);
+  const creator = await storage.getUser(request.creatorId);
+
+  const entries: SignatureRequestEntry['signers'] = [];
+  for (const signer of signers) {
+    const user = await storage.getUser(signer.userId);
+    entries.push({
+      ...signer,
+      name: user?.name ?? null,
+      email: user ? toUserEmail(user) : null,
+      isTurn: isSignerTurn(request, signers, signer)
+    });
+  }
+
+  return { ...request, creatorName: creator?.name ?? null, signers: entries };
+}
+
+/**
+ * Demande de signature du document désignée dans l'URL ; erreur 404 si elle appartient à un autre document
+ */
+export async function findSignatureRequest(documentId: number, requestId: string): Promise<SignatureRequest> {
+  const request = /^\d+$/.test(requestId) ? await storage.getSignatureRequest(Number(requestId)) : undefined;
+  if (!request || request.documentId !== documentId) {
+    throw new SignatureWorkflowError("Demande de signature non trouvée", 404);
+  }
+  return request;
+}
+
+/**
+ * Tâche de l'utilisateur dans une demande en cours ; erreur si l'utilisateur n'y est pas signataire ou a déjà répondu
+ */
+export async function findPendingSigner(
+  request: SignatureRequest,
+  user: User
+): Promise<{ signer: SignatureRequestSigner; signers: SignatureRequestSigner[] }> {
+  if (request.status !== 'awaiting') {
+    throw new SignatureWorkflowError("Cette demande de signature n'est plus en cours", 409);
+  }
+
+  const signers = await storage.getSignatureRequestSigners(request.id);
+  const signer = signers.find(candidate => candidate.userId === user.id);
+  if (!signer) {
+    throw new SignatureWorkflowError("Vous ne faites pas partie des signataires de cette demande", 403);
+  }
+  if (signer.status !== 'pending') {
+    throw new SignatureWorkflowError("Vous avez déjà répondu à cette demande de signature", 409);
+  }
+  return { signer, signers };
+}
+
+/**
+ * Les champs de signature ne se modifient que sur un document non signé, hors demande de signature en cours
+ */
+export function assertSignatureFieldsEditable(document: Document) {
+  if (document.contentType !== 'application/pdf') {
+    throw new SignatureWorkflowError("Seuls les documents PDF peuvent recevoir des champs de signature");
+  }
+  if (document.isSigned) {
+    throw new SignatureWorkflowError("Le document est déjà signé", 409);
+  }
+  if (document.signatureStatus === 'awaiting_signatures') {
+    throw new SignatureWorkflowError("Les champs de signature ne peuvent pas être modifiés pendant une demande de signature", 409);
+  }
+}
+
+/**
+ * Champ de signature avec le nom et l'adresse email de son signataire
+ */
+export async function buildSignatureFieldEntry(field: SignatureField): Promise<SignatureFieldEntry> {
+  const signer = await storage.getUser(field.signerId);
+  return {
+    ...field,
+    signerName: signer?.name ?? null,
+    signerEmail: signer ? toUserEmail(signer) : null
+  };
+}
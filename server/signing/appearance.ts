@@ -0,0 +1,142 @@
+import { LineCapStyle, PDFDocument, PDFFont, PDFPage, PDFRef, StandardFonts, drawSvgPath, rgb } from 'pdf-lib';
+import { SignatureDrawing } from '@shared/schema';
+
+/**
+ * Champ de signature visible : page et cadre en fractions de la page (depuis le coin supérieur gauche),
+ * avec les lignes de texte à y écrire
+ */
+export interface SignatureAppearance {
+  // Index de la page, à partir de 0
+  pageIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // La première ligne (le nom du signataire) est écrite en gras
+  lines: string[];
+  // Signature manuscrite du signataire, dessinée au-dessus des lignes de texte
+  drawing?: SignatureDrawing;
+}
+
+// Taille maximale du texte et interligne, en points
+const MAX_FONT_SIZE = 10;
+const LINE_HEIGHT = 1.2;
+// Part de la hauteur du cadre réservée à la signature manuscrite
+const DRAWING_SHARE = 0.6;
+// Couleur d'encre de la signature manuscrite
+const INK_COLOR = rgb(0.05, 0.1, 0.35);
+
+/**
+ * Remplace les caractères absents de l'encodage WinAnsi de la police standard
+ */
+function sanitize(font: PDFFont, text: string): string {
+  return Array.from(text).map(char => {
+    try {
+      font.encodeText(char);
+      return char;
+    } catch {
+      return '?';
+    }
+  }).join('');
+}
+
+/**
+ * Cadre du champ dans l'espace de la page PDF : [x1, y1, x2, y2] depuis le coin inférieur gauche de la zone visible
+ */
+function toPdfRect(page: PDFPage, appearance: SignatureAppearance): [number, number, number, number] {
+  const box = page.getCropBox();
+  const x = box.x + appearance.x * box.width;
+  const top = box.y + (1 - appearance.y) * box.height;
+  return [x, top - appearance.height * box.height, x + appearance.width * box.width, top];
+}
+
+/**
+ * Tracés vectoriels de la signature manuscrite, mis à l'échelle et centrés dans la zone donnée
+ * (coin supérieur gauche en x, top)
+ */
+function drawingOperators(drawing: SignatureDrawing, x: number, top: number, width: number, height: number): string[] {
+  const scale = Math.min(width / drawing.width, height / drawing.height);
+  const left = x + (width - drawing.width * scale) / 2;
+  const upper = top - (height - drawing.height * scale) / 2;
+
+  return drawing.paths.flatMap(path => drawSvgPath(path.d, {
+    x: left,
+    y: upper,
+    scale,
+    color: path.fill ? INK_COLOR : undefined,
+    borderColor: path.fill ? undefined : INK_COLOR,
+    borderWidth: path.fill ? 0 : path.strokeWidth ?? 2,
+    borderLineCap: LineCapStyle.Round
+  })).map(operator => operator.toString());
+}
+
+/**
+ * Crée l'apparence du champ de signature : un cadre fin, la signature manuscrite éventuelle en haut du cadre
+ * et les lignes de texte centrées verticalement dessous, à une taille commune qui tient dans leur zone.
+ * Retourne la page et le cadre du widget, la référence du flux d'apparence et les objets ajoutés au fichier.
+ */
+export async function createSignatureAppearance(
+  pdfDoc: PDFDocument,
+  appearance: SignatureAppearance
+): Promise<{ page: PDFPage; rect: [number, number, number, number]; appearanceRef: PDFRef; refs: PDFRef[] }> {
+  const page = pdfDoc.getPages()[appearance.pageIndex];
+  if (!page) {
+    throw new Error(`La page ${appearance.pageIndex + 1} du champ de signature est absente du document`);
+  }
+
+  const rect = toPdfRect(page, appearance);
+  const width = rect[2] - rect[0];
+  const height = rect[3] - rect[1];
+  const padding = Math.min(4, height * 0.08, width * 0.05);
+
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  await font.embed();
+  await boldFont.embed();
+
+  const lines = appearance.lines.map((text, index) => {
+    const lineFont = index === 0 ? boldFont : font;
+    return { text: sanitize(lineFont, text), font: lineFont, name: index === 0 ? 'F2' : 'F1' };
+  });
+
+  // Zone du texte : tout le cadre, ou le bas du cadre sous la signature manuscrite
+  const drawingHeight = appearance.drawing ? (height - 2 * padding) * DRAWING_SHARE : 0;
+  const textHeight = height - drawingHeight;
+
+  // Taille commune : toutes les lignes tiennent en hauteur et en largeur
+  let size = Math.min(MAX_FONT_SIZE, (textHeight - 2 * padding) / (lines.length * LINE_HEIGHT));
+  for (const line of lines) {
+    const lineWidth = line.font.widthOfTextAtSize(line.text, 1);
+    if (lineWidth > 0) {
+      size = Math.min(size, (width - 2 * padding) / lineWidth);
+    }
+  }
+
+  const lineStep = size * LINE_HEIGHT;
+  const top = (textHeight + lines.length * lineStep) / 2;
+  const operators = [
+    'q',
+    '0.6 0.6 0.6 RG 0.5 w',
+    `0.25 0.25 ${(width - 0.5).toFixed(2)} ${(height - 0.5).toFixed(2)} re S`,
+    ...(appearance.drawing
+      ? drawingOperators(appearance.drawing, padding, height - padding, width - 2 * padding, drawingHeight)
+      : []),
+    '0.1 0.1 0.1 rg'
+  ];
+  lines.forEach((line, index) => {
+    const baseline = top - (index + 1) * lineStep + (lineStep - size) / 2 + size * 0.2;
+    operators.push(
+      `BT /${line.name} ${size.toFixed(2)} Tf ${padding.toFixed(2)} ${baseline.toFixed(2)} Td ${line.font.encodeText(line.text).toString()} Tj ET`
+    );
+  });
+  operators.push('Q');
+
+  const appearanceRef = pdfDoc.context.register(pdfDoc.context.stream(operators.join('\n'), {
+    Type: 'XObject',
+    Subtype: 'Form',
+    BBox: [0, 0, width, height],
+    Resources: { Font: { F1: font.ref, F2: boldFont.ref } }
+  }));
+
+  return { page, rect, appearanceRef, refs: [font.ref, boldFont.ref, appearanceRef] };
+}
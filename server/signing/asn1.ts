@@ -0,0 +1,136 @@
+import forge from 'node-forge';
+
+const { asn1 } = forge;
+
+export const OID = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  signatureTimeStampToken: '1.2.840.113549.1.9.16.2.14',
+  tstInfo: '1.2.840.113549.1.9.16.1.4',
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha384: '2.16.840.1.101.3.4.2.2',
+  sha512: '2.16.840.1.101.3.4.2.3',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  timeStamping: '1.3.6.1.5.5.7.3.8'
+};
+
+/**
+ * Nom de l'algorithme de condensé pour le module crypto de Node, à partir de son OID
+ */
+export const DIGEST_ALGORITHMS: Record<string, string> = {
+  [OID.sha1]: 'sha1',
+  [OID.sha256]: 'sha256',
+  [OID.sha384]: 'sha384',
+  [OID.sha512]: 'sha512'
+};
+
+export function oid(value: string) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(value).getBytes());
+}
+
+export function octetString(bytes: Buffer) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, bytes.toString('binary'));
+}
+
+export function integer(value: number) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(value).getBytes());
+}
+
+/**
+ * Entier encodé à partir de ses octets (numéro de série, nonce), rendu positif si besoin
+ */
+export function integerFromBytes(bytes: Buffer) {
+  const positive = bytes[0] & 0x80 ? Buffer.concat([Buffer.from([0]), bytes]) : bytes;
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, positive.toString('binary'));
+}
+
+export function boolean(value: boolean) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.BOOLEAN, false, String.fromCharCode(value ? 0xff : 0));
+}
+
+export function generalizedTime(date: Date) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.GENERALIZEDTIME, false, asn1.dateToGeneralizedTime(date));
+}
+
+export function sequence(values: forge.asn1.Asn1[]) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, values);
+}
+
+export function set(values: forge.asn1.Asn1[]) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, values);
+}
+
+/**
+ * Élément étiqueté [tag] du contexte ; les valeurs sont celles d'une étiquette IMPLICIT construite
+ * ou, pour une étiquette EXPLICIT, l'élément encapsulé
+ */
+export function tagged(tag: number, values: forge.asn1.Asn1[]) {
+  return asn1.create(asn1.Class.CONTEXT_SPECIFIC, tag, true, values);
+}
+
+export function algorithmIdentifier(algorithm: string) {
+  return sequence([oid(algorithm), asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, '')]);
+}
+
+export function toDer(value: forge.asn1.Asn1): Buffer {
+  return Buffer.from(asn1.toDer(value).getBytes(), 'binary');
+}
+
+export function fromDer(bytes: Buffer): forge.asn1.Asn1 {
+  return asn1.fromDer(forge.util.createBuffer(bytes.toString('binary')));
+}
+
+/**
+ * Longueur totale (en-tête compris) de l'élément DER en tête des octets, pour ignorer un remplissage final
+ */
+export function derLength(bytes: Buffer): number {
+  const first = bytes[1];
+  if (first < 0x80) {
+    return 2 + first;
+  }
+  const count = first & 0x7f;
+  return 2 + count + bytes.subarray(2, 2 + count).reduce((length, byte) => length * 256 + byte, 0);
+}
+
+export function attribute(type: string, value: forge.asn1.Asn1) {
+  return sequence([oid(type), set([value])]);
+}
+
+/**
+ * Les éléments d'un SET OF doivent être triés selon leur encodage DER
+ */
+export function sortByDer(values: forge.asn1.Asn1[]): forge.asn1.Asn1[] {
+  return values
+    .map(value => ({ value, der: toDer(value) }))
+    .sort((a, b) => Buffer.compare(a.der, b.der))
+    .map(({ value }) => value);
+}
+
+/**
+ * Éléments d'un nœud construit ; tableau vide pour un nœud primitif
+ */
+export function children(node: forge.asn1.Asn1 | undefined): forge.asn1.Asn1[] {
+  return node && Array.isArray(node.value) ? node.value : [];
+}
+
+/**
+ * Octets d'un nœud primitif (OCTET STRING, INTEGER...)
+ */
+export function bytesOf(node: forge.asn1.Asn1 | undefined): Buffer {
+  return Buffer.from(node && typeof node.value === 'string' ? node.value : '', 'binary');
+}
+
+export function oidOf(node: forge.asn1.Asn1 | undefined): string {
+  return node && typeof node.value === 'string' ? asn1.derToOid(node.value) : '';
+}
+
+/**
+ * Nœud étiqueté [tag] du contexte parmi les éléments d'une séquence
+ */
+export function findTagged(nodes: forge.asn1.Asn1[], tag: number): forge.asn1.Asn1 | undefined {
+  return nodes.find(node => node.tagClass === asn1.Class.CONTEXT_SPECIFIC && node.type === tag);
+}
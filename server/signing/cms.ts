@@ -0,0 +1,134 @@
+import forge from 'node-forge';
+import { createHash } from 'crypto';
+import { SigningCredentials } from './credentials';
+import {
+  OID,
+  algorithmIdentifier,
+  attribute,
+  fromDer,
+  integer,
+  octetString,
+  oid,
+  sequence,
+  set,
+  sortByDer,
+  tagged,
+  toDer
+} from './asn1';
+
+const { asn1 } = forge;
+
+/**
+ * Obtient un jeton d'horodatage RFC 3161 pour la valeur d'une signature.
+ * Retourne le jeton (ContentInfo) encodé en DER.
+ */
+export type SignatureTimestamper = (signatureValue: Buffer) => Promise<Buffer>;
+
+/**
+ * Attributs signés exigés par CAdES : type de contenu, condensé du contenu
+ * et signing-certificate-v2 (ESSCertIDv2) qui lie la signature au certificat.
+ * L'heure de signature n'y figure pas : PAdES la place dans l'entrée /M du dictionnaire.
+ */
+function buildSignedAttributes(contentType: string, contentDigest: Buffer, credentials: SigningCredentials): forge.asn1.Asn1[] {
+  const certificateDer = toDer(forge.pki.certificateToAsn1(credentials.certificate));
+  const certificateHash = createHash('sha256').update(certificateDer).digest();
+
+  // SigningCertificateV2 ::= SEQUENCE { certs SEQUENCE OF ESSCertIDv2 }
+  // ESSCertIDv2 ::= SEQUENCE { certHash OCTET STRING } (SHA-256 par défaut)
+  const signingCertificate = sequence([sequence([sequence([octetString(certificateHash)])])]);
+
+  return sortByDer([
+    attribute(OID.contentType, oid(contentType)),
+    attribute(OID.messageDigest, octetString(contentDigest)),
+    attribute(OID.signingCertificateV2, signingCertificate)
+  ]);
+}
+
+/**
+ * Signe l'encodage DER des attributs signés en tant que SET OF ; retourne la valeur de signature
+ */
+function signAttributes(signedAttributes: forge.asn1.Asn1[], credentials: SigningCredentials): Buffer {
+  const md = forge.md.sha256.create();
+  md.update(asn1.toDer(set(signedAttributes)).getBytes());
+  return Buffer.from(credentials.privateKey.sign(md), 'binary');
+}
+
+/**
+ * Assemble le SignedData (RFC 5652) d'un signataire unique, avec ses attributs non signés éventuels
+ */
+function buildSignedData(
+  contentType: string,
+  content: Buffer | undefined,
+  signedAttributes: forge.asn1.Asn1[],
+  signature: Buffer,
+  credentials: SigningCredentials,
+  unsignedAttributes: forge.asn1.Asn1[] = []
+): Buffer {
+  const { certificate } = credentials;
+  const signerInfo = sequence([
+    integer(1),
+    // issuerAndSerialNumber
+    sequence([
+      forge.pki.distinguishedNameToAsn1(certificate.issuer),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, forge.util.hexToBytes(certificate.serialNumber))
+    ]),
+    algorithmIdentifier(OID.sha256),
+    // signedAttrs [0] IMPLICIT
+    tagged(0, signedAttributes),
+    algorithmIdentifier(OID.rsaEncryption),
+    octetString(signature),
+    // unsignedAttrs [1] IMPLICIT
+    ...(unsignedAttributes.length > 0 ? [tagged(1, sortByDer(unsignedAttributes))] : [])
+  ]);
+
+  const certificates = [certificate, ...credentials.chain].map(cert => forge.pki.certificateToAsn1(cert));
+
+  // eContent [0] EXPLICIT OCTET STRING, absent pour une signature détachée
+  const encapContentInfo = sequence([oid(contentType), ...(content ? [tagged(0, [octetString(content)])] : [])]);
+
+  const signedData = sequence([
+    // Version 3 dès que le contenu encapsulé n'est pas de type id-data
+    integer(contentType === OID.data ? 1 : 3),
+    set([algorithmIdentifier(OID.sha256)]),
+    encapContentInfo,
+    // certificates [0] IMPLICIT
+    tagged(0, certificates),
+    set([signerInfo])
+  ]);
+
+  return toDer(sequence([oid(OID.signedData), tagged(0, [signedData])]));
+}
+
+/**
+ * Produit une signature CMS (PKCS#7) détachée, encodée en DER, du contenu fourni.
+ * Le contenu lui-même n'est pas inclus : c'est la concaténation des plages /ByteRange du PDF.
+ * Avec un horodateur, le jeton obtenu pour la valeur de signature est ajouté en attribut non signé
+ * (signature-time-stamp, CAdES-T).
+ */
+export async function createDetachedCmsSignature(
+  content: Buffer,
+  credentials: SigningCredentials,
+  timestamp?: SignatureTimestamper
+): Promise<Buffer> {
+  const contentDigest = createHash('sha256').update(content).digest();
+  const signedAttributes = buildSignedAttributes(OID.data, contentDigest, credentials);
+  const signature = signAttributes(signedAttributes, credentials);
+
+  const unsignedAttributes = timestamp
+    ? [attribute(OID.signatureTimeStampToken, fromDer(await timestamp(signature)))]
+    : [];
+
+  return buildSignedData(OID.data, undefined, signedAttributes, signature, credentials, unsignedAttributes);
+}
+
+/**
+ * Produit un jeton d'horodatage RFC 3161 : SignedData encapsulant le TSTInfo fourni (encodé en DER),
+ * signé avec la clé de l'autorité d'horodatage
+ */
+export function createTimestampToken(tstInfo: Buffer, credentials: SigningCredentials): Buffer {
+  const contentDigest = createHash('sha256').update(tstInfo).digest();
+  const signedAttributes = buildSignedAttributes(OID.tstInfo, contentDigest, credentials);
+  const signature = signAttributes(signedAttributes, credentials);
+
+  return buildSignedData(OID.tstInfo, tstInfo, signedAttributes, signature, credentials);
+}
@@ -0,0 +1,159 @@
+import forge from 'node-forge';
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { User } from '@shared/schema';
+
+/**
+ * Clé privée et certificat X.509 utilisés pour signer un document
+ */
+export interface SigningCredentials {
+  privateKey: forge.pki.rsa.PrivateKey;
+  certificate: forge.pki.Certificate;
+  // Certificats intermédiaires éventuels (sans le certificat du signataire)
+  chain: forge.pki.Certificate[];
+  // Fichier d'où proviennent les identifiants, pour l'audit
+  source: string;
+}
+
+const credentialsCache = new Map<string, SigningCredentials>();
+
+/**
+ * Répertoire des clés de signature (SIGNING_KEYS_DIR, ./keys par défaut).
+ * Arborescence attendue :
+ *   users/<username>.p12 ou users/<username>.key.pem + users/<username>.cert.pem
+ *   companies/<société>.p12 ou companies/<société>.key.pem + .cert.pem
+ *   default.p12 ou default.key.pem + default.cert.pem
+ */
+export function getSigningKeysDir(): string {
+  return process.env.SIGNING_KEYS_DIR || path.join(process.cwd(), 'keys');
+}
+
+/**
+ * Normalise un nom (utilisateur, société) en nom de fichier sûr
+ */
+export function toKeyFileName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Empreinte SHA-256 (hex) du certificat encodé en DER
+ */
+export function getCertificateFingerprint(certificate: forge.pki.Certificate): string {
+  const der = forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+  return createHash('sha256').update(Buffer.from(der, 'binary')).digest('hex');
+}
+
+/**
+ * Nom commun (CN) du sujet d'un certificat
+ */
+export function getCertificateCommonName(certificate: forge.pki.Certificate): string {
+  const cn = certificate.subject.getField('CN');
+  return cn ? String(cn.value) : '';
+}
+
+function loadPkcs12(filePath: string): SigningCredentials {
+  const der = fs.readFileSync(filePath).toString('binary');
+  const p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(der), process.env.SIGNING_P12_PASSWORD || '');
+
+  const keyBags = p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || [];
+  const plainKeyBags = p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || [];
+  const keyBag = [...keyBags, ...plainKeyBags].find(bag => bag.key);
+  if (!keyBag?.key) {
+    throw new Error(`Aucune clé privée dans ${filePath}`);
+  }
+
+  const certificates = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [])
+    .map(bag => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => !!cert);
+
+  return buildCredentials(keyBag.key as forge.pki.rsa.PrivateKey, certificates, filePath);
+}
+
+function loadPem(keyPath: string, certPath: string): SigningCredentials {
+  const privateKey = forge.pki.privateKeyFromPem(fs.readFileSync(keyPath, 'utf-8'));
+
+  // Le fichier de certificat peut contenir toute la chaîne
+  const certificates = forge.pem.decode(fs.readFileSync(certPath, 'utf-8'))
+    .filter(block => block.type === 'CERTIFICATE')
+    .map(block => forge.pki.certificateFromAsn1(forge.asn1.fromDer(block.body)));
+
+  return buildCredentials(privateKey, certificates, certPath);
+}
+
+/**
+ * Associe la clé au certificat correspondant ; les autres certificats forment la chaîne
+ */
+function buildCredentials(
+  privateKey: forge.pki.rsa.PrivateKey,
+  certificates: forge.pki.Certificate[],
+  source: string
+): SigningCredentials {
+  if (!('n' in privateKey) || !privateKey.n) {
+    throw new Error(`Seules les clés RSA sont prises en charge (${source})`);
+  }
+
+  const certificate = certificates.find(cert => {
+    const publicKey = cert.publicKey as forge.pki.rsa.PublicKey;
+    return publicKey.n && publicKey.n.equals(privateKey.n);
+  });
+  if (!certificate) {
+    throw new Error(`Aucun certificat ne correspond à la clé privée dans ${source}`);
+  }
+
+  return {
+    privateKey,
+    certificate,
+    chain: certificates.filter(cert => cert !== certificate),
+    source
+  };
+}
+
+/**
+ * Charge les identifiants stockés sous un nom de base (sans extension), s'ils existent
+ */
+export function loadCredentialsAt(basePath: string): SigningCredentials | undefined {
+  const cached = credentialsCache.get(basePath);
+  if (cached) {
+    return cached;
+  }
+
+  let credentials: SigningCredentials | undefined;
+  if (fs.existsSync(`${basePath}.p12`)) {
+    credentials = loadPkcs12(`${basePath}.p12`);
+  } else if (fs.existsSync(`${basePath}.key.pem`) && fs.existsSync(`${basePath}.cert.pem`)) {
+    credentials = loadPem(`${basePath}.key.pem`, `${basePath}.cert.pem`);
+  }
+
+  if (credentials) {
+    credentialsCache.set(basePath, credentials);
+  }
+  return credentials;
+}
+
+/**
+ * Recherche les identifiants de signature d'un utilisateur :
+ * d'abord personnels, puis ceux de sa société, puis ceux par défaut
+ */
+export function loadSigningCredentials(user: User): SigningCredentials | undefined {
+  const keysDir = getSigningKeysDir();
+  const candidates = [path.join(keysDir, 'users', toKeyFileName(user.username))];
+
+  if (user.company) {
+    candidates.push(path.join(keysDir, 'companies', toKeyFileName(user.company)));
+  }
+  candidates.push(path.join(keysDir, 'default'));
+
+  for (const candidate of candidates) {
+    const credentials = loadCredentialsAt(candidate);
+    if (credentials) {
+      return credentials;
+    }
+  }
+  return undefined;
+}
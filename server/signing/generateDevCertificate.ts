@@ -0,0 +1,52 @@
+import forge from 'node-forge';
+import fs from 'fs';
+import path from 'path';
+import { getSigningKeysDir } from './credentials';
+
+/**
+ * Génère un certificat auto-signé de développement dans <SIGNING_KEYS_DIR>/default.p12.
+ * Les validateurs signaleront l'émetteur comme non approuvé : ne pas utiliser en production.
+ *
+ * Usage : npm run signing:dev-cert -- "Nom du signataire" "Société"
+ */
+function main() {
+  const [commonName = 'BeaverDoc Développement', organization = 'Rémi Guillette Consulting'] = process.argv.slice(2);
+  const target = path.join(getSigningKeysDir(), 'default.p12');
+
+  if (fs.existsSync(target)) {
+    console.error(`${target} existe déjà, suppression manuelle requise pour le régénérer.`);
+    process.exit(1);
+  }
+
+  const keys = forge.pki.rsa.generateKeyPair(2048);
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = keys.publicKey;
+  certificate.serialNumber = '01' + forge.util.bytesToHex(forge.random.getBytesSync(15));
+  certificate.validity.notBefore = new Date();
+  certificate.validity.notAfter = new Date();
+  certificate.validity.notAfter.setFullYear(certificate.validity.notBefore.getFullYear() + 2);
+
+  const subject = [
+    { name: 'commonName', value: commonName },
+    { name: 'organizationName', value: organization },
+    { name: 'countryName', value: 'CA' }
+  ];
+  certificate.setSubject(subject);
+  certificate.setIssuer(subject);
+  certificate.setExtensions([
+    { name: 'basicConstraints', cA: false },
+    { name: 'keyUsage', digitalSignature: true, nonRepudiation: true },
+    { name: 'subjectKeyIdentifier' }
+  ]);
+  certificate.sign(keys.privateKey, forge.md.sha256.create());
+
+  const p12 = forge.pkcs12.toPkcs12Asn1(keys.privateKey, [certificate], process.env.SIGNING_P12_PASSWORD || '', {
+    algorithm: '3des'
+  });
+
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, Buffer.from(forge.asn1.toDer(p12).getBytes(), 'binary'), { mode: 0o600 });
+  console.log(`Certificat de développement créé : ${target}`);
+}
+
+main();
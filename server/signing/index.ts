@@ -0,0 +1,192 @@
+import { createHash } from 'crypto';
+import { Document, SignatureDrawing, SignatureField, User } from '@shared/schema';
+import { addUidAndTokenToPdf, StampOptions } from '../pdfUtils';
+import { signPdf } from './pades';
+import { requestTimestamp } from './tsa';
+import {
+  SigningCredentials,
+  loadSigningCredentials,
+  getCertificateFingerprint,
+  getCertificateCommonName
+} from './credentials';
+import { HttpError } from '../httpError';
+
+export { loadSigningCredentials };
+export type { SigningCredentials };
+
+/**
+ * Erreur de signature portant le code HTTP à renvoyer au client
+ */
+export class SigningError extends HttpError {
+  constructor(message: string, status = 500) {
+    super(message, status);
+    this.name = 'SigningError';
+  }
+}
+
+/**
+ * Informations de signature conservées dans documents.signatureData (JSON)
+ */
+export interface SignatureData {
+  type: 'pades';
+  subFilter: 'ETSI.CAdES.detached';
+  signerId: number;
+  signerName: string;
+  certificateSubject: string;
+  certificateFingerprint: string;
+  signedAt: string;
+}
+
+/**
+ * Signature visible : champ de signature du signataire et, s'il le souhaite, sa signature manuscrite
+ */
+export interface VisibleSignature {
+  field: SignatureField;
+  drawing?: SignatureDrawing;
+}
+
+/**
+ * Jeton d'horodatage RFC 3161 intégré à la signature et empreinte SHA-256 (hex) de la valeur de signature qu'il couvre
+ */
+export interface SignatureTimestamp {
+  token: Buffer;
+  hash: string;
+}
+
+/**
+ * PDF signé, description de la signature et son horodatage
+ */
+export interface SignedPdf {
+  content: Buffer;
+  signatureData: SignatureData;
+  timestamp: SignatureTimestamp;
+}
+
+/**
+ * Relit documents.signatureData ; undefined si absent ou s'il ne s'agit pas d'une signature PAdES
+ */
+export function parseSignatureData(raw: string | null): SignatureData | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    const data = JSON.parse(raw);
+    return data?.type === 'pades' ? data as SignatureData : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Applique la signature PAdES du signataire et décrit la signature obtenue.
+ * Avec un champ de signature, le nom du signataire, la date et l'empreinte du certificat y sont dessinés,
+ * sous la signature manuscrite éventuelle.
+ * La valeur de signature est horodatée (RFC 3161) et le jeton intégré à la signature CMS.
+ */
+async function applySignature(
+  content: Buffer,
+  document: Document,
+  user: User,
+  credentials: SigningCredentials,
+  signedAt: Date,
+  visible?: VisibleSignature
+): Promise<SignedPdf> {
+  const fingerprint = getCertificateFingerprint(credentials.certificate);
+  let timestamp: SignatureTimestamp | undefined;
+  const signed = await signPdf(content, credentials, {
+    name: user.name,
+    reason: `Signature BeaverDoc du document ${document.uid}`,
+    location: user.company || undefined,
+    signingTime: signedAt,
+    appearance: visible && {
+      pageIndex: visible.field.page - 1,
+      x: visible.field.x,
+      y: visible.field.y,
+      width: visible.field.width,
+      height: visible.field.height,
+      lines: [
+        user.name,
+        `Signé le ${signedAt.toLocaleString('fr-FR')}`,
+        `Certificat ${fingerprint.substring(0, 16).toUpperCase()}`
+      ],
+      drawing: visible.drawing
+    },
+    timestamp: async signatureValue => {
+      const digest = createHash('sha256').update(signatureValue).digest();
+      const token = await requestTimestamp(digest);
+      timestamp = { token, hash: digest.toString('hex') };
+      return token;
+    }
+  });
+  if (!timestamp) {
+    throw new SigningError('La signature n\'a pas été horodatée');
+  }
+
+  return {
+    content: signed,
+    timestamp,
+    signatureData: {
+      type: 'pades',
+      subFilter: 'ETSI.CAdES.detached',
+      signerId: user.id,
+      signerName: user.name,
+      certificateSubject: getCertificateCommonName(credentials.certificate),
+      certificateFingerprint: fingerprint,
+      signedAt: signedAt.toISOString()
+    }
+  };
+}
+
+/**
+ * Marque le PDF avec la mention de signature puis y applique une signature PAdES.
+ * La signature cryptographique est toujours la dernière modification du fichier.
+ * Si le signataire a un champ de signature, la mention y est dessinée au lieu du pied de page.
+ *
+ * @param content PDF à signer
+ * @param document Document concerné (UID et token du marquage)
+ * @param user Signataire
+ * @param credentials Clé et certificat du signataire
+ * @param stampOptions Options de marquage du document (profil de marquage, QR code de vérification)
+ * @param visible Champ de signature du signataire et sa signature manuscrite
+ */
+export async function signDocumentPdf(
+  content: Buffer,
+  document: Document,
+  user: User,
+  credentials: SigningCredentials,
+  stampOptions: StampOptions = {},
+  visible?: VisibleSignature
+): Promise<SignedPdf> {
+  const fingerprint = getCertificateFingerprint(credentials.certificate);
+  const signedAt = new Date();
+
+  const signatureInfo = `Signé électroniquement: ${fingerprint.substring(0, 16).toUpperCase()}`;
+  const stamped = await addUidAndTokenToPdf(content, document.uid, document.token || 'NO-TOKEN', signatureInfo, {
+    ...stampOptions,
+    signer: user.name,
+    omitSignatureLine: !!visible
+  });
+
+  return applySignature(stamped, document, user, credentials, signedAt, visible);
+}
+
+/**
+ * Ajoute la signature d'un signataire supplémentaire à un PDF déjà signé.
+ * Le fichier n'est pas marqué à nouveau : la signature est ajoutée par mise à jour incrémentale,
+ * sans modifier les octets couverts par les signatures précédentes.
+ *
+ * @param content PDF signé (version courante du document)
+ * @param document Document concerné
+ * @param user Signataire
+ * @param credentials Clé et certificat du signataire
+ * @param visible Champ de signature du signataire et sa signature manuscrite, dessinés avec la signature
+ */
+export async function addSignatureToPdf(
+  content: Buffer,
+  document: Document,
+  user: User,
+  credentials: SigningCredentials,
+  visible?: VisibleSignature
+): Promise<SignedPdf> {
+  return applySignature(content, document, user, credentials, new Date(), visible);
+}
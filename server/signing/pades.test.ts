@@ -0,0 +1,125 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import forge from 'node-forge';
+import { createHash, generateKeyPairSync, verify } from 'crypto';
+import { PDFDocument } from 'pdf-lib';
+import { signPdf } from './pades';
+import { SigningCredentials } from './credentials';
+import { OID, bytesOf, children, derLength, findTagged, fromDer, oidOf, toDer } from './asn1';
+
+/**
+ * Clé RSA et certificat auto-signé propres au test
+ */
+function createTestCredentials(commonName: string): SigningCredentials {
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const key = forge.pki.privateKeyFromPem(privateKey.export({ type: 'pkcs1', format: 'pem' }).toString()) as forge.pki.rsa.PrivateKey;
+
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = forge.pki.setRsaPublicKey(key.n, key.e);
+  certificate.serialNumber = '01';
+  certificate.validity.notBefore = new Date();
+  certificate.validity.notAfter = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  certificate.setSubject([{ name: 'commonName', value: commonName }]);
+  certificate.setIssuer([{ name: 'commonName', value: commonName }]);
+  certificate.sign(key, forge.md.sha256.create());
+
+  return { privateKey: key, certificate, chain: [], source: 'test' };
+}
+
+interface EmbeddedSignature {
+  byteRange: number[];
+  contentsStart: number;
+  contentsEnd: number;
+  cms: Buffer;
+}
+
+/**
+ * Signatures d'un PDF, dans l'ordre du fichier : plages signées et signature CMS lue dans /Contents
+ */
+function readSignatures(pdf: Buffer): EmbeddedSignature[] {
+  const text = pdf.toString('latin1');
+  return Array.from(text.matchAll(/\/ByteRange \[(\d+) (\d+) (\d+) (\d+)\]/g)).map(match => {
+    const byteRange = match.slice(1).map(Number);
+    const contentsStart = text.indexOf('/Contents <', match.index!) + '/Contents '.length;
+    const contentsEnd = text.indexOf('>', contentsStart) + 1;
+    const cms = Buffer.from(text.substring(contentsStart + 1, contentsEnd - 1), 'hex');
+    return { byteRange, contentsStart, contentsEnd, cms: cms.subarray(0, derLength(cms)) };
+  });
+}
+
+/**
+ * Vérifie une signature CMS détachée : condensé des plages signées (messageDigest) et valeur de signature
+ * des attributs signés avec la clé publique du certificat
+ */
+function verifyCmsSignature(pdf: Buffer, signature: EmbeddedSignature, credentials: SigningCredentials) {
+  const [start, firstLength, secondStart, secondLength] = signature.byteRange;
+  const signedContent = Buffer.concat([
+    pdf.subarray(start, start + firstLength),
+    pdf.subarray(secondStart, secondStart + secondLength)
+  ]);
+
+  const contentInfo = children(fromDer(signature.cms));
+  const signedData = children(children(contentInfo[1])[0]);
+  const signerInfo = children(children(signedData[signedData.length - 1])[0]);
+  const signedAttributes = findTagged(signerInfo, 0)!;
+  const messageDigest = children(signedAttributes)
+    .map(children)
+    .find(attribute => oidOf(attribute[0]) === OID.messageDigest)!;
+  assert.deepEqual(bytesOf(children(messageDigest[1])[0]), createHash('sha256').update(signedContent).digest());
+
+  // La signature porte sur les attributs encodés en SET OF, et non avec leur étiquette [0] IMPLICIT
+  const signedAttributesDer = toDer(signedAttributes);
+  signedAttributesDer[0] = 0x31;
+  const certificatePem = forge.pki.certificateToPem(credentials.certificate);
+  assert.ok(verify('sha256', signedAttributesDer, certificatePem, bytesOf(signerInfo[5])));
+}
+
+describe('signPdf', () => {
+  const first = createTestCredentials('Marie Lefebvre');
+  const second = createTestCredentials('Paul Martin');
+  let original: Buffer;
+
+  before(async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([595, 842]).drawText('Contrat de test', { x: 50, y: 780 });
+    original = Buffer.from(await pdfDoc.save({ useObjectStreams: false }));
+  });
+
+  it('couvre tout le fichier sauf la valeur de /Contents', async () => {
+    const signed = await signPdf(original, first, { name: 'Marie Lefebvre', reason: 'Approbation' });
+
+    assert.deepEqual(signed.subarray(0, original.length), original);
+    const [signature] = readSignatures(signed);
+    const [start, firstLength, secondStart, secondLength] = signature.byteRange;
+    assert.equal(start, 0);
+    assert.equal(firstLength, signature.contentsStart);
+    assert.equal(secondStart, signature.contentsEnd);
+    assert.equal(secondStart + secondLength, signed.length);
+    // Seule la chaîne hexadécimale, chevrons compris, est exclue
+    assert.match(signed.toString('latin1', firstLength, secondStart), /^<[0-9a-f]+>$/);
+    assert.equal(signed.toString('latin1', firstLength - '/Contents '.length, firstLength), '/Contents ');
+  });
+
+  it('produit une signature CMS dont le messageDigest correspond aux plages signées', async () => {
+    const signed = await signPdf(original, first, { name: 'Marie Lefebvre', reason: 'Approbation' });
+
+    const [signature] = readSignatures(signed);
+    verifyCmsSignature(signed, signature, first);
+  });
+
+  it('conserve la première signature valide après une seconde signature incrémentale', async () => {
+    const once = await signPdf(original, first, { name: 'Marie Lefebvre', reason: 'Approbation' });
+    const twice = await signPdf(once, second, { name: 'Paul Martin', reason: 'Contre-signature' });
+
+    assert.deepEqual(twice.subarray(0, once.length), once);
+    const signatures = readSignatures(twice);
+    assert.equal(signatures.length, 2);
+    verifyCmsSignature(twice, signatures[0], first);
+    verifyCmsSignature(twice, signatures[1], second);
+    assert.equal(signatures[0].byteRange[2] + signatures[0].byteRange[3], once.length);
+    assert.equal(signatures[1].byteRange[2] + signatures[1].byteRange[3], twice.length);
+
+    const fields = (await PDFDocument.load(twice)).getForm().getFields().map(field => field.getName());
+    assert.deepEqual(fields, ['Signature1', 'Signature2']);
+  });
+});
@@ -0,0 +1,283 @@
+import {
+  PDFArray,
+  PDFCrossRefStream,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRef,
+  PDFString
+} from 'pdf-lib';
+import { SignatureTimestamper, createDetachedCmsSignature } from './cms';
+import { SigningCredentials } from './credentials';
+import { SignatureAppearance, createSignatureAppearance } from './appearance';
+
+// Octets réservés pour la signature CMS dans /Contents (encodés en hexadécimal)
+const SIGNATURE_MAX_LENGTH = 16384;
+
+// Valeur provisoire de /ByteRange, remplacée une fois les décalages connus
+const BYTE_RANGE_PLACEHOLDER = '**********';
+
+export interface PadesSignatureOptions {
+  // Nom du signataire (/Name)
+  name: string;
+  // Motif de la signature (/Reason)
+  reason: string;
+  location?: string;
+  signingTime?: Date;
+  // Champ de signature visible ; sans champ, la signature est invisible et rattachée à la première page
+  appearance?: SignatureAppearance;
+  // Horodatage RFC 3161 de la valeur de signature, intégré à la signature CMS
+  timestamp?: SignatureTimestamper;
+}
+
+/**
+ * Sérialise un objet indirect au format "N G obj ... endobj"
+ */
+function serializeObject(ref: PDFRef, object: PDFObject): Buffer {
+  const body = new Uint8Array(object.sizeInBytes());
+  object.copyBytesInto(body, 0);
+
+  return Buffer.concat([
+    Buffer.from(`${ref.objectNumber} ${ref.generationNumber} obj\n`, 'latin1'),
+    Buffer.from(body),
+    Buffer.from('\nendobj\n', 'latin1')
+  ]);
+}
+
+/**
+ * Position de la table (ou du flux) de références croisées la plus récente
+ */
+function findLastXrefOffset(pdf: Buffer): number {
+  const index = pdf.lastIndexOf('startxref');
+  const match = index >= 0 ? /startxref\s+(\d+)/.exec(pdf.toString('latin1', index, index + 32)) : null;
+  if (!match) {
+    throw new Error('Structure PDF invalide : startxref introuvable');
+  }
+  return parseInt(match[1], 10);
+}
+
+/**
+ * Réserve les numéros de tous les objets du fichier d'origine.
+ * pdf-lib n'enregistre pas les flux d'objets (/ObjStm) ni de références (/XRef) qu'il décompresse :
+ * sans cela, un nouvel objet pourrait reprendre leur numéro et masquer les objets compressés.
+ */
+function reserveExistingObjectNumbers(original: Buffer, pdfDoc: PDFDocument) {
+  const pattern = /(\d+)\s+\d+\s+obj\b/g;
+  const text = original.toString('latin1');
+  let largest = pdfDoc.context.largestObjectNumber;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    largest = Math.max(largest, parseInt(match[1], 10));
+  }
+  pdfDoc.context.largestObjectNumber = largest;
+}
+
+/**
+ * Ajoute une mise à jour incrémentale au PDF d'origine contenant uniquement les objets modifiés.
+ * Les octets existants ne sont jamais réécrits, ce qui préserve les signatures précédentes.
+ */
+function appendIncrementalUpdate(original: Buffer, pdfDoc: PDFDocument, refs: PDFRef[]): Buffer {
+  const { context } = pdfDoc;
+  const previousXref = findLastXrefOffset(original);
+  const usesXrefStream = original.toString('latin1', previousXref, previousXref + 4) !== 'xref';
+
+  const chunks: Buffer[] = [original];
+  let offset = original.length;
+  if (original[original.length - 1] !== 0x0a) {
+    chunks.push(Buffer.from('\n', 'latin1'));
+    offset += 1;
+  }
+
+  const offsets = new Map<number, { ref: PDFRef; offset: number }>();
+  for (const ref of refs) {
+    const chunk = serializeObject(ref, context.lookup(ref)!);
+    offsets.set(ref.objectNumber, { ref, offset });
+    chunks.push(chunk);
+    offset += chunk.length;
+  }
+
+  const trailer: Record<string, PDFObject> = {
+    Root: context.trailerInfo.Root as PDFRef,
+    Prev: PDFNumber.of(previousXref)
+  };
+  if (context.trailerInfo.Info) trailer.Info = context.trailerInfo.Info;
+  if (context.trailerInfo.ID) trailer.ID = context.trailerInfo.ID;
+
+  const xrefOffset = offset;
+  if (usesXrefStream) {
+    // Le fichier précédent utilise un flux de références : on conserve ce format
+    const xrefRef = context.nextRef();
+    const xrefStream = PDFCrossRefStream.create(
+      context.obj({ ...trailer, Size: PDFNumber.of(xrefRef.objectNumber + 1) }),
+      false
+    );
+    offsets.set(xrefRef.objectNumber, { ref: xrefRef, offset: xrefOffset });
+    Array.from(offsets.values())
+      .sort((a, b) => a.ref.objectNumber - b.ref.objectNumber)
+      .forEach(entry => xrefStream.addUncompressedEntry(entry.ref, entry.offset));
+    xrefStream.updateDict();
+    chunks.push(serializeObject(xrefRef, xrefStream));
+  } else {
+    const entries = Array.from(offsets.values()).sort((a, b) => a.ref.objectNumber - b.ref.objectNumber);
+    let table = 'xref\n';
+    for (const entry of entries) {
+      table += `${entry.ref.objectNumber} 1\n`;
+      table += `${String(entry.offset).padStart(10, '0')} ${String(entry.ref.generationNumber).padStart(5, '0')} n\r\n`;
+    }
+
+    const trailerDict = context.obj({ ...trailer, Size: PDFNumber.of(context.largestObjectNumber + 1) });
+    chunks.push(Buffer.from(`${table}trailer\n${trailerDict.toString()}\n`, 'latin1'));
+  }
+
+  chunks.push(Buffer.from(`startxref\n${xrefOffset}\n%%EOF\n`, 'latin1'));
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Entrée résolue d'un dictionnaire, avec la référence de l'objet indirect à réécrire
+ */
+interface ResolvedEntry<T> {
+  value: T | undefined;
+  ref: PDFRef;
+}
+
+/**
+ * Résout une entrée qui peut être directe ou indirecte.
+ * Retourne l'objet et la référence de l'objet indirect qui devra être réécrit.
+ */
+function resolveEntry(pdfDoc: PDFDocument, holder: PDFDict, holderRef: PDFRef, key: string, type: typeof PDFDict): ResolvedEntry<PDFDict>;
+function resolveEntry(pdfDoc: PDFDocument, holder: PDFDict, holderRef: PDFRef, key: string, type: typeof PDFArray): ResolvedEntry<PDFArray>;
+function resolveEntry(
+  pdfDoc: PDFDocument,
+  holder: PDFDict,
+  holderRef: PDFRef,
+  key: string,
+  type: typeof PDFDict | typeof PDFArray
+): ResolvedEntry<PDFDict | PDFArray> {
+  const raw = holder.get(PDFName.of(key));
+  const value = raw instanceof PDFRef ? pdfDoc.context.lookup(raw) : raw;
+  return {
+    value: value instanceof type ? value : undefined,
+    ref: raw instanceof PDFRef ? raw : holderRef
+  };
+}
+
+/**
+ * Signe un PDF selon PAdES (ETSI.CAdES.detached) : ajoute un champ de signature, invisible
+ * ou dessiné dans le cadre demandé, et son dictionnaire /Sig par mise à jour incrémentale,
+ * puis insère la signature CMS couvrant l'ensemble du fichier hors /Contents,
+ * horodatée si un horodateur est fourni.
+ *
+ * @param pdfBuffer PDF à signer (déjà marqué avec l'UID et le token)
+ * @param credentials Clé privée et certificat du signataire
+ * @param options Informations affichées par les lecteurs PDF
+ * @returns Buffer du PDF signé
+ */
+export async function signPdf(
+  pdfBuffer: Buffer,
+  credentials: SigningCredentials,
+  options: PadesSignatureOptions
+): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.load(pdfBuffer, { updateMetadata: false });
+  const { context } = pdfDoc;
+  reserveExistingObjectNumbers(pdfBuffer, pdfDoc);
+  const changed = new Set<PDFRef>();
+
+  const signingTime = options.signingTime || new Date();
+  const visible = options.appearance ? await createSignatureAppearance(pdfDoc, options.appearance) : undefined;
+  visible?.refs.forEach(ref => changed.add(ref));
+  const page = visible?.page ?? pdfDoc.getPages()[0];
+
+  // Dictionnaire de signature avec valeurs provisoires
+  const placeholder = PDFName.of(BYTE_RANGE_PLACEHOLDER);
+  const signatureDict = context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'ETSI.CAdES.detached',
+    ByteRange: [PDFNumber.of(0), placeholder, placeholder, placeholder],
+    Contents: PDFHexString.of('0'.repeat(SIGNATURE_MAX_LENGTH * 2)),
+    Reason: PDFHexString.fromText(options.reason),
+    Name: PDFHexString.fromText(options.name),
+    M: PDFString.fromDate(signingTime),
+    ...(options.location ? { Location: PDFHexString.fromText(options.location) } : {})
+  });
+  const signatureRef = context.register(signatureDict);
+  changed.add(signatureRef);
+
+  // Formulaire interactif : champs existants et drapeaux de signature
+  const catalogRef = context.trailerInfo.Root as PDFRef;
+  let acroForm = resolveEntry(pdfDoc, pdfDoc.catalog, catalogRef, 'AcroForm', PDFDict);
+  if (!acroForm.value) {
+    const acroFormRef = context.register(context.obj({ Fields: [] }));
+    pdfDoc.catalog.set(PDFName.of('AcroForm'), acroFormRef);
+    changed.add(catalogRef);
+    acroForm = { value: context.lookup(acroFormRef, PDFDict), ref: acroFormRef };
+  }
+  acroForm.value!.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+  changed.add(acroForm.ref);
+
+  let fields = resolveEntry(pdfDoc, acroForm.value!, acroForm.ref, 'Fields', PDFArray);
+  if (!fields.value) {
+    acroForm.value!.set(PDFName.of('Fields'), context.obj([]));
+    fields = { value: acroForm.value!.lookup(PDFName.of('Fields'), PDFArray), ref: acroForm.ref };
+  }
+
+  // Champ de signature : invisible sur la première page, ou dans son cadre avec son apparence
+  const fieldName = `Signature${fields.value!.size() + 1}`;
+  const widgetRef = context.register(context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    Rect: visible?.rect ?? [0, 0, 0, 0],
+    ...(visible ? { AP: { N: visible.appearanceRef } } : {}),
+    V: signatureRef,
+    T: PDFHexString.fromText(fieldName),
+    F: 132, // Print + Locked
+    P: page.ref
+  }));
+  changed.add(widgetRef);
+  fields.value!.push(widgetRef);
+  changed.add(fields.ref);
+
+  let annots = resolveEntry(pdfDoc, page.node, page.ref, 'Annots', PDFArray);
+  if (!annots.value) {
+    page.node.set(PDFName.of('Annots'), context.obj([]));
+    annots = { value: page.node.lookup(PDFName.of('Annots'), PDFArray), ref: page.ref };
+  }
+  annots.value!.push(widgetRef);
+  changed.add(annots.ref);
+
+  const prepared = appendIncrementalUpdate(pdfBuffer, pdfDoc, Array.from(changed));
+
+  // Calcul des plages signées : tout le fichier sauf la valeur hexadécimale de /Contents
+  const placeholderText = `/ByteRange [ 0 /${BYTE_RANGE_PLACEHOLDER} /${BYTE_RANGE_PLACEHOLDER} /${BYTE_RANGE_PLACEHOLDER} ]`;
+  const byteRangePosition = prepared.lastIndexOf(placeholderText);
+  if (byteRangePosition < 0) {
+    throw new Error('Emplacement /ByteRange introuvable dans le PDF préparé');
+  }
+
+  const contentsStart = prepared.indexOf('/Contents <', byteRangePosition);
+  const hexStart = contentsStart + '/Contents '.length;
+  const hexEnd = prepared.indexOf('>', hexStart) + 1;
+  if (contentsStart < 0 || hexEnd - hexStart !== SIGNATURE_MAX_LENGTH * 2 + 2) {
+    throw new Error('Emplacement /Contents introuvable dans le PDF préparé');
+  }
+
+  const byteRange = [0, hexStart, hexEnd, prepared.length - hexEnd];
+  const byteRangeText = `/ByteRange [${byteRange.join(' ')}]`.padEnd(placeholderText.length, ' ');
+  prepared.write(byteRangeText, byteRangePosition, 'latin1');
+
+  const signedContent = Buffer.concat([
+    prepared.subarray(byteRange[0], byteRange[1]),
+    prepared.subarray(byteRange[2], byteRange[2] + byteRange[3])
+  ]);
+  const cms = await createDetachedCmsSignature(signedContent, credentials, options.timestamp);
+  if (cms.length > SIGNATURE_MAX_LENGTH) {
+    throw new Error('La signature CMS dépasse l\'espace réservé dans le PDF');
+  }
+
+  prepared.write(cms.toString('hex').padEnd(SIGNATURE_MAX_LENGTH * 2, '0'), hexStart + 1, 'latin1');
+  return prepared;
+}
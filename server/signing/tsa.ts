@@ -0,0 +1,399 @@
+import forge from 'node-forge';
+import fs from 'fs';
+import path from 'path';
+import { X509Certificate, createHash, randomBytes, verify } from 'crypto';
+import { TimestampVerification } from '@shared/schema';
+import { createTimestampToken } from './cms';
+import { SigningCredentials, getSigningKeysDir, loadCredentialsAt } from './credentials';
+import {
+  DIGEST_ALGORITHMS,
+  OID,
+  algorithmIdentifier,
+  boolean,
+  bytesOf,
+  children,
+  derLength,
+  findTagged,
+  fromDer,
+  generalizedTime,
+  integer,
+  integerFromBytes,
+  octetString,
+  oid,
+  oidOf,
+  sequence,
+  set,
+  toDer
+} from './asn1';
+import { HttpError } from '../httpError';
+
+const { asn1 } = forge;
+
+// Délai maximal de réponse de l'autorité d'horodatage
+const TSA_TIMEOUT_MS = 15000;
+
+// Politique annoncée par le service local (anyPolicy) : il n'applique aucune politique d'horodatage publiée
+const LOCAL_TSA_POLICY = '2.5.29.32.0';
+
+// PKIStatus d'une réponse d'horodatage : granted et grantedWithMods
+const GRANTED_STATUSES = [0, 1];
+
+/**
+ * Erreur d'horodatage portant le code HTTP à renvoyer au client
+ */
+export class TimestampError extends HttpError {
+  constructor(message: string, status = 502) {
+    super(message, status);
+    this.name = 'TimestampError';
+  }
+}
+
+/**
+ * URL de l'autorité d'horodatage RFC 3161 (TSA_URL) ; sans URL, le service local est utilisé
+ */
+export function getTsaUrl(): string | undefined {
+  return process.env.TSA_URL || undefined;
+}
+
+let trustedTsaFile: { path: string; certificates: X509Certificate[] } | undefined;
+
+/**
+ * Certificats de l'autorité d'horodatage reconnue : ceux du fichier PEM TSA_CERT (plusieurs lors d'un
+ * renouvellement), sinon, sans TSA_URL, celui du service local ; aucun si le service local n'a jamais servi
+ */
+function getTrustedTsaCertificates(): X509Certificate[] {
+  const certPath = process.env.TSA_CERT;
+  if (certPath) {
+    if (trustedTsaFile?.path !== certPath) {
+      const pem = fs.readFileSync(certPath, 'utf8');
+      const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? [];
+      trustedTsaFile = { path: certPath, certificates: blocks.map(block => new X509Certificate(block)) };
+    }
+    return trustedTsaFile.certificates;
+  }
+  if (getTsaUrl()) {
+    return [];
+  }
+  const local = localTsaCredentials ?? loadCredentialsAt(path.join(getSigningKeysDir(), 'tsa'));
+  return local ? [new X509Certificate(Buffer.from(asn1.toDer(forge.pki.certificateToAsn1(local.certificate)).getBytes(), 'binary'))] : [];
+}
+
+/**
+ * Contenu décodé d'un jeton d'horodatage
+ */
+interface ParsedTimestampToken {
+  policy: string;
+  imprintAlgorithm: string;
+  imprint: Buffer;
+  serialNumber: string;
+  genTime: Date;
+  nonce: Buffer | undefined;
+  // TSTInfo encodé en DER (eContent) et condensé annoncé dans les attributs signés
+  tstInfo: Buffer;
+  digestAlgorithm: string;
+  messageDigest: Buffer | undefined;
+  // Attributs signés encodés en SET OF, tels que signés par l'autorité
+  signedAttributes: Buffer;
+  signature: Buffer;
+  certificates: X509Certificate[];
+}
+
+/**
+ * Octets significatifs d'un entier, sans zéros de tête, pour comparer des nonces
+ */
+function stripLeadingZeros(bytes: Buffer): Buffer {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) {
+    start += 1;
+  }
+  return bytes.subarray(start);
+}
+
+/**
+ * Décode un jeton d'horodatage (ContentInfo contenant un SignedData qui encapsule un TSTInfo)
+ */
+function parseTimestampToken(token: Buffer): ParsedTimestampToken {
+  const contentInfo = children(fromDer(token));
+  if (oidOf(contentInfo[0]) !== OID.signedData) {
+    throw new Error('Le jeton n\'est pas une structure CMS SignedData');
+  }
+  const signedData = children(children(contentInfo[1])[0]);
+
+  const encapContentInfo = children(signedData[2]);
+  if (oidOf(encapContentInfo[0]) !== OID.tstInfo) {
+    throw new Error('Le jeton n\'encapsule pas de TSTInfo');
+  }
+  const tstInfo = bytesOf(children(findTagged(encapContentInfo, 0))[0]);
+
+  // TSTInfo ::= SEQUENCE { version, policy, messageImprint, serialNumber, genTime, accuracy?, ordering?, nonce?, ... }
+  const fields = children(fromDer(tstInfo));
+  const messageImprint = children(fields[2]);
+  const nonce = fields.slice(5).find(node => node.tagClass === asn1.Class.UNIVERSAL && node.type === asn1.Type.INTEGER);
+
+  const certificates = children(findTagged(signedData.slice(3), 0)).map(node => new X509Certificate(toDer(node)));
+
+  // SignerInfo ::= SEQUENCE { version, sid, digestAlgorithm, signedAttrs [0]?, signatureAlgorithm, signature, ... }
+  const signerInfo = children(children(signedData[signedData.length - 1])[0]);
+  const signedAttributesNode = signerInfo[3]?.tagClass === asn1.Class.CONTEXT_SPECIFIC ? signerInfo[3] : undefined;
+  if (!signedAttributesNode) {
+    throw new Error('Le jeton ne comporte pas d\'attributs signés');
+  }
+  const messageDigest = children(signedAttributesNode)
+    .map(children)
+    .find(attribute => oidOf(attribute[0]) === OID.messageDigest);
+
+  return {
+    policy: oidOf(fields[1]),
+    imprintAlgorithm: oidOf(children(messageImprint[0])[0]),
+    imprint: bytesOf(messageImprint[1]),
+    serialNumber: stripLeadingZeros(bytesOf(fields[3])).toString('hex'),
+    genTime: asn1.generalizedTimeToDate(String(fields[4].value)),
+    nonce: nonce && bytesOf(nonce),
+    tstInfo,
+    digestAlgorithm: oidOf(children(signerInfo[2])[0]),
+    messageDigest: messageDigest && bytesOf(children(messageDigest[1])[0]),
+    signedAttributes: toDer(set(children(signedAttributesNode))),
+    signature: bytesOf(signerInfo[5]),
+    certificates
+  };
+}
+
+/**
+ * Nom commun (CN) du sujet d'un certificat X.509
+ */
+function getCommonName(certificate: X509Certificate): string {
+  return /^CN=(.*)$/m.exec(certificate.subject)?.[1] ?? certificate.subject;
+}
+
+/**
+ * Vérifie un jeton d'horodatage RFC 3161 pour l'empreinte SHA-256 attendue :
+ * empreinte horodatée, condensé du TSTInfo, signature de l'autorité reconnue (TSA_CERT, ou le service local),
+ * usage étendu timeStamping de son certificat et validité du certificat à l'heure certifiée.
+ * Un jeton signé par une autre autorité, quels que soient les certificats qu'il intègre, n'est pas reconnu.
+ */
+export function verifyTimestampToken(token: Buffer, digest: Buffer): TimestampVerification {
+  let parsed: ParsedTimestampToken;
+  try {
+    parsed = parseTimestampToken(token);
+  } catch {
+    return { valid: false, time: null, authority: null, serialNumber: null, policy: null, error: 'Jeton d\'horodatage illisible' };
+  }
+
+  const hashName = DIGEST_ALGORITHMS[parsed.digestAlgorithm];
+  // Certificat de l'autorité : celui dont la clé vérifie la signature des attributs
+  const findSigner = (certificates: X509Certificate[]) => hashName ? certificates.find(certificate => {
+    try {
+      return verify(hashName, parsed.signedAttributes, certificate.publicKey, parsed.signature);
+    } catch {
+      return false;
+    }
+  }) : undefined;
+  const signer = findSigner(getTrustedTsaCertificates());
+  const embeddedSigner = signer ?? findSigner(parsed.certificates);
+
+  let error: string | null = null;
+  if (parsed.imprintAlgorithm !== OID.sha256 || !parsed.imprint.equals(digest)) {
+    error = 'L\'empreinte horodatée ne correspond pas';
+  } else if (!hashName || !parsed.messageDigest?.equals(createHash(hashName).update(parsed.tstInfo).digest())) {
+    error = 'Le contenu du jeton a été modifié';
+  } else if (!signer && embeddedSigner) {
+    error = 'Le jeton n\'est pas signé par l\'autorité d\'horodatage reconnue';
+  } else if (!signer) {
+    error = 'La signature de l\'autorité d\'horodatage est invalide';
+  } else if (!signer.keyUsage?.includes(OID.timeStamping)) {
+    error = 'Le certificat de l\'autorité n\'est pas destiné à l\'horodatage';
+  } else if (parsed.genTime < new Date(signer.validFrom) || parsed.genTime > new Date(signer.validTo)) {
+    error = 'Le certificat de l\'autorité n\'était pas valide à l\'heure certifiée';
+  }
+
+  return {
+    valid: !error,
+    time: parsed.genTime.toISOString(),
+    authority: embeddedSigner ? getCommonName(embeddedSigner) : parsed.certificates[0] ? getCommonName(parsed.certificates[0]) : null,
+    serialNumber: parsed.serialNumber,
+    policy: parsed.policy,
+    error
+  };
+}
+
+let localTsaCredentials: SigningCredentials | undefined;
+let localTsaWarned = false;
+
+/**
+ * Crée le certificat auto-signé du service d'horodatage local, avec l'usage étendu timeStamping (critique)
+ */
+function createLocalTsaCredentials(target: string): SigningCredentials {
+  const keys = forge.pki.rsa.generateKeyPair(2048);
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = keys.publicKey;
+  certificate.serialNumber = '01' + forge.util.bytesToHex(forge.random.getBytesSync(15));
+  certificate.validity.notBefore = new Date();
+  certificate.validity.notAfter = new Date();
+  certificate.validity.notAfter.setFullYear(certificate.validity.notBefore.getFullYear() + 10);
+
+  const subject = [
+    { name: 'commonName', value: 'BeaverDoc TSA locale' },
+    { name: 'organizationName', value: 'BeaverDoc' },
+    { name: 'countryName', value: 'CA' }
+  ];
+  certificate.setSubject(subject);
+  certificate.setIssuer(subject);
+  certificate.setExtensions([
+    { name: 'basicConstraints', cA: false },
+    { name: 'keyUsage', critical: true, digitalSignature: true, nonRepudiation: true },
+    { name: 'extKeyUsage', critical: true, timeStamping: true },
+    { name: 'subjectKeyIdentifier' }
+  ]);
+  certificate.sign(keys.privateKey, forge.md.sha256.create());
+
+  const p12 = forge.pkcs12.toPkcs12Asn1(keys.privateKey, [certificate], process.env.SIGNING_P12_PASSWORD || '', {
+    algorithm: '3des'
+  });
+  try {
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, Buffer.from(asn1.toDer(p12).getBytes(), 'binary'), { mode: 0o600 });
+    console.log(`Certificat du service d'horodatage local créé : ${target}`);
+  } catch (error) {
+    // Répertoire en lecture seule : le certificat ne vaut que pour ce processus
+    console.warn(`Impossible d'enregistrer ${target}, certificat d'horodatage local conservé en mémoire :`, error);
+  }
+
+  return { privateKey: keys.privateKey, certificate, chain: [], source: target };
+}
+
+/**
+ * Identifiants du service d'horodatage local : <SIGNING_KEYS_DIR>/tsa.p12 (ou tsa.key.pem + tsa.cert.pem),
+ * créés au premier usage s'ils n'existent pas
+ */
+function getLocalTsaCredentials(): SigningCredentials {
+  if (!localTsaCredentials) {
+    const basePath = path.join(getSigningKeysDir(), 'tsa');
+    localTsaCredentials = loadCredentialsAt(basePath) ?? createLocalTsaCredentials(`${basePath}.p12`);
+  }
+  return localTsaCredentials;
+}
+
+/**
+ * Service d'horodatage local, de substitution pour les tests et le fonctionnement hors ligne :
+ * répond à une requête TimeStampReq encodée en DER par une TimeStampResp, horodatée avec l'horloge du serveur
+ */
+function issueLocalTimestamp(request: Buffer): Buffer {
+  const fields = children(fromDer(request));
+  const messageImprint = fields[1];
+  const nonce = fields.slice(2).find(node => node.tagClass === asn1.Class.UNIVERSAL && node.type === asn1.Type.INTEGER);
+
+  // Seules les empreintes SHA-256 sont acceptées (PKIStatus rejection)
+  if (oidOf(children(children(messageImprint)[0])[0]) !== OID.sha256) {
+    return toDer(sequence([sequence([integer(2)])]));
+  }
+
+  const tstInfo = toDer(sequence([
+    integer(1),
+    oid(LOCAL_TSA_POLICY),
+    messageImprint,
+    integerFromBytes(randomBytes(16)),
+    generalizedTime(new Date()),
+    // accuracy : une seconde
+    sequence([integer(1)]),
+    ...(nonce ? [nonce] : [])
+  ]));
+
+  const token = createTimestampToken(tstInfo, getLocalTsaCredentials());
+  return toDer(sequence([sequence([integer(0)]), fromDer(token)]));
+}
+
+/**
+ * Transmet une requête d'horodatage à l'autorité configurée
+ */
+async function sendTimestampRequest(url: string, request: Buffer): Promise<Buffer> {
+  let response: globalThis.Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/timestamp-query' },
+      body: request,
+      signal: AbortSignal.timeout(TSA_TIMEOUT_MS)
+    });
+  } catch {
+    throw new TimestampError(`L'autorité d'horodatage ${url} est injoignable`);
+  }
+  if (!response.ok) {
+    throw new TimestampError(`L'autorité d'horodatage a répondu par une erreur HTTP ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Demande un jeton d'horodatage RFC 3161 pour une empreinte SHA-256,
+ * à l'autorité configurée (TSA_URL, dont le certificat TSA_CERT est exigé) ou au service local.
+ * Le jeton est vérifié (empreinte, nonce, signature) avant d'être retourné, encodé en DER.
+ */
+export async function requestTimestamp(digest: Buffer): Promise<Buffer> {
+  const nonce = randomBytes(8);
+  // TimeStampReq ::= SEQUENCE { version, messageImprint, nonce, certReq }
+  const request = toDer(sequence([
+    integer(1),
+    sequence([algorithmIdentifier(OID.sha256), octetString(digest)]),
+    integerFromBytes(nonce),
+    boolean(true)
+  ]));
+
+  const url = getTsaUrl();
+  if (url && !process.env.TSA_CERT) {
+    throw new TimestampError('Le certificat de l\'autorité d\'horodatage (TSA_CERT) n\'est pas configuré', 503);
+  }
+  if (!url && !localTsaWarned) {
+    localTsaWarned = true;
+    console.warn('TSA_URL non défini : horodatage par le service local, avec l\'horloge du serveur, sans valeur probante hors des tests et du fonctionnement hors ligne');
+  }
+  const response = url ? await sendTimestampRequest(url, request) : issueLocalTimestamp(request);
+
+  // TimeStampResp ::= SEQUENCE { status PKIStatusInfo, timeStampToken ContentInfo OPTIONAL }
+  let token: Buffer | undefined;
+  let status: number | undefined;
+  try {
+    const [statusInfo, tokenNode] = children(fromDer(response));
+    status = asn1.derToInteger(String(children(statusInfo)[0].value));
+    token = tokenNode && toDer(tokenNode);
+  } catch {
+    throw new TimestampError('Réponse d\'horodatage illisible');
+  }
+  if (!GRANTED_STATUSES.includes(status) || !token) {
+    throw new TimestampError(`L'autorité d'horodatage a refusé la demande (statut ${status})`);
+  }
+
+  const verification = verifyTimestampToken(token, digest);
+  if (!verification.valid) {
+    throw new TimestampError(`Jeton d'horodatage rejeté : ${verification.error}`);
+  }
+  const parsedNonce = parseTimestampToken(token).nonce;
+  if (!parsedNonce || !stripLeadingZeros(parsedNonce).equals(stripLeadingZeros(nonce))) {
+    throw new TimestampError('Jeton d\'horodatage rejeté : le nonce ne correspond pas à la demande');
+  }
+  return token;
+}
+
+/**
+ * Jeton d'horodatage d'une signature CMS (attribut non signé signature-time-stamp)
+ * et empreinte SHA-256 de la valeur de signature qu'il doit couvrir ; undefined si la signature n'est pas horodatée
+ */
+export function extractSignatureTimestamp(cms: Buffer): { token: Buffer; digest: Buffer } | undefined {
+  // /Contents est complété par des zéros après la structure CMS
+  const contentInfo = children(fromDer(cms.subarray(0, derLength(cms))));
+  const signedData = children(children(contentInfo[1])[0]);
+  const signerInfo = children(children(signedData[signedData.length - 1])[0]);
+
+  const signatureIndex = signerInfo[3]?.tagClass === asn1.Class.CONTEXT_SPECIFIC ? 5 : 4;
+  const unsignedAttributes = children(findTagged(signerInfo.slice(signatureIndex + 1), 1));
+  const timestamp = unsignedAttributes
+    .map(children)
+    .find(attribute => oidOf(attribute[0]) === OID.signatureTimeStampToken);
+  if (!timestamp) {
+    return undefined;
+  }
+
+  return {
+    token: toDer(children(timestamp[1])[0]),
+    digest: createHash('sha256').update(bytesOf(signerInfo[signatureIndex])).digest()
+  };
+}
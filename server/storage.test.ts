@@ -0,0 +1,257 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { createDatabase, type Database } from './db';
+import { DrizzleStorage } from './storage';
+import { isPasswordHash } from './password';
+import { buildAuditChainReport } from './auditChain';
+import { getBlobStore } from './blobs';
+
+// Stockage des contenus et fichier de clés propres au test, lus à leur première utilisation
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+process.env.BLOB_STORE = 'local';
+process.env.BLOB_DIR = path.join(workDir, 'blobs');
+process.env.ENCRYPTION_KEYFILE = path.join(workDir, 'encryption-keys.json');
+
+// Contenu enregistré dans la base avant l'introduction du stockage des contenus
+const LEGACY_CONTENT = Buffer.from('%PDF-1.4 document importé avant les migrations');
+
+function sha256(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Applique les migrations jusqu'à la migration donnée incluse, comme une base créée avec une version antérieure
+ */
+async function migrateUntil(db: Database, lastTag: string): Promise<void> {
+  const source = path.join(process.cwd(), 'migrations');
+  const journal = JSON.parse(fs.readFileSync(path.join(source, 'meta', '_journal.json'), 'utf8'));
+  const entries = journal.entries.slice(0, journal.entries.findIndex((entry: { tag: string }) => entry.tag === lastTag) + 1);
+
+  const folder = path.join(workDir, 'migrations');
+  fs.mkdirSync(path.join(folder, 'meta'), { recursive: true });
+  fs.writeFileSync(path.join(folder, 'meta', '_journal.json'), JSON.stringify({ ...journal, entries }));
+  for (const entry of entries) {
+    fs.copyFileSync(path.join(source, `${entry.tag}.sql`), path.join(folder, `${entry.tag}.sql`));
+  }
+  await migrate(db, { migrationsFolder: folder });
+}
+
+describe('DrizzleStorage (PostgreSQL PGlite)', () => {
+  let pglite: PGlite;
+  let server: PGLiteSocketServer;
+  let database: ReturnType<typeof createDatabase>;
+  let storage: DrizzleStorage;
+  let legacyDocumentId: number;
+
+  before(async () => {
+    pglite = await PGlite.create();
+    server = new PGLiteSocketServer({ db: pglite, port: 0, maxConnections: 10 });
+    await server.start();
+    database = createDatabase(`postgres://postgres@${server.getServerConn()}/postgres`);
+    storage = new DrizzleStorage(database.db, database.pool);
+
+    // Base créée avec la première migration : mot de passe en clair, contenu dans la table documents,
+    // entrées du journal antérieures au chaînage
+    await migrateUntil(database.db, '0000_init');
+    const { rows: [user] } = await database.pool.query(
+      `INSERT INTO users (username, password, name, initials, company)
+       VALUES ('marie', 'mot-de-passe', 'Marie Lefebvre', 'ML', 'Lefebvre Conseil') RETURNING id`
+    );
+    const { rows: [document] } = await database.pool.query(
+      `INSERT INTO documents (name, uid, token, content, content_type, size, creator_id)
+       VALUES ('ancien.pdf', 'UID-ANCIEN', 'DOC-ANCIEN', $1, 'application/pdf', '0.00 MB', $2) RETURNING id`,
+      [LEGACY_CONTENT.toString('base64'), user.id]
+    );
+    legacyDocumentId = document.id;
+    await database.pool.query(
+      `INSERT INTO audit_logs (document_id, user_id, action, timestamp, details) VALUES
+       ($1, $2, 'upload', '2024-01-01T10:00:00Z', 'Importation'),
+       ($1, $2, 'view', '2024-01-02T10:00:00Z', NULL)`,
+      [document.id, user.id]
+    );
+  });
+
+  after(async () => {
+    await database.pool.end();
+    await server.stop();
+    await pglite.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('migre une base existante et reprend ses données au démarrage', async () => {
+    await storage.init();
+
+    const marie = (await storage.getUserByUsername('marie'))!;
+    assert.ok(isPasswordHash(marie.password));
+    assert.ok(await storage.getUserByUsername('remi.guillette'));
+
+    const company = (await storage.getCompanyByName('Lefebvre Conseil'))!;
+    const document = (await storage.getDocument(legacyDocumentId))!;
+    assert.equal(document.companyId, company.id);
+    assert.equal(document.originalHash, sha256(LEGACY_CONTENT));
+
+    // 0007 : le contenu devient la version 1, dont dérive la copie marquée créée par 0003
+    const [version] = await storage.getDocumentVersions(document.id);
+    assert.equal(version.version, 1);
+    assert.equal(version.hash, sha256(LEGACY_CONTENT));
+    assert.equal(document.currentVersionId, version.id);
+    const [rendition] = await storage.getDocumentRenditions(document.id);
+    assert.equal(rendition.kind, 'stamped');
+    assert.equal(rendition.versionId, version.id);
+
+    // 0016 puis moveLegacyContents : le contenu est chiffré dans le stockage des contenus
+    assert.deepEqual(await storage.getBlobContent(version.hash), LEGACY_CONTENT);
+    assert.notDeepEqual(await getBlobStore().get(version.hash), LEGACY_CONTENT);
+    const { rows: legacy } = await database.pool.query('SELECT hash FROM legacy_contents');
+    assert.equal(legacy.length, 0);
+    assert.equal((await storage.getDataKeys()).length, 1);
+
+    // sealLegacyAuditLogs : les entrées existantes sont chaînées dans leur ordre d'origine
+    const logs = await storage.getAllAuditLogs();
+    assert.deepEqual(logs.map(log => [log.action, log.sequence, log.documentSequence]), [['upload', 1, 1], ['view', 2, 2]]);
+    assert.ok(buildAuditChainReport(document.id, logs).valid);
+  });
+
+  it('peut être initialisé de nouveau sans rien modifier', async () => {
+    const { rows: usersBefore } = await database.pool.query('SELECT id, password FROM users ORDER BY id');
+    const logsBefore = await storage.getAllAuditLogs();
+
+    await storage.init();
+
+    const { rows: usersAfter } = await database.pool.query('SELECT id, password FROM users ORDER BY id');
+    assert.deepEqual(usersAfter, usersBefore);
+    assert.deepEqual(await storage.getAllAuditLogs(), logsBefore);
+    assert.equal((await storage.getDataKeys()).length, 1);
+  });
+
+  it('refuse la modification et la suppression des entrées du journal', async () => {
+    await assert.rejects(database.pool.query(`UPDATE audit_logs SET action = 'delete'`), /ajout seul/);
+    await assert.rejects(database.pool.query('DELETE FROM audit_logs'), /ajout seul/);
+    await assert.rejects(database.pool.query('TRUNCATE audit_logs'), /ajout seul/);
+    assert.equal((await storage.getAllAuditLogs()).length, 2);
+  });
+
+  it('enregistre les utilisateurs, documents et versions', async () => {
+    const user = await storage.createUser({
+      username: 'paul',
+      password: 'hash',
+      name: 'Paul Martin',
+      initials: 'PM',
+      company: 'Martin Associés',
+      isAdmin: false
+    });
+    assert.deepEqual(await storage.getUser(user.id), user);
+    const company = (await storage.getCompanyByName('Martin Associés'))!;
+    assert.equal(company.code.length > 0, true);
+
+    const content = Buffer.from('%PDF-1.7 nouveau document');
+    const document = await storage.createDocument({
+      name: 'nouveau.pdf',
+      uid: 'UID-NOUVEAU',
+      token: 'DOC-NOUVEAU',
+      contentType: 'application/pdf',
+      creatorId: user.id,
+      companyId: company.id
+    });
+    const version = await storage.createDocumentVersion({
+      documentId: document.id,
+      contentType: 'application/pdf',
+      size: '0.00 MB',
+      creatorId: user.id,
+      reason: 'upload'
+    }, content);
+
+    const stored = (await storage.getDocumentByUid('UID-NOUVEAU'))!;
+    assert.equal(version.hash, sha256(content));
+    assert.equal(stored.currentVersionId, version.id);
+    assert.equal(stored.originalHash, version.hash);
+    assert.deepEqual(await storage.getBlobContent(version.hash), content);
+    assert.equal((await storage.updateDocument(document.id, { name: 'renommé.pdf' })).name, 'renommé.pdf');
+
+    const marie = (await storage.getUserByUsername('marie'))!;
+    assert.deepEqual((await storage.getDocumentsForUser(marie.id)).map(doc => doc.id), [legacyDocumentId]);
+    await storage.createDocumentShare({ documentId: document.id, userId: marie.id, permission: 'read' });
+    assert.equal((await storage.getDocumentShare(document.id, marie.id))?.permission, 'read');
+    assert.equal((await storage.getDocumentsForUser(marie.id)).length, 2);
+  });
+
+  it('chaîne les nouvelles entrées du journal à la suite des anciennes', async () => {
+    const marie = (await storage.getUserByUsername('marie'))!;
+    const first = await storage.createAuditLog({ documentId: legacyDocumentId, userId: marie.id, action: 'download', details: null });
+    const second = await storage.createAuditLog({ documentId: legacyDocumentId, userId: marie.id, action: 'print', details: null });
+
+    assert.equal(first.sequence, 3);
+    assert.equal(second.previousHash, first.hash);
+    assert.equal(second.documentPreviousHash, first.hash);
+    assert.ok(buildAuditChainReport(legacyDocumentId, await storage.getAllAuditLogs()).valid);
+  });
+
+  it('supprime un document avec ses partages, ou rien en cas d\'échec', async () => {
+    const document = (await storage.getDocumentByUid('UID-NOUVEAU'))!;
+    const marie = (await storage.getUserByUsername('marie'))!;
+
+    // Échec de la dernière suppression : les versions et partages déjà supprimés sont rétablis
+    await database.pool.query(`
+      CREATE FUNCTION refuse_document_delete() RETURNS trigger AS $$
+      BEGIN RAISE EXCEPTION 'suppression refusée'; END;
+      $$ LANGUAGE plpgsql`);
+    await database.pool.query('CREATE TRIGGER refuse_document_delete BEFORE DELETE ON documents FOR EACH ROW EXECUTE FUNCTION refuse_document_delete()');
+    await assert.rejects(storage.deleteDocument(document.id), /suppression refusée/);
+    await database.pool.query('DROP TRIGGER refuse_document_delete ON documents');
+    assert.equal((await storage.getDocumentVersions(document.id)).length, 1);
+    assert.ok(await storage.getDocumentShare(document.id, marie.id));
+    assert.deepEqual(await storage.getBlobContent(document.originalHash!), Buffer.from('%PDF-1.7 nouveau document'));
+
+    await storage.deleteDocument(document.id);
+    assert.equal(await storage.getDocument(document.id), undefined);
+    assert.equal(await storage.getDocumentShare(document.id, marie.id), undefined);
+    assert.deepEqual((await storage.getDocumentsForUser(marie.id)).map(doc => doc.id), [legacyDocumentId]);
+  });
+
+  it('conserve un contenu partagé jusqu\'à la suppression de son dernier document', async () => {
+    const user = (await storage.getUserByUsername('paul'))!;
+    const content = Buffer.from('%PDF-1.7 contenu partagé');
+    const dataKeysBefore = (await storage.getDataKeys()).length;
+
+    const documentIds: number[] = [];
+    for (const uid of ['UID-A', 'UID-B']) {
+      const document = await storage.createDocument({ name: `${uid}.pdf`, uid, token: uid, contentType: 'application/pdf', creatorId: user.id });
+      await storage.createDocumentVersion({ documentId: document.id, contentType: 'application/pdf', size: '0.00 MB', creatorId: user.id, reason: 'upload' }, content);
+      documentIds.push(document.id);
+    }
+    assert.equal((await storage.getDataKeys()).length, dataKeysBefore + 1);
+
+    await storage.deleteDocument(documentIds[0]);
+    assert.equal(await storage.getDocument(documentIds[0]), undefined);
+    assert.deepEqual(await storage.getBlobContent(sha256(content)), content);
+
+    await storage.deleteDocument(documentIds[1]);
+    await assert.rejects(storage.getBlobContent(sha256(content)), /not found/);
+    await assert.rejects(getBlobStore().get(sha256(content)), /introuvable/);
+    assert.equal((await storage.getDataKeys()).length, dataKeysBefore);
+  });
+
+  it('conserve un contenu importé de nouveau pendant la suppression de son dernier document', async () => {
+    const user = (await storage.getUserByUsername('paul'))!;
+    const content = Buffer.from('%PDF-1.7 contenu réimporté');
+    const upload = { contentType: 'application/pdf', size: '0.00 MB', creatorId: user.id, reason: 'upload' };
+
+    const deleted = await storage.createDocument({ name: 'supprimé.pdf', uid: 'UID-SUPPRIME', token: 'UID-SUPPRIME', contentType: 'application/pdf', creatorId: user.id });
+    await storage.createDocumentVersion({ ...upload, documentId: deleted.id }, content);
+    const imported = await storage.createDocument({ name: 'réimporté.pdf', uid: 'UID-REIMPORTE', token: 'UID-REIMPORTE', contentType: 'application/pdf', creatorId: user.id });
+
+    const [version] = await Promise.all([
+      storage.createDocumentVersion({ ...upload, documentId: imported.id }, content),
+      storage.deleteDocument(deleted.id)
+    ]);
+    assert.deepEqual(await storage.getBlobContent(version.hash), content);
+    assert.deepEqual(await storage.getBlobContent((await storage.getDocument(imported.id))!.originalHash!), content);
+  });
+});
@@ -1,67 +1,344 @@
 import { 
   User, 
   InsertUser, 
+  Company,
+  InsertCompany,
   Document, 
   InsertDocument, 
   AuditLog, 
   InsertAuditLog,
   DocumentShare,
-  InsertDocumentShare
+  InsertDocumentShare,
+  DocumentVersion,
+  DocumentVersionMetadata,
+  InsertDocumentVersion,
+  DocumentRendition,
+  InsertDocumentRendition,
+  RenditionKind,
+  StampProfile,
+  InsertStampProfile,
+  SignatureRequest,
+  InsertSignatureRequest,
+  SignatureRequestSigner,
+  DocumentSignature,
+  InsertDocumentSignature,
+  SignatureField,
+  InsertSignatureField,
+  UserSignature,
+  InsertUserSignature,
+  TimestampToken,
+  InsertTimestampToken,
+  MerkleAnchor,
+  InsertMerkleAnchor,
+  MerkleLeaf,
+  InsertMerkleLeaf,
+  MerkleLeafKind,
+  MerkleLeafSource,
+  QuarantinedUpload,
+  InsertQuarantinedUpload,
+  ScanStatus,
+  StoredBlob,
+  DataKey,
+  users,
+  companies,
+  documents,
+  documentVersions,
+  documentRenditions,
+  stampProfiles,
+  signatureRequests,
+  signatureRequestSigners,
+  documentSignatures,
+  signatureFields,
+  userSignatures,
+  timestampTokens,
+  merkleAnchors,
+  merkleLeaves,
+  quarantinedUploads,
+  blobs,
+  legacyContents,
+  dataKeys,
+  auditLogs,
+  documentShares
 } from "@shared/schema";
+import { and, asc, desc, eq, inArray, isNotNull, isNull, or, sql } from "drizzle-orm";
+import { createHash } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import type pg from "pg";
+import { createDatabase, resolveStorageDriver, runMigrations, type Database } from "./db";
+import { hashPassword, isPasswordHash } from "./password";
+import { chainAuditLog } from "./auditChain";
+import { deriveCompanyCode } from "./companies";
+import { assertKeyfileAvailable, openContent, sealContent } from "./encryption";
+import { getBlobStore } from "./blobs";
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Ordre des empreintes d'un ancrage : versions, renditions puis entrées du journal
+const MERKLE_LEAF_KINDS: MerkleLeafKind[] = ["version", "rendition", "audit_log"];
+const MERKLE_LEAF_BATCH_SIZE = 500;
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Société de l'utilisateur initial
+const defaultCompany: InsertCompany = {
+  name: "Rémi Guillette Consulting",
+  code: "RGC",
+  issuerName: "Rémi Guillette Consulting",
+  authorName: "Rémi Guillette",
+  verificationBaseUrl: null
+};
+
+// Utilisateur initial présent dans chaque stockage (mot de passe en clair, haché à la création)
+const defaultUser: InsertUser = {
+  username: "remi.guillette",
+  password: "password123",
+  name: "Rémi Guillette",
+  initials: "RG",
+  company: defaultCompany.name,
+  isAdmin: true
+};
+
+/**
+ * Champs du document mis à jour par l'ajout d'une version : elle devient la version courante et,
+ * s'il s'agit d'un nouvel original (importation, remplacement), son contenu (désigné par son empreinte)
+ * sert aux copies marquées
+ */
+function versionedDocumentFields(version: DocumentVersion): Partial<Document> {
+  if (version.reason === 'signature') {
+    return { currentVersionId: version.id };
+  }
+  return {
+    currentVersionId: version.id,
+    originalHash: version.hash,
+    contentType: version.contentType,
+    size: version.size
+  };
+}
+
+/**
+ * Empreinte SHA-256 (hex) d'un contenu, sa clé dans le stockage des contenus
+ */
+function blobHash(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Verrouille une empreinte jusqu'à la fin de la transaction : l'enregistrement d'un contenu avec sa référence
+ * et sa libération (releaseBlobs) s'exécutent ainsi l'un après l'autre
+ */
+async function lockBlob(tx: Transaction, hash: string): Promise<void> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtextextended(${hash}, 0))`);
+}
 
 export interface IStorage {
+  // Prépare le stockage (société et utilisateur initiaux) ; appelé une fois avant le démarrage du serveur
+  init(): Promise<void>;
+
+  // Session store used by express-session
+  sessionStore: session.Store;
+
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: InsertUser): Promise<User>; // Crée aussi la société de l'utilisateur si elle n'existe pas
+
+  // Saved handwritten signature operations (one per user)
+  getUserSignature(userId: number): Promise<UserSignature | undefined>;
+  saveUserSignature(signature: InsertUserSignature): Promise<UserSignature>; // Remplace la signature enregistrée
+  deleteUserSignature(userId: number): Promise<void>;
+
+  // Company operations (users.company holds the company name)
+  getCompany(id: number): Promise<Company | undefined>;
+  getCompanyByName(name: string): Promise<Company | undefined>;
+  createCompany(company: InsertCompany): Promise<Company>;
+  ensureCompany(name: string): Promise<Company>; // Société existante, sinon créée avec un code dérivé de son nom
+  updateCompany(id: number, company: Partial<InsertCompany>): Promise<Company>;
   
   // Document operations
   getAllDocuments(): Promise<Document[]>;
+  getDocumentsForUser(userId: number): Promise<Document[]>; // Owned or shared with the user
   getDocument(id: number): Promise<Document | undefined>;
+  getDocumentByUid(uid: string): Promise<Document | undefined>;
+  getDocumentByToken(token: string): Promise<Document | undefined>;
   createDocument(document: InsertDocument): Promise<Document>;
   updateDocument(id: number, document: Partial<Document>): Promise<Document>;
   deleteDocument(id: number): Promise<void>;
+  getDocumentsByScanStatus(status: ScanStatus): Promise<Document[]>;
+
+  // Version operations (immutable content history, the document points to its current version)
+  getDocumentVersions(documentId: number): Promise<DocumentVersionMetadata[]>; // Par numéro croissant, sans le contenu
+  getDocumentVersion(id: number): Promise<DocumentVersion | undefined>;
+  createDocumentVersion(version: InsertDocumentVersion, content: Buffer, changes?: Partial<Document>): Promise<DocumentVersion>; // Numérotée à la suite, elle devient la version courante ; son contenu est stocké et changes est appliqué au document dans la même opération
+
+  // Rendition operations (copies derived from an original version, created once)
+  getDocumentRenditions(documentId: number): Promise<DocumentRendition[]>;
+  getDocumentRendition(versionId: number, kind: RenditionKind): Promise<DocumentRendition | undefined>;
+  createDocumentRendition(rendition: InsertDocumentRendition, content: Buffer): Promise<DocumentRendition>; // Stocke son contenu ; renvoie la rendition existante si elle a déjà été créée
+
+  // Signature workflow operations
+  getSignatureRequests(documentId: number): Promise<SignatureRequest[]>; // Plus récentes d'abord
+  getSignatureRequest(id: number): Promise<SignatureRequest | undefined>;
+  createSignatureRequest(request: InsertSignatureRequest, signerIds: number[]): Promise<SignatureRequest>; // Crée une tâche par signataire, dans l'ordre, et met le document en attente de signatures
+  updateSignatureRequest(id: number, changes: Partial<SignatureRequest>): Promise<SignatureRequest>;
+  getSignatureRequestSigners(requestId: number): Promise<SignatureRequestSigner[]>; // Par position
+  getPendingSignerTasks(userId: number): Promise<SignatureRequestSigner[]>; // Tâches de l'utilisateur non traitées, dans les demandes en cours
+  updateSignatureRequestSigner(id: number, changes: Partial<SignatureRequestSigner>): Promise<SignatureRequestSigner>;
+  getDocumentSignatures(documentId: number): Promise<DocumentSignature[]>; // Par ordre chronologique
+  createDocumentSignature(signature: InsertDocumentSignature): Promise<DocumentSignature>;
+
+  // Signature field operations
+  getSignatureFields(documentId: number): Promise<SignatureField[]>; // Par page puis par date de création
+  getSignatureField(id: number): Promise<SignatureField | undefined>;
+  createSignatureField(field: InsertSignatureField): Promise<SignatureField>;
+  updateSignatureField(id: number, changes: Partial<SignatureField>): Promise<SignatureField>;
+  deleteSignatureField(id: number): Promise<void>;
+
+  // Timestamp token operations (RFC 3161 tokens of stored files and signatures)
+  getTimestampTokens(documentId: number): Promise<TimestampToken[]>; // Par ordre d'obtention
+  createTimestampToken(token: InsertTimestampToken): Promise<TimestampToken>;
+
+  // Merkle anchor operations (periodic anchoring of the registry hashes, kept when a document is deleted)
+  getUnanchoredHashes(): Promise<MerkleLeafSource[]>; // Versions, renditions puis entrées scellées du journal, par id
+  createMerkleAnchor(anchor: InsertMerkleAnchor, leaves: Omit<InsertMerkleLeaf, "anchorId">[]): Promise<MerkleAnchor>; // Ancrage et feuilles en une fois
+  getLatestMerkleAnchor(): Promise<MerkleAnchor | undefined>;
+  getMerkleAnchor(id: number): Promise<MerkleAnchor | undefined>;
+  getMerkleLeaf(kind: MerkleLeafKind, sourceId: number): Promise<MerkleLeaf | undefined>;
+
+  // Stamp profile operations (shared by the users of a company)
+  getStampProfilesByCompany(company: string): Promise<StampProfile[]>;
+  getStampProfile(id: number): Promise<StampProfile | undefined>;
+  getStampProfileByName(company: string, name: string): Promise<StampProfile | undefined>;
+  createStampProfile(profile: InsertStampProfile): Promise<StampProfile>;
+  updateStampProfile(id: number, profile: Partial<InsertStampProfile>): Promise<StampProfile>;
+  deleteStampProfile(id: number): Promise<void>;
   
   // Audit log operations
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
   getAuditLogsByDocumentId(documentId: number): Promise<AuditLog[]>;
+  getAllAuditLogs(): Promise<AuditLog[]>; // Ordre de la chaîne globale
   
+  // Blob operations (contenus chiffrés, adressés par leur SHA-256 dans le stockage des contenus ;
+  // enregistrés avec la version ou la rendition qui les désigne, un contenu déjà stocké n'est pas réécrit)
+  getBlobContent(hash: string): Promise<Buffer>;
+
+  // Data key operations
+  getDataKeys(): Promise<DataKey[]>;
+  updateDataKey(id: number, changes: Partial<DataKey>): Promise<DataKey>;
+
+  // Quarantined upload operations
+  getQuarantinedUploads(): Promise<QuarantinedUpload[]>; // Les plus récents d'abord
+  getQuarantinedUpload(id: number): Promise<QuarantinedUpload | undefined>;
+  createQuarantinedUpload(upload: InsertQuarantinedUpload): Promise<QuarantinedUpload>;
+  updateQuarantinedUpload(id: number, changes: Partial<QuarantinedUpload>): Promise<QuarantinedUpload>;
+
   // Document share operations
   getDocumentShares(documentId: number): Promise<any[]>; // Returns user info with share details
+  getDocumentShare(documentId: number, userId: number): Promise<DocumentShare | undefined>;
   createDocumentShare(share: InsertDocumentShare): Promise<DocumentShare>;
   removeDocumentShare(documentId: number, userId: number): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<number, User>;
+  private companies: Map<number, Company>;
   private documents: Map<number, Document>;
+  private documentVersions: Map<number, DocumentVersion>;
+  private documentRenditions: Map<number, DocumentRendition>;
   private auditLogs: Map<number, AuditLog>;
   private documentShares: Map<number, DocumentShare>;
+  private stampProfiles: Map<number, StampProfile>;
+  private signatureRequests: Map<number, SignatureRequest>;
+  private signatureRequestSigners: Map<number, SignatureRequestSigner>;
+  private documentSignatures: Map<number, DocumentSignature>;
+  private signatureFields: Map<number, SignatureField>;
+  private userSignatures: Map<number, UserSignature>;
+  private timestampTokens: Map<number, TimestampToken>;
+  private merkleAnchors: Map<number, MerkleAnchor>;
+  private merkleLeaves: Map<number, MerkleLeaf>;
+  private quarantinedUploads: Map<number, QuarantinedUpload>;
+  private blobs: Map<string, StoredBlob>;
+  private dataKeys: Map<number, DataKey>;
   private userId: number;
+  private companyId: number;
   private documentId: number;
+  private documentVersionId: number;
+  private documentRenditionId: number;
   private auditLogId: number;
   private documentShareId: number;
+  private stampProfileId: number;
+  private signatureRequestId: number;
+  private signatureRequestSignerId: number;
+  private documentSignatureId: number;
+  private signatureFieldId: number;
+  private userSignatureId: number;
+  private timestampTokenId: number;
+  private merkleAnchorId: number;
+  private merkleLeafId: number;
+  private quarantinedUploadId: number;
+  private dataKeyId: number;
+  // Dernière opération en cours sur chaque contenu (enregistrement ou libération), que la suivante attend
+  private blobLocks = new Map<string, Promise<unknown>>();
 
   constructor() {
     this.users = new Map();
+    this.companies = new Map();
     this.documents = new Map();
+    this.documentVersions = new Map();
+    this.documentRenditions = new Map();
     this.auditLogs = new Map();
     this.documentShares = new Map();
+    this.stampProfiles = new Map();
+    this.signatureRequests = new Map();
+    this.signatureRequestSigners = new Map();
+    this.documentSignatures = new Map();
+    this.signatureFields = new Map();
+    this.userSignatures = new Map();
+    this.timestampTokens = new Map();
+    this.merkleAnchors = new Map();
+    this.merkleLeaves = new Map();
+    this.quarantinedUploads = new Map();
+    this.blobs = new Map();
+    this.dataKeys = new Map();
     this.userId = 1;
+    this.companyId = 1;
     this.documentId = 1;
+    this.documentVersionId = 1;
+    this.documentRenditionId = 1;
     this.auditLogId = 1;
     this.documentShareId = 1;
-    
-    // Initialize with Rémi Guillette user
-    this.createUser({
-      username: "remi.guillette",
-      password: "password123",
-      name: "Rémi Guillette",
-      initials: "RG",
-      company: "Rémi Guillette Consulting"
+    this.stampProfileId = 1;
+    this.signatureRequestId = 1;
+    this.signatureRequestSignerId = 1;
+    this.documentSignatureId = 1;
+    this.signatureFieldId = 1;
+    this.userSignatureId = 1;
+    this.timestampTokenId = 1;
+    this.merkleAnchorId = 1;
+    this.merkleLeafId = 1;
+    this.quarantinedUploadId = 1;
+    this.dataKeyId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000 // Purge des sessions expirées toutes les 24h
     });
   }
 
+  /**
+   * Crée la société et l'utilisateur initiaux s'ils n'existent pas
+   */
+  async init(): Promise<void> {
+    if (!(await this.getCompanyByName(defaultCompany.name))) {
+      await this.createCompany(defaultCompany);
+    }
+
+    if (!(await this.getUserByUsername(defaultUser.username))) {
+      await this.createUser({ ...defaultUser, password: await hashPassword(defaultUser.password) });
+    }
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
@@ -74,17 +351,92 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    if (insertUser.company) {
+      await this.ensureCompany(insertUser.company);
+    }
+
     const id = this.userId++;
     const user: User = { 
       ...insertUser, 
       id,
       // S'assurer que le champ company est défini explicitement
-      company: insertUser.company || null
+      company: insertUser.company || null,
+      isAdmin: insertUser.isAdmin ?? false
     };
     this.users.set(id, user);
     return user;
   }
 
+  // Saved handwritten signature operations (indexed by user)
+  async getUserSignature(userId: number): Promise<UserSignature | undefined> {
+    return this.userSignatures.get(userId);
+  }
+
+  async saveUserSignature(insertSignature: InsertUserSignature): Promise<UserSignature> {
+    const signature: UserSignature = {
+      ...insertSignature,
+      id: this.userSignatures.get(insertSignature.userId)?.id ?? this.userSignatureId++,
+      typedName: insertSignature.typedName ?? null,
+      updatedAt: new Date()
+    };
+    this.userSignatures.set(signature.userId, signature);
+    return signature;
+  }
+
+  async deleteUserSignature(userId: number): Promise<void> {
+    this.userSignatures.delete(userId);
+  }
+
+  // Company operations
+  async getCompany(id: number): Promise<Company | undefined> {
+    return this.companies.get(id);
+  }
+
+  async getCompanyByName(name: string): Promise<Company | undefined> {
+    return Array.from(this.companies.values()).find(company => company.name === name);
+  }
+
+  async createCompany(insertCompany: InsertCompany): Promise<Company> {
+    const id = this.companyId++;
+    const company: Company = {
+      ...insertCompany,
+      id,
+      createdAt: new Date(),
+      verificationBaseUrl: insertCompany.verificationBaseUrl ?? null
+    };
+    this.companies.set(id, company);
+    return company;
+  }
+
+  async ensureCompany(name: string): Promise<Company> {
+    const existing = await this.getCompanyByName(name);
+    if (existing) {
+      return existing;
+    }
+
+    const takenCodes = new Set(Array.from(this.companies.values()).map(company => company.code));
+    return this.createCompany({
+      name,
+      code: deriveCompanyCode(name, takenCodes),
+      issuerName: name,
+      authorName: name,
+      verificationBaseUrl: null
+    });
+  }
+
+  async updateCompany(id: number, partialCompany: Partial<InsertCompany>): Promise<Company> {
+    const company = this.companies.get(id);
+    if (!company) {
+      throw new Error(`Company with ID ${id} not found`);
+    }
+
+    // Le nom et le code, inscrits dans les UID, ne sont jamais modifiés
+    const { name: _name, code: _code, ...changes } = partialCompany;
+    const updatedCompany: Company = { ...company, ...changes };
+    this.companies.set(id, updatedCompany);
+    return updatedCompany;
+  }
+
   // Document operations
   async getAllDocuments(): Promise<Document[]> {
     return Array.from(this.documents.values()).sort((a, b) => 
@@ -92,10 +444,30 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getDocumentsForUser(userId: number): Promise<Document[]> {
+    const sharedIds = new Set(
+      Array.from(this.documentShares.values())
+        .filter(share => share.userId === userId)
+        .map(share => share.documentId)
+    );
+
+    return (await this.getAllDocuments()).filter(doc =>
+      doc.creatorId === userId || sharedIds.has(doc.id)
+    );
+  }
+
   async getDocument(id: number): Promise<Document | undefined> {
     return this.documents.get(id);
   }
 
+  async getDocumentByUid(uid: string): Promise<Document | undefined> {
+    return Array.from(this.documents.values()).find(doc => doc.uid === uid);
+  }
+
+  async getDocumentByToken(token: string): Promise<Document | undefined> {
+    return Array.from(this.documents.values()).find(doc => doc.token === token);
+  }
+
   async createDocument(insertDocument: InsertDocument): Promise<Document> {
     const id = this.documentId++;
     const now = new Date();
@@ -105,10 +477,17 @@ export class MemStorage implements IStorage {
       createdAt: now,
       updatedAt: now,
       // S'assurer que les champs nullables sont définis explicitement
-      content: insertDocument.content || null,
       size: insertDocument.size || null,
       isSigned: insertDocument.isSigned || false,
-      signatureData: insertDocument.signatureData || null
+      signatureData: insertDocument.signatureData || null,
+      originalHash: insertDocument.originalHash || null,
+      addToken: insertDocument.addToken ?? true,
+      qrStamp: insertDocument.qrStamp || null,
+      stampLayout: insertDocument.stampLayout || null,
+      companyId: insertDocument.companyId ?? null,
+      currentVersionId: insertDocument.currentVersionId ?? null,
+      signatureStatus: insertDocument.signatureStatus ?? 'draft',
+      scanStatus: insertDocument.scanStatus ?? 'not_scanned'
     };
     this.documents.set(id, document);
     return document;
@@ -120,9 +499,11 @@ export class MemStorage implements IStorage {
       throw new Error(`Document with ID ${id} not found`);
     }
     
+    // L'empreinte du contenu original ne change qu'avec une nouvelle version (createDocumentVersion)
+    const { originalHash: _originalHash, ...changes } = partialDocument;
     const updatedDocument: Document = { 
       ...document, 
-      ...partialDocument,
+      ...changes,
       updatedAt: new Date() 
     };
     
@@ -131,17 +512,368 @@ export class MemStorage implements IStorage {
   }
 
   async deleteDocument(id: number): Promise<void> {
+    const hashes = [
+      ...Array.from(this.documentVersions.values()).filter(version => version.documentId === id).map(version => version.hash),
+      ...Array.from(this.documentRenditions.values()).filter(rendition => rendition.documentId === id).map(rendition => rendition.hash)
+    ];
+
     this.documents.delete(id);
+    Array.from(this.documentVersions.entries())
+      .filter(([_, version]) => version.documentId === id)
+      .forEach(([versionId]) => this.documentVersions.delete(versionId));
+    Array.from(this.documentRenditions.entries())
+      .filter(([_, rendition]) => rendition.documentId === id)
+      .forEach(([renditionId]) => this.documentRenditions.delete(renditionId));
+    Array.from(this.signatureRequests.entries())
+      .filter(([_, request]) => request.documentId === id)
+      .forEach(([requestId]) => this.signatureRequests.delete(requestId));
+    Array.from(this.signatureRequestSigners.entries())
+      .filter(([_, signer]) => signer.documentId === id)
+      .forEach(([signerId]) => this.signatureRequestSigners.delete(signerId));
+    Array.from(this.documentSignatures.entries())
+      .filter(([_, signature]) => signature.documentId === id)
+      .forEach(([signatureId]) => this.documentSignatures.delete(signatureId));
+    Array.from(this.signatureFields.entries())
+      .filter(([_, field]) => field.documentId === id)
+      .forEach(([fieldId]) => this.signatureFields.delete(fieldId));
+    Array.from(this.timestampTokens.entries())
+      .filter(([_, token]) => token.documentId === id)
+      .forEach(([tokenId]) => this.timestampTokens.delete(tokenId));
+    Array.from(this.documentShares.entries())
+      .filter(([_, share]) => share.documentId === id)
+      .forEach(([shareId]) => this.documentShares.delete(shareId));
+    await this.releaseBlobs(hashes);
+  }
+
+  async getDocumentsByScanStatus(status: ScanStatus): Promise<Document[]> {
+    return Array.from(this.documents.values()).filter(doc => doc.scanStatus === status);
+  }
+
+  // Version operations
+  async getDocumentVersions(documentId: number): Promise<DocumentVersionMetadata[]> {
+    return Array.from(this.documentVersions.values())
+      .filter(version => version.documentId === documentId)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  async getDocumentVersion(id: number): Promise<DocumentVersion | undefined> {
+    return this.documentVersions.get(id);
+  }
+
+  async createDocumentVersion(insertVersion: InsertDocumentVersion, content: Buffer, changes: Partial<Document> = {}): Promise<DocumentVersion> {
+    const hash = blobHash(content);
+    return this.withBlobLock(hash, async () => {
+      await this.storeBlob(hash, content);
+      const document = this.documents.get(insertVersion.documentId);
+      if (!document) {
+        await this.removeBlob(hash);
+        throw new Error(`Document with ID ${insertVersion.documentId} not found`);
+      }
+
+      const id = this.documentVersionId++;
+      const previous = await this.getDocumentVersions(insertVersion.documentId);
+      const version: DocumentVersion = {
+        ...insertVersion,
+        id,
+        version: (previous[previous.length - 1]?.version ?? 0) + 1,
+        hash,
+        size: insertVersion.size || null,
+        createdAt: new Date()
+      };
+      this.documentVersions.set(id, version);
+      this.documents.set(document.id, { ...document, ...changes, ...versionedDocumentFields(version), updatedAt: version.createdAt });
+      return version;
+    });
+  }
+
+  // Rendition operations
+  async getDocumentRenditions(documentId: number): Promise<DocumentRendition[]> {
+    return Array.from(this.documentRenditions.values())
+      .filter(rendition => rendition.documentId === documentId);
+  }
+
+  async getDocumentRendition(versionId: number, kind: RenditionKind): Promise<DocumentRendition | undefined> {
+    return Array.from(this.documentRenditions.values()).find(
+      rendition => rendition.versionId === versionId && rendition.kind === kind
+    );
+  }
+
+  async createDocumentRendition(insertRendition: InsertDocumentRendition, content: Buffer): Promise<DocumentRendition> {
+    const hash = blobHash(content);
+    return this.withBlobLock(hash, async () => {
+      const existing = await this.getDocumentRendition(insertRendition.versionId, insertRendition.kind as RenditionKind);
+      if (existing) {
+        return existing;
+      }
+
+      await this.storeBlob(hash, content);
+      const id = this.documentRenditionId++;
+      const rendition: DocumentRendition = {
+        ...insertRendition,
+        id,
+        hash,
+        createdAt: new Date()
+      };
+      this.documentRenditions.set(id, rendition);
+      return rendition;
+    });
+  }
+
+  // Signature workflow operations
+  async getSignatureRequests(documentId: number): Promise<SignatureRequest[]> {
+    return Array.from(this.signatureRequests.values())
+      .filter(request => request.documentId === documentId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getSignatureRequest(id: number): Promise<SignatureRequest | undefined> {
+    return this.signatureRequests.get(id);
+  }
+
+  async createSignatureRequest(insertRequest: InsertSignatureRequest, signerIds: number[]): Promise<SignatureRequest> {
+    const id = this.signatureRequestId++;
+    const request: SignatureRequest = {
+      ...insertRequest,
+      id,
+      message: insertRequest.message ?? null,
+      createdAt: new Date(),
+      closedAt: null
+    };
+    this.signatureRequests.set(id, request);
+
+    signerIds.forEach((userId, position) => {
+      const signerId = this.signatureRequestSignerId++;
+      this.signatureRequestSigners.set(signerId, {
+        id: signerId,
+        requestId: id,
+        documentId: request.documentId,
+        userId,
+        position,
+        status: 'pending',
+        decidedAt: null,
+        declineReason: null,
+        signatureId: null
+      });
+    });
+
+    await this.updateDocument(request.documentId, { signatureStatus: 'awaiting_signatures' });
+    return request;
+  }
+
+  async updateSignatureRequest(id: number, changes: Partial<SignatureRequest>): Promise<SignatureRequest> {
+    const request = this.signatureRequests.get(id);
+    if (!request) {
+      throw new Error(`Signature request with ID ${id} not found`);
+    }
+
+    const updatedRequest: SignatureRequest = { ...request, ...changes };
+    this.signatureRequests.set(id, updatedRequest);
+    return updatedRequest;
+  }
+
+  async getSignatureRequestSigners(requestId: number): Promise<SignatureRequestSigner[]> {
+    return Array.from(this.signatureRequestSigners.values())
+      .filter(signer => signer.requestId === requestId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async getPendingSignerTasks(userId: number): Promise<SignatureRequestSigner[]> {
+    return Array.from(this.signatureRequestSigners.values()).filter(signer =>
+      signer.userId === userId
+        && signer.status === 'pending'
+        && this.signatureRequests.get(signer.requestId)?.status === 'awaiting'
+    );
+  }
+
+  async updateSignatureRequestSigner(id: number, changes: Partial<SignatureRequestSigner>): Promise<SignatureRequestSigner> {
+    const signer = this.signatureRequestSigners.get(id);
+    if (!signer) {
+      throw new Error(`Signature request signer with ID ${id} not found`);
+    }
+
+    const updatedSigner: SignatureRequestSigner = { ...signer, ...changes };
+    this.signatureRequestSigners.set(id, updatedSigner);
+    return updatedSigner;
+  }
+
+  async getDocumentSignatures(documentId: number): Promise<DocumentSignature[]> {
+    return Array.from(this.documentSignatures.values())
+      .filter(signature => signature.documentId === documentId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createDocumentSignature(insertSignature: InsertDocumentSignature): Promise<DocumentSignature> {
+    const id = this.documentSignatureId++;
+    const signature: DocumentSignature = {
+      ...insertSignature,
+      id,
+      requestId: insertSignature.requestId ?? null,
+      signatureData: insertSignature.signatureData ?? null,
+      signedAt: insertSignature.signedAt ?? new Date()
+    };
+    this.documentSignatures.set(id, signature);
+    return signature;
+  }
+
+  // Signature field operations
+  async getSignatureFields(documentId: number): Promise<SignatureField[]> {
+    return Array.from(this.signatureFields.values())
+      .filter(field => field.documentId === documentId)
+      .sort((a, b) => a.page - b.page || a.id - b.id);
+  }
+
+  async getSignatureField(id: number): Promise<SignatureField | undefined> {
+    return this.signatureFields.get(id);
+  }
+
+  async createSignatureField(insertField: InsertSignatureField): Promise<SignatureField> {
+    const id = this.signatureFieldId++;
+    const field: SignatureField = {
+      ...insertField,
+      id,
+      signatureId: null,
+      createdAt: new Date()
+    };
+    this.signatureFields.set(id, field);
+    return field;
+  }
+
+  async updateSignatureField(id: number, changes: Partial<SignatureField>): Promise<SignatureField> {
+    const field = this.signatureFields.get(id);
+    if (!field) {
+      throw new Error(`Signature field with ID ${id} not found`);
+    }
+
+    const updatedField: SignatureField = { ...field, ...changes };
+    this.signatureFields.set(id, updatedField);
+    return updatedField;
+  }
+
+  async deleteSignatureField(id: number): Promise<void> {
+    this.signatureFields.delete(id);
+  }
+
+  // Timestamp token operations
+  async getTimestampTokens(documentId: number): Promise<TimestampToken[]> {
+    return Array.from(this.timestampTokens.values())
+      .filter(token => token.documentId === documentId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createTimestampToken(insertToken: InsertTimestampToken): Promise<TimestampToken> {
+    const id = this.timestampTokenId++;
+    const token: TimestampToken = {
+      ...insertToken,
+      id,
+      signatureId: insertToken.signatureId ?? null,
+      createdAt: new Date()
+    };
+    this.timestampTokens.set(id, token);
+    return token;
+  }
+
+  // Merkle anchor operations
+  async getUnanchoredHashes(): Promise<MerkleLeafSource[]> {
+    const anchored = new Set(Array.from(this.merkleLeaves.values()).map(leaf => `${leaf.kind}:${leaf.sourceId}`));
+    const sources: MerkleLeafSource[] = [
+      ...Array.from(this.documentVersions.values())
+        .map(version => ({ kind: "version", sourceId: version.id, documentId: version.documentId, hash: version.hash })),
+      ...Array.from(this.documentRenditions.values())
+        .map(rendition => ({ kind: "rendition", sourceId: rendition.id, documentId: rendition.documentId, hash: rendition.hash })),
+      ...Array.from(this.auditLogs.values())
+        .filter(log => log.hash !== null)
+        .map(log => ({ kind: "audit_log", sourceId: log.id, documentId: log.documentId, hash: log.hash! }))
+    ];
+    return sources
+      .filter(source => !anchored.has(`${source.kind}:${source.sourceId}`))
+      .sort((a, b) => MERKLE_LEAF_KINDS.indexOf(a.kind as MerkleLeafKind) - MERKLE_LEAF_KINDS.indexOf(b.kind as MerkleLeafKind)
+        || a.sourceId - b.sourceId);
+  }
+
+  async createMerkleAnchor(insertAnchor: InsertMerkleAnchor, leaves: Omit<InsertMerkleLeaf, "anchorId">[]): Promise<MerkleAnchor> {
+    const id = this.merkleAnchorId++;
+    const anchor: MerkleAnchor = {
+      ...insertAnchor,
+      id,
+      timestampToken: insertAnchor.timestampToken ?? null,
+      createdAt: new Date()
+    };
+    this.merkleAnchors.set(id, anchor);
+    leaves.forEach(leaf => {
+      const leafId = this.merkleLeafId++;
+      this.merkleLeaves.set(leafId, { ...leaf, id: leafId, anchorId: id });
+    });
+    return anchor;
+  }
+
+  async getLatestMerkleAnchor(): Promise<MerkleAnchor | undefined> {
+    return this.merkleAnchors.get(this.merkleAnchorId - 1);
+  }
+
+  async getMerkleAnchor(id: number): Promise<MerkleAnchor | undefined> {
+    return this.merkleAnchors.get(id);
+  }
+
+  async getMerkleLeaf(kind: MerkleLeafKind, sourceId: number): Promise<MerkleLeaf | undefined> {
+    return Array.from(this.merkleLeaves.values()).find(leaf => leaf.kind === kind && leaf.sourceId === sourceId);
+  }
+
+  // Stamp profile operations
+  async getStampProfilesByCompany(company: string): Promise<StampProfile[]> {
+    return Array.from(this.stampProfiles.values())
+      .filter(profile => profile.company === company)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getStampProfile(id: number): Promise<StampProfile | undefined> {
+    return this.stampProfiles.get(id);
+  }
+
+  async getStampProfileByName(company: string, name: string): Promise<StampProfile | undefined> {
+    return Array.from(this.stampProfiles.values()).find(
+      profile => profile.company === company && profile.name === name
+    );
+  }
+
+  async createStampProfile(insertProfile: InsertStampProfile): Promise<StampProfile> {
+    const id = this.stampProfileId++;
+    const profile: StampProfile = {
+      ...insertProfile,
+      id,
+      createdAt: new Date(),
+      rotateLandscape: insertProfile.rotateLandscape ?? false,
+      backgroundColor: insertProfile.backgroundColor ?? null
+    };
+    this.stampProfiles.set(id, profile);
+    return profile;
+  }
+
+  async updateStampProfile(id: number, partialProfile: Partial<InsertStampProfile>): Promise<StampProfile> {
+    const profile = this.stampProfiles.get(id);
+    if (!profile) {
+      throw new Error(`Stamp profile with ID ${id} not found`);
+    }
+
+    const updatedProfile: StampProfile = { ...profile, ...partialProfile };
+    this.stampProfiles.set(id, updatedProfile);
+    return updatedProfile;
+  }
+
+  async deleteStampProfile(id: number): Promise<void> {
+    this.stampProfiles.delete(id);
   }
 
   // Audit log operations
   async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
     const id = this.auditLogId++;
+    // Les entrées sont conservées dans l'ordre d'insertion, qui est celui de la chaîne
+    const logs = Array.from(this.auditLogs.values());
+    const globalHead = logs[logs.length - 1];
+    const documentHead = logs.filter(log => log.documentId === insertLog.documentId).pop();
+
     const log: AuditLog = { 
-      ...insertLog, 
-      id,
-      timestamp: new Date(),
-      details: insertLog.details || null
+      ...chainAuditLog(insertLog, globalHead, documentHead),
+      id
     };
     this.auditLogs.set(id, log);
     return log;
@@ -153,6 +885,133 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }
 
+  async getAllAuditLogs(): Promise<AuditLog[]> {
+    return Array.from(this.auditLogs.values());
+  }
+
+  // Blob operations
+  async getBlobContent(hash: string): Promise<Buffer> {
+    const blob = this.blobs.get(hash);
+    if (!blob) {
+      throw new Error(`Blob ${hash} not found`);
+    }
+    return openContent(await getBlobStore().get(hash), this.dataKeys.get(blob.dataKeyId));
+  }
+
+  /**
+   * Exécute une opération sur un contenu après celles déjà en cours sur le même contenu : son enregistrement
+   * avec la version ou la rendition qui le désigne ne peut pas s'intercaler dans sa libération
+   */
+  private withBlobLock<T>(hash: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.blobLocks.get(hash) ?? Promise.resolve()).then(task);
+    const settled = result.catch(() => undefined);
+    this.blobLocks.set(hash, settled);
+    settled.then(() => {
+      if (this.blobLocks.get(hash) === settled) {
+        this.blobLocks.delete(hash);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Chiffre et écrit un contenu qui n'est pas encore stocké ; appelé sous le verrou de son empreinte
+   */
+  private async storeBlob(hash: string, content: Buffer): Promise<void> {
+    if (this.blobs.has(hash)) {
+      return;
+    }
+
+    const sealed = await sealContent(content);
+    const dataKeyId = this.dataKeyId++;
+    const now = new Date();
+    this.dataKeys.set(dataKeyId, { ...sealed.dataKey, id: dataKeyId, createdAt: now, rotatedAt: null });
+    this.blobs.set(hash, { hash, dataKeyId, createdAt: now });
+    try {
+      await getBlobStore().put(hash, sealed.content);
+    } catch (error) {
+      this.blobs.delete(hash);
+      this.dataKeys.delete(dataKeyId);
+      throw error;
+    }
+  }
+
+  /**
+   * Supprime un contenu qu'aucune version ni copie ne désigne, avec sa clé de données ; appelé sous le verrou de son empreinte
+   */
+  private async removeBlob(hash: string): Promise<void> {
+    const blob = this.blobs.get(hash);
+    const inUse = Array.from(this.documentVersions.values()).some(version => version.hash === hash)
+      || Array.from(this.documentRenditions.values()).some(rendition => rendition.hash === hash);
+    if (blob && !inUse) {
+      this.blobs.delete(hash);
+      this.dataKeys.delete(blob.dataKeyId);
+      await getBlobStore().delete(hash);
+    }
+  }
+
+  /**
+   * Supprime les contenus qu'aucune version ni copie ne désigne plus, avec leur clé de données
+   */
+  private async releaseBlobs(hashes: string[]): Promise<void> {
+    for (const hash of Array.from(new Set(hashes))) {
+      await this.withBlobLock(hash, () => this.removeBlob(hash));
+    }
+  }
+
+  // Data key operations
+  async getDataKeys(): Promise<DataKey[]> {
+    return Array.from(this.dataKeys.values());
+  }
+
+  async updateDataKey(id: number, changes: Partial<DataKey>): Promise<DataKey> {
+    const dataKey = this.dataKeys.get(id);
+    if (!dataKey) {
+      throw new Error(`Data key with ID ${id} not found`);
+    }
+
+    const { id: _id, createdAt: _createdAt, ...updates } = changes;
+    const updatedDataKey: DataKey = { ...dataKey, ...updates };
+    this.dataKeys.set(id, updatedDataKey);
+    return updatedDataKey;
+  }
+
+  // Quarantined upload operations
+  async getQuarantinedUploads(): Promise<QuarantinedUpload[]> {
+    return Array.from(this.quarantinedUploads.values()).sort((a, b) => b.id - a.id);
+  }
+
+  async getQuarantinedUpload(id: number): Promise<QuarantinedUpload | undefined> {
+    return this.quarantinedUploads.get(id);
+  }
+
+  async createQuarantinedUpload(insertUpload: InsertQuarantinedUpload): Promise<QuarantinedUpload> {
+    const id = this.quarantinedUploadId++;
+    const upload: QuarantinedUpload = {
+      ...insertUpload,
+      id,
+      documentId: insertUpload.documentId ?? null,
+      report: insertUpload.report ?? null,
+      status: "quarantined",
+      resolvedBy: null,
+      resolvedAt: null,
+      createdAt: new Date()
+    };
+    this.quarantinedUploads.set(id, upload);
+    return upload;
+  }
+
+  async updateQuarantinedUpload(id: number, changes: Partial<QuarantinedUpload>): Promise<QuarantinedUpload> {
+    const upload = this.quarantinedUploads.get(id);
+    if (!upload) {
+      throw new Error(`Quarantined upload with ID ${id} not found`);
+    }
+
+    const updatedUpload: QuarantinedUpload = { ...upload, ...changes };
+    this.quarantinedUploads.set(id, updatedUpload);
+    return updatedUpload;
+  }
+
   // Document share operations
   async getDocumentShares(documentId: number): Promise<any[]> {
     const shares = Array.from(this.documentShares.values())
@@ -171,6 +1030,12 @@ export class MemStorage implements IStorage {
     }).filter(Boolean);
   }
 
+  async getDocumentShare(documentId: number, userId: number): Promise<DocumentShare | undefined> {
+    return Array.from(this.documentShares.values()).find(
+      share => share.documentId === documentId && share.userId === userId
+    );
+  }
+
   async createDocumentShare(insertShare: InsertDocumentShare): Promise<DocumentShare> {
     const id = this.documentShareId++;
     const share: DocumentShare = { 
@@ -179,20 +1044,6 @@ export class MemStorage implements IStorage {
       createdAt: new Date()
     };
     this.documentShares.set(id, share);
-    
-    // Make sure the user exists, create a dummy one if not
-    const user = await this.getUser(insertShare.userId);
-    if (!user) {
-      // Create a dummy user for the shared person
-      await this.createUser({
-        username: `user${insertShare.userId}`,
-        password: "password123",
-        name: "Marie Lefebvre",
-        initials: "ML",
-        company: "Entreprise XYZ"
-      });
-    }
-    
     return share;
   }
 
@@ -206,4 +1057,824 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+/**
+ * Stockage persistant PostgreSQL via Drizzle ORM
+ */
+export class DrizzleStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, pool: pg.Pool) {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true
+    });
+  }
+
+  /**
+   * Applique les migrations, crée la société et l'utilisateur initiaux s'ils n'existent pas,
+   * hache les mots de passe encore stockés en clair, rattache chaque utilisateur à sa société
+   * et déplace dans le stockage des contenus ceux encore enregistrés dans la base
+   */
+  async init(): Promise<void> {
+    await runMigrations(this.db);
+
+    const [dataKey] = await this.db.select({ id: dataKeys.id }).from(dataKeys).limit(1);
+    assertKeyfileAvailable(Boolean(dataKey));
+
+    if (!(await this.getCompanyByName(defaultCompany.name))) {
+      await this.createCompany(defaultCompany);
+    }
+
+    if (!(await this.getUserByUsername(defaultUser.username))) {
+      await this.createUser({ ...defaultUser, password: await hashPassword(defaultUser.password) });
+    }
+
+    const allUsers = await this.db.select().from(users);
+    for (const user of allUsers) {
+      if (!isPasswordHash(user.password)) {
+        await this.db
+          .update(users)
+          .set({ password: await hashPassword(user.password) })
+          .where(eq(users.id, user.id));
+      }
+      if (user.company) {
+        await this.ensureCompany(user.company);
+      }
+    }
+
+    // Documents importés avant l'introduction des sociétés : société de leur créateur
+    await this.db.execute(sql`
+      UPDATE ${documents} SET company_id = ${companies.id}
+      FROM ${users}, ${companies}
+      WHERE ${documents.companyId} IS NULL
+        AND ${users.id} = ${documents.creatorId}
+        AND ${companies.name} = ${users.company}
+    `);
+
+    await this.sealLegacyAuditLogs();
+    await this.moveLegacyContents();
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (insertUser.company) {
+      await this.ensureCompany(insertUser.company);
+    }
+
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Saved handwritten signature operations
+  async getUserSignature(userId: number): Promise<UserSignature | undefined> {
+    const [signature] = await this.db.select().from(userSignatures).where(eq(userSignatures.userId, userId));
+    return signature;
+  }
+
+  async saveUserSignature(insertSignature: InsertUserSignature): Promise<UserSignature> {
+    const values = { ...insertSignature, typedName: insertSignature.typedName ?? null, updatedAt: new Date() };
+    const [signature] = await this.db
+      .insert(userSignatures)
+      .values(values)
+      .onConflictDoUpdate({ target: userSignatures.userId, set: values })
+      .returning();
+    return signature;
+  }
+
+  async deleteUserSignature(userId: number): Promise<void> {
+    await this.db.delete(userSignatures).where(eq(userSignatures.userId, userId));
+  }
+
+  // Company operations
+  async getCompany(id: number): Promise<Company | undefined> {
+    const [company] = await this.db.select().from(companies).where(eq(companies.id, id));
+    return company;
+  }
+
+  async getCompanyByName(name: string): Promise<Company | undefined> {
+    const [company] = await this.db.select().from(companies).where(eq(companies.name, name));
+    return company;
+  }
+
+  async createCompany(insertCompany: InsertCompany): Promise<Company> {
+    const [company] = await this.db.insert(companies).values(insertCompany).returning();
+    return company;
+  }
+
+  async ensureCompany(name: string): Promise<Company> {
+    const existing = await this.getCompanyByName(name);
+    if (existing) {
+      return existing;
+    }
+
+    const codes = await this.db.select({ code: companies.code }).from(companies);
+    const takenCodes = new Set(codes.map(row => row.code));
+    // En cas de création concurrente, la société enregistrée la première est conservée
+    await this.db
+      .insert(companies)
+      .values({
+        name,
+        code: deriveCompanyCode(name, takenCodes),
+        issuerName: name,
+        authorName: name
+      })
+      .onConflictDoNothing({ target: companies.name });
+    return (await this.getCompanyByName(name))!;
+  }
+
+  async updateCompany(id: number, partialCompany: Partial<InsertCompany>): Promise<Company> {
+    // Le nom et le code, inscrits dans les UID, ne sont jamais modifiés
+    const { name: _name, code: _code, ...changes } = partialCompany;
+
+    const [company] = await this.db
+      .update(companies)
+      .set(changes)
+      .where(eq(companies.id, id))
+      .returning();
+
+    if (!company) {
+      throw new Error(`Company with ID ${id} not found`);
+    }
+    return company;
+  }
+
+  // Document operations
+  async getAllDocuments(): Promise<Document[]> {
+    return this.db.select().from(documents).orderBy(desc(documents.updatedAt));
+  }
+
+  async getDocumentsForUser(userId: number): Promise<Document[]> {
+    const sharedIds = this.db
+      .select({ documentId: documentShares.documentId })
+      .from(documentShares)
+      .where(eq(documentShares.userId, userId));
+
+    return this.db
+      .select()
+      .from(documents)
+      .where(or(eq(documents.creatorId, userId), inArray(documents.id, sharedIds)))
+      .orderBy(desc(documents.updatedAt));
+  }
+
+  async getDocument(id: number): Promise<Document | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocumentByUid(uid: string): Promise<Document | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.uid, uid));
+    return document;
+  }
+
+  async getDocumentByToken(token: string): Promise<Document | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.token, token));
+    return document;
+  }
+
+  async createDocument(insertDocument: InsertDocument): Promise<Document> {
+    const [document] = await this.db.insert(documents).values(insertDocument).returning();
+    return document;
+  }
+
+  async updateDocument(id: number, partialDocument: Partial<Document>): Promise<Document> {
+    // L'identifiant et la date de création ne sont jamais modifiés ;
+    // l'empreinte du contenu original ne change qu'avec une nouvelle version (createDocumentVersion)
+    const { id: _id, createdAt: _createdAt, originalHash: _originalHash, ...changes } = partialDocument;
+
+    const [document] = await this.db
+      .update(documents)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(documents.id, id))
+      .returning();
+
+    if (!document) {
+      throw new Error(`Document with ID ${id} not found`);
+    }
+    return document;
+  }
+
+  async deleteDocument(id: number): Promise<void> {
+    // Le document et tout ce qui s'y rattache sont supprimés ensemble ; ses contenus, une fois la suppression validée
+    const hashes = await this.db.transaction(async (tx) => {
+      const versionHashes = await tx
+        .delete(documentVersions)
+        .where(eq(documentVersions.documentId, id))
+        .returning({ hash: documentVersions.hash });
+      const renditionHashes = await tx
+        .delete(documentRenditions)
+        .where(eq(documentRenditions.documentId, id))
+        .returning({ hash: documentRenditions.hash });
+
+      await tx.delete(signatureRequestSigners).where(eq(signatureRequestSigners.documentId, id));
+      await tx.delete(signatureRequests).where(eq(signatureRequests.documentId, id));
+      await tx.delete(documentSignatures).where(eq(documentSignatures.documentId, id));
+      await tx.delete(signatureFields).where(eq(signatureFields.documentId, id));
+      await tx.delete(timestampTokens).where(eq(timestampTokens.documentId, id));
+      await tx.delete(documentShares).where(eq(documentShares.documentId, id));
+      await tx.delete(documents).where(eq(documents.id, id));
+      return [...versionHashes, ...renditionHashes].map(row => row.hash);
+    });
+    await this.releaseBlobs(hashes);
+  }
+
+  async getDocumentsByScanStatus(status: ScanStatus): Promise<Document[]> {
+    return this.db.select().from(documents).where(eq(documents.scanStatus, status));
+  }
+
+  // Version operations
+  async getDocumentVersions(documentId: number): Promise<DocumentVersionMetadata[]> {
+    return this.db
+      .select()
+      .from(documentVersions)
+      .where(eq(documentVersions.documentId, documentId))
+      .orderBy(asc(documentVersions.version));
+  }
+
+  async getDocumentVersion(id: number): Promise<DocumentVersion | undefined> {
+    const [version] = await this.db.select().from(documentVersions).where(eq(documentVersions.id, id));
+    return version;
+  }
+
+  async createDocumentVersion(insertVersion: InsertDocumentVersion, content: Buffer, changes: Partial<Document> = {}): Promise<DocumentVersion> {
+    return this.db.transaction(async (tx) => {
+      // Le verrou sur le document sérialise la numérotation des versions concurrentes
+      const [document] = await tx
+        .select({ id: documents.id })
+        .from(documents)
+        .where(eq(documents.id, insertVersion.documentId))
+        .for('update');
+      if (!document) {
+        throw new Error(`Document with ID ${insertVersion.documentId} not found`);
+      }
+
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${documentVersions.version}), 0)` })
+        .from(documentVersions)
+        .where(eq(documentVersions.documentId, document.id));
+      const [version] = await tx
+        .insert(documentVersions)
+        .values({ ...insertVersion, version: Number(latest) + 1, hash: await this.storeBlob(tx, content) })
+        .returning();
+
+      await tx
+        .update(documents)
+        .set({ ...changes, ...versionedDocumentFields(version), updatedAt: version.createdAt })
+        .where(eq(documents.id, document.id));
+      return version;
+    });
+  }
+
+  // Rendition operations
+  async getDocumentRenditions(documentId: number): Promise<DocumentRendition[]> {
+    return this.db.select().from(documentRenditions).where(eq(documentRenditions.documentId, documentId));
+  }
+
+  async getDocumentRendition(versionId: number, kind: RenditionKind): Promise<DocumentRendition | undefined> {
+    const [rendition] = await this.db
+      .select()
+      .from(documentRenditions)
+      .where(and(eq(documentRenditions.versionId, versionId), eq(documentRenditions.kind, kind)));
+    return rendition;
+  }
+
+  async createDocumentRendition(insertRendition: InsertDocumentRendition, content: Buffer): Promise<DocumentRendition> {
+    const existing = await this.getDocumentRendition(insertRendition.versionId, insertRendition.kind as RenditionKind);
+    if (existing) {
+      return existing;
+    }
+
+    // En cas de création concurrente, la première rendition enregistrée est conservée et le contenu
+    // de l'autre, s'il n'est désigné par rien d'autre, n'est pas gardé
+    const rendition = await this.db.transaction(async (tx) => {
+      const hash = await this.storeBlob(tx, content);
+      const [created] = await tx
+        .insert(documentRenditions)
+        .values({ ...insertRendition, hash })
+        .onConflictDoNothing()
+        .returning();
+      if (!created) {
+        await this.dropUnusedBlob(tx, hash);
+      }
+      return created;
+    });
+    return rendition ?? (await this.getDocumentRendition(insertRendition.versionId, insertRendition.kind as RenditionKind))!;
+  }
+
+  // Signature workflow operations
+  async getSignatureRequests(documentId: number): Promise<SignatureRequest[]> {
+    return this.db
+      .select()
+      .from(signatureRequests)
+      .where(eq(signatureRequests.documentId, documentId))
+      .orderBy(desc(signatureRequests.id));
+  }
+
+  async getSignatureRequest(id: number): Promise<SignatureRequest | undefined> {
+    const [request] = await this.db.select().from(signatureRequests).where(eq(signatureRequests.id, id));
+    return request;
+  }
+
+  async createSignatureRequest(insertRequest: InsertSignatureRequest, signerIds: number[]): Promise<SignatureRequest> {
+    return this.db.transaction(async (tx) => {
+      const [request] = await tx.insert(signatureRequests).values(insertRequest).returning();
+      await tx.insert(signatureRequestSigners).values(signerIds.map((userId, position) => ({
+        requestId: request.id,
+        documentId: request.documentId,
+        userId,
+        position
+      })));
+      await tx
+        .update(documents)
+        .set({ signatureStatus: 'awaiting_signatures', updatedAt: new Date() })
+        .where(eq(documents.id, request.documentId));
+      return request;
+    });
+  }
+
+  async updateSignatureRequest(id: number, changes: Partial<SignatureRequest>): Promise<SignatureRequest> {
+    const { id: _id, ...values } = changes;
+    const [request] = await this.db
+      .update(signatureRequests)
+      .set(values)
+      .where(eq(signatureRequests.id, id))
+      .returning();
+
+    if (!request) {
+      throw new Error(`Signature request with ID ${id} not found`);
+    }
+    return request;
+  }
+
+  async getSignatureRequestSigners(requestId: number): Promise<SignatureRequestSigner[]> {
+    return this.db
+      .select()
+      .from(signatureRequestSigners)
+      .where(eq(signatureRequestSigners.requestId, requestId))
+      .orderBy(asc(signatureRequestSigners.position));
+  }
+
+  async getPendingSignerTasks(userId: number): Promise<SignatureRequestSigner[]> {
+    const rows = await this.db
+      .select({ signer: signatureRequestSigners })
+      .from(signatureRequestSigners)
+      .innerJoin(signatureRequests, eq(signatureRequests.id, signatureRequestSigners.requestId))
+      .where(and(
+        eq(signatureRequestSigners.userId, userId),
+        eq(signatureRequestSigners.status, 'pending'),
+        eq(signatureRequests.status, 'awaiting')
+      ))
+      .orderBy(asc(signatureRequestSigners.id));
+    return rows.map(row => row.signer);
+  }
+
+  async updateSignatureRequestSigner(id: number, changes: Partial<SignatureRequestSigner>): Promise<SignatureRequestSigner> {
+    const { id: _id, ...values } = changes;
+    const [signer] = await this.db
+      .update(signatureRequestSigners)
+      .set(values)
+      .where(eq(signatureRequestSigners.id, id))
+      .returning();
+
+    if (!signer) {
+      throw new Error(`Signature request signer with ID ${id} not found`);
+    }
+    return signer;
+  }
+
+  async getDocumentSignatures(documentId: number): Promise<DocumentSignature[]> {
+    return this.db
+      .select()
+      .from(documentSignatures)
+      .where(eq(documentSignatures.documentId, documentId))
+      .orderBy(asc(documentSignatures.id));
+  }
+
+  async createDocumentSignature(insertSignature: InsertDocumentSignature): Promise<DocumentSignature> {
+    const [signature] = await this.db.insert(documentSignatures).values(insertSignature).returning();
+    return signature;
+  }
+
+  // Signature field operations
+  async getSignatureFields(documentId: number): Promise<SignatureField[]> {
+    return this.db
+      .select()
+      .from(signatureFields)
+      .where(eq(signatureFields.documentId, documentId))
+      .orderBy(asc(signatureFields.page), asc(signatureFields.id));
+  }
+
+  async getSignatureField(id: number): Promise<SignatureField | undefined> {
+    const [field] = await this.db.select().from(signatureFields).where(eq(signatureFields.id, id));
+    return field;
+  }
+
+  async createSignatureField(insertField: InsertSignatureField): Promise<SignatureField> {
+    const [field] = await this.db.insert(signatureFields).values(insertField).returning();
+    return field;
+  }
+
+  async updateSignatureField(id: number, changes: Partial<SignatureField>): Promise<SignatureField> {
+    const { id: _id, ...values } = changes;
+    const [field] = await this.db
+      .update(signatureFields)
+      .set(values)
+      .where(eq(signatureFields.id, id))
+      .returning();
+
+    if (!field) {
+      throw new Error(`Signature field with ID ${id} not found`);
+    }
+    return field;
+  }
+
+  async deleteSignatureField(id: number): Promise<void> {
+    await this.db.delete(signatureFields).where(eq(signatureFields.id, id));
+  }
+
+  // Timestamp token operations
+  async getTimestampTokens(documentId: number): Promise<TimestampToken[]> {
+    return this.db
+      .select()
+      .from(timestampTokens)
+      .where(eq(timestampTokens.documentId, documentId))
+      .orderBy(asc(timestampTokens.id));
+  }
+
+  async createTimestampToken(insertToken: InsertTimestampToken): Promise<TimestampToken> {
+    const [token] = await this.db.insert(timestampTokens).values(insertToken).returning();
+    return token;
+  }
+
+  // Merkle anchor operations
+  async getUnanchoredHashes(): Promise<MerkleLeafSource[]> {
+    const versions = await this.db
+      .select({ sourceId: documentVersions.id, documentId: documentVersions.documentId, hash: documentVersions.hash })
+      .from(documentVersions)
+      .leftJoin(merkleLeaves, and(eq(merkleLeaves.kind, "version"), eq(merkleLeaves.sourceId, documentVersions.id)))
+      .where(isNull(merkleLeaves.id))
+      .orderBy(asc(documentVersions.id));
+    const renditions = await this.db
+      .select({ sourceId: documentRenditions.id, documentId: documentRenditions.documentId, hash: documentRenditions.hash })
+      .from(documentRenditions)
+      .leftJoin(merkleLeaves, and(eq(merkleLeaves.kind, "rendition"), eq(merkleLeaves.sourceId, documentRenditions.id)))
+      .where(isNull(merkleLeaves.id))
+      .orderBy(asc(documentRenditions.id));
+    const logs = await this.db
+      .select({ sourceId: auditLogs.id, documentId: auditLogs.documentId, hash: auditLogs.hash })
+      .from(auditLogs)
+      .leftJoin(merkleLeaves, and(eq(merkleLeaves.kind, "audit_log"), eq(merkleLeaves.sourceId, auditLogs.id)))
+      .where(and(isNull(merkleLeaves.id), isNotNull(auditLogs.hash)))
+      .orderBy(asc(auditLogs.id));
+
+    return [
+      ...versions.map(version => ({ kind: "version", ...version })),
+      ...renditions.map(rendition => ({ kind: "rendition", ...rendition })),
+      ...logs.map(log => ({ kind: "audit_log", ...log, hash: log.hash! }))
+    ];
+  }
+
+  async createMerkleAnchor(insertAnchor: InsertMerkleAnchor, leaves: Omit<InsertMerkleLeaf, "anchorId">[]): Promise<MerkleAnchor> {
+    return this.db.transaction(async (tx) => {
+      const [anchor] = await tx.insert(merkleAnchors).values(insertAnchor).returning();
+      // Insertion par lots pour rester sous la limite de paramètres d'une requête
+      for (let start = 0; start < leaves.length; start += MERKLE_LEAF_BATCH_SIZE) {
+        await tx.insert(merkleLeaves).values(
+          leaves.slice(start, start + MERKLE_LEAF_BATCH_SIZE).map(leaf => ({ ...leaf, anchorId: anchor.id }))
+        );
+      }
+      return anchor;
+    });
+  }
+
+  async getLatestMerkleAnchor(): Promise<MerkleAnchor | undefined> {
+    const [anchor] = await this.db.select().from(merkleAnchors).orderBy(desc(merkleAnchors.id)).limit(1);
+    return anchor;
+  }
+
+  async getMerkleAnchor(id: number): Promise<MerkleAnchor | undefined> {
+    const [anchor] = await this.db.select().from(merkleAnchors).where(eq(merkleAnchors.id, id));
+    return anchor;
+  }
+
+  async getMerkleLeaf(kind: MerkleLeafKind, sourceId: number): Promise<MerkleLeaf | undefined> {
+    const [leaf] = await this.db
+      .select()
+      .from(merkleLeaves)
+      .where(and(eq(merkleLeaves.kind, kind), eq(merkleLeaves.sourceId, sourceId)));
+    return leaf;
+  }
+
+  // Stamp profile operations
+  async getStampProfilesByCompany(company: string): Promise<StampProfile[]> {
+    return this.db.select().from(stampProfiles).where(eq(stampProfiles.company, company)).orderBy(asc(stampProfiles.name));
+  }
+
+  async getStampProfile(id: number): Promise<StampProfile | undefined> {
+    const [profile] = await this.db.select().from(stampProfiles).where(eq(stampProfiles.id, id));
+    return profile;
+  }
+
+  async getStampProfileByName(company: string, name: string): Promise<StampProfile | undefined> {
+    const [profile] = await this.db
+      .select()
+      .from(stampProfiles)
+      .where(and(eq(stampProfiles.company, company), eq(stampProfiles.name, name)));
+    return profile;
+  }
+
+  async createStampProfile(insertProfile: InsertStampProfile): Promise<StampProfile> {
+    const [profile] = await this.db.insert(stampProfiles).values(insertProfile).returning();
+    return profile;
+  }
+
+  async updateStampProfile(id: number, partialProfile: Partial<InsertStampProfile>): Promise<StampProfile> {
+    const [profile] = await this.db
+      .update(stampProfiles)
+      .set(partialProfile)
+      .where(eq(stampProfiles.id, id))
+      .returning();
+
+    if (!profile) {
+      throw new Error(`Stamp profile with ID ${id} not found`);
+    }
+    return profile;
+  }
+
+  async deleteStampProfile(id: number): Promise<void> {
+    await this.db.delete(stampProfiles).where(eq(stampProfiles.id, id));
+  }
+
+  // Audit log operations
+  async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
+    return this.db.transaction(async (tx) => {
+      const entry = await this.chainNextAuditLog(tx, insertLog, new Date());
+      const [log] = await tx.insert(auditLogs).values(entry).returning();
+      return log;
+    });
+  }
+
+  /**
+   * Verrouille le journal et calcule la prochaine entrée de la chaîne.
+   * Le verrou sérialise les ajouts concurrents jusqu'à la fin de la transaction.
+   */
+  private async chainNextAuditLog(tx: Transaction, insertLog: InsertAuditLog, timestamp: Date) {
+    await tx.execute(sql`LOCK TABLE ${auditLogs} IN SHARE ROW EXCLUSIVE MODE`);
+
+    const [globalHead] = await tx
+      .select()
+      .from(auditLogs)
+      .where(isNotNull(auditLogs.sequence))
+      .orderBy(desc(auditLogs.sequence))
+      .limit(1);
+    const [documentHead] = await tx
+      .select()
+      .from(auditLogs)
+      .where(and(eq(auditLogs.documentId, insertLog.documentId), isNotNull(auditLogs.documentSequence)))
+      .orderBy(desc(auditLogs.documentSequence))
+      .limit(1);
+
+    return chainAuditLog(insertLog, globalHead, documentHead, timestamp);
+  }
+
+  /**
+   * Intègre à la chaîne les entrées écrites avant son introduction, dans leur ordre d'origine
+   */
+  private async sealLegacyAuditLogs(): Promise<void> {
+    const legacy = await this.db
+      .select()
+      .from(auditLogs)
+      .where(isNull(auditLogs.hash))
+      .orderBy(asc(auditLogs.id));
+
+    for (const log of legacy) {
+      await this.db.transaction(async (tx) => {
+        const { documentId, userId, action, details, timestamp } = log;
+        const entry = await this.chainNextAuditLog(tx, { documentId, userId, action, details }, timestamp);
+        await tx.update(auditLogs).set(entry).where(eq(auditLogs.id, log.id));
+      });
+    }
+  }
+
+  async getAuditLogsByDocumentId(documentId: number): Promise<AuditLog[]> {
+    return this.db
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.documentId, documentId))
+      .orderBy(desc(auditLogs.timestamp));
+  }
+
+  async getAllAuditLogs(): Promise<AuditLog[]> {
+    return this.db.select().from(auditLogs).orderBy(asc(auditLogs.sequence));
+  }
+
+  // Blob operations
+  async getBlobContent(hash: string): Promise<Buffer> {
+    const [row] = await this.db
+      .select({ dataKey: dataKeys })
+      .from(blobs)
+      .innerJoin(dataKeys, eq(dataKeys.id, blobs.dataKeyId))
+      .where(eq(blobs.hash, hash));
+    if (!row) {
+      throw new Error(`Blob ${hash} not found`);
+    }
+    return openContent(await getBlobStore().get(hash), row.dataKey);
+  }
+
+  /**
+   * Chiffre et écrit un contenu qui n'est pas encore stocké, dans la transaction qui crée sa référence ;
+   * renvoie son empreinte
+   */
+  private async storeBlob(tx: Transaction, content: Buffer): Promise<string> {
+    const hash = blobHash(content);
+    await lockBlob(tx, hash);
+    const [existing] = await tx.select({ hash: blobs.hash }).from(blobs).where(eq(blobs.hash, hash));
+    if (!existing) {
+      const sealed = await sealContent(content);
+      const [dataKey] = await tx.insert(dataKeys).values(sealed.dataKey).returning({ id: dataKeys.id });
+      await tx.insert(blobs).values({ hash, dataKeyId: dataKey.id });
+      await getBlobStore().put(hash, sealed.content);
+    }
+    return hash;
+  }
+
+  /**
+   * Supprime un contenu qu'aucune version ni copie ne désigne, avec sa clé de données ; appelé sous le verrou
+   * de son empreinte. L'objet est supprimé avant la validation : un enregistrement concurrent du même contenu
+   * attend celle-ci, puis le réécrit
+   */
+  private async dropUnusedBlob(tx: Transaction, hash: string): Promise<void> {
+    const [version] = await tx.select({ id: documentVersions.id }).from(documentVersions).where(eq(documentVersions.hash, hash)).limit(1);
+    const [rendition] = await tx.select({ id: documentRenditions.id }).from(documentRenditions).where(eq(documentRenditions.hash, hash)).limit(1);
+    if (version || rendition) {
+      return;
+    }
+    const [blob] = await tx.delete(blobs).where(eq(blobs.hash, hash)).returning();
+    if (blob) {
+      await tx.delete(dataKeys).where(eq(dataKeys.id, blob.dataKeyId));
+      await getBlobStore().delete(hash);
+    }
+  }
+
+  /**
+   * Supprime les contenus qu'aucune version ni copie ne désigne plus
+   */
+  private async releaseBlobs(hashes: string[]): Promise<void> {
+    for (const hash of Array.from(new Set(hashes))) {
+      await this.db.transaction(async (tx) => {
+        await lockBlob(tx, hash);
+        await this.dropUnusedBlob(tx, hash);
+      });
+    }
+  }
+
+  /**
+   * Déplace un à un dans le stockage des contenus ceux enregistrés dans la base avant son introduction ;
+   * un contenu déjà chiffré y est écrit tel quel avec sa clé de données, les autres sont chiffrés au passage
+   */
+  private async moveLegacyContents(): Promise<void> {
+    const legacy = await this.db.select({ hash: legacyContents.hash }).from(legacyContents);
+
+    for (const { hash } of legacy) {
+      await this.db.transaction(async (tx) => {
+        const [row] = await tx.select().from(legacyContents).where(eq(legacyContents.hash, hash)).for('update');
+        if (!row) {
+          return;
+        }
+        await lockBlob(tx, hash);
+        const [existing] = await tx.select().from(blobs).where(eq(blobs.hash, hash));
+        if (!existing) {
+          let content = Buffer.from(row.content, 'base64');
+          let dataKeyId = row.dataKeyId;
+          if (dataKeyId === null) {
+            const sealed = await sealContent(content);
+            const [dataKey] = await tx.insert(dataKeys).values(sealed.dataKey).returning({ id: dataKeys.id });
+            content = sealed.content;
+            dataKeyId = dataKey.id;
+          }
+          await tx.insert(blobs).values({ hash, dataKeyId });
+          await getBlobStore().put(hash, content);
+        } else if (row.dataKeyId !== null && row.dataKeyId !== existing.dataKeyId) {
+          await tx.delete(dataKeys).where(eq(dataKeys.id, row.dataKeyId));
+        }
+        await tx.delete(legacyContents).where(eq(legacyContents.hash, hash));
+      });
+    }
+  }
+
+  // Data key operations
+  async getDataKeys(): Promise<DataKey[]> {
+    return this.db.select().from(dataKeys).orderBy(asc(dataKeys.id));
+  }
+
+  async updateDataKey(id: number, changes: Partial<DataKey>): Promise<DataKey> {
+    const { id: _id, createdAt: _createdAt, ...updates } = changes;
+    const [dataKey] = await this.db
+      .update(dataKeys)
+      .set(updates)
+      .where(eq(dataKeys.id, id))
+      .returning();
+
+    if (!dataKey) {
+      throw new Error(`Data key with ID ${id} not found`);
+    }
+    return dataKey;
+  }
+
+  // Quarantined upload operations
+  async getQuarantinedUploads(): Promise<QuarantinedUpload[]> {
+    return this.db.select().from(quarantinedUploads).orderBy(desc(quarantinedUploads.id));
+  }
+
+  async getQuarantinedUpload(id: number): Promise<QuarantinedUpload | undefined> {
+    const [upload] = await this.db.select().from(quarantinedUploads).where(eq(quarantinedUploads.id, id));
+    return upload;
+  }
+
+  async createQuarantinedUpload(insertUpload: InsertQuarantinedUpload): Promise<QuarantinedUpload> {
+    const [upload] = await this.db.insert(quarantinedUploads).values(insertUpload).returning();
+    return upload;
+  }
+
+  async updateQuarantinedUpload(id: number, changes: Partial<QuarantinedUpload>): Promise<QuarantinedUpload> {
+    const { id: _id, ...values } = changes;
+    const [upload] = await this.db
+      .update(quarantinedUploads)
+      .set(values)
+      .where(eq(quarantinedUploads.id, id))
+      .returning();
+
+    if (!upload) {
+      throw new Error(`Quarantined upload with ID ${id} not found`);
+    }
+    return upload;
+  }
+
+  // Document share operations
+  async getDocumentShares(documentId: number): Promise<any[]> {
+    const rows = await this.db
+      .select({
+        id: users.id,
+        name: users.name,
+        username: users.username,
+        initials: users.initials,
+        permission: documentShares.permission
+      })
+      .from(documentShares)
+      .innerJoin(users, eq(users.id, documentShares.userId))
+      .where(eq(documentShares.documentId, documentId));
+
+    // Combine with user info for the UI
+    return rows.map(({ username, ...row }) => ({
+      ...row,
+      email: `${username}@exemple.com` // Simulate email for demo
+    }));
+  }
+
+  async getDocumentShare(documentId: number, userId: number): Promise<DocumentShare | undefined> {
+    const [share] = await this.db
+      .select()
+      .from(documentShares)
+      .where(and(eq(documentShares.documentId, documentId), eq(documentShares.userId, userId)));
+    return share;
+  }
+
+  async createDocumentShare(insertShare: InsertDocumentShare): Promise<DocumentShare> {
+    const [share] = await this.db.insert(documentShares).values(insertShare).returning();
+    return share;
+  }
+
+  async removeDocumentShare(documentId: number, userId: number): Promise<void> {
+    await this.db
+      .delete(documentShares)
+      .where(and(eq(documentShares.documentId, documentId), eq(documentShares.userId, userId)));
+  }
+}
+
+function createStorage(): IStorage {
+  if (resolveStorageDriver() === "postgres") {
+    const { db, pool } = createDatabase();
+    return new DrizzleStorage(db, pool);
+  }
+  return new MemStorage();
+}
+
+export const storage = createStorage();
+
+/**
+ * Prépare le stockage sélectionné avant le démarrage du serveur ; une configuration incomplète
+ * du stockage des contenus l'empêche de démarrer
+ */
+export async function initStorage(): Promise<void> {
+  console.log(`Stockage des contenus : ${getBlobStore().name}`);
+  await storage.init();
+}
@@ -0,0 +1,81 @@
+import {
+  TimestampEntry,
+  TimestampKind,
+  TimestampToken,
+  TimestampVerification
+} from '@shared/schema';
+import { storage } from './storage';
+import { requestTimestamp, verifyTimestampToken } from './signing/tsa';
+import type { SignatureTimestamp } from './signing';
+
+/**
+ * Enregistre un jeton d'horodatage avec l'autorité, le numéro de série et l'heure qu'il certifie
+ */
+async function saveTimestampToken(
+  documentId: number,
+  kind: TimestampKind,
+  hash: string,
+  token: Buffer,
+  signatureId: number | null = null
+): Promise<TimestampToken> {
+  const verification = verifyTimestampToken(token, Buffer.from(hash, 'hex'));
+  return storage.createTimestampToken({
+    documentId,
+    kind,
+    hash,
+    signatureId,
+    token: token.toString('base64'),
+    authority: verification.authority ?? '',
+    serialNumber: verification.serialNumber ?? '',
+    genTime: verification.time ? new Date(verification.time) : new Date()
+  });
+}
+
+/**
+ * Horodate l'empreinte SHA-256 d'un fichier conservé (version ou rendition), une seule fois par empreinte.
+ * L'horodatage ne bloque pas l'enregistrement du fichier : en cas d'échec, l'erreur est journalisée
+ * et undefined est renvoyé.
+ */
+export async function timestampContent(documentId: number, hash: string): Promise<TimestampToken | undefined> {
+  const existing = (await storage.getTimestampTokens(documentId))
+    .find(token => token.kind === 'content' && token.hash === hash);
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    const token = await requestTimestamp(Buffer.from(hash, 'hex'));
+    return await saveTimestampToken(documentId, 'content', hash, token);
+  } catch (error) {
+    console.error(`Horodatage de l'empreinte ${hash} impossible:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Enregistre le jeton d'horodatage intégré à une signature
+ */
+export async function saveSignatureTimestamp(
+  documentId: number,
+  signatureId: number,
+  timestamp: SignatureTimestamp
+): Promise<TimestampToken> {
+  return saveTimestampToken(documentId, 'signature', timestamp.hash, timestamp.token, signatureId);
+}
+
+/**
+ * Vérifie un jeton conservé par rapport à l'empreinte qu'il horodate
+ */
+export function verifyStoredTimestamp(token: TimestampToken): TimestampVerification {
+  return verifyTimestampToken(Buffer.from(token.token, 'base64'), Buffer.from(token.hash, 'hex'));
+}
+
+/**
+ * Jetons d'horodatage d'un document, chacun vérifié à nouveau
+ */
+export async function getTimestampEntries(documentId: number): Promise<TimestampEntry[]> {
+  return (await storage.getTimestampTokens(documentId)).map(token => ({
+    ...token,
+    verification: verifyStoredTimestamp(token)
+  }));
+}
@@ -0,0 +1,232 @@
+import { PDFDict, PDFDocument, PDFHexString, PDFName } from 'pdf-lib';
+import {
+  Document,
+  DocumentRendition,
+  DocumentVersionMetadata,
+  FileVerificationResult,
+  TimestampToken,
+  TimestampVerification,
+  VerificationSigner,
+  VerificationSummary
+} from '@shared/schema';
+import { parseSignatureData, SignatureData } from './signing';
+import { extractSignatureTimestamp, verifyTimestampToken } from './signing/tsa';
+import { storage } from './storage';
+import { sha256Hex } from './renditions';
+import { verifyStoredTimestamp } from './timestamps';
+import { HttpError } from './httpError';
+
+// Identifiants écrits par addUidAndTokenToPdf dans /Subject et /Keywords
+const UID_PATTERN = /\bUID-[A-Za-z0-9-]+/;
+const TOKEN_PATTERN = /\bDOC-[A-Za-z0-9-]+/;
+const HASH_PATTERN = /\b[0-9a-f]{64}\b/;
+const SUBJECT_PATTERN = /UID:(\S+) \| Token:(\S+) \| Hash:([0-9a-f]{64})/;
+
+/**
+ * Erreur de vérification portant le code HTTP à renvoyer au client
+ */
+export class VerificationError extends HttpError {
+  constructor(message: string, status = 400) {
+    super(message, status);
+    this.name = 'VerificationError';
+  }
+}
+
+/**
+ * Identifiants BeaverDoc lus dans les métadonnées d'un PDF
+ */
+export interface EmbeddedIdentifiers {
+  uid: string | null;
+  token: string | null;
+  hash: string | null;
+}
+
+/**
+ * Copies émises par BeaverDoc pour un document : renditions et versions signées
+ */
+export interface IssuedCopies {
+  renditions: DocumentRendition[];
+  versions: DocumentVersionMetadata[];
+}
+
+async function loadIssuedCopies(document: Document): Promise<IssuedCopies> {
+  return {
+    renditions: await storage.getDocumentRenditions(document.id),
+    versions: await storage.getDocumentVersions(document.id)
+  };
+}
+
+/**
+ * Signataire affiché par la vérification publique, avec la vérification de l'horodatage de sa signature
+ */
+function toVerificationSigner(signature: SignatureData, timestamp: TimestampToken | undefined): VerificationSigner {
+  return {
+    name: signature.signerName,
+    certificateSubject: signature.certificateSubject,
+    certificateFingerprint: signature.certificateFingerprint,
+    signedAt: signature.signedAt,
+    timestamp: timestamp ? verifyStoredTimestamp(timestamp) : null
+  };
+}
+
+/**
+ * Résumé public d'un document enregistré : statut, empreintes, signataires et dates.
+ * L'empreinte de contenu est celle de la copie émise pour la version courante
+ * (signée, sinon marquée, sinon l'original).
+ * Les jetons d'horodatage de cette empreinte et des signatures sont vérifiés à chaque appel.
+ * Ni le contenu, ni le nom du fichier, ni le token ne sont exposés.
+ */
+export async function buildVerificationSummary(
+  document: Document,
+  copies?: IssuedCopies
+): Promise<VerificationSummary> {
+  const { renditions, versions } = copies ?? await loadIssuedCopies(document);
+  const current = versions.find(version => version.id === document.currentVersionId);
+  const issued = current?.reason === 'signature'
+    ? current
+    : renditions.find(rendition => rendition.versionId === document.currentVersionId && rendition.kind === 'stamped');
+  const signature = document.isSigned ? parseSignatureData(document.signatureData) : undefined;
+  const contentHash = issued?.hash ?? document.originalHash;
+
+  const timestamps = await storage.getTimestampTokens(document.id);
+  const contentTimestamp = timestamps.find(token => token.kind === 'content' && token.hash === contentHash);
+  const signatureTimestamp = (signatureId: number | undefined) =>
+    timestamps.find(token => token.kind === 'signature' && token.signatureId === signatureId);
+
+  // Toutes les signatures appliquées, y compris celles d'une demande encore en cours
+  const entries = await storage.getDocumentSignatures(document.id);
+  const signatures = entries.flatMap(entry => {
+    const data = parseSignatureData(entry.signatureData);
+    return data ? [toVerificationSigner(data, signatureTimestamp(entry.id))] : [];
+  });
+  const signerEntry = entries.find(entry => entry.signatureData === document.signatureData);
+
+  return {
+    registered: true,
+    uid: document.uid,
+    status: document.isSigned ? 'signed' : 'registered',
+    contentType: document.contentType,
+    size: document.size,
+    contentHash,
+    originalHash: document.originalHash,
+    contentTimestamp: contentTimestamp ? verifyStoredTimestamp(contentTimestamp) : null,
+    createdAt: new Date(document.createdAt).toISOString(),
+    updatedAt: new Date(document.updatedAt).toISOString(),
+    signer: signature ? toVerificationSigner(signature, signatureTimestamp(signerEntry?.id)) : null,
+    signatures
+  };
+}
+
+/**
+ * Charge le PDF soumis à la vérification
+ */
+async function loadSubmittedPdf(pdfBuffer: Buffer): Promise<PDFDocument> {
+  try {
+    return await PDFDocument.load(pdfBuffer, { ignoreEncryption: true, updateMetadata: false });
+  } catch {
+    throw new VerificationError('Le fichier n\'est pas un PDF lisible');
+  }
+}
+
+/**
+ * Lit l'UID, le token et l'empreinte écrits lors du marquage.
+ * Le sujet est prioritaire ; les mots-clés servent de repli s'il a été modifié.
+ */
+export function readEmbeddedIdentifiers(pdfDoc: PDFDocument): EmbeddedIdentifiers {
+  const subject = pdfDoc.getSubject() || '';
+  const keywords = pdfDoc.getKeywords() || '';
+
+  const fromSubject = SUBJECT_PATTERN.exec(subject);
+  if (fromSubject) {
+    return { uid: fromSubject[1], token: fromSubject[2], hash: fromSubject[3] };
+  }
+
+  return {
+    uid: UID_PATTERN.exec(keywords)?.[0] ?? null,
+    token: TOKEN_PATTERN.exec(keywords)?.[0] ?? null,
+    hash: HASH_PATTERN.exec(keywords)?.[0] ?? null
+  };
+}
+
+/**
+ * Vérifie les jetons d'horodatage des signatures intégrées au PDF, dans l'ordre des signatures.
+ * Chaque jeton doit couvrir la valeur de la signature qui le porte ; les signatures non horodatées sont ignorées.
+ */
+export function readSignatureTimestamps(pdfDoc: PDFDocument): TimestampVerification[] {
+  return pdfDoc.context.enumerateIndirectObjects()
+    .filter(([_, object]) => object instanceof PDFDict && object.get(PDFName.of('Type')) === PDFName.of('Sig'))
+    .sort(([a], [b]) => a.objectNumber - b.objectNumber)
+    .flatMap(([_, object]) => {
+      const contents = (object as PDFDict).get(PDFName.of('Contents'));
+      if (!(contents instanceof PDFHexString)) {
+        return [];
+      }
+      try {
+        const timestamp = extractSignatureTimestamp(Buffer.from(contents.asBytes()));
+        return timestamp ? [verifyTimestampToken(timestamp.token, timestamp.digest)] : [];
+      } catch {
+        return [];
+      }
+    });
+}
+
+/**
+ * Vérifie un PDF revenu d'un tiers par rapport au document enregistré :
+ * - authentic : le fichier est identique à une copie émise (rendition, version signée ou copie journalisée à sa remise)
+ * - modified_after_stamping : le document est connu mais le fichier diffère de toute copie émise
+ * - unknown_uid : les identifiants ne correspondent à aucun document
+ * - metadata_stripped : aucun identifiant BeaverDoc dans les métadonnées
+ */
+export async function verifyUploadedPdf(pdfBuffer: Buffer): Promise<FileVerificationResult> {
+  const fileHash = sha256Hex(pdfBuffer);
+  const pdfDoc = await loadSubmittedPdf(pdfBuffer);
+  const embedded = readEmbeddedIdentifiers(pdfDoc);
+  const signatureTimestamps = readSignatureTimestamps(pdfDoc);
+
+  if (!embedded.uid && !embedded.token) {
+    return { verdict: 'metadata_stripped', fileHash, embedded, checks: null, signatureTimestamps, document: null };
+  }
+
+  const document = embedded.uid
+    ? await storage.getDocumentByUid(embedded.uid)
+    : await storage.getDocumentByToken(embedded.token!);
+  if (!document) {
+    return { verdict: 'unknown_uid', fileHash, embedded, checks: null, signatureTimestamps, document: null };
+  }
+
+  // Le marquage inscrit l'empreinte de la version originale dont la copie est dérivée
+  const copies = await loadIssuedCopies(document);
+  const knownHashes = new Set<string>([
+    ...copies.renditions.map(rendition => rendition.hash),
+    ...copies.versions.map(version => version.hash)
+  ]);
+  if (document.originalHash) {
+    knownHashes.add(document.originalHash);
+  }
+
+  // Copie émise : une rendition ou une version signée du document, quelle que soit la version courante,
+  // ou un fichier dont l'empreinte a été journalisée à sa remise
+  let matchesIssuedCopy = copies.renditions.some(rendition => rendition.hash === fileHash)
+    || copies.versions.some(version => version.reason === 'signature' && version.hash === fileHash);
+  if (!matchesIssuedCopy) {
+    const logs = await storage.getAuditLogsByDocumentId(document.id);
+    matchesIssuedCopy = logs.some(log =>
+      (log.action === 'download' || log.action === 'view') && !!log.details?.includes(fileHash)
+    );
+  }
+
+  const checks = {
+    tokenMatches: !embedded.token || embedded.token === document.token,
+    embeddedHashKnown: !!embedded.hash && knownHashes.has(embedded.hash),
+    matchesIssuedCopy
+  };
+
+  return {
+    verdict: matchesIssuedCopy && checks.tokenMatches ? 'authentic' : 'modified_after_stamping',
+    fileHash,
+    embedded,
+    checks,
+    signatureTimestamps,
+    document: await buildVerificationSummary(document, copies)
+  };
+}
@@ -0,0 +1,266 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { diffWords } from 'diff';
+import { getDocument, VerbosityLevel } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { DiffSegment, Document, DocumentVersion, PageDiff, VersionDiff } from '@shared/schema';
+import { storage } from './storage';
+import { HttpError } from './httpError';
+
+/**
+ * Erreur de comparaison portant le code HTTP à renvoyer au client
+ */
+export class VersionDiffError extends HttpError {
+  constructor(message: string, status = 400) {
+    super(message, status);
+    this.name = 'VersionDiffError';
+  }
+}
+
+// Mise en page du rapport de comparaison (A4, en points)
+const REPORT_PAGE_SIZE: [number, number] = [595.28, 841.89];
+const REPORT_MARGIN = 50;
+const REPORT_FONT_SIZE = 10;
+const REPORT_LINE_HEIGHT = 14;
+
+const SEGMENT_COLORS = {
+  equal: rgb(0.2, 0.2, 0.2),
+  added: rgb(0.05, 0.5, 0.15),
+  removed: rgb(0.75, 0.1, 0.1)
+};
+
+const PAGE_STATUS_LABELS: Record<PageDiff['status'], string> = {
+  unchanged: 'inchangée',
+  changed: 'modifiée',
+  added: 'ajoutée',
+  removed: 'supprimée'
+};
+
+/**
+ * Texte de chaque page d'un PDF, lu avec PDF.js ; les fins de ligne sont conservées
+ */
+export async function extractPageTexts(pdfBuffer: Buffer): Promise<string[]> {
+  let pdf;
+  try {
+    pdf = await getDocument({
+      data: new Uint8Array(pdfBuffer),
+      isEvalSupported: false,
+      verbosity: VerbosityLevel.ERRORS
+    }).promise;
+  } catch {
+    throw new VersionDiffError('Le fichier de la version n\'est pas un PDF lisible');
+  }
+
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')
+        .join('');
+      pages.push(text.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim());
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Nombre de mots d'un segment
+ */
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Compare deux textes mot à mot
+ */
+function diffPageTexts(before: string, after: string): DiffSegment[] {
+  return diffWords(before, after).map(change => ({
+    type: change.added ? 'added' : change.removed ? 'removed' : 'equal',
+    text: change.value
+  }));
+}
+
+/**
+ * Compare le texte de deux versions PDF page par page.
+ * Les pages sont appariées par numéro ; une page présente dans une seule version est ajoutée ou supprimée.
+ */
+export async function diffDocumentVersions(
+  document: Document,
+  from: DocumentVersion,
+  to: DocumentVersion
+): Promise<VersionDiff> {
+  if (from.contentType !== 'application/pdf' || to.contentType !== 'application/pdf') {
+    throw new VersionDiffError('Seules les versions PDF peuvent être comparées');
+  }
+
+  const beforePages = await extractPageTexts(await storage.getBlobContent(from.hash));
+  const afterPages = await extractPageTexts(await storage.getBlobContent(to.hash));
+
+  const pages: PageDiff[] = [];
+  for (let index = 0; index < Math.max(beforePages.length, afterPages.length); index++) {
+    const before = beforePages[index];
+    const after = afterPages[index];
+    const segments = diffPageTexts(before ?? '', after ?? '');
+    const changed = segments.some(segment => segment.type !== 'equal');
+    pages.push({
+      page: index + 1,
+      status: before === undefined ? 'added' : after === undefined ? 'removed' : changed ? 'changed' : 'unchanged',
+      segments
+    });
+  }
+
+  const segments = pages.flatMap(page => page.segments);
+  return {
+    documentId: document.id,
+    from,
+    to,
+    pages,
+    stats: {
+      addedWords: countWords(segments.filter(segment => segment.type === 'added').map(segment => segment.text).join(' ')),
+      removedWords: countWords(segments.filter(segment => segment.type === 'removed').map(segment => segment.text).join(' ')),
+      changedPages: pages.filter(page => page.status !== 'unchanged').length
+    }
+  };
+}
+
+/**
+ * Écriture du rapport : texte en flux continu, avec retour à la ligne et saut de page automatiques
+ */
+class ReportWriter {
+  private page!: PDFPage;
+  private x = REPORT_MARGIN;
+  private y = 0;
+  private readonly maxX = REPORT_PAGE_SIZE[0] - REPORT_MARGIN;
+  private readonly encodable = new Map<string, boolean>();
+  // Espace à insérer avant le prochain mot, et type du dernier segment écrit
+  private pendingSpace = false;
+  private lastType: DiffSegment['type'] = 'equal';
+
+  constructor(private pdfDoc: PDFDocument, private font: PDFFont, private boldFont: PDFFont) {
+    this.addPage();
+  }
+
+  private addPage() {
+    this.page = this.pdfDoc.addPage(REPORT_PAGE_SIZE);
+    this.x = REPORT_MARGIN;
+    this.y = REPORT_PAGE_SIZE[1] - REPORT_MARGIN;
+  }
+
+  newLine(height = REPORT_LINE_HEIGHT) {
+    this.x = REPORT_MARGIN;
+    this.pendingSpace = false;
+    this.y -= height;
+    if (this.y < REPORT_MARGIN) {
+      this.addPage();
+    }
+  }
+
+  /**
+   * Remplace les caractères absents de l'encodage WinAnsi de la police standard
+   */
+  private sanitize(text: string): string {
+    return Array.from(text).map(char => {
+      if (!this.encodable.has(char)) {
+        try {
+          this.font.encodeText(char);
+          this.encodable.set(char, true);
+        } catch {
+          this.encodable.set(char, false);
+        }
+      }
+      return this.encodable.get(char) ? char : '?';
+    }).join('');
+  }
+
+  heading(text: string, size = 12) {
+    if (this.x !== REPORT_MARGIN) {
+      this.newLine();
+    }
+    this.page.drawText(this.sanitize(text), { x: this.x, y: this.y, size, font: this.boldFont, color: SEGMENT_COLORS.equal });
+    this.newLine(size + 8);
+    this.lastType = 'equal';
+  }
+
+  /**
+   * Écrit un segment mot à mot en conservant ses espaces et fins de ligne ;
+   * le texte supprimé est barré, le texte ajouté souligné
+   */
+  segment(type: DiffSegment['type'], text: string) {
+    const color = SEGMENT_COLORS[type];
+    const spaceWidth = this.font.widthOfTextAtSize(' ', REPORT_FONT_SIZE);
+    // Une suppression suivie d'un ajout (mot remplacé) reste séparée par une espace
+    if (type !== 'equal' && this.lastType !== 'equal' && this.lastType !== type) {
+      this.pendingSpace = this.x > REPORT_MARGIN;
+    }
+    this.lastType = type;
+
+    for (const token of text.split(/(\s+)/).filter(Boolean)) {
+      if (/^\s+$/.test(token)) {
+        if (token.includes('\n')) {
+          this.newLine();
+        } else {
+          this.pendingSpace = this.x > REPORT_MARGIN;
+        }
+        continue;
+      }
+
+      const printable = this.sanitize(token);
+      const width = this.font.widthOfTextAtSize(printable, REPORT_FONT_SIZE);
+      if (this.pendingSpace && this.x + spaceWidth + width > this.maxX) {
+        this.newLine();
+      }
+      if (this.pendingSpace) {
+        this.x += spaceWidth;
+      }
+
+      this.page.drawText(printable, { x: this.x, y: this.y, size: REPORT_FONT_SIZE, font: this.font, color });
+      if (type !== 'equal') {
+        const lineY = type === 'removed' ? this.y + REPORT_FONT_SIZE * 0.3 : this.y - 1.5;
+        this.page.drawLine({ start: { x: this.x, y: lineY }, end: { x: this.x + width, y: lineY }, thickness: 0.6, color });
+      }
+      this.x += width;
+      this.pendingSpace = false;
+    }
+  }
+}
+
+/**
+ * Rapport PDF de la comparaison : versions comparées, statistiques puis texte des pages modifiées,
+ * les suppressions en rouge barré et les ajouts en vert souligné
+ */
+export async function buildDiffReportPdf(document: Document, diff: VersionDiff): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const writer = new ReportWriter(pdfDoc, font, boldFont);
+
+  writer.heading('Rapport de comparaison de versions', 16);
+  writer.segment('equal', `Document : ${document.name}\nUID : ${document.uid}\n`);
+  for (const [label, version] of [['Version de référence', diff.from], ['Version comparée', diff.to]] as const) {
+    writer.segment('equal', `${label} : version ${version.version} du ${new Date(version.createdAt).toLocaleString('fr-FR')}\nSHA-256 : ${version.hash}\n`);
+  }
+  writer.segment('equal', `Pages modifiées : ${diff.stats.changedPages} | Mots ajoutés : ${diff.stats.addedWords} | Mots supprimés : ${diff.stats.removedWords}`);
+  writer.newLine();
+
+  const unchanged = diff.pages.filter(page => page.status === 'unchanged').map(page => page.page);
+  if (unchanged.length > 0) {
+    writer.newLine();
+    writer.segment('equal', `Pages inchangées : ${unchanged.join(', ')}`);
+    writer.newLine();
+  }
+
+  for (const page of diff.pages.filter(page => page.status !== 'unchanged')) {
+    writer.newLine();
+    writer.heading(`Page ${page.page} (${PAGE_STATUS_LABELS[page.status]})`);
+    for (const segment of page.segments) {
+      writer.segment(segment.type, segment.text);
+    }
+    writer.newLine();
+  }
+
+  pdfDoc.setTitle(`Comparaison des versions ${diff.from.version} et ${diff.to.version} - ${document.name}`);
+  pdfDoc.setCreationDate(new Date());
+  return Buffer.from(await pdfDoc.save());
+}
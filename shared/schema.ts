@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,6 +9,22 @@ export const users = pgTable("users", {
   name: text("name").notNull(),
   initials: text("initials").notNull(),
   company: text("company"),
+  // Administrators review quarantined uploads
+  isAdmin: boolean("is_admin").notNull().default(false),
+});
+
+// Client firms; users.company holds the company name
+export const companies = pgTable("companies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  // Short code written in document UIDs (CPY{code}), never changed once assigned
+  code: text("code").notNull().unique(),
+  // Issuer and author written in the metadata of stamped PDFs
+  issuerName: text("issuer_name").notNull(),
+  authorName: text("author_name").notNull(),
+  // Public address of the verification page for this company's documents, null for the default address
+  verificationBaseUrl: text("verification_base_url"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const documents = pgTable("documents", {
@@ -16,14 +32,253 @@ export const documents = pgTable("documents", {
   name: text("name").notNull(),
   uid: text("uid").notNull().unique(),
   token: text("token").notNull(),
-  content: text("content"),
   contentType: text("content_type").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   size: text("size"),
   creatorId: integer("creator_id").notNull(),
+  // Company of the creator at import, whose branding is used in stamped copies
+  companyId: integer("company_id"),
+  // Fully signed (single signature, or every signer of a request); signatureData holds the latest signature
   isSigned: boolean("is_signed").default(false),
   signatureData: text("signature_data"),
+  // Signature workflow state (SignatureStatus): draft, awaiting_signatures, completed or declined
+  signatureStatus: text("signature_status").notNull().default("draft"),
+  // SHA-256 of the current original version (upload or replacement), the blob holding its bytes;
+  // only changes when a new version is added
+  originalHash: text("original_hash"),
+  // Whether delivered copies carry the UID/token stamp
+  addToken: boolean("add_token").notNull().default(true),
+  // Verification QR code settings (QrStampSettings as JSON), null when no QR code is stamped
+  qrStamp: text("qr_stamp"),
+  // Stamp layout chosen at import (StampLayout as JSON, copied from the profile), null for the default layout
+  stampLayout: text("stamp_layout"),
+  // Current entry of document_versions (latest upload, file replacement or signature)
+  currentVersionId: integer("current_version_id"),
+  // Malware scan of the current original (ScanStatus): content is withheld while pending, infected or failed
+  scanStatus: text("scan_status").notNull().default("not_scanned"),
+});
+
+// Named stamp layouts shared by the users of a company (users.company)
+export const stampProfiles = pgTable("stamp_profiles", {
+  id: serial("id").primaryKey(),
+  company: text("company").notNull(),
+  name: text("name").notNull(),
+  template: text("template").notNull(),
+  position: text("position").notNull(),
+  marginX: integer("margin_x").notNull(),
+  marginY: integer("margin_y").notNull(),
+  rotateLandscape: boolean("rotate_landscape").notNull().default(false),
+  fontSize: real("font_size").notNull(),
+  textColor: text("text_color").notNull(),
+  backgroundColor: text("background_color"),
+  opacity: real("opacity").notNull(),
+  backgroundOpacity: real("background_opacity").notNull(),
+  pages: text("pages").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("stamp_profiles_company_name_idx").on(table.company, table.name),
+]);
+
+// Immutable content history: each upload, file replacement or signature adds a numbered version
+export const documentVersions = pgTable("document_versions", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  version: integer("version").notNull(),
+  contentType: text("content_type").notNull(),
+  // SHA-256 of the file, the blob holding its bytes
+  hash: text("hash").notNull(),
+  size: text("size"),
+  creatorId: integer("creator_id").notNull(),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("document_versions_document_version_idx").on(table.documentId, table.version),
+]);
+
+// Copies derived once from an original version (stamped) and served as-is afterwards
+export const documentRenditions = pgTable("document_renditions", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  // Original version (upload or replacement) the copy is derived from
+  versionId: integer("version_id").notNull(),
+  kind: text("kind").notNull(),
+  // SHA-256 of the copy, the blob holding its bytes
+  hash: text("hash").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("document_renditions_version_kind_idx").on(table.versionId, table.kind),
+]);
+
+// File bytes, stored once per content in the blob store (BLOB_STORE) under their SHA-256 and encrypted with their data key
+export const blobs = pgTable("blobs", {
+  hash: text("hash").primaryKey(),
+  dataKeyId: integer("data_key_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Content stored in the database before the blob store (base64, encrypted when dataKeyId is set), moved to it at startup
+export const legacyContents = pgTable("legacy_contents", {
+  hash: text("hash").primaryKey(),
+  content: text("content").notNull(),
+  dataKeyId: integer("data_key_id"),
+});
+
+// AES-256-GCM data keys of stored content (envelope encryption), wrapped by a master key of the key provider.
+// Rotating the master key rewraps these keys without re-encrypting content; deleting a key makes its content unreadable.
+export const dataKeys = pgTable("data_keys", {
+  id: serial("id").primaryKey(),
+  // Master key (key provider identifier) the data key is wrapped with
+  masterKeyId: text("master_key_id").notNull(),
+  wrappedKey: text("wrapped_key").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  rotatedAt: timestamp("rotated_at"),
+});
+
+// Signatures requested by the owner from an ordered (sequential) or unordered (parallel) list of signers
+export const signatureRequests = pgTable("signature_requests", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  creatorId: integer("creator_id").notNull(),
+  mode: text("mode").notNull(),
+  // awaiting, completed, declined or cancelled
+  status: text("status").notNull(),
+  message: text("message"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  closedAt: timestamp("closed_at"),
+});
+
+// One task per signer of a request; position gives the signing order in sequential mode
+export const signatureRequestSigners = pgTable("signature_request_signers", {
+  id: serial("id").primaryKey(),
+  requestId: integer("request_id").notNull(),
+  documentId: integer("document_id").notNull(),
+  userId: integer("user_id").notNull(),
+  position: integer("position").notNull(),
+  // pending, signed or declined
+  status: text("status").notNull().default("pending"),
+  decidedAt: timestamp("decided_at"),
+  declineReason: text("decline_reason"),
+  signatureId: integer("signature_id"),
+}, (table) => [
+  uniqueIndex("signature_request_signers_request_user_idx").on(table.requestId, table.userId),
+]);
+
+// Every signature applied to a document, with the version it produced
+export const documentSignatures = pgTable("document_signatures", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  versionId: integer("version_id").notNull(),
+  signerId: integer("signer_id").notNull(),
+  // Null for a signature applied outside of a signature request
+  requestId: integer("request_id"),
+  // SignatureData as JSON, null for signatures whose details were not kept before this table existed
+  signatureData: text("signature_data"),
+  signedAt: timestamp("signed_at").notNull().defaultNow(),
+});
+
+// Box where a signer's signature is drawn, placed by the owner in the viewer.
+// Coordinates are fractions of the page size, from the top-left corner as displayed
+export const signatureFields = pgTable("signature_fields", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  signerId: integer("signer_id").notNull(),
+  // Page number, starting at 1
+  page: integer("page").notNull(),
+  x: real("x").notNull(),
+  y: real("y").notNull(),
+  width: real("width").notNull(),
+  height: real("height").notNull(),
+  // Signature drawn in the field, null until the signer has signed
+  signatureId: integer("signature_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("signature_fields_document_signer_idx").on(table.documentId, table.signerId),
+]);
+
+// Handwritten signature saved by a user, drawn in their signature fields
+export const userSignatures = pgTable("user_signatures", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  // drawn (captured on the pad) or typed (name set in a script font)
+  kind: text("kind").notNull(),
+  typedName: text("typed_name"),
+  // SignatureDrawing as JSON
+  drawing: text("drawing").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// RFC 3161 timestamp tokens obtained for a stored file's hash (content) or a signature value (signature)
+export const timestampTokens = pgTable("timestamp_tokens", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  // content or signature
+  kind: text("kind").notNull(),
+  // Timestamped SHA-256 (hex): hash of a version or rendition, or of the CMS signature value
+  hash: text("hash").notNull(),
+  // Signature whose CMS embeds the token, null for content timestamps
+  signatureId: integer("signature_id"),
+  // TimeStampToken (DER) in base64
+  token: text("token").notNull(),
+  authority: text("authority").notNull(),
+  serialNumber: text("serial_number").notNull(),
+  // Time certified by the timestamping authority
+  genTime: timestamp("gen_time").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Periodic Merkle anchor of the registry: root of a tree over the version, rendition and audit log hashes
+// not anchored before. Anchors and their leaves are kept when a document is deleted
+export const merkleAnchors = pgTable("merkle_anchors", {
+  id: serial("id").primaryKey(),
+  // SHA-256 (hex) root of the tree
+  root: text("root").notNull(),
+  leafCount: integer("leaf_count").notNull(),
+  // RFC 3161 TimeStampToken (DER) of the root in base64, null when the root was not timestamped
+  timestampToken: text("timestamp_token"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Anchored hash with its inclusion proof in the tree of its anchor
+export const merkleLeaves = pgTable("merkle_leaves", {
+  id: serial("id").primaryKey(),
+  anchorId: integer("anchor_id").notNull(),
+  // Position of the leaf in the tree, from 0
+  position: integer("position").notNull(),
+  // version, rendition or audit_log
+  kind: text("kind").notNull(),
+  // Id of the version, rendition or audit log entry
+  sourceId: integer("source_id").notNull(),
+  documentId: integer("document_id").notNull(),
+  // Anchored SHA-256 (hex): file hash, or hash of the audit log entry
+  hash: text("hash").notNull(),
+  // MerkleProofStep[] as JSON, from the leaf up to the root
+  proof: text("proof").notNull(),
+}, (table) => [
+  uniqueIndex("merkle_leaves_kind_source_idx").on(table.kind, table.sourceId),
+]);
+
+// Uploads rejected by the file checks, kept in the quarantine directory until an administrator releases or purges them
+export const quarantinedUploads = pgTable("quarantined_uploads", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  // Document whose file was being replaced, then the document created or updated by the release
+  documentId: integer("document_id"),
+  fileName: text("file_name").notNull(),
+  // Content type declared by the client
+  declaredType: text("declared_type").notNull(),
+  size: integer("size").notNull(),
+  hash: text("hash").notNull(),
+  reason: text("reason").notNull(),
+  // PdfSecurityReport as JSON, null when the file was rejected before the analysis
+  report: text("report"),
+  // Name of the file in the quarantine directory
+  storageKey: text("storage_key").notNull(),
+  // quarantined, released or purged; the file is deleted once released or purged
+  status: text("status").notNull().default("quarantined"),
+  resolvedBy: integer("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const documentShares = pgTable("document_shares", {
@@ -41,7 +296,17 @@ export const auditLogs = pgTable("audit_logs", {
   action: text("action").notNull(),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   details: text("details"),
-});
+  // Hash chain: global position and position within the document,
+  // hashes of the previous entries and of this entry (SHA-256 hex).
+  // Null only for entries written before chaining, until they are sealed at startup.
+  sequence: integer("sequence").unique(),
+  documentSequence: integer("document_sequence"),
+  previousHash: text("previous_hash"),
+  documentPreviousHash: text("document_previous_hash"),
+  hash: text("hash"),
+}, (table) => [
+  uniqueIndex("audit_logs_document_sequence_idx").on(table.documentId, table.documentSequence),
+]);
 
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -50,6 +315,19 @@ export const insertUserSchema = createInsertSchema(users).pick({
   name: true,
   initials: true,
   company: true,
+  isAdmin: true,
+});
+
+export const insertCompanySchema = createInsertSchema(companies).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Branding fields editable by the company's users (name and code are fixed)
+export const companyBrandingSchema = z.object({
+  issuerName: z.string().trim().min(1).max(120),
+  authorName: z.string().trim().min(1).max(120),
+  verificationBaseUrl: z.string().trim().url().regex(/^https?:\/\//).max(200).nullable(),
 });
 
 export const insertDocumentSchema = createInsertSchema(documents).omit({
@@ -58,6 +336,81 @@ export const insertDocumentSchema = createInsertSchema(documents).omit({
   updatedAt: true,
 });
 
+// The hash is computed by the storage from the content it stores along with the version or rendition
+export const insertDocumentVersionSchema = createInsertSchema(documentVersions).omit({
+  id: true,
+  version: true,
+  hash: true,
+  createdAt: true,
+});
+
+export const insertDocumentRenditionSchema = createInsertSchema(documentRenditions).omit({
+  id: true,
+  hash: true,
+  createdAt: true,
+});
+
+export const insertDataKeySchema = createInsertSchema(dataKeys).omit({
+  id: true,
+  createdAt: true,
+  rotatedAt: true,
+});
+
+export const insertStampProfileSchema = createInsertSchema(stampProfiles).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSignatureRequestSchema = createInsertSchema(signatureRequests).omit({
+  id: true,
+  createdAt: true,
+  closedAt: true,
+});
+
+export const insertSignatureRequestSignerSchema = createInsertSchema(signatureRequestSigners).omit({
+  id: true,
+  decidedAt: true,
+  declineReason: true,
+  signatureId: true,
+});
+
+export const insertDocumentSignatureSchema = createInsertSchema(documentSignatures).omit({
+  id: true,
+});
+
+export const insertSignatureFieldSchema = createInsertSchema(signatureFields).omit({
+  id: true,
+  signatureId: true,
+  createdAt: true,
+});
+
+export const insertUserSignatureSchema = createInsertSchema(userSignatures).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertTimestampTokenSchema = createInsertSchema(timestampTokens).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMerkleAnchorSchema = createInsertSchema(merkleAnchors).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMerkleLeafSchema = createInsertSchema(merkleLeaves).omit({
+  id: true,
+});
+
+export const insertQuarantinedUploadSchema = createInsertSchema(quarantinedUploads).omit({
+  id: true,
+  status: true,
+  resolvedBy: true,
+  resolvedAt: true,
+  createdAt: true,
+});
+
 export const insertDocumentShareSchema = createInsertSchema(documentShares).omit({
   id: true,
   createdAt: true,
@@ -66,17 +419,376 @@ export const insertDocumentShareSchema = createInsertSchema(documentShares).omit
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   id: true,
   timestamp: true,
+  sequence: true,
+  documentSequence: true,
+  previousHash: true,
+  documentPreviousHash: true,
+  hash: true,
+});
+
+// Page corner used to place stamps and QR codes
+export const stampPositionSchema = z.enum(["bottom-right", "bottom-left", "top-right", "top-left"]);
+
+// Verification QR code stamped on delivered copies
+export const qrStampSettingsSchema = z.object({
+  position: stampPositionSchema,
+  pages: z.enum(["all", "last"]),
 });
 
+// Stamp text template placeholders: {name}, or {name:N} to keep the last N characters
+export const STAMP_PLACEHOLDERS = ["page", "total", "uid", "token", "date", "signer"] as const;
+export const STAMP_PLACEHOLDER_PATTERN = /\{(\w+)(?::(\d+))?\}/g;
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+// Layout of the stamp line(s) drawn on delivered copies
+export const stampLayoutSchema = z.object({
+  template: z.string().trim().min(1).max(200).refine(
+    template => Array.from(template.matchAll(STAMP_PLACEHOLDER_PATTERN))
+      .every(match => (STAMP_PLACEHOLDERS as readonly string[]).includes(match[1])),
+    { message: "Unknown placeholder" }
+  ),
+  position: stampPositionSchema,
+  marginX: z.number().int().min(0).max(200),
+  marginY: z.number().int().min(0).max(200),
+  // On landscape pages, draw the stamp along the vertical edge (rotated 90°)
+  rotateLandscape: z.boolean(),
+  fontSize: z.number().min(4).max(24),
+  textColor: hexColorSchema,
+  backgroundColor: hexColorSchema.nullable(),
+  opacity: z.number().min(0.1).max(1),
+  backgroundOpacity: z.number().min(0).max(1),
+  pages: z.enum(["all", "first", "last", "odd"]),
+});
+
+// Signature request as submitted by the owner: signers are designated by their email address
+export const signatureRequestInputSchema = z.object({
+  mode: z.enum(["sequential", "parallel"]),
+  signers: z.array(z.string().trim().min(1)).min(1).max(10),
+  message: z.string().trim().max(500).optional(),
+});
+
+// Signature field as drawn by the owner: the signer is designated by their email address
+export const signatureFieldInputSchema = z.object({
+  signer: z.string().trim().min(1),
+  page: z.number().int().min(1),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0.01).max(1),
+  height: z.number().min(0.01).max(1),
+}).refine(field => field.x + field.width <= 1 && field.y + field.height <= 1, {
+  message: "The field must fit within the page"
+});
+
+// Vector handwritten signature: SVG path data in a drawing area of the given size (y pointing down).
+// Pen strokes are stroked, glyph outlines of a typed name are filled
+export const signatureDrawingSchema = z.object({
+  width: z.number().positive().max(2000),
+  height: z.number().positive().max(2000),
+  paths: z.array(z.object({
+    d: z.string().max(20000).regex(/^[MLHVCSQTZmlhvcsqtz0-9.,\s+-]+$/),
+    fill: z.boolean(),
+    strokeWidth: z.number().positive().max(50).optional(),
+  })).min(1).max(500),
+});
+
+// Handwritten signature as saved from the signature pad
+export const userSignatureInputSchema = z.object({
+  kind: z.enum(["drawn", "typed"]),
+  typedName: z.string().trim().min(1).max(80).optional(),
+  drawing: signatureDrawingSchema,
+});
+
+// Stamp profile as submitted by the client (the company comes from the session)
+export const stampProfileInputSchema = stampLayoutSchema.extend({
+  name: z.string().trim().min(1).max(80),
+});
+
+// Layout used when no profile is chosen
+export const DEFAULT_STAMP_LAYOUT: z.infer<typeof stampLayoutSchema> = {
+  template: "BeaverDoc: P{page}/{total} | UID:{uid:8} | Token:{token:8}",
+  position: "bottom-right",
+  marginX: 10,
+  marginY: 20,
+  rotateLandscape: false,
+  fontSize: 6,
+  textColor: "#4d4d4d",
+  backgroundColor: "#ffffff",
+  opacity: 0.9,
+  backgroundOpacity: 0.7,
+  pages: "all",
+};
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type Company = typeof companies.$inferSelect;
+export type InsertCompany = z.infer<typeof insertCompanySchema>;
+export type CompanyBranding = z.infer<typeof companyBrandingSchema>;
+
 export type Document = typeof documents.$inferSelect;
+// Document as returned by the JSON API: metadata only, the bytes are served by /api/documents/:id/content
+export type DocumentMetadata = Document;
+// Document as returned by GET /api/documents/:id, with the inclusion proof of its current version
+export type DocumentDetails = DocumentMetadata & { inclusionProof: InclusionProof | null };
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+// Version as listed by the JSON API: metadata only, the bytes are served by /api/documents/:id/versions/:versionId/content
+export type DocumentVersionMetadata = DocumentVersion;
+export type DocumentVersionEntry = DocumentVersionMetadata & { creatorName: string | null };
+export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+export type VersionReason = "upload" | "replace" | "signature";
+
+export type DocumentRendition = typeof documentRenditions.$inferSelect;
+export type InsertDocumentRendition = z.infer<typeof insertDocumentRenditionSchema>;
+export type RenditionKind = "stamped";
+
+export type StoredBlob = typeof blobs.$inferSelect;
+export type DataKey = typeof dataKeys.$inferSelect;
+export type InsertDataKey = z.infer<typeof insertDataKeySchema>;
+
+export type StampPosition = z.infer<typeof stampPositionSchema>;
+export type QrStampSettings = z.infer<typeof qrStampSettingsSchema>;
+export type StampLayout = z.infer<typeof stampLayoutSchema>;
+
+export type StampProfile = typeof stampProfiles.$inferSelect;
+export type InsertStampProfile = z.infer<typeof insertStampProfileSchema>;
+
+export type SignatureStatus = "draft" | "awaiting_signatures" | "completed" | "declined";
+export type ScanStatus = "not_scanned" | "pending" | "clean" | "infected" | "failed";
+export type SignatureRequestMode = "sequential" | "parallel";
+export type SignatureRequestStatus = "awaiting" | "completed" | "declined" | "cancelled";
+export type SignerStatus = "pending" | "signed" | "declined";
+
+export type SignatureRequest = typeof signatureRequests.$inferSelect;
+export type InsertSignatureRequest = z.infer<typeof insertSignatureRequestSchema>;
+export type SignatureRequestInput = z.infer<typeof signatureRequestInputSchema>;
+export type SignatureRequestSigner = typeof signatureRequestSigners.$inferSelect;
+export type InsertSignatureRequestSigner = z.infer<typeof insertSignatureRequestSignerSchema>;
+export type DocumentSignature = typeof documentSignatures.$inferSelect;
+export type InsertDocumentSignature = z.infer<typeof insertDocumentSignatureSchema>;
+export type SignatureField = typeof signatureFields.$inferSelect;
+export type InsertSignatureField = z.infer<typeof insertSignatureFieldSchema>;
+export type SignatureFieldInput = z.infer<typeof signatureFieldInputSchema>;
+export type UserSignature = typeof userSignatures.$inferSelect;
+export type InsertUserSignature = z.infer<typeof insertUserSignatureSchema>;
+export type SignatureDrawing = z.infer<typeof signatureDrawingSchema>;
+export type UserSignatureInput = z.infer<typeof userSignatureInputSchema>;
+
+export type TimestampToken = typeof timestampTokens.$inferSelect;
+export type InsertTimestampToken = z.infer<typeof insertTimestampTokenSchema>;
+export type TimestampKind = "content" | "signature";
+
+// Result of the verification of an RFC 3161 timestamp token against the hash it should cover
+export type TimestampVerification = {
+  valid: boolean;
+  // Time certified by the authority (genTime), ISO 8601
+  time: string | null;
+  authority: string | null;
+  serialNumber: string | null;
+  policy: string | null;
+  // Why the token was rejected, null when valid
+  error: string | null;
+};
+
+// Stored timestamp token with its verification, as listed with the audit trail
+export type TimestampEntry = TimestampToken & { verification: TimestampVerification };
+
+export type MerkleAnchor = typeof merkleAnchors.$inferSelect;
+export type InsertMerkleAnchor = z.infer<typeof insertMerkleAnchorSchema>;
+export type MerkleLeaf = typeof merkleLeaves.$inferSelect;
+export type InsertMerkleLeaf = z.infer<typeof insertMerkleLeafSchema>;
+export type MerkleLeafKind = "version" | "rendition" | "audit_log";
+
+// Hash recorded in the registry and not anchored yet
+export type MerkleLeafSource = Pick<MerkleLeaf, "kind" | "sourceId" | "documentId" | "hash">;
+
+// Sibling hash met on the way from a leaf to the root, on the left or right of the running hash
+export type MerkleProofStep = {
+  position: "left" | "right";
+  hash: string;
+};
+
+// Proof that a hash is included in an anchored Merkle root, checkable offline:
+// leafHash = SHA-256(0x00 || "kind:documentId:sourceId:hash"), node = SHA-256(0x01 || left || right)
+export type InclusionProof = {
+  algorithm: "sha256-rfc6962";
+  leaf: MerkleLeafSource;
+  leafHash: string;
+  path: MerkleProofStep[];
+  root: string;
+  anchorId: number;
+  leafCount: number;
+  anchoredAt: string;
+  // RFC 3161 token of the root (DER, base64), null when the root was not timestamped
+  timestampToken: string | null;
+};
+
+// Saved handwritten signature as returned to its owner, with the drawing parsed
+export type UserSignatureEntry = Omit<UserSignature, "drawing"> & { drawing: SignatureDrawing };
+
+// Signature field with its signer, as shown in the viewer
+export type SignatureFieldEntry = SignatureField & { signerName: string | null; signerEmail: string | null };
+
+// Signature request with its signers, as shown to the document's users
+export type SignatureRequestEntry = SignatureRequest & {
+  creatorName: string | null;
+  signers: (SignatureRequestSigner & { name: string | null; email: string | null; isTurn: boolean })[];
+};
+
+// Signer task awaiting the current user
+export type SignatureTask = {
+  signerId: number;
+  request: SignatureRequest;
+  document: { id: number; name: string; uid: string };
+  requestedBy: string | null;
+};
+
+export type QuarantinedUpload = typeof quarantinedUploads.$inferSelect;
+export type InsertQuarantinedUpload = z.infer<typeof insertQuarantinedUploadSchema>;
+export type QuarantineStatus = "quarantined" | "released" | "purged";
+
 export type DocumentShare = typeof documentShares.$inferSelect;
 export type InsertDocumentShare = z.infer<typeof insertDocumentShareSchema>;
 
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+
+// Signer shown by the public verification
+export type VerificationSigner = {
+  name: string;
+  certificateSubject: string;
+  certificateFingerprint: string;
+  signedAt: string;
+  // Signature timestamp embedded in the CMS, null for signatures made before timestamping
+  timestamp: TimestampVerification | null;
+};
+
+// Public verification result (no document content)
+export type VerificationSummary = {
+  registered: true;
+  uid: string;
+  status: "registered" | "signed";
+  contentType: string;
+  size: string | null;
+  // Hash of the copy issued by BeaverDoc (signed, stamped, or the original)
+  contentHash: string | null;
+  originalHash: string | null;
+  // Timestamp of the content hash, null when it was not timestamped
+  contentTimestamp: TimestampVerification | null;
+  createdAt: string;
+  updatedAt: string;
+  // Latest signature of a signed document
+  signer: VerificationSigner | null;
+  // Every signature applied to the document, oldest first
+  signatures: VerificationSigner[];
+};
+
+// Verdict for a PDF submitted to the public file verification endpoint
+export type FileVerificationVerdict =
+  | "authentic"
+  | "modified_after_stamping"
+  | "unknown_uid"
+  | "metadata_stripped";
+
+export type FileVerificationResult = {
+  verdict: FileVerificationVerdict;
+  fileHash: string;
+  // Identifiers read from the PDF metadata (Subject/Keywords)
+  embedded: {
+    uid: string | null;
+    token: string | null;
+    hash: string | null;
+  };
+  // Detailed checks, only when the document is registered
+  checks: {
+    tokenMatches: boolean;
+    embeddedHashKnown: boolean;
+    matchesIssuedCopy: boolean;
+  } | null;
+  // Timestamps of the signatures embedded in the file, in signing order (untimestamped signatures are skipped)
+  signatureTimestamps: TimestampVerification[];
+  document: VerificationSummary | null;
+};
+
+// Word-level comparison of two document versions, page by page
+export type DiffSegment = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+export type PageDiff = {
+  page: number;
+  // "added"/"removed" when the page only exists in the newer/older version
+  status: "unchanged" | "changed" | "added" | "removed";
+  segments: DiffSegment[];
+};
+
+export type VersionDiff = {
+  documentId: number;
+  from: DocumentVersionMetadata;
+  to: DocumentVersionMetadata;
+  pages: PageDiff[];
+  stats: {
+    addedWords: number;
+    removedWords: number;
+    changedPages: number;
+  };
+};
+
+// Audit hash chain verification
+export type AuditChainIssue = {
+  logId: number;
+  type: "gap" | "duplicate" | "broken_link" | "tampered" | "unsealed";
+  message: string;
+};
+
+export type AuditChainStatus = {
+  valid: boolean;
+  entries: number;
+  headHash: string | null;
+  issues: AuditChainIssue[];
+};
+
+export type AuditChainReport = {
+  documentId: number;
+  valid: boolean;
+  verifiedAt: string;
+  // Chain of this document's entries
+  document: AuditChainStatus;
+  // Global chain; only issues on this document's entries are listed
+  global: AuditChainStatus;
+};
+
+// Active or external content found by the PDF sanitizer in the object graph of an upload
+export type PdfThreatKind = "javascript" | "launch" | "embedded_file" | "xfa" | "external_uri" | "encryption";
+
+// What the upload policy does with a kind of content: refuse the file, remove the item, or keep and report it
+export type PdfThreatAction = "reject" | "strip" | "allow";
+
+export type PdfSecurityPolicy = Record<PdfThreatKind, PdfThreatAction>;
+
+export type PdfThreat = {
+  kind: PdfThreatKind;
+  // Where the item was found (catalog entry, page annotation, name tree, object number)
+  location: string;
+  // Script excerpt, URI, file name... null when unreadable (encrypted file)
+  detail: string | null;
+  action: PdfThreatAction;
+};
+
+export type PdfSecurityReport = {
+  threats: PdfThreat[];
+  // Whether stripped items were removed and the file rewritten
+  sanitized: boolean;
+};
+
+// Quarantined upload as listed to administrators
+export type QuarantineEntry = Omit<QuarantinedUpload, "storageKey" | "report" | "status"> & {
+  status: QuarantineStatus;
+  userName: string | null;
+  resolvedByName: string | null;
+  report: PdfSecurityReport | null;
+};